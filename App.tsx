@@ -1,9 +1,34 @@
 
-import React, { useState, useEffect, useRef, useMemo } from 'react';
-import { ICONS, MOCK_DATA, MOCK_USERS } from './constants';
-import { Seal, SealStatus, FilterOptions, MovementHistory, User, UserRole, AppSettings } from './types';
+import React, { useState, useEffect, useRef, useMemo, useCallback } from 'react';
+import { ICONS } from './constants';
+import { Seal, SealLot, SealTransfer, TransferStatus, CycleCount, CycleCountStatus, Shipment, ShipmentStatus, StockThreshold, SealStatus, FilterOptions, DateFilterField, MovementHistory, MovementAttachment, User, UserRole, AppSettings, Permission, RolePermissionMap, SyncState, AuditEntry, AuditAction, AnomalyRuleId, AnomalyRules, SealAlert, AlertReview, AlertReviewStatus, ReportTemplate, ReportKind, ReportGrouping, ReportPeriodPreset, ReportSchedule, GeneratedReport, RestoreMode } from './types';
+import { SealLifecycle } from './services/sealLifecycle';
+import { MovementDetails } from './services/movementDetails';
+import { Dates, TIME_ZONES, DEFAULT_TIME_ZONE } from './services/dates';
+import { SealLots, RangeSpec, MAX_RANGE_SIZE } from './services/lots';
+import { Scanner } from './services/scanner';
+import { Documents } from './services/documents';
+import { SealTransfers, TransferDispatch } from './services/transfers';
+import { StockLevels, StockLevel } from './services/stock';
+import { CycleCounts, CountDiscrepancy } from './services/cycleCounts';
+import { SealIdentity } from './services/identity';
+import { SealStore } from './services/storage';
+import { Attachments, PreparedAttachment, ATTACHMENT_ACCEPT, MAX_ATTACHMENTS, EVIDENCE_STATUSES } from './services/attachments';
+import { BackupService, BackupReadResult, RESTORE_MODE_LABELS, BACKUP_VERSION } from './services/backup';
+import { SealQueries, SealPage, SealSort, SealSortField, SEAL_SORT_LABELS, SEAL_PAGE_SIZE, DEFAULT_SEAL_SORT } from './services/sealQuery';
+import { Shipments, ShipmentDraft, SHIPMENT_STATUSES, SHIPMENT_STATUS_LABELS } from './services/shipments';
+import { Anomalies, ANOMALY_RULE_LABELS } from './services/anomalies';
+import { DashboardStats, DashboardRange, DashboardAggregates } from './services/analytics';
+import { SealReplay } from './services/replay';
+import { Reports, REPORT_COLUMNS, REPORT_KIND_LABELS, REPORT_GROUPING_LABELS, REPORT_PERIOD_LABELS, REPORT_SCHEDULE_LABELS, REPORT_PRESETS } from './services/reports';
+import { SealImporter, IMPORT_FIELDS, ImportField, ImportMapping, ImportSheet } from './services/importer';
+import { AuthService, MIN_PASSWORD_LENGTH } from './services/auth';
+import { ApiService, BackupData } from './services/api';
+import { SyncQueue, SubmitResult } from './services/syncQueue';
+import { AUDIT_ACTION_LABELS } from './services/audit';
+import { can, canMoveAny, canMoveTo, setRolePermissions, getRolePermissions, PERMISSION_CATALOGUE, ROLE_LABELS } from './services/permissions';
 import * as XLSX from 'xlsx';
-import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, XAxis, YAxis, Tooltip, Legend } from 'recharts';
+import { PieChart, Pie, Cell, ResponsiveContainer, BarChart, Bar, LineChart, Line, CartesianGrid, XAxis, YAxis, Tooltip, Legend } from 'recharts';
 
 // --- HELPERS ---
 
@@ -23,6 +48,8 @@ const getStatusStyles = (status: SealStatus) => {
       return "bg-gray-100 text-gray-700 border-gray-300 icon-bg-gray-500 text-gray-600";
     case SealStatus.DESTRUIDO:
       return "bg-red-50 text-red-800 border-red-200 icon-bg-red-500 text-red-600";
+    case SealStatus.EN_TRANSITO:
+      return "bg-violet-50 text-violet-800 border-violet-200 icon-bg-violet-500 text-violet-600";
     default:
       return "bg-slate-100 text-slate-800 border-slate-200 icon-bg-slate-500 text-slate-600";
   }
@@ -37,6 +64,7 @@ const getStatusColorHex = (status: SealStatus) => {
     case SealStatus.NO_INSTALADO: return "#a8a29e";
     case SealStatus.SALIDA_FABRICA: return "#64748b";
     case SealStatus.DESTRUIDO: return "#ef4444";
+    case SealStatus.EN_TRANSITO: return "#8b5cf6";
     default: return "#94a3b8";
   }
 };
@@ -50,6 +78,7 @@ const getStatusIconColor = (status: SealStatus) => {
     case SealStatus.NO_INSTALADO: return "bg-stone-400";
     case SealStatus.SALIDA_FABRICA: return "bg-gray-500";
     case SealStatus.DESTRUIDO: return "bg-red-500";
+    case SealStatus.EN_TRANSITO: return "bg-violet-500";
     default: return "bg-slate-500";
   }
 };
@@ -63,10 +92,26 @@ const getStatusTextColor = (status: SealStatus) => {
     case SealStatus.NO_INSTALADO: return "text-stone-600";
     case SealStatus.SALIDA_FABRICA: return "text-gray-600";
     case SealStatus.DESTRUIDO: return "text-red-600";
+    case SealStatus.EN_TRANSITO: return "text-violet-600";
     default: return "text-slate-600";
   }
 };
 
+const getTransitionButtonClass = (status: SealStatus) => {
+  switch (status) {
+    case SealStatus.ASIGNADO: return "bg-sky-600";
+    case SealStatus.ENTREGADO: return "bg-amber-600";
+    case SealStatus.INSTALADO: return "bg-orange-600";
+    case SealStatus.NO_INSTALADO: return "bg-stone-500";
+    case SealStatus.SALIDA_FABRICA: return "bg-gray-500";
+    case SealStatus.DESTRUIDO: return "bg-red-600";
+    default: return "bg-custom-blue";
+  }
+};
+
+// Contraseña asignada por un administrador: el backend la guarda como hash y exige cambiarla al ingresar
+const temporaryCredentials = (password: string): Partial<User> => ({ password, mustChangePassword: true, failedAttempts: 0, lockedUntil: null });
+
 // --- COLOR HELPERS ---
 
 const darkenColor = (hex: string, amount: number) => {
@@ -94,60 +139,99 @@ const exportToExcel = (data: any[], fileName: string) => {
   XLSX.writeFile(wb, `${fileName}.xlsx`);
 };
 
+// Descarga un libro XLSX recibido en base64 (informes generados por el backend)
+const downloadBase64 = (data: string, fileName: string) => {
+  const bytes = Uint8Array.from(atob(data), c => c.charCodeAt(0));
+  const url = URL.createObjectURL(new Blob([bytes], { type: 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
 // --- COMPONENTS ---
 
-const DashboardView: React.FC<{ seals: Seal[]; user: User; cities: string[] }> = ({ seals, user, cities }) => {
-  const citySeals = seals.filter(s => s.city === user.city);
+const EMPTY_FILTERS: FilterOptions = { idSello: '', estado: '', tipo: 'Todos', fechaInicio: '', fechaFin: '', fechaCampo: 'ultimoMovimiento', estadoMovimiento: '' };
+
+const DashboardView: React.FC<{ seals: Seal[]; aggregates: DashboardAggregates; user: User; cities: string[]; stockAlerts: StockLevel[]; onDrillDown: (filters: Partial<FilterOptions>) => void }> = ({ seals, aggregates, user, cities, stockAlerts, onDrillDown }) => {
+  const crossCity = can(user, 'report.crossCity');
+  // Sin permiso multisede el tablero queda fijo en la sede del usuario
+  const [scopeCity, setScopeCity] = useState(crossCity ? '' : user.city);
+  const [range, setRange] = useState<DashboardRange>(() => DashboardStats.defaultRange());
+  const [asOf, setAsOf] = useState(''); // Corte histórico del inventario ('' = estado actual)
+  const scopeCities = useMemo(() => scopeCity ? [scopeCity] : cities, [scopeCity, cities]);
+  const activeSeals = useMemo(() => seals.filter(s => !s.deletedAt), [seals]);
+  // Foto del inventario: actual o reconstruida desde el historial (incluye precintos eliminados después del corte)
+  const stockSeals = useMemo(() => asOf ? SealReplay.asOf(seals, Dates.endOfDay(asOf)) : activeSeals, [seals, activeSeals, asOf]);
+  const citySeals = useMemo(() => scopeCity ? stockSeals.filter(s => s.city === scopeCity) : stockSeals, [stockSeals, scopeCity]);
+  // Los conteos actuales vienen precalculados; solo el corte histórico se cuenta completo
+  const stock = useMemo(() => asOf ? DashboardStats.countStock(stockSeals) : aggregates.stock, [asOf, stockSeals, aggregates]);
+  const totals = useMemo(() => DashboardStats.stockTotals(stock, scopeCity ? [scopeCity] : Array.from(stock.keys())), [stock, scopeCity]);
   
   const stats = useMemo(() => {
+    const count = (...statuses: SealStatus[]) => statuses.reduce((sum, status) => sum + (totals[status] || 0), 0);
     return {
-      total: citySeals.length,
-      available: citySeals.filter(s => s.status === SealStatus.ENTRADA_INVENTARIO || s.status === SealStatus.NO_INSTALADO).length,
-      assigned: citySeals.filter(s => s.status === SealStatus.ASIGNADO || s.status === SealStatus.ENTREGADO).length,
-      finalized: citySeals.filter(s => s.status === SealStatus.INSTALADO || s.status === SealStatus.SALIDA_FABRICA).length,
-      destroyed: citySeals.filter(s => s.status === SealStatus.DESTRUIDO).length,
+      total: count(...Object.values(SealStatus)),
+      available: count(SealStatus.ENTRADA_INVENTARIO, SealStatus.NO_INSTALADO),
+      assigned: count(SealStatus.ASIGNADO, SealStatus.ENTREGADO),
+      finalized: count(SealStatus.INSTALADO, SealStatus.SALIDA_FABRICA),
+      destroyed: count(SealStatus.DESTRUIDO),
     };
-  }, [citySeals]);
+  }, [totals]);
 
-  const pieData = useMemo(() => {
-    const counts: Record<string, number> = {};
-    citySeals.forEach(s => {
-      counts[s.status] = (counts[s.status] || 0) + 1;
-    });
-    return Object.entries(counts).map(([name, value]) => ({ name: name.replace('_', ' '), value, rawName: name }));
-  }, [citySeals]);
+  const pieData = useMemo(() => Object.entries(totals).map(([name, value]) => ({ name: name.replace('_', ' '), value, rawName: name })), [totals]);
 
-  const cityData = useMemo(() => {
-    return cities.map(city => ({
-      name: city,
-      cantidad: seals.filter(s => s.city === city).length
-    }));
-  }, [seals, cities]);
+  const cityData = useMemo(() => DashboardStats.statusByCity(stock, cities), [stock, cities]);
+  const closing = useMemo(() => SealReplay.compare(seals, scopeCities, SealReplay.openingOf(range.from), Dates.endOfDay(range.to)), [seals, scopeCities, range]);
+  const dailyData = useMemo(() => DashboardStats.dailyActivity(aggregates, range, scopeCities), [aggregates, range, scopeCities]);
+  const destructionData = useMemo(() => DashboardStats.destructionRates(aggregates, range, scopeCities), [aggregates, range, scopeCities]);
+  const operatorData = useMemo(() => DashboardStats.topOperators(aggregates, range, scopeCities), [aggregates, range, scopeCities]);
+  const totalDestroyed = destructionData.reduce((sum, d) => sum + d.destruidos, 0);
+  const totalConsumed = destructionData.reduce((sum, d) => sum + d.destruidos + d.instalados, 0);
 
   const recentMovements = useMemo(() => {
-    return seals
+    return citySeals
       .flatMap(s => s.history.map(h => ({ ...h, sealId: s.id, city: s.city })))
-      .filter(m => user.role === UserRole.ADMIN || m.city === user.city)
-      .sort((a, b) => new Date(b.date).getTime() - new Date(a.date).getTime())
+      .sort((a, b) => b.date.localeCompare(a.date))
       .slice(0, 5);
-  }, [seals, user]);
+  }, [citySeals]);
+
+  const drillDown = (filters: Partial<FilterOptions>) => onDrillDown({ ciudad: scopeCity, alCorte: asOf, ...filters });
+  const chartTooltip = { borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)', fontWeight: 'bold' as const };
+  const axisTick = { fontSize: 10, fontWeight: 'bold' };
+  const inputClass = "border border-slate-200 bg-slate-50 rounded-xl px-3 py-2 text-[11px] font-black text-custom-blue uppercase outline-none";
 
   return (
     <div className="space-y-10 animate-in fade-in duration-700">
       <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
         <div>
-          <h3 className="text-3xl font-black text-custom-blue uppercase tracking-tighter italic">Dashboard de Operaciones</h3>
-          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Estadísticas en Tiempo Real - Sede: <span className="text-custom-blue">{user.city}</span></p>
+          <h3 className="text-3xl font-black text-custom-blue uppercase tracking-tighter italic">{crossCity ? 'Dashboard Consolidado' : 'Dashboard de Operaciones'}</h3>
+          <p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">{asOf ? <>Inventario reconstruido al <span className="text-amber-600">{Dates.formatDate(asOf)}</span></> : 'Estadísticas en Tiempo Real'} - Sede: <span className="text-custom-blue">{scopeCity || 'Todas las sedes'}</span></p>
         </div>
-        <div className="bg-white px-6 py-3 rounded-2xl shadow-sm border border-slate-200 flex items-center gap-4">
-          <div className="text-right">
-            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Estado Global</p>
-            <p className="text-sm font-black text-custom-blue uppercase tracking-tighter">ACTIVA</p>
-          </div>
-          <div className="w-2.5 h-2.5 bg-green-500 rounded-full animate-pulse"></div>
+        <div className="bg-white px-5 py-3 rounded-2xl shadow-sm border border-slate-200 flex flex-wrap items-center gap-3">
+          {crossCity && <select className={inputClass} value={scopeCity} onChange={e => setScopeCity(e.target.value)}><option value="">Todas las sedes</option>{cities.map(c => <option key={c} value={c}>{c}</option>)}</select>}
+          <input type="date" className={inputClass} value={range.from} max={range.to} onChange={e => e.target.value && setRange({ ...range, from: e.target.value })} />
+          <span className="text-[9px] font-black text-slate-400 uppercase">a</span>
+          <input type="date" className={inputClass} value={range.to} min={range.from} onChange={e => e.target.value && setRange({ ...range, to: e.target.value })} />
+          <span className="text-[9px] font-black text-slate-400 uppercase ml-2">Al corte</span>
+          <input type="date" className={inputClass} value={asOf} max={Dates.toDay(Dates.now())} onChange={e => setAsOf(e.target.value)} />
+          {asOf && <button onClick={() => setAsOf('')} className="text-[9px] font-black text-custom-blue uppercase hover:underline">Hoy</button>}
         </div>
       </div>
 
+      {stockAlerts.length > 0 && (
+        <div className={`rounded-3xl border-2 p-6 space-y-3 ${stockAlerts.some(a => a.severity === 'critical') ? 'bg-red-50 border-red-200' : 'bg-amber-50 border-amber-200'}`}>
+          <p className={`text-[10px] font-black uppercase tracking-widest ${stockAlerts.some(a => a.severity === 'critical') ? 'text-red-700' : 'text-amber-700'}`}>Alerta de Inventario Bajo ({stockAlerts.length})</p>
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-3 gap-3">{stockAlerts.map(a => (
+            <div key={`${a.city}-${a.type}`} className="bg-white rounded-2xl border border-slate-200 px-4 py-3 flex justify-between items-center">
+              <div><p className="text-[11px] font-black text-slate-800 uppercase">{a.type} · {a.city}</p><p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Mín. {a.threshold.minimum} · Repos. {a.threshold.reorder} · {a.daysOfStock === null ? 'sin consumo reciente' : `~${a.daysOfStock} día(s) de stock`}</p></div>
+              <span className={`text-xl font-black ${a.severity === 'critical' ? 'text-red-600' : 'text-amber-600'}`}>{a.available}</span>
+            </div>
+          ))}</div>
+        </div>
+      )}
+
       {/* KPI Cards */}
       <div className="grid grid-cols-1 sm:grid-cols-2 lg:grid-cols-5 gap-6">
         {[
@@ -182,6 +266,8 @@ const DashboardView: React.FC<{ seals: Seal[]; user: User; cities: string[] }> =
                   outerRadius={80}
                   paddingAngle={5}
                   dataKey="value"
+                  className="cursor-pointer"
+                  onClick={entry => drillDown({ estado: entry.rawName })}
                 >
                   {pieData.map((entry, index) => (
                     <Cell key={`cell-${index}`} fill={getStatusColorHex(entry.rawName as SealStatus)} />
@@ -200,7 +286,7 @@ const DashboardView: React.FC<{ seals: Seal[]; user: User; cities: string[] }> =
         <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
           <div className="flex justify-between items-center mb-8">
             <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Últimos Movimientos</h4>
-            <div className="bg-slate-100 px-3 py-1 rounded-full text-[9px] font-black text-slate-500">TIEMPO REAL</div>
+            <div className="bg-slate-100 px-3 py-1 rounded-full text-[9px] font-black text-slate-500">{asOf ? `AL ${Dates.formatDate(asOf)}` : 'TIEMPO REAL'}</div>
           </div>
           <div className="space-y-4">
             {recentMovements.length > 0 ? recentMovements.map((move, i) => (
@@ -208,10 +294,10 @@ const DashboardView: React.FC<{ seals: Seal[]; user: User; cities: string[] }> =
                 <div className={`w-2 h-10 rounded-full ${getStatusIconColor(move.toStatus)}`}></div>
                 <div className="flex-1">
                   <div className="flex justify-between items-start">
-                    <p className="text-[11px] font-black text-custom-blue uppercase">Sello {move.sealId}</p>
-                    <p className="text-[9px] font-bold text-slate-400 font-mono">{move.date.split(' ')[0]}</p>
+                    <p className="text-[11px] font-black text-custom-blue uppercase">Sello {move.sealId}{!scopeCity && <span className="text-slate-400"> · {move.city}</span>}</p>
+                    <p className="text-[9px] font-bold text-slate-400 font-mono">{Dates.formatDate(move.date)}</p>
                   </div>
-                  <p className="text-[10px] text-slate-600 font-medium italic line-clamp-1">{move.details}</p>
+                  <p className="text-[10px] text-slate-600 font-medium italic line-clamp-1">{MovementDetails.summarize(move)}</p>
                 </div>
                 <div className="text-right">
                   <span className={`text-[8px] font-black uppercase px-2 py-0.5 rounded border ${getStatusStyles(move.toStatus).split('icon-bg-')[0]}`}>
@@ -229,37 +315,190 @@ const DashboardView: React.FC<{ seals: Seal[]; user: User; cities: string[] }> =
         </div>
       </div>
 
-      {user.role === UserRole.ADMIN && (
+      {/* Movimientos por Día */}
+      <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+        <div className="flex justify-between items-center mb-8">
+          <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Movimientos por Día</h4>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{dailyData.reduce((sum, d) => sum + d.altas + d.movimientos, 0)} registros en el periodo · clic en un día para ver los precintos</p>
+        </div>
+        <div className="h-[280px] w-full">
+          <ResponsiveContainer width="100%" height="100%">
+            <LineChart data={dailyData} onClick={state => state?.activeLabel && drillDown({ fechaCampo: 'movimiento', fechaInicio: state.activeLabel, fechaFin: state.activeLabel, alCorte: '' })} className="cursor-pointer">
+              <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+              <XAxis dataKey="day" axisLine={false} tickLine={false} tick={axisTick} tickFormatter={(day: string) => day.slice(5)} />
+              <YAxis axisLine={false} tickLine={false} tick={axisTick} allowDecimals={false} />
+              <Tooltip contentStyle={chartTooltip} />
+              <Legend wrapperStyle={{ fontSize: '10px', fontWeight: 'bold', textTransform: 'uppercase' }} />
+              <Line type="monotone" dataKey="movimientos" stroke="var(--color-primary)" strokeWidth={2} dot={false} />
+              <Line type="monotone" dataKey="altas" stroke="#10b981" strokeWidth={2} dot={false} />
+            </LineChart>
+          </ResponsiveContainer>
+        </div>
+      </div>
+
+      <div className="grid grid-cols-1 lg:grid-cols-2 gap-10">
+        {/* Tasa de Destrucción */}
+        <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+          <div className="flex justify-between items-center mb-8">
+            <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Tasa de Destrucción</h4>
+            <p className="text-xl font-black text-red-600 italic">{totalConsumed > 0 ? `${Math.round((totalDestroyed / totalConsumed) * 1000) / 10}%` : '-'}</p>
+          </div>
+          <div className="h-[260px] w-full">
+            <ResponsiveContainer width="100%" height="100%">
+              <BarChart data={destructionData}>
+                <XAxis dataKey="city" axisLine={false} tickLine={false} tick={axisTick} />
+                <YAxis axisLine={false} tickLine={false} tick={axisTick} unit="%" domain={[0, 100]} />
+                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={chartTooltip} formatter={(value, _name, item) => [`${value}% (${item.payload.destruidos} de ${item.payload.destruidos + item.payload.instalados})`, 'Destruidos']} />
+                <Bar dataKey="tasa" fill="#ef4444" radius={[6, 6, 0, 0]} className="cursor-pointer" onClick={data => onDrillDown({ ciudad: data.city, estado: SealStatus.DESTRUIDO, fechaCampo: 'movimiento', estadoMovimiento: SealStatus.DESTRUIDO, fechaInicio: range.from, fechaFin: range.to })} />
+              </BarChart>
+            </ResponsiveContainer>
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">Destruidos sobre precintos consumidos (instalados + destruidos) en el periodo.</p>
+        </div>
+
+        {/* Operadores con Mayor Volumen */}
+        <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+          <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest mb-8 border-l-4 border-custom-blue pl-4">Operadores con Mayor Volumen</h4>
+          <div className="h-[260px] w-full">
+            {operatorData.length > 0 ? (
+              <ResponsiveContainer width="100%" height="100%">
+                <BarChart data={operatorData} layout="vertical" margin={{ left: 20 }}>
+                  <XAxis type="number" axisLine={false} tickLine={false} tick={axisTick} allowDecimals={false} />
+                  <YAxis type="category" dataKey="operator" axisLine={false} tickLine={false} tick={{ fontSize: 9, fontWeight: 'bold' }} width={120} />
+                  <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={chartTooltip} />
+                  <Bar dataKey="movimientos" fill="var(--color-primary)" radius={[0, 6, 6, 0]} />
+                </BarChart>
+              </ResponsiveContainer>
+            ) : <div className="h-full flex items-center justify-center text-xs font-bold text-slate-300 uppercase tracking-widest italic">Sin movimientos en el periodo</div>}
+          </div>
+        </div>
+      </div>
+
+      {/* Cierre del Periodo */}
+      <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
+        <div className="flex justify-between items-center mb-6">
+          <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Cierre de Inventario del Periodo</h4>
+          <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Disponible del {Dates.formatDate(range.from)} al {Dates.formatDate(range.to)}</p>
+        </div>
+        <div className="overflow-x-auto">
+          <table className="w-full text-left text-[10px]">
+            <thead className="border-b border-slate-100 text-slate-400 font-black uppercase tracking-widest"><tr><th className="px-3 py-2">Sede</th><th className="px-3 py-2 text-right">Inicial</th><th className="px-3 py-2 text-right text-emerald-600">+ Registrados</th><th className="px-3 py-2 text-right text-emerald-600">+ Recibidos</th><th className="px-3 py-2 text-right text-emerald-600">+ Devueltos</th><th className="px-3 py-2 text-right text-sky-600">− Despachados</th><th className="px-3 py-2 text-right text-orange-600">− Consumidos</th><th className="px-3 py-2 text-right text-red-600">− Destruidos</th><th className="px-3 py-2 text-right text-red-600">− Bajas</th><th className="px-3 py-2 text-right text-custom-blue">Final</th></tr></thead>
+            <tbody className="divide-y divide-slate-50 font-bold text-slate-700">{closing.map(row => <tr key={row.city}><td className="px-3 py-2 uppercase text-custom-blue font-black">{row.city}</td><td className="px-3 py-2 text-right">{row.opening}</td><td className="px-3 py-2 text-right">{row.registered}</td><td className="px-3 py-2 text-right">{row.received}</td><td className="px-3 py-2 text-right">{row.returned}</td><td className="px-3 py-2 text-right">{row.dispatched}</td><td className="px-3 py-2 text-right">{row.consumed}</td><td className="px-3 py-2 text-right">{row.destroyed}</td><td className="px-3 py-2 text-right">{row.removed}</td><td className="px-3 py-2 text-right font-black text-custom-blue">{row.closing}</td></tr>)}</tbody>
+          </table>
+        </div>
+        <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">Disponible = en inventario o no instalado. Consumidos = salidas del disponible a la operación (asignación, entrega o instalación); devueltos = regresos al disponible.</p>
+      </div>
+
+      {crossCity && (
         <div className="bg-white p-8 rounded-3xl border border-slate-200 shadow-sm">
-          <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest mb-8 border-l-4 border-custom-blue pl-4">Inventario por Sede</h4>
-          <div className="h-[300px] w-full">
+          <div className="flex justify-between items-center mb-8">
+            <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Inventario por Sede y Estado</h4>
+            <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Clic en un tramo para abrir el inventario filtrado</p>
+          </div>
+          <div className="h-[320px] w-full">
             <ResponsiveContainer width="100%" height="100%">
               <BarChart data={cityData}>
-                <XAxis dataKey="name" axisLine={false} tickLine={false} tick={{ fontSize: 10, fontWeight: 'bold' }} />
-                <YAxis axisLine={false} tickLine={false} tick={{ fontSize: 10, fontWeight: 'bold' }} />
-                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={{ borderRadius: '12px', border: 'none', boxShadow: '0 4px 6px -1px rgba(0,0,0,0.1)' }} />
-                <Bar dataKey="cantidad" fill="var(--color-primary)" radius={[6, 6, 0, 0]} />
+                <XAxis dataKey="city" axisLine={false} tickLine={false} tick={axisTick} />
+                <YAxis axisLine={false} tickLine={false} tick={axisTick} allowDecimals={false} />
+                <Tooltip cursor={{ fill: '#f1f5f9' }} contentStyle={chartTooltip} />
+                <Legend wrapperStyle={{ fontSize: '10px', fontWeight: 'bold', textTransform: 'uppercase' }} />
+                {Object.values(SealStatus).map(status => <Bar key={status} dataKey={status} name={status.replace('_', ' ')} stackId="estado" fill={getStatusColorHex(status)} className="cursor-pointer" onClick={data => onDrillDown({ ciudad: data.city, estado: status, alCorte: asOf })} />)}
               </BarChart>
             </ResponsiveContainer>
           </div>
+          <div className="overflow-x-auto mt-6">
+            <table className="w-full text-left text-[10px]">
+              <thead className="border-b border-slate-100 text-slate-400 font-black uppercase tracking-widest"><tr><th className="px-3 py-2">Sede</th>{Object.values(SealStatus).map(status => <th key={status} className="px-3 py-2 text-right">{status.replace('_', ' ')}</th>)}<th className="px-3 py-2 text-right text-custom-blue">Total</th></tr></thead>
+              <tbody className="divide-y divide-slate-50 font-bold text-slate-700">{cityData.map(row => <tr key={row.city}><td className="px-3 py-2 uppercase text-custom-blue font-black">{row.city}</td>{Object.values(SealStatus).map(status => <td key={status} className="px-3 py-2 text-right">{row[status] ? <button onClick={() => onDrillDown({ ciudad: row.city, estado: status, alCorte: asOf })} className="hover:text-custom-blue hover:underline">{row[status]}</button> : <span className="text-slate-300">0</span>}</td>)}<td className="px-3 py-2 text-right font-black text-custom-blue">{row.total}</td></tr>)}</tbody>
+            </table>
+          </div>
         </div>
       )}
     </div>
   );
 };
 
+// Vista previa de la restauración: descifra, valida y muestra el resumen de cambios antes de aplicar
+const RestoreBackupModal: React.FC<{
+  fileName: string;
+  text: string;
+  current: BackupData;
+  onClose: () => void;
+  onApply: (data: BackupData, mode: RestoreMode) => Promise<void>;
+}> = ({ fileName, text, current, onClose, onApply }) => {
+  const [result, setResult] = useState<BackupReadResult | null>(null);
+  const [passphrase, setPassphrase] = useState('');
+  const [mode, setMode] = useState<RestoreMode>('replace');
+  const [isBusy, setIsBusy] = useState(false);
+  const plan = useMemo(() => result?.data ? BackupService.plan(current, result.data, mode) : null, [result, current, mode]);
+
+  useEffect(() => { BackupService.read(text).then(setResult); }, [text]);
+
+  const handleDecrypt = async (e: React.FormEvent) => { e.preventDefault(); setIsBusy(true); setResult(await BackupService.read(text, passphrase)); setIsBusy(false); };
+  const handleApply = async () => { if (!plan) return; setIsBusy(true); await onApply(plan.data, mode); setIsBusy(false); };
+  const errors = result?.errors || [];
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-2xl max-h-[90vh] overflow-y-auto border border-gray-200 animate-in zoom-in duration-200">
+        <div className="bg-emerald-600 px-6 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest">Restaurar Respaldo · {fileName}</h3><button onClick={onClose} className="hover:rotate-90 transition-transform">✕</button></div>
+        <div className="p-8 space-y-6">
+          {!result && <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center py-10">Verificando archivo...</p>}
+          {result?.needsPassphrase && (
+            <form onSubmit={handleDecrypt} className="space-y-3">
+              <p className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Respaldo cifrado: ingrese la contraseña con la que se generó</p>
+              <div className="flex gap-3"><input type="password" autoFocus className="flex-1 border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue outline-none focus:bg-white focus:ring-4 focus:ring-blue-100" value={passphrase} onChange={e => setPassphrase(e.target.value)} /><button type="submit" disabled={!passphrase || isBusy} className="bg-custom-blue text-white px-6 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Descifrar</button></div>
+            </form>
+          )}
+          {errors.length > 0 && (
+            <div className="bg-red-50 border border-red-200 rounded-2xl p-5 space-y-1.5">
+              <p className="text-[10px] font-black text-red-700 uppercase tracking-widest">{result?.needsPassphrase ? 'No fue posible descifrar' : 'El respaldo no puede restaurarse'}</p>
+              {errors.slice(0, 10).map((error, i) => <p key={i} className="text-[11px] font-bold text-red-800">{error}</p>)}
+              {errors.length > 10 && <p className="text-[10px] font-bold text-red-600">... y {errors.length - 10} error(es) más</p>}
+            </div>
+          )}
+          {result?.data && plan && (<>
+            <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{result.version === BACKUP_VERSION ? `Formato v${BACKUP_VERSION}` : `Respaldo v${result.version} migrado a v${BACKUP_VERSION}`}{result.exportedAt && <> · generado el {Dates.format(result.exportedAt)}</>}</p>
+            <div className="grid grid-cols-2 gap-3">{(Object.keys(RESTORE_MODE_LABELS) as RestoreMode[]).map(m => <button key={m} onClick={() => setMode(m)} className={`p-4 rounded-2xl border-2 text-left transition-all ${mode === m ? 'border-custom-blue bg-blue-50' : 'border-slate-200 hover:border-slate-300'}`}><p className="text-[11px] font-black text-custom-blue uppercase tracking-widest">{RESTORE_MODE_LABELS[m]}</p><p className="text-[10px] text-slate-500 font-medium mt-1">{m === 'replace' ? 'Las colecciones incluidas en el respaldo sustituyen a las actuales.' : 'Conserva lo actual, agrega lo nuevo y une los historiales de los precintos repetidos.'}</p></button>)}</div>
+            <table className="w-full text-left text-[11px]">
+              <thead className="text-[9px] font-black text-slate-400 uppercase tracking-widest border-b border-slate-100"><tr><th className="py-2">Colección</th><th className="py-2 text-right">Nuevos</th><th className="py-2 text-right">Modificados</th><th className="py-2 text-right">Eliminados</th><th className="py-2 text-right">Sin cambios</th></tr></thead>
+              <tbody className="divide-y divide-slate-100 font-bold text-slate-700">{plan.diff.map(d => d.included ? (
+                <tr key={d.label}><td className="py-2.5 font-black text-custom-blue uppercase text-[10px]">{d.label}</td><td className="py-2.5 text-right text-emerald-600">{d.added}</td><td className="py-2.5 text-right text-amber-600">{d.changed}</td><td className={`py-2.5 text-right ${d.removed > 0 ? 'text-red-600' : ''}`}>{d.removed}</td><td className="py-2.5 text-right text-slate-400">{d.unchanged}</td></tr>
+              ) : (
+                <tr key={d.label}><td className="py-2.5 font-black text-slate-400 uppercase text-[10px]">{d.label}</td><td colSpan={4} className="py-2.5 text-right text-[10px] text-slate-400 uppercase">No incluido · se conservan {d.unchanged}</td></tr>
+              ))}</tbody>
+            </table>
+            {mode === 'merge' && plan.combinedHistories > 0 && <p className="text-[10px] font-bold text-slate-500 uppercase tracking-widest">{plan.combinedHistories} precinto(s) con historial combinado</p>}
+            {plan.diff.some(d => d.removed > 0) && <p className="text-[10px] font-black text-red-600 uppercase tracking-widest">Atención: se eliminarán registros que no están en el respaldo</p>}
+          </>)}
+          <div className="flex gap-4 pt-2"><button onClick={onClose} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button>{plan && <button onClick={handleApply} disabled={isBusy} className="flex-1 bg-emerald-600 text-white py-3 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-emerald-700 disabled:opacity-40">{isBusy ? 'Aplicando...' : 'Aplicar Restauración'}</button>}</div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
 // --- SETTINGS VIEW WITH DB AND THEME MANAGEMENT ---
 
 const SettingsView: React.FC<{ 
   settings: AppSettings; 
-  onUpdate: (s: AppSettings) => void;
-  onRestoreDB: (data: any) => void;
-}> = ({ settings, onUpdate, onRestoreDB }) => {
+  onUpdate: (s: AppSettings) => Promise<boolean>;
+  backupData: BackupData;
+  onRestoreDB: (data: BackupData, mode: RestoreMode) => Promise<boolean>;
+  cities: string[];
+}> = ({ settings, onUpdate, backupData, onRestoreDB, cities }) => {
   const [title, setTitle] = useState(settings.title);
   const [logoPreview, setLogoPreview] = useState<string | null>(settings.logo);
   const [newType, setNewType] = useState('');
   const [sealTypes, setSealTypes] = useState<string[]>(settings.sealTypes);
   const [themeColor, setThemeColor] = useState(settings.themeColor || '#003594');
+  const [rolePermissions, setRolePermissionsDraft] = useState<RolePermissionMap>(() => Object.fromEntries(Object.values(UserRole).map(r => [r, getRolePermissions(r)])));
+  const [stockThresholds, setStockThresholds] = useState<Record<string, Record<string, StockThreshold>>>(settings.stockThresholds || {});
+  const [thresholdCity, setThresholdCity] = useState(cities[0] || '');
+  const [anomalyRules, setAnomalyRules] = useState<AnomalyRules>(() => Anomalies.rules(settings));
+  const [evidenceRequired, setEvidenceRequired] = useState<SealStatus[]>(settings.evidenceRequired || []);
+  const [backupPassphrase, setBackupPassphrase] = useState(''); // Vacío = respaldo sin cifrar
+  const [restoreFile, setRestoreFile] = useState<{ name: string; text: string } | null>(null);
   const fileInputRef = useRef<HTMLInputElement>(null);
   const dbFileRef = useRef<HTMLInputElement>(null);
 
@@ -276,6 +515,26 @@ const SettingsView: React.FC<{
     if (newType.trim() && !sealTypes.includes(newType.trim().toUpperCase())) { setSealTypes([...sealTypes, newType.trim().toUpperCase()]); setNewType(''); }
   };
   const removeSealType = (type: string) => setSealTypes(sealTypes.filter(t => t !== type));
+  // Un campo vacío elimina el umbral; con ambos vacíos el tipo deja de vigilarse en la sede
+  const updateThreshold = (city: string, type: string, field: keyof StockThreshold, value: string) => {
+    const { [type]: current, ...others } = stockThresholds[city] || {};
+    const next = { minimum: current?.minimum ?? 0, reorder: current?.reorder ?? 0, [field]: Math.max(0, Number(value) || 0) };
+    const cleared = value === '' && (field === 'minimum' ? !current?.reorder : !current?.minimum);
+    setStockThresholds({ ...stockThresholds, [city]: cleared ? others : { ...others, [type]: next } });
+  };
+  const updateDwellHours = (status: SealStatus, value: string) => {
+    const { [status]: _previous, ...others } = anomalyRules.dwellHours;
+    setAnomalyRules({ ...anomalyRules, dwellHours: Number(value) > 0 ? { ...others, [status]: Number(value) } : others });
+  };
+  const toggleWorkingDay = (day: number) => {
+    const { days } = anomalyRules.workingHours;
+    setAnomalyRules({ ...anomalyRules, workingHours: { ...anomalyRules.workingHours, days: days.includes(day) ? days.filter(d => d !== day) : [...days, day].sort() } });
+  };
+  const toggleEvidence = (status: SealStatus) => setEvidenceRequired(evidenceRequired.includes(status) ? evidenceRequired.filter(st => st !== status) : [...evidenceRequired, status]);
+  const togglePermission = (role: UserRole, permission: Permission) => {
+    const current = rolePermissions[role] || [];
+    setRolePermissionsDraft({ ...rolePermissions, [role]: current.includes(permission) ? current.filter(p => p !== permission) : [...current, permission] });
+  };
   
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -286,45 +545,34 @@ const SettingsView: React.FC<{
     }
   };
 
-  const handleSave = () => { 
-    onUpdate({ title, logo: logoPreview, sealTypes, themeColor }); 
-    alert('Configuración guardada satisfactoriamente.'); 
+  const handleSave = async () => { 
+    const { [UserRole.ADMIN]: _admin, ...editableRoles } = rolePermissions;
+    const invalid = Object.entries(stockThresholds).flatMap(([city, byType]) => Object.entries(byType).filter(([, t]) => t.reorder < t.minimum).map(([type]) => `${city} / ${type}`));
+    if (invalid.length > 0) return alert(`El nivel de reposición no puede ser menor que el mínimo: ${invalid.join(', ')}`);
+    if (anomalyRules.workingHours.start >= anomalyRules.workingHours.end) return alert('La hora de inicio de la jornada debe ser anterior a la hora de cierre.');
+    if (await onUpdate({ ...settings, title, logo: logoPreview, sealTypes, themeColor, rolePermissions: editableRoles, stockThresholds, anomalyRules, evidenceRequired })) alert('Configuración guardada satisfactoriamente.'); 
   };
 
-  const handleExportDB = () => {
-    const dbData = {
-      seals: JSON.parse(localStorage.getItem('selloData') || '[]'),
-      users: JSON.parse(localStorage.getItem('selloUsers') || '[]'),
-      cities: JSON.parse(localStorage.getItem('selloCities') || '[]'),
-      settings: JSON.parse(localStorage.getItem('selloSettings') || '{}'),
-      exportedAt: new Date().toISOString()
-    };
-    const blob = new Blob([JSON.stringify(dbData, null, 2)], { type: 'application/json' });
-    const url = URL.createObjectURL(blob);
+  const handleExportDB = async () => {
+    const content = await BackupService.create(backupData, backupPassphrase || undefined);
+    const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
     const link = document.createElement('a');
     link.href = url;
-    link.download = `SelloMaster_Backup_${new Date().toLocaleDateString()}.json`;
+    link.download = `SelloMaster_Backup_${Dates.toDay(Dates.now())}${backupPassphrase ? '_cifrado' : ''}.json`;
     link.click();
     URL.revokeObjectURL(url);
   };
 
-  const handleImportDB = (e: React.ChangeEvent<HTMLInputElement>) => {
+  const handleImportDB = async (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
-    if (!file) return;
-    const reader = new FileReader();
-    reader.onload = (evt) => {
-      try {
-        const data = JSON.parse(evt.target?.result as string);
-        if (window.confirm("¿Restaurar base de datos? Esto sobrescribirá la información actual.")) {
-          onRestoreDB(data);
-          alert("Base de datos restaurada. La aplicación se reiniciará.");
-          window.location.reload();
-        }
-      } catch (err) {
-        alert("Archivo de respaldo inválido.");
-      }
-    };
-    reader.readAsText(file);
+    e.target.value = '';
+    if (file) setRestoreFile({ name: file.name, text: await file.text() });
+  };
+
+  const handleApplyRestore = async (data: BackupData, mode: RestoreMode) => {
+    if (!(await onRestoreDB(data, mode))) return;
+    alert("Base de datos restaurada. La aplicación se reiniciará.");
+    window.location.reload();
   };
 
   return (
@@ -410,6 +658,74 @@ const SettingsView: React.FC<{
           </div>
         </div>
 
+        {/* STOCK THRESHOLDS SECTION */}
+        <div className="pt-6 border-t border-slate-100">
+          <div className="flex items-center justify-between mb-4"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Niveles de Stock por Sede</label><select className="border border-slate-200 bg-slate-50 rounded-xl px-4 py-2 text-[11px] font-black text-custom-blue uppercase outline-none" value={thresholdCity} onChange={e => setThresholdCity(e.target.value)}>{cities.map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+          <div className="bg-slate-50 rounded-2xl border border-slate-100 overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="border-b border-slate-200"><tr><th className="px-4 py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">Tipo de Sello</th><th className="px-4 py-3 text-[9px] font-black text-red-600 uppercase tracking-widest">Mínimo</th><th className="px-4 py-3 text-[9px] font-black text-amber-600 uppercase tracking-widest">Reposición</th></tr></thead>
+              <tbody className="divide-y divide-slate-100">{sealTypes.map(t => { const threshold = stockThresholds[thresholdCity]?.[t]; return (
+                <tr key={t}><td className="px-4 py-2.5 text-[11px] font-bold text-slate-700 uppercase">{t}</td>{(['minimum', 'reorder'] as const).map(field => <td key={field} className="px-4 py-2.5"><input type="number" min={0} placeholder="-" className="w-24 border border-slate-200 bg-white rounded-lg px-3 py-2 text-sm font-bold text-custom-blue outline-none" value={threshold ? threshold[field] : ''} onChange={e => updateThreshold(thresholdCity, t, field, e.target.value)} /></td>)}</tr>
+              ); })}</tbody>
+            </table>
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">Disponible = Entrada a inventario + No instalado. Deje los campos vacíos para no vigilar el tipo en la sede.</p>
+        </div>
+
+        {/* ANOMALY RULES SECTION */}
+        <div className="pt-6 border-t border-slate-100">
+          <label className="text-[10px] font-black text-custom-blue uppercase tracking-widest block mb-4">Reglas de Alertas</label>
+          <div className="grid grid-cols-1 md:grid-cols-2 gap-6">
+            <div className="bg-slate-50 rounded-2xl border border-slate-100 p-5 space-y-3">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Permanencia máxima por estado (horas)</p>
+              {Object.values(SealStatus).filter(st => !SealLifecycle.isTerminal(st)).map(st => <div key={st} className="flex items-center justify-between gap-4"><span className="text-[11px] font-bold text-slate-700 uppercase">{st.replace('_', ' ')}</span><input type="number" min={0} placeholder="-" className="w-24 border border-slate-200 bg-white rounded-lg px-3 py-2 text-sm font-bold text-custom-blue outline-none" value={anomalyRules.dwellHours[st] ?? ''} onChange={e => updateDwellHours(st, e.target.value)} /></div>)}
+            </div>
+            <div className="bg-slate-50 rounded-2xl border border-slate-100 p-5 space-y-3">
+              <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Patrones sospechosos</p>
+              <div className="flex items-center justify-between gap-4"><span className="text-[11px] font-bold text-slate-700 uppercase">Ciclos No instalado → Asignado tolerados</span><input type="number" min={0} className="w-24 border border-slate-200 bg-white rounded-lg px-3 py-2 text-sm font-bold text-custom-blue outline-none" value={anomalyRules.maxReuseCycles} onChange={e => setAnomalyRules({ ...anomalyRules, maxReuseCycles: Math.max(0, Number(e.target.value) || 0) })} /></div>
+              <div className="flex items-center justify-between gap-4"><span className="text-[11px] font-bold text-slate-700 uppercase">Destrucción tras asignar (horas)</span><input type="number" min={0} className="w-24 border border-slate-200 bg-white rounded-lg px-3 py-2 text-sm font-bold text-custom-blue outline-none" value={anomalyRules.quickDestructionHours} onChange={e => setAnomalyRules({ ...anomalyRules, quickDestructionHours: Math.max(0, Number(e.target.value) || 0) })} /></div>
+              <div className="flex items-center justify-between gap-4"><span className="text-[11px] font-bold text-slate-700 uppercase">Jornada laboral</span><div className="flex items-center gap-2">{(['start', 'end'] as const).map(field => <input key={field} type="number" min={0} max={24} className="w-16 border border-slate-200 bg-white rounded-lg px-3 py-2 text-sm font-bold text-custom-blue outline-none" value={anomalyRules.workingHours[field]} onChange={e => setAnomalyRules({ ...anomalyRules, workingHours: { ...anomalyRules.workingHours, [field]: Math.min(24, Math.max(0, Number(e.target.value) || 0)) } })} />)}</div></div>
+              <div className="flex flex-wrap gap-1.5">{['Dom', 'Lun', 'Mar', 'Mié', 'Jue', 'Vie', 'Sáb'].map((label, day) => <button key={day} type="button" onClick={() => toggleWorkingDay(day)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${anomalyRules.workingHours.days.includes(day) ? 'bg-custom-blue text-white border-custom-blue' : 'bg-white text-slate-400 border-slate-200'}`}>{label}</button>)}</div>
+            </div>
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">La jornada se evalúa en la zona horaria de cada sede. Deje vacía la permanencia de un estado para no vigilarlo.</p>
+        </div>
+
+        {/* MOVEMENT EVIDENCE SECTION */}
+        <div className="pt-6 border-t border-slate-100">
+          <label className="text-[10px] font-black text-custom-blue uppercase tracking-widest block mb-4">Evidencia Obligatoria</label>
+          <div className="flex flex-wrap gap-2">{EVIDENCE_STATUSES.map(st => <button key={st} type="button" onClick={() => toggleEvidence(st)} className={`px-4 py-2.5 rounded-xl text-[10px] font-black uppercase tracking-widest border transition-all ${evidenceRequired.includes(st) ? 'bg-custom-blue text-white border-custom-blue' : 'bg-white text-slate-400 border-slate-200'}`}>{st.replace('_', ' ')}</button>)}</div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">Los movimientos hacia los estados marcados exigen al menos una foto o PDF. En los demás la evidencia es opcional.</p>
+        </div>
+
+        {/* ROLE PERMISSIONS SECTION */}
+        <div className="pt-6 border-t border-slate-100">
+          <label className="text-[10px] font-black text-custom-blue uppercase tracking-widest block mb-4">Roles y Permisos</label>
+          <div className="bg-slate-50 rounded-2xl border border-slate-100 overflow-x-auto">
+            <table className="w-full text-left">
+              <thead className="border-b border-slate-200">
+                <tr>
+                  <th className="px-4 py-3 text-[9px] font-black text-slate-400 uppercase tracking-widest">Permiso</th>
+                  {Object.values(UserRole).map(r => <th key={r} className="px-3 py-3 text-[9px] font-black text-custom-blue uppercase tracking-widest text-center">{r.replace('_', ' ')}</th>)}
+                </tr>
+              </thead>
+              <tbody className="divide-y divide-slate-100">
+                {PERMISSION_CATALOGUE.map(({ permission, label }) => (
+                  <tr key={permission}>
+                    <td className="px-4 py-2.5"><p className="text-[11px] font-bold text-slate-700">{label}</p><p className="text-[9px] font-mono text-slate-400">{permission}</p></td>
+                    {Object.values(UserRole).map(r => (
+                      <td key={r} className="px-3 py-2.5 text-center">
+                        <input type="checkbox" className="w-4 h-4 accent-[var(--color-primary)]" checked={(rolePermissions[r] || []).includes(permission)} disabled={r === UserRole.ADMIN} onChange={() => togglePermission(r, permission)} />
+                      </td>
+                    ))}
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider mt-3 italic">El Administrador conserva siempre todos los permisos.</p>
+        </div>
+
         {/* DATABASE MANAGEMENT SECTION */}
         <div className="pt-6 border-t border-slate-100">
           <label className="text-[10px] font-black text-custom-blue uppercase tracking-widest block mb-4">Gestión de Base de Datos (LocalStorage)</label>
@@ -417,14 +733,16 @@ const SettingsView: React.FC<{
             <div className="bg-blue-50 p-6 rounded-2xl border border-blue-100 flex flex-col justify-between">
               <div>
                 <h4 className="text-xs font-black text-custom-blue uppercase tracking-widest mb-1">Exportar Backup</h4>
-                <p className="text-[10px] text-slate-500 font-medium leading-relaxed">Descargue una copia completa de la base de datos (sellos, historial y usuarios) en formato JSON.</p>
+                <p className="text-[10px] text-slate-500 font-medium leading-relaxed">Descargue una copia completa de la base de datos (sellos, historial y usuarios) en formato JSON, con versión y suma de verificación.</p>
               </div>
+              <input type="password" autoComplete="new-password" placeholder="Contraseña para cifrar (opcional)" value={backupPassphrase} onChange={e => setBackupPassphrase(e.target.value)} className="mt-4 w-full border border-blue-100 bg-white rounded-xl px-3 py-2.5 text-[11px] font-bold text-custom-blue outline-none focus:ring-4 focus:ring-blue-100" />
+              {backupPassphrase && <p className="mt-1.5 text-[9px] font-bold text-amber-700 uppercase tracking-widest">Sin esta contraseña el respaldo no podrá restaurarse</p>}
               <button onClick={handleExportDB} className="mt-4 w-full bg-white border border-custom-blue text-custom-blue font-black py-3 rounded-xl text-[10px] uppercase tracking-widest hover:bg-custom-blue hover:text-white transition-all">Generar Backup (.json)</button>
             </div>
             <div className="bg-emerald-50 p-6 rounded-2xl border border-emerald-100 flex flex-col justify-between">
               <div>
                 <h4 className="text-xs font-black text-emerald-800 uppercase tracking-widest mb-1">Restaurar Datos</h4>
-                <p className="text-[10px] text-slate-500 font-medium leading-relaxed">Cargue un archivo de respaldo previo para migrar o recuperar su información.</p>
+                <p className="text-[10px] text-slate-500 font-medium leading-relaxed">Cargue un archivo de respaldo previo para migrar o recuperar su información. Antes de aplicarlo se valida y se muestra el resumen de cambios.</p>
               </div>
               <input ref={dbFileRef} type="file" accept=".json" onChange={handleImportDB} className="hidden" />
               <button onClick={() => dbFileRef.current?.click()} className="mt-4 w-full bg-emerald-600 text-white font-black py-3 rounded-xl text-[10px] uppercase tracking-widest hover:bg-emerald-700 transition-all">Cargar Respaldo</button>
@@ -436,6 +754,7 @@ const SettingsView: React.FC<{
           <button onClick={handleSave} className="bg-custom-blue text-white px-10 py-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-xl hover:bg-custom-blue-dark transition-all">Guardar Cambios Generales</button>
         </div>
       </div>
+      {restoreFile && <RestoreBackupModal fileName={restoreFile.name} text={restoreFile.text} current={backupData} onClose={() => setRestoreFile(null)} onApply={handleApplyRestore} />}
     </div>
   );
 };
@@ -444,10 +763,12 @@ const SettingsView: React.FC<{
 
 const CityManagement: React.FC<{ 
   cities: string[]; 
+  timeZones: Record<string, string>;
   onAddCity: (city: string) => void; 
   onDeleteCity: (city: string) => void;
   onUpdateCity: (oldCity: string, newCity: string) => void;
-}> = ({ cities, onAddCity, onDeleteCity, onUpdateCity }) => {
+  onUpdateTimeZone: (city: string, timeZone: string) => void;
+}> = ({ cities, timeZones, onAddCity, onDeleteCity, onUpdateCity, onUpdateTimeZone }) => {
   const [isModalOpen, setIsModalOpen] = useState(false);
   const [editingCity, setEditingCity] = useState<string | null>(null);
   const [newCityName, setNewCityName] = useState('');
@@ -472,10 +793,10 @@ const CityManagement: React.FC<{
       </div>
       <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
         <table className="w-full text-left">
-          <thead className="bg-slate-50 border-b border-slate-100"><tr><th className="px-8 py-5 text-[10px] font-black text-custom-blue uppercase tracking-widest">Nombre de Ciudad</th><th className="px-8 py-5 text-[10px] font-black text-custom-blue uppercase tracking-widest text-right">Acciones</th></tr></thead>
+          <thead className="bg-slate-50 border-b border-slate-100"><tr><th className="px-8 py-5 text-[10px] font-black text-custom-blue uppercase tracking-widest">Nombre de Ciudad</th><th className="px-8 py-5 text-[10px] font-black text-custom-blue uppercase tracking-widest">Zona Horaria</th><th className="px-8 py-5 text-[10px] font-black text-custom-blue uppercase tracking-widest text-right">Acciones</th></tr></thead>
           <tbody className="divide-y divide-slate-100 text-sm">
             {cities.map(city => (
-              <tr key={city} className="hover:bg-slate-50/50 transition-colors"><td className="px-8 py-5 font-black text-custom-blue uppercase">{city}</td>
+              <tr key={city} className="hover:bg-slate-50/50 transition-colors"><td className="px-8 py-5 font-black text-custom-blue uppercase">{city}</td><td className="px-8 py-5"><select className="border border-slate-200 bg-slate-50 rounded-lg px-3 py-2 text-[11px] font-bold text-custom-blue outline-none" value={timeZones[city] || DEFAULT_TIME_ZONE} onChange={e => onUpdateTimeZone(city, e.target.value)}>{TIME_ZONES.map(z => <option key={z} value={z}>{z}</option>)}</select></td>
                 <td className="px-8 py-5 text-right flex justify-end gap-2">
                   <button onClick={() => { setEditingCity(city); setNewCityName(city); setIsModalOpen(true); }} className="text-slate-400 hover:text-custom-blue p-2 rounded-lg hover:bg-slate-100"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"/></svg></button>
                   <button onClick={() => onDeleteCity(city)} className="text-slate-400 hover:text-red-600 p-2 rounded-lg hover:bg-red-50"><ICONS.Trash className="w-4 h-4" /></button>
@@ -512,21 +833,35 @@ const UserManagement: React.FC<{
   const [formData, setFormData] = useState({ username: '', fullName: '', password: '', role: UserRole.GESTOR, city: cities[0] || '' });
   
   useEffect(() => {
-    if (editingUser) setFormData({ username: editingUser.username, fullName: editingUser.fullName, password: editingUser.password || '', role: editingUser.role, city: editingUser.city });
+    if (editingUser) setFormData({ username: editingUser.username, fullName: editingUser.fullName, password: '', role: editingUser.role, city: editingUser.city });
     else setFormData({ username: '', fullName: '', password: '', role: UserRole.GESTOR, city: cities[0] || '' });
   }, [editingUser, cities]);
 
-  const handleSubmit = (e: React.FormEvent) => {
+  const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
-    if (!formData.username || !formData.password) return alert('Usuario y contraseña obligatorios');
-    if (editingUser) onUpdateUser({ ...editingUser, ...formData });
-    else {
-      const u: User = { ...formData, id: Math.random().toString(36).substr(2, 9), organization: 'Nacional de Chocolates' };
-      onAddUser(u);
-    }
+    if (!formData.username || (!editingUser && !formData.password)) return alert('Usuario y contraseña obligatorios');
+    const { password, ...profile } = formData;
+    if (password) { const error = AuthService.validatePassword(password); if (error) return alert(error); }
+    // Toda contraseña asignada por un administrador es temporal y obliga a cambiarla al ingresar
+    if (editingUser) onUpdateUser(password ? { ...editingUser, ...profile, ...temporaryCredentials(password) } : { ...editingUser, ...profile });
+    else onAddUser({ ...profile, id: Math.random().toString(36).substr(2, 9), organization: 'Nacional de Chocolates', ...temporaryCredentials(password) });
     setIsModalOpen(false); setEditingUser(null);
   };
 
+  const handleResetPassword = async (u: User) => {
+    const temporary = window.prompt(`Ingrese la contraseña temporal para ${u.username}. Deberá cambiarla en su próximo ingreso.`);
+    if (!temporary) return;
+    const error = AuthService.validatePassword(temporary);
+    if (error) return alert(error);
+    onUpdateUser({ ...u, ...temporaryCredentials(temporary) });
+    alert('Contraseña restablecida. La cuenta queda desbloqueada.');
+  };
+
+  const handleToggleDisabled = (u: User) => {
+    if (!window.confirm(u.disabled ? `¿Habilitar nuevamente la cuenta ${u.username}?` : `¿Deshabilitar la cuenta ${u.username}? No podrá ingresar al sistema.`)) return;
+    onUpdateUser({ ...u, disabled: !u.disabled });
+  };
+
   return (
     <div className="space-y-8 animate-in fade-in duration-500">
       <div className="flex justify-between items-end">
@@ -540,9 +875,11 @@ const UserManagement: React.FC<{
             {users.map(u => (
               <tr key={u.id} className="hover:bg-slate-50/50 transition-colors"><td className="px-8 py-5 font-black text-custom-blue uppercase">{u.fullName}</td>
                 <td className="px-8 py-5"><p className="text-slate-600 font-mono text-xs font-bold uppercase">{u.username}</p><p className="text-[10px] text-custom-blue font-black uppercase">{u.city}</p></td>
-                <td className="px-8 py-5"><span className={`px-2 py-1 rounded text-[9px] font-black uppercase border ${u.role === UserRole.ADMIN ? 'bg-custom-blue text-white border-custom-blue' : 'bg-slate-100 text-slate-800 border-slate-200'}`}>{u.role}</span></td>
+                <td className="px-8 py-5"><div className="flex flex-wrap gap-1.5"><span className={`px-2 py-1 rounded text-[9px] font-black uppercase border ${u.role === UserRole.ADMIN ? 'bg-custom-blue text-white border-custom-blue' : 'bg-slate-100 text-slate-800 border-slate-200'}`}>{u.role}</span>{u.disabled && <span className="px-2 py-1 rounded text-[9px] font-black uppercase border bg-red-50 text-red-700 border-red-200">Deshabilitado</span>}{AuthService.isLocked(u) && <span className="px-2 py-1 rounded text-[9px] font-black uppercase border bg-amber-50 text-amber-700 border-amber-200">Bloqueado</span>}</div></td>
                 <td className="px-8 py-5 text-right flex justify-end gap-2">
                   <button onClick={() => { setEditingUser(u); setIsModalOpen(true); }} className="text-slate-400 hover:text-custom-blue p-2 rounded-lg hover:bg-slate-100"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15.232 5.232l3.536 3.536m-2.036-5.036a2.5 2.5 0 113.536 3.536L6.5 21.036H3v-3.572L16.732 3.732z"/></svg></button>
+                  <button onClick={() => handleResetPassword(u)} title="Restablecer Contraseña" className="text-slate-400 hover:text-amber-600 p-2 rounded-lg hover:bg-amber-50"><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 7a2 2 0 012 2m4 0a6 6 0 01-7.743 5.743L11 17H9v2H7v2H4a1 1 0 01-1-1v-2.586a1 1 0 01.293-.707l5.964-5.964A6 6 0 1121 9z"/></svg></button>
+                  {u.username !== 'admin' && <button onClick={() => handleToggleDisabled(u)} title={u.disabled ? 'Habilitar Cuenta' : 'Deshabilitar Cuenta'} className={`p-2 rounded-lg ${u.disabled ? 'text-emerald-500 hover:bg-emerald-50' : 'text-slate-400 hover:text-red-600 hover:bg-red-50'}`}><svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M18.364 18.364A9 9 0 005.636 5.636m12.728 12.728A9 9 0 015.636 5.636m12.728 12.728L5.636 5.636"/></svg></button>}
                   {u.username !== 'admin' && <button onClick={() => onDeleteUser(u.id)} className="text-slate-400 hover:text-red-600 p-2 rounded-lg hover:bg-red-50"><ICONS.Trash className="w-4 h-4" /></button>}
                 </td>
               </tr>
@@ -560,10 +897,10 @@ const UserManagement: React.FC<{
                 <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">ID Usuario (Login)</label><input type="text" required className="w-full border border-gray-200 bg-gray-50 rounded-xl px-4 py-3 text-sm font-mono font-bold text-custom-blue focus:bg-white outline-none uppercase" value={formData.username} onChange={e => setFormData({...formData, username: e.target.value.toUpperCase()})} /></div>
               </div>
               <div className="grid grid-cols-2 gap-4">
-                <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Contraseña</label><input type="password" required className="w-full border border-slate-200 bg-gray-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue focus:bg-white outline-none" value={formData.password} onChange={e => setFormData({...formData, password: e.target.value})} /></div>
+                <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">{editingUser ? 'Nueva Contraseña' : 'Contraseña'}</label><input type="password" required={!editingUser} placeholder={editingUser ? 'Sin cambios' : `Mínimo ${MIN_PASSWORD_LENGTH} caracteres`} className="w-full border border-slate-200 bg-gray-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue focus:bg-white outline-none" value={formData.password} onChange={e => setFormData({...formData, password: e.target.value})} /></div>
                 <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Sede Asignada</label><select className="w-full border border-gray-200 bg-gray-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={formData.city} onChange={e => setFormData({...formData, city: e.target.value})}>{cities.map(city => <option key={city} value={city}>{city}</option>)}</select></div>
               </div>
-              <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Rol / Permisos</label><select className="w-full border border-gray-200 bg-gray-50 rounded-xl px-4 py-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={formData.role} onChange={e => setFormData({...formData, role: e.target.value as UserRole})}><option value={UserRole.GESTOR}>Gestor Operativo (Local)</option><option value={UserRole.ADMIN}>Administrador Maestro</option></select></div>
+              <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Rol / Permisos</label><select className="w-full border border-gray-200 bg-gray-50 rounded-xl px-4 py-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={formData.role} onChange={e => setFormData({...formData, role: e.target.value as UserRole})}>{Object.values(UserRole).map(r => <option key={r} value={r}>{ROLE_LABELS[r]}</option>)}</select></div>
               <div className="flex gap-4 pt-4"><button type="button" onClick={() => { setIsModalOpen(false); setEditingUser(null); }} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button type="submit" className="flex-1 bg-custom-blue text-white py-4 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-black shadow-lg">{editingUser ? 'Guardar Cambios' : 'Registrar'}</button></div>
             </form>
           </div>
@@ -579,7 +916,7 @@ const InventorySearchModal: React.FC<{
   onSearch: (filters: FilterOptions) => void; 
   sealTypes: string[] 
 }> = ({ isOpen, onClose, onSearch, sealTypes }) => {
-  const [filters, setFilters] = useState<FilterOptions>({ idSello: '', estado: '', tipo: 'Todos', fechaInicio: '', fechaFin: '' });
+  const [filters, setFilters] = useState<FilterOptions>(EMPTY_FILTERS);
   if (!isOpen) return null;
   const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); onSearch(filters); onClose(); };
   return (
@@ -590,6 +927,9 @@ const InventorySearchModal: React.FC<{
           <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">ID Sello</label><input type="text" placeholder="Ej: BOG-001" className="w-full border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-mono font-bold text-custom-blue focus:bg-white focus:ring-4 focus:ring-blue-100 outline-none transition-all uppercase" value={filters.idSello} onChange={(e) => setFilters({...filters, idSello: e.target.value.toUpperCase()})} /></div>
           <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Estado Logístico</label><select className="w-full border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={filters.estado} onChange={(e) => setFilters({...filters, estado: e.target.value})}><option value="">Cualquier estado</option>{Object.values(SealStatus).map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}</select></div>
           <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Clasificación de Tipo</label><select className="w-full border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={filters.tipo} onChange={(e) => setFilters({...filters, tipo: e.target.value})}><option value="Todos">Todos los tipos</option>{sealTypes.map(t => <option key={t} value={t}>{t}</option>)}</select></div>
+          <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Rango de Fechas ({Dates.getTimeZone()})</label><div className="flex gap-3"><input type="date" className="flex-1 border border-gray-200 bg-gray-50 rounded-xl p-3 text-xs font-bold text-custom-blue focus:bg-white outline-none" value={filters.fechaInicio} onChange={(e) => setFilters({...filters, fechaInicio: e.target.value})} /><input type="date" className="flex-1 border border-gray-200 bg-gray-50 rounded-xl p-3 text-xs font-bold text-custom-blue focus:bg-white outline-none" value={filters.fechaFin} onChange={(e) => setFilters({...filters, fechaFin: e.target.value})} /></div></div>
+          <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Aplicar Fechas a</label><div className="flex gap-3"><select className="flex-1 border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={filters.fechaCampo} onChange={(e) => setFilters({...filters, fechaCampo: e.target.value as DateFilterField})}><option value="ultimoMovimiento">Último movimiento</option><option value="alta">Fecha de alta</option><option value="movimiento">Movimiento del historial</option></select>{filters.fechaCampo === 'movimiento' && <select className="flex-1 border border-gray-200 bg-gray-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue focus:bg-white outline-none appearance-none" value={filters.estadoMovimiento} onChange={(e) => setFilters({...filters, estadoMovimiento: e.target.value})}><option value="">Cualquier estado</option>{Object.values(SealStatus).map(s => <option key={s} value={s}>{s.replace('_', ' ')}</option>)}</select>}</div></div>
+          <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Inventario al Corte (opcional)</label><input type="date" max={Dates.toDay(Dates.now())} className="w-full border border-gray-200 bg-gray-50 rounded-xl p-3 text-xs font-bold text-custom-blue focus:bg-white outline-none" value={filters.alCorte || ''} onChange={(e) => setFilters({...filters, alCorte: e.target.value})} /><p className="text-[9px] font-bold text-slate-400 uppercase">Reconstruye estado y sede de cada precinto según su historial al cierre del día</p></div>
           <div className="flex gap-4 pt-6"><button type="button" onClick={onClose} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cerrar</button><button type="submit" className="flex-1 bg-custom-blue text-white py-4 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-black transition-all flex items-center justify-center gap-2"><ICONS.SearchSmall className="w-4 h-4" /> Ejecutar Filtro</button></div>
         </form>
       </div>
@@ -597,22 +937,323 @@ const InventorySearchModal: React.FC<{
   );
 };
 
-const TraceabilityView: React.FC<{ seals: Seal[]; user: User }> = ({ seals, user }) => {
+const ROW_HEIGHT = 60;
+const VISIBLE_ROWS = 12;
+const OVERSCAN_ROWS = 8;
+const INVENTORY_COLUMNS: SealSortField[] = ['id', 'status', 'type', 'entryUser', 'city', 'lastMovement'];
+
+// Tabla virtualizada: solo se pintan las filas visibles y se piden al origen las páginas que las contienen.
+// Una nueva función `load` (otro orden o inventario actualizado) vuelve a consultar lo visible.
+const InventoryTable: React.FC<{
+  load: (offset: number, limit: number) => Promise<SealPage>;
+  sort: SealSort;
+  onSort: (sort: SealSort) => void;
+  onTotal: (total: number) => void;
+  onOpen?: (seal: Seal) => void; // Ausente en resultados de solo lectura
+  onDelete?: (seal: Seal) => void;
+}> = ({ load, sort, onSort, onTotal, onOpen, onDelete }) => {
+  const [rows, setRows] = useState<{ source: unknown; total: number | null; pages: Map<number, Seal[]> }>({ source: null, total: null, pages: new Map() });
+  const [scrollTop, setScrollTop] = useState(0);
+  const viewport = useRef<HTMLDivElement>(null);
+  const source = useRef(load);
+  const requested = useRef(new Set<number>());
+  const total = rows.total ?? 0;
+  const first = Math.max(0, Math.floor(scrollTop / ROW_HEIGHT) - OVERSCAN_ROWS);
+  const last = Math.min(total, Math.ceil(scrollTop / ROW_HEIGHT) + VISIBLE_ROWS + OVERSCAN_ROWS);
+  const columns = INVENTORY_COLUMNS.length + (onDelete ? 1 : 0);
+
+  useEffect(() => {
+    if (source.current !== load) { source.current = load; requested.current = new Set(); }
+    const firstPage = Math.floor(first / SEAL_PAGE_SIZE);
+    const lastPage = rows.total === null ? 0 : Math.floor(Math.max(first, last - 1) / SEAL_PAGE_SIZE);
+    for (let page = firstPage; page <= lastPage; page++) {
+      if (requested.current.has(page)) continue;
+      requested.current.add(page);
+      load(page * SEAL_PAGE_SIZE, SEAL_PAGE_SIZE).then(result => {
+        if (source.current !== load) return;
+        // Las filas de la consulta anterior se muestran hasta que llega la primera página nueva
+        setRows(prev => ({ source: load, total: result.total, pages: new Map(prev.source === load ? prev.pages : []).set(page, result.items) }));
+      });
+    }
+  }, [load, first, last, rows.total]);
+
+  useEffect(() => { if (rows.total !== null) onTotal(rows.total); }, [rows.total]);
+  useEffect(() => { viewport.current?.scrollTo({ top: 0 }); }, [sort]);
+
+  const toggleSort = (field: SealSortField) => onSort(sort.field === field ? { field, direction: sort.direction === 'asc' ? 'desc' : 'asc' } : { field, direction: field === 'lastMovement' || field === 'creationDate' ? 'desc' : 'asc' });
+  const sealAt = (index: number) => rows.pages.get(Math.floor(index / SEAL_PAGE_SIZE))?.[index % SEAL_PAGE_SIZE];
+
+  return (
+    <div ref={viewport} onScroll={e => setScrollTop(e.currentTarget.scrollTop)} className="bg-white border border-slate-200 rounded-3xl shadow-sm overflow-auto" style={{ maxHeight: ROW_HEIGHT * (VISIBLE_ROWS + 1) }}>
+      <table className="w-full text-left text-[11px]">
+        <thead className="bg-slate-50 border-b border-slate-100 text-slate-500 font-black uppercase tracking-widest sticky top-0 z-10"><tr>{INVENTORY_COLUMNS.map(field => <th key={field} onClick={() => toggleSort(field)} className="px-8 py-6 text-custom-blue cursor-pointer select-none hover:text-blue-600 whitespace-nowrap">{SEAL_SORT_LABELS[field]}{sort.field === field && <span className="ml-1.5">{sort.direction === 'asc' ? '▲' : '▼'}</span>}</th>)}{onDelete && <th className="px-8 py-6 text-red-600 text-right">Acciones</th>}</tr></thead>
+        <tbody className="divide-y divide-slate-100 font-bold text-slate-900">
+          {first > 0 && <tr style={{ height: first * ROW_HEIGHT }}><td colSpan={columns} /></tr>}
+          {Array.from({ length: Math.max(0, last - first) }, (_, i) => {
+            const s = sealAt(first + i);
+            if (!s) return <tr key={`loading-${first + i}`} style={{ height: ROW_HEIGHT }}><td colSpan={columns} className="px-8 text-[9px] font-black text-slate-300 uppercase tracking-widest">Cargando...</td></tr>;
+            return (<tr key={s.uid} style={{ height: ROW_HEIGHT }} onClick={() => onOpen?.(s)} className={`group transition-all ${onOpen ? 'hover:bg-blue-50/30 cursor-pointer' : ''}`}><td className="px-8 font-black font-mono text-[14px] text-custom-blue group-hover:text-blue-600 uppercase">{s.id}</td><td className="px-8"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${getStatusStyles(s.status).split('icon-bg-')[0]}`}>{s.status.replace('_', ' ')}</span></td><td className="px-8 text-slate-700 font-bold uppercase text-[9px]">{s.type}</td><td className="px-8 uppercase font-black text-[10px] text-slate-700">{s.entryUser}</td><td className="px-8 text-custom-blue font-black text-[10px]">{s.city}</td><td className="px-8 text-slate-500 text-[10px] whitespace-nowrap">{Dates.format(s.lastMovement)}</td>{onDelete && (<td className="px-8 text-right"><button onClick={(e) => { e.stopPropagation(); onDelete(s); }} className="p-2 text-red-400 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors" title="Eliminar Precinto Permanentemente"><ICONS.Trash className="w-4 h-4" /></button></td>)}</tr>);
+          })}
+          {last < total && <tr style={{ height: (total - last) * ROW_HEIGHT }}><td colSpan={columns} /></tr>}
+          {rows.total === 0 && <tr><td colSpan={columns} className="px-8 py-20 text-center font-bold text-slate-400 uppercase tracking-widest">No se encontraron registros</td></tr>}
+          {rows.total === null && <tr><td colSpan={columns} className="px-8 py-20 text-center font-bold text-slate-300 uppercase tracking-widest">Consultando inventario...</td></tr>}
+        </tbody>
+      </table>
+    </div>
+  );
+};
+
+const ImportWizard: React.FC<{
+  user: User;
+  seals: Seal[];
+  sealTypes: string[];
+  cities: string[];
+  onClose: () => void;
+  onImport: (seals: Seal[], fileName: string) => Promise<boolean>;
+}> = ({ user, seals, sealTypes, cities, onClose, onImport }) => {
+  const [sheet, setSheet] = useState<ImportSheet | null>(null);
+  const [mapping, setMapping] = useState<ImportMapping | null>(null);
+  const [defaultType, setDefaultType] = useState(sealTypes[0] || '');
+  const [step, setStep] = useState<'file' | 'mapping' | 'preview'>('file');
+  const [isCommitting, setIsCommitting] = useState(false);
+  const rows = useMemo(() => sheet && mapping && step === 'preview' ? SealImporter.validate(sheet, mapping, { user, existing: seals, sealTypes, cities, defaultType, allowOtherCities: can(user, 'seal.crossCity') }) : [], [sheet, mapping, step, user, seals, sealTypes, cities, defaultType]);
+  const rejected = rows.filter(r => r.errors.length > 0).length;
+
+  const handleFile = async (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (!file) return; try { const read = await SealImporter.read(file); if (read.rows.length === 0) return alert('El archivo no contiene filas de datos.'); setSheet(read); setMapping(SealImporter.guessMapping(read.headers)); setStep('mapping'); } catch { alert('No se pudo leer el archivo. Verifique que sea un Excel o CSV válido.'); } };
+  const handleCommit = async () => { if (!sheet || rejected > 0) return; setIsCommitting(true); const ok = await onImport(rows.map(r => r.seal as Seal), sheet.fileName); setIsCommitting(false); if (ok) onClose(); };
+  const handleErrorReport = () => sheet && exportToExcel(SealImporter.errorReport(sheet, rows), `Errores_Importacion_${sheet.fileName.replace(/\.[^.]+$/, '')}`);
+  const selectClass = "w-full border border-gray-200 bg-gray-50 rounded-xl p-3 text-xs font-bold text-custom-blue focus:bg-white outline-none appearance-none";
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-4xl max-h-[90vh] flex flex-col overflow-hidden border border-gray-200 animate-in zoom-in duration-200">
+        <div className="bg-custom-blue px-6 py-5 flex justify-between items-center text-white"><div className="flex items-center gap-2"><ICONS.Import className="w-4 h-4" /><h3 className="text-[10px] font-black uppercase tracking-widest">Carga Masiva - {step === 'file' ? 'Archivo' : step === 'mapping' ? 'Asignación de Columnas' : 'Vista Previa'}</h3></div><button onClick={onClose} className="hover:rotate-90 transition-transform">✕</button></div>
+        <div className="p-8 space-y-6 overflow-y-auto">
+          {step === 'file' && <label className="block border-2 border-dashed border-slate-200 rounded-3xl p-16 text-center cursor-pointer hover:bg-slate-50 transition-colors"><ICONS.Excel className="w-10 h-10 mx-auto text-emerald-600 mb-4" /><p className="font-black text-custom-blue uppercase text-xs tracking-widest">Seleccione el manifiesto del proveedor</p><p className="text-[10px] font-bold text-slate-400 uppercase tracking-widest mt-2">Excel (.xlsx, .xls) o CSV con fila de encabezados</p><input type="file" accept=".xlsx, .xls, .csv" onChange={handleFile} className="hidden" /></label>}
+          {step === 'mapping' && sheet && mapping && <>
+            <p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">{sheet.fileName}: {sheet.rows.length} filas. Indique qué columna corresponde a cada campo.</p>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              {IMPORT_FIELDS.map(f => (<div key={f.field} className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">{f.label}{f.required && ' *'}</label><select className={selectClass} value={mapping[f.field] ?? ''} onChange={e => setMapping({ ...mapping, [f.field]: e.target.value === '' ? null : Number(e.target.value) })}>{!f.required && <option value="">{f.field === 'type' ? 'Usar tipo por defecto' : f.field === 'city' ? `Usar sede actual (${user.city})` : 'No importar'}</option>}{sheet.headers.map((h, i) => <option key={i} value={i}>{h}</option>)}</select></div>))}
+              {mapping.type === null && <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Tipo por Defecto</label><select className={selectClass} value={defaultType} onChange={e => setDefaultType(e.target.value)}>{sealTypes.map(t => <option key={t} value={t}>{t}</option>)}</select></div>}
+            </div>
+          </>}
+          {step === 'preview' && sheet && <>
+            <div className="flex flex-wrap items-center justify-between gap-4"><p className="text-[10px] font-black uppercase tracking-widest"><span className="text-emerald-600">{rows.length - rejected} válidas</span> · <span className={rejected > 0 ? 'text-red-600' : 'text-slate-400'}>{rejected} rechazadas</span></p>{rejected > 0 && <button onClick={handleErrorReport} className="flex items-center gap-2 bg-white text-red-600 border border-red-200 px-4 py-2 rounded-xl font-black text-[10px] uppercase tracking-widest hover:bg-red-50"><ICONS.Excel className="w-4 h-4" /> Descargar Errores</button>}</div>
+            {rejected > 0 && <div className="bg-red-50 text-red-700 p-4 rounded-xl text-[11px] font-bold border border-red-200">La carga es todo o nada: corrija las filas rechazadas en el archivo y vuelva a importarlo.</div>}
+            <div className="border border-slate-200 rounded-2xl overflow-hidden overflow-x-auto"><table className="w-full text-left text-[11px]"><thead className="bg-slate-50 border-b border-slate-100 text-[9px] font-black text-custom-blue uppercase tracking-widest"><tr><th className="px-4 py-3">Fila</th>{IMPORT_FIELDS.filter(f => mapping?.[f.field] !== null).map(f => <th key={f.field} className="px-4 py-3">{f.label}</th>)}<th className="px-4 py-3">Resultado</th></tr></thead><tbody className="divide-y divide-slate-100 font-bold text-slate-700">{rows.map(r => (<tr key={r.line} className={r.errors.length > 0 ? 'bg-red-50/50' : ''}><td className="px-4 py-2 font-mono text-slate-400">{r.line}</td>{IMPORT_FIELDS.filter(f => mapping?.[f.field] !== null).map(f => <td key={f.field} className="px-4 py-2 uppercase">{r.values[f.field as ImportField]}</td>)}<td className={`px-4 py-2 text-[10px] ${r.errors.length > 0 ? 'text-red-600' : 'text-emerald-600'}`}>{r.errors.length > 0 ? r.errors.join('; ') : `OK (${r.seal?.type} - ${r.seal?.city})`}</td></tr>))}</tbody></table></div>
+          </>}
+        </div>
+        <div className="flex gap-4 px-8 py-5 border-t border-slate-100">
+          <button onClick={step === 'file' ? onClose : () => setStep(step === 'preview' ? 'mapping' : 'file')} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">{step === 'file' ? 'Cancelar' : 'Atrás'}</button>
+          {step === 'mapping' && <button onClick={() => setStep('preview')} className="flex-1 bg-custom-blue text-white py-4 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-black transition-all">Validar Filas</button>}
+          {step === 'preview' && <button onClick={handleCommit} disabled={rejected > 0 || rows.length === 0 || isCommitting} className="flex-1 bg-emerald-600 text-white py-4 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-emerald-700 transition-all disabled:opacity-40">{isCommitting ? 'Registrando...' : `Registrar ${rows.length} Sellos`}</button>}
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const NewSealModal: React.FC<{
+  user: User;
+  sealTypes: string[];
+  checkDuplicate: (id: string, type: string) => boolean;
+  onClose: () => void;
+  onAddSeal: (seal: Seal) => Promise<boolean>;
+  onAddLot: (lot: SealLot, seals: Seal[]) => Promise<boolean>;
+  onPrintLabels: (seals: Seal[]) => void;
+}> = ({ user, sealTypes, checkDuplicate, onClose, onAddSeal, onAddLot, onPrintLabels }) => {
+  const [mode, setMode] = useState<'single' | 'range'>('single');
+  const [sealId, setSealId] = useState('');
+  const [type, setType] = useState(sealTypes[0] || '');
+  const [range, setRange] = useState<RangeSpec>({ prefix: '', start: 1, end: 1, padding: 6 });
+  const [reception, setReception] = useState({ supplier: '', purchaseOrder: '', receivedDay: new Date().toISOString().slice(0, 10) });
+  const [isSaving, setIsSaving] = useState(false);
+  const [printLabels, setPrintLabels] = useState(true);
+  const rangeError = mode === 'range' ? SealLots.validateRange(range) : null;
+  const ids = useMemo(() => mode === 'range' ? SealLots.generateIds(range) : [], [mode, range]);
+  const collisions = useMemo(() => ids.filter(id => checkDuplicate(id, type)), [ids, type, checkDuplicate]);
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue outline-none";
+
+  const handleSingle = async () => { if (!sealId.trim()) return alert('ID obligatorio'); const id = sealId.trim().toUpperCase(); const now = Dates.now(); const seal: Seal = { uid: SealIdentity.create(), id, type, status: SealStatus.ENTRADA_INVENTARIO, creationDate: now, lastMovement: now, entryUser: user.fullName, orderNumber: '-', containerId: '-', notes: 'Alta Sede', city: user.city, history: [{ date: now, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: user.fullName, details: `Alta inicial en ${user.city}`, metadata: { observations: `Alta inicial en ${user.city}`, batch: false } }] }; setIsSaving(true); const ok = await onAddSeal(seal); setIsSaving(false); if (!ok) return; if (printLabels) onPrintLabels([seal]); onClose(); };
+  const handleRange = async () => { if (rangeError) return alert(rangeError); if (!reception.supplier.trim() || !reception.purchaseOrder.trim() || !reception.receivedDay) return alert('Proveedor, orden de compra y fecha de recepción son obligatorios.'); if (collisions.length > 0) return alert(`El rango contiene ${collisions.length} sello(s) ya registrados: ${collisions.slice(0, 10).join(', ')}${collisions.length > 10 ? '...' : ''}`); const { lot, seals } = SealLots.build(range, { ...reception, type }, user); setIsSaving(true); const ok = await onAddLot(lot, seals); setIsSaving(false); if (!ok) return; if (printLabels) onPrintLabels(seals); onClose(); };
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-lg overflow-hidden border border-slate-200">
+        <div className="bg-custom-blue px-6 py-5 text-white font-black text-xs uppercase tracking-widest">Nuevo Precinto - {user.city}</div>
+        <div className="p-8 space-y-6">
+          <div className="grid grid-cols-2 gap-2 bg-slate-100 p-1 rounded-xl">{(['single', 'range'] as const).map(m => <button key={m} onClick={() => setMode(m)} className={`py-2.5 rounded-lg text-[10px] font-black uppercase tracking-widest transition-all ${mode === m ? 'bg-white text-custom-blue shadow' : 'text-slate-400'}`}>{m === 'single' ? 'Individual' : 'Rango / Lote'}</button>)}</div>
+          {mode === 'single' ? <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">ID Precinto</label><input type="text" className={`${inputClass} font-mono uppercase`} placeholder="Ej: BOG-4432" value={sealId} onChange={e => setSealId(e.target.value.toUpperCase())} /></div> : <>
+            <div className="grid grid-cols-4 gap-3">
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Prefijo</label><input type="text" className={`${inputClass} font-mono uppercase`} placeholder="BOG-" value={range.prefix} onChange={e => setRange({ ...range, prefix: e.target.value.toUpperCase() })} /></div>
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Dígitos (Ceros)</label><input type="number" min={0} max={12} className={inputClass} value={range.padding} onChange={e => setRange({ ...range, padding: Number(e.target.value) })} /></div>
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Desde</label><input type="number" min={0} className={inputClass} value={range.start} onChange={e => setRange({ ...range, start: Number(e.target.value) })} /></div>
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Hasta</label><input type="number" min={0} className={inputClass} value={range.end} onChange={e => setRange({ ...range, end: Number(e.target.value) })} /></div>
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Proveedor</label><input type="text" className={inputClass} value={reception.supplier} onChange={e => setReception({ ...reception, supplier: e.target.value })} /></div>
+              <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Orden de Compra</label><input type="text" className={`${inputClass} uppercase`} value={reception.purchaseOrder} onChange={e => setReception({ ...reception, purchaseOrder: e.target.value.toUpperCase() })} /></div>
+              <div className="space-y-1.5 col-span-4"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Fecha de Recepción</label><input type="date" className={inputClass} value={reception.receivedDay} onChange={e => setReception({ ...reception, receivedDay: e.target.value })} /></div>
+            </div>
+            <div className={`p-4 rounded-xl border text-[10px] font-black uppercase tracking-widest ${rangeError || collisions.length > 0 ? 'bg-red-50 border-red-200 text-red-700' : 'bg-slate-50 border-slate-200 text-slate-500'}`}>{rangeError ? rangeError : <>{ids.length} precintos: <span className="font-mono text-custom-blue">{ids[0]}</span> a <span className="font-mono text-custom-blue">{ids[ids.length - 1]}</span>{collisions.length > 0 && <p className="mt-2">{collisions.length} ya registrados: {collisions.slice(0, 5).join(', ')}{collisions.length > 5 ? '...' : ''}</p>}</>}</div>
+            <p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">Máximo {MAX_RANGE_SIZE} precintos por lote</p>
+          </>}
+          <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Tipo</label><select className={`${inputClass} appearance-none`} value={type} onChange={e => setType(e.target.value)}>{sealTypes.map(t => <option key={t} value={t}>{t}</option>)}</select></div>
+          <label className="flex items-center gap-3 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer"><input type="checkbox" className="w-4 h-4 accent-custom-blue" checked={printLabels} onChange={e => setPrintLabels(e.target.checked)} /> Generar hoja de etiquetas QR (PDF)</label>
+          <div className="flex gap-4 pt-6"><button onClick={onClose} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button onClick={mode === 'single' ? handleSingle : handleRange} disabled={isSaving || (mode === 'range' && (!!rangeError || collisions.length > 0))} className="flex-1 bg-custom-blue text-white py-4 rounded-xl font-black text-[10px] uppercase shadow-xl hover:bg-black disabled:opacity-40">{isSaving ? 'Registrando...' : mode === 'single' ? 'Registrar' : `Registrar Lote (${ids.length})`}</button></div>
+        </div>
+      </div>
+    </div>
+  );
+};
+
+const TraceabilityView: React.FC<{ seals: Seal[]; lots: SealLot[]; user: User; settings: AppSettings }> = ({ seals, lots, user, settings }) => {
   const [searchId, setSearchId] = useState('');
-  const foundSeal = useMemo(() => { if (!searchId) return null; return seals.find(s => s.id.toLowerCase() === searchId.toLowerCase() && s.city === user.city) || null; }, [seals, searchId, user.city]);
-  const handleSearch = (e: React.FormEvent) => { e.preventDefault(); if (!foundSeal && searchId) alert(`No se encontró ningún precinto con el ID "${searchId}" en la sede ${user.city}`); };
-  const handleDownloadHistory = () => { if (!foundSeal) return; const historyData = foundSeal.history.map(h => ({ Fecha: h.date, "Estado Origen": h.fromStatus || "REGISTRO INICIAL", "Estado Destino": h.toStatus, Operador: h.user, Detalles: h.details })); exportToExcel(historyData, `Trazabilidad_Sello_${foundSeal.id}`); };
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [pickedUid, setPickedUid] = useState<string | null>(null);
+  const [isPicking, setIsPicking] = useState(false);
+  const lookup = useCallback((id: string) => SealIdentity.byCode(seals, id).filter(s => (can(user, 'report.crossCity') || s.city === user.city) && (!s.deletedAt || can(user, 'audit.view'))), [seals, user]);
+  const matches = useMemo(() => lookup(searchId), [lookup, searchId]);
+  // Con códigos repetidos entre tipos se muestra el precinto que eligió el usuario
+  const foundSeal = matches.length === 1 ? matches[0] : matches.find(s => s.uid === pickedUid) || null;
+  // Un lector tipo teclado escribe el código y envía Enter; la lectura puede traer un QR con URL o JSON
+  const runSearch = (raw: string) => { const id = Scanner.parse(raw); setSearchId(id); setPickedUid(null); if (!id) return; const found = lookup(id); if (found.length > 0) { Scanner.accept(); setIsPicking(found.length > 1); } else { Scanner.reject(); alert(`No se encontró ningún precinto con el ID "${id}" en la sede ${user.city}`); } };
+  const handleSearch = (e: React.FormEvent) => { e.preventDefault(); runSearch(searchId); };
+  const handleReprint = (entry: MovementHistory) => { if (foundSeal) Documents.movementReceipt(Documents.receiptFromHistory(seals, foundSeal, entry), settings).catch(() => alert('No fue posible generar el comprobante.')); };
+  const handleDownloadHistory = () => { if (!foundSeal) return; const historyData = foundSeal.history.map(h => { const m = h.metadata || MovementDetails.parse(h.details); return { Fecha: Dates.format(h.date), "Estado Origen": h.fromStatus || "REGISTRO INICIAL", "Estado Destino": h.toStatus, Operador: h.user, Receptor: m.receiver || '', "Placa Vehículo": m.vehiclePlate || '', "Trailer/Contenedor": m.trailerContainer || '', "Entregado Sub": m.deliveredSub || '', "Motivo Destrucción": m.destructionReason || '', Observaciones: m.observations || '', Masivo: m.batch ? 'SI' : 'NO', Evidencia: (m.attachments || []).map(a => a.name).join(', ') }; }); exportToExcel(historyData, `Trazabilidad_Sello_${foundSeal.id}`); };
 
   return (
     <div className="space-y-8 animate-in fade-in duration-500">
-      <div className="flex justify-between items-center"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Consulta de Trazabilidad</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Sede Actual: <span className="text-custom-blue">{user.city}</span></p></div>{foundSeal && <button onClick={handleDownloadHistory} className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-emerald-700 transition-all"><ICONS.Excel className="w-4 h-4" /> Descargar Historial</button>}</div>
-      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 max-w-2xl"><form onSubmit={handleSearch} className="flex gap-4"><div className="flex-1 relative"><div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400"><ICONS.Search className="w-5 h-5" /></div><input type="text" placeholder="Ingrese el ID del Sello" className="w-full pl-12 pr-4 py-4 border border-gray-200 bg-gray-50 rounded-xl text-lg font-mono font-bold text-custom-blue focus:bg-white focus:ring-4 focus:ring-blue-100 outline-none transition-all uppercase" value={searchId} onChange={(e) => setSearchId(e.target.value.toUpperCase())} /></div><button type="submit" className="bg-custom-blue text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">Consultar</button></form></div>
+      <div className="flex justify-between items-center"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Consulta de Trazabilidad</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Sede Actual: <span className="text-custom-blue">{user.city}</span></p></div>{foundSeal && can(user, 'report.export') && <button onClick={handleDownloadHistory} className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-emerald-700 transition-all"><ICONS.Excel className="w-4 h-4" /> Descargar Historial</button>}</div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 max-w-2xl"><form onSubmit={handleSearch} className="flex gap-4"><div className="flex-1 relative"><div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400"><ICONS.Search className="w-5 h-5" /></div><input type="text" placeholder="Ingrese el ID del Sello" className="w-full pl-12 pr-4 py-4 border border-gray-200 bg-gray-50 rounded-xl text-lg font-mono font-bold text-custom-blue focus:bg-white focus:ring-4 focus:ring-blue-100 outline-none transition-all uppercase" value={searchId} onChange={(e) => setSearchId(e.target.value.toUpperCase())} /></div><button type="submit" className="bg-custom-blue text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">Consultar</button><button type="button" onClick={() => setIsCameraOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-5 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-50 transition-all">Cámara</button></form></div>
+      {isCameraOpen && <CameraScanner onCode={runSearch} onClose={() => setIsCameraOpen(false)} />}
       {foundSeal ? (
         <div className="grid grid-cols-1 lg:grid-cols-3 gap-8 animate-in slide-in-from-bottom-4">
-          <div className="lg:col-span-1 space-y-6"><div className="bg-white rounded-2xl border border-slate-200 p-6 shadow-sm"><h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4">Estado en {user.city}</h4><div className={`p-4 rounded-xl border-2 text-center font-black text-lg uppercase mb-4 transition-all duration-500 ${getStatusStyles(foundSeal.status).split('icon-bg-')[0]}`}>{foundSeal.status.replace('_', ' ')}</div><div className="space-y-4 pt-4 border-t border-slate-100 text-[11px]"><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Tipo:</span><span className="font-bold text-black uppercase">{foundSeal.type}</span></div><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Alta:</span><span className="font-bold text-black">{foundSeal.creationDate}</span></div><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Sede:</span><span className="font-bold text-custom-blue uppercase">{foundSeal.city}</span></div></div></div></div>
-          <div className="lg:col-span-2 bg-white rounded-2xl border border-slate-200 p-8 shadow-sm"><h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-8">Bitácora de Eventos (Historial)</h4><div className="relative space-y-8 before:absolute before:inset-0 before:ml-5 before:-translate-x-px md:before:mx-auto md:before:translate-x-0 before:h-full before:w-0.5 before:bg-gradient-to-b before:from-transparent before:via-slate-200 before:to-transparent">{foundSeal.history.map((h, i) => (<div key={i} className="relative flex items-center justify-between md:justify-normal md:odd:flex-row-reverse group is-active"><div className={`flex items-center justify-center w-10 h-10 rounded-full border-2 border-white text-white shadow-md shrink-0 md:order-1 md:group-odd:-translate-x-1/2 md:group-even:translate-x-1/2 transition-colors duration-500 ${getStatusIconColor(h.toStatus)}`}><ICONS.History className="w-5 h-5" /></div><div className={`w-[calc(100%-4rem)] md:w-[calc(50%-2.5rem)] bg-white p-4 rounded-xl border-l-4 shadow-sm transition-all hover:shadow-md ${h.toStatus === SealStatus.DESTRUIDO ? 'border-red-500 bg-red-50/20' : h.toStatus === SealStatus.SALIDA_FABRICA ? 'border-gray-400 bg-gray-50/50' : h.toStatus === SealStatus.NO_INSTALADO ? 'border-stone-400 bg-stone-50' : 'border-custom-blue'}`}><div className="flex items-center justify-between space-x-2 mb-1"><div className={`font-black uppercase text-[10px] transition-colors ${getStatusTextColor(h.toStatus)}`}>{h.toStatus.replace('_', ' ')}</div><time className="font-mono text-[9px] text-slate-400 font-bold">{h.date}</time></div><div className="text-slate-700 text-[10px] font-medium italic leading-relaxed">{h.details}</div><div className="mt-2 pt-2 border-t border-slate-50 text-[9px] font-black text-slate-400 uppercase">Operador: {h.user}</div></div></div>))}</div></div>
+          <div className="lg:col-span-1 space-y-6"><div className="bg-white rounded-2xl border border-slate-200 p-6 shadow-sm"><h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-4">Estado en {user.city}</h4><div className={`p-4 rounded-xl border-2 text-center font-black text-lg uppercase mb-4 transition-all duration-500 ${getStatusStyles(foundSeal.status).split('icon-bg-')[0]}`}>{foundSeal.status.replace('_', ' ')}</div>{foundSeal.deletedAt && <div className="bg-red-600 text-white p-3 rounded-xl text-center text-[10px] font-black uppercase tracking-widest mb-4">Eliminado el {Dates.format(foundSeal.deletedAt)} por {foundSeal.deletedBy}</div>}<div className="space-y-4 pt-4 border-t border-slate-100 text-[11px]"><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Tipo:</span><span className="font-bold text-black uppercase">{foundSeal.type}{matches.length > 1 && <button onClick={() => setIsPicking(true)} className="ml-2 text-[9px] font-black text-custom-blue normal-case hover:underline">(cambiar)</button>}</span></div><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Alta:</span><span className="font-bold text-black">{Dates.format(foundSeal.creationDate)}</span></div><div className="flex justify-between"><span className="font-black text-slate-400 uppercase">Sede:</span><span className="font-bold text-custom-blue uppercase">{foundSeal.city}</span></div><button onClick={() => Documents.labelSheet([foundSeal], settings).catch(() => alert('No fue posible generar la etiqueta.'))} className="w-full py-2.5 border border-custom-blue text-custom-blue rounded-xl text-[10px] font-black uppercase tracking-widest hover:bg-slate-50">Reimprimir Etiqueta QR</button>{foundSeal.lotId && (() => { const lot = lots.find(l => l.id === foundSeal.lotId); return <div className="flex justify-between gap-4"><span className="font-black text-slate-400 uppercase">Lote:</span><span className="font-bold text-black uppercase text-right">{foundSeal.lotId}{lot && <><br />{lot.supplier} · OC {lot.purchaseOrder} · {Dates.formatDate(lot.receivedDate)}</>}</span></div>; })()}</div></div></div>
+          <div className="lg:col-span-2 bg-white rounded-2xl border border-slate-200 p-8 shadow-sm"><h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em] mb-8">Bitácora de Eventos (Historial)</h4><div className="relative space-y-8 before:absolute before:inset-0 before:ml-5 before:-translate-x-px md:before:mx-auto md:before:translate-x-0 before:h-full before:w-0.5 before:bg-gradient-to-b before:from-transparent before:via-slate-200 before:to-transparent">{foundSeal.history.map((h, i) => (<div key={i} className="relative flex items-center justify-between md:justify-normal md:odd:flex-row-reverse group is-active"><div className={`flex items-center justify-center w-10 h-10 rounded-full border-2 border-white text-white shadow-md shrink-0 md:order-1 md:group-odd:-translate-x-1/2 md:group-even:translate-x-1/2 transition-colors duration-500 ${getStatusIconColor(h.toStatus)}`}><ICONS.History className="w-5 h-5" /></div><div className={`w-[calc(100%-4rem)] md:w-[calc(50%-2.5rem)] bg-white p-4 rounded-xl border-l-4 shadow-sm transition-all hover:shadow-md ${h.toStatus === SealStatus.DESTRUIDO ? 'border-red-500 bg-red-50/20' : h.toStatus === SealStatus.SALIDA_FABRICA ? 'border-gray-400 bg-gray-50/50' : h.toStatus === SealStatus.NO_INSTALADO ? 'border-stone-400 bg-stone-50' : 'border-custom-blue'}`}><div className="flex items-center justify-between space-x-2 mb-1"><div className={`font-black uppercase text-[10px] transition-colors ${getStatusTextColor(h.toStatus)}`}>{h.toStatus.replace('_', ' ')}</div><time className="font-mono text-[9px] text-slate-400 font-bold">{Dates.format(h.date)}</time></div><div className="text-slate-700 text-[10px] font-medium italic leading-relaxed">{h.details}</div>{h.metadata?.attachments && h.metadata.attachments.length > 0 && <AttachmentGallery attachments={h.metadata.attachments} />}<div className="mt-2 pt-2 border-t border-slate-50 flex justify-between items-center text-[9px] font-black text-slate-400 uppercase"><span>Operador: {h.user}</span>{h.fromStatus && <button onClick={() => handleReprint(h)} className="text-custom-blue hover:underline" title="Reimprimir comprobante PDF">Comprobante</button>}</div></div></div>))}</div></div>
+        </div>
+      ) : <div className="bg-gray-50 border-2 border-dashed border-gray-200 rounded-3xl p-20 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Search className="w-8 h-8 text-blue-100" /></div>{matches.length > 1 ? <><p className="font-black text-slate-400 uppercase text-xs tracking-[0.3em]">El ID {searchId} corresponde a {matches.length} precintos de distinto tipo</p><button onClick={() => setIsPicking(true)} className="bg-custom-blue text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg">Elegir Precinto</button></> : <p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Esperando ID de Precinto en Sede {user.city}</p>}</div>}
+      {isPicking && matches.length > 1 && <SealPicker code={searchId} options={matches} onPick={s => { setPickedUid(s.uid); setIsPicking(false); }} onCancel={() => setIsPicking(false)} />}
+    </div>
+  );
+};
+
+const CameraScanner: React.FC<{ onCode: (code: string) => void; onClose: () => void; continuous?: boolean }> = ({ onCode, onClose, continuous = false }) => {
+  const videoRef = useRef<HTMLVideoElement>(null);
+  const [error, setError] = useState<string | null>(null);
+  // Referencias para no reiniciar la cámara en cada render del padre
+  const onCodeRef = useRef(onCode);
+  const onCloseRef = useRef(onClose);
+  onCodeRef.current = onCode;
+  onCloseRef.current = onClose;
+
+  useEffect(() => {
+    let stop: (() => void) | null = null;
+    let cancelled = false;
+    // El mismo código frente a la cámara se lee muchas veces por segundo: se ignora durante 2 s
+    const recent = new Map<string, number>();
+    const handleCode = (code: string) => {
+      const now = Date.now();
+      if ((recent.get(code) || 0) > now - 2000) return;
+      recent.set(code, now);
+      onCodeRef.current(code);
+      if (!continuous) onCloseRef.current();
+    };
+    if (videoRef.current) Scanner.startCamera(videoRef.current, handleCode).then(s => { if (cancelled) s(); else stop = s; }).catch(() => setError('No fue posible acceder a la cámara. Verifique los permisos del navegador.'));
+    return () => { cancelled = true; stop?.(); };
+  }, [continuous]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg overflow-hidden border border-gray-200 animate-in zoom-in duration-200">
+        <div className="bg-custom-blue px-6 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest">Escáner de Cámara {Scanner.hasNativeDetector() ? '' : '(compatibilidad)'}</h3><button onClick={onClose} className="hover:rotate-90 transition-transform">✕</button></div>
+        <div className="p-6 space-y-4">{error ? <div className="bg-red-50 text-red-700 p-4 rounded-xl text-[11px] font-bold border border-red-200">{error}</div> : <div className="relative rounded-2xl overflow-hidden bg-black aspect-video"><video ref={videoRef} className="w-full h-full object-cover" muted playsInline /><div className="absolute inset-x-10 top-1/2 h-0.5 bg-red-500/80 shadow-[0_0_12px_rgba(239,68,68,0.9)]"></div></div>}<p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">{continuous ? 'Apunte a cada código; las lecturas se agregan al lote' : 'Apunte al código de barras o QR del precinto'}</p></div>
+      </div>
+    </div>
+  );
+};
+
+// Un mismo código puede existir en varios tipos: el operador elige a qué precinto se refiere
+const SealPicker: React.FC<{ code: string; options: Seal[]; onPick: (seal: Seal) => void; onCancel: () => void }> = ({ code, options, onPick, onCancel }) => (
+  <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+    <div className="bg-white rounded-3xl shadow-2xl w-full max-w-md overflow-hidden border border-gray-200 animate-in zoom-in duration-200">
+      <div className="bg-custom-blue px-6 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest">Código repetido: <span className="font-mono">{code}</span></h3><button onClick={onCancel} className="hover:rotate-90 transition-transform">✕</button></div>
+      <div className="p-6 space-y-3">
+        <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Hay {options.length} precintos con este código. Elija el que corresponde:</p>
+        {options.map(s => <button key={s.uid} onClick={() => onPick(s)} className="w-full flex justify-between items-center gap-3 px-4 py-3 border border-slate-200 rounded-xl text-left hover:border-custom-blue hover:bg-blue-50/40 transition-all"><span><span className="block text-sm font-black text-custom-blue uppercase">{s.type}</span><span className="block text-[9px] font-black text-slate-400 uppercase tracking-widest">{s.city}{s.lot ? ` · Lote ${s.lot}` : ''} · Alta {Dates.formatDate(s.creationDate)}{s.deletedAt ? ' · Eliminado' : ''}</span></span><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border ${getStatusStyles(s.status).split('icon-bg-')[0]}`}>{s.status.replace('_', ' ')}</span></button>)}
+        <button onClick={onCancel} className="w-full py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button>
+      </div>
+    </div>
+  </div>
+);
+
+// Fotos (archivo o cámara del dispositivo) y PDF que acompañan un movimiento
+const EvidencePicker: React.FC<{ items: PreparedAttachment[]; required: boolean; onChange: (items: PreparedAttachment[]) => void }> = ({ items, required, onChange }) => {
+  const [isProcessing, setIsProcessing] = useState(false);
+  const cameraRef = useRef<HTMLInputElement>(null);
+  const fileRef = useRef<HTMLInputElement>(null);
+
+  const handleFiles = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = Array.from(e.target.files || []);
+    e.target.value = '';
+    if (files.length === 0) return;
+    if (items.length + files.length > MAX_ATTACHMENTS) return alert(`Se admiten como máximo ${MAX_ATTACHMENTS} adjuntos por movimiento.`);
+    setIsProcessing(true);
+    const results = await Promise.all(files.map(f => Attachments.prepare(f)));
+    setIsProcessing(false);
+    const errors = results.filter((r): r is string => typeof r === 'string');
+    if (errors.length > 0) alert(errors.join('\n'));
+    onChange([...items, ...results.filter((r): r is PreparedAttachment => typeof r !== 'string')]);
+  };
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Evidencia{required && <span className="text-red-600"> (obligatoria)</span>}:</label><span className="text-[9px] font-bold text-slate-400 uppercase">{items.length}/{MAX_ATTACHMENTS}</span></div>
+      <div className="grid grid-cols-2 gap-2"><button type="button" onClick={() => cameraRef.current?.click()} disabled={isProcessing || items.length >= MAX_ATTACHMENTS} className="flex items-center justify-center gap-2 border border-slate-200 bg-slate-50 rounded-xl py-3 text-[10px] font-black text-custom-blue uppercase tracking-widest hover:bg-white disabled:opacity-40"><ICONS.Camera /> Tomar Foto</button><button type="button" onClick={() => fileRef.current?.click()} disabled={isProcessing || items.length >= MAX_ATTACHMENTS} className="flex items-center justify-center gap-2 border border-slate-200 bg-slate-50 rounded-xl py-3 text-[10px] font-black text-custom-blue uppercase tracking-widest hover:bg-white disabled:opacity-40"><ICONS.Paperclip /> Adjuntar Archivo</button></div>
+      <input ref={cameraRef} type="file" accept="image/*" capture="environment" className="hidden" onChange={handleFiles} />
+      <input ref={fileRef} type="file" accept={ATTACHMENT_ACCEPT} multiple className="hidden" onChange={handleFiles} />
+      {isProcessing && <p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Comprimiendo...</p>}
+      {items.length > 0 && <div className="flex flex-wrap gap-2">{items.map(({ attachment: a }) => <div key={a.id} className="relative w-16 h-16 rounded-lg border border-slate-200 bg-slate-50 overflow-hidden group" title={`${a.name} · ${Attachments.formatSize(a.size)}`}>{a.thumbnail ? <img src={a.thumbnail} alt={a.name} className="w-full h-full object-cover" /> : <div className="w-full h-full flex flex-col items-center justify-center text-slate-400"><ICONS.Paperclip /><span className="text-[8px] font-black uppercase mt-1">PDF</span></div>}<button type="button" onClick={() => onChange(items.filter(i => i.attachment.id !== a.id))} className="absolute top-0.5 right-0.5 w-5 h-5 rounded-full bg-slate-900/70 text-white text-[10px] leading-none opacity-0 group-hover:opacity-100 transition-opacity">✕</button></div>)}</div>}
+    </div>
+  );
+};
+
+// Miniaturas de la evidencia de una entrada del historial
+const AttachmentGallery: React.FC<{ attachments: MovementAttachment[] }> = ({ attachments }) => {
+  const [viewing, setViewing] = useState<MovementAttachment | null>(null);
+  return (
+    <>
+      <div className="mt-2 flex flex-wrap gap-1.5">{attachments.map(a => <button key={a.id} onClick={() => setViewing(a)} className="w-12 h-12 rounded-lg border border-slate-200 bg-slate-50 overflow-hidden hover:ring-2 hover:ring-custom-blue transition-all" title={`${a.name} · ${Attachments.formatSize(a.size)}`}>{a.thumbnail ? <img src={a.thumbnail} alt={a.name} className="w-full h-full object-cover" /> : <span className="w-full h-full flex flex-col items-center justify-center text-slate-400"><ICONS.Paperclip className="w-3.5 h-3.5" /><span className="text-[7px] font-black uppercase">PDF</span></span>}</button>)}</div>
+      {viewing && <AttachmentViewer attachment={viewing} onClose={() => setViewing(null)} />}
+    </>
+  );
+};
+
+const AttachmentViewer: React.FC<{ attachment: MovementAttachment; onClose: () => void }> = ({ attachment, onClose }) => {
+  const [url, setUrl] = useState<string | null>(null);
+  const [isMissing, setIsMissing] = useState(false);
+
+  useEffect(() => {
+    let objectUrl: string | null = null;
+    let cancelled = false;
+    ApiService.getAttachment(attachment.id).then(content => {
+      if (cancelled) return;
+      if (!content) return setIsMissing(true);
+      objectUrl = URL.createObjectURL(Attachments.toBlob(content));
+      setUrl(objectUrl);
+    });
+    return () => { cancelled = true; if (objectUrl) URL.revokeObjectURL(objectUrl); };
+  }, [attachment.id]);
+
+  return (
+    <div className="fixed inset-0 bg-slate-900/80 backdrop-blur-sm z-50 flex items-center justify-center p-4">
+      <div className="bg-white rounded-3xl shadow-2xl w-full max-w-3xl overflow-hidden border border-gray-200 animate-in zoom-in duration-200">
+        <div className="bg-custom-blue px-6 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest truncate">{attachment.name} · {Attachments.formatSize(attachment.size)}</h3><div className="flex items-center gap-4">{url && <a href={url} download={attachment.name} className="text-[10px] font-black uppercase tracking-widest hover:underline">Descargar</a>}<button onClick={onClose} className="hover:rotate-90 transition-transform">✕</button></div></div>
+        <div className="p-6 bg-slate-50 flex items-center justify-center min-h-[40vh]">
+          {isMissing ? <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest text-center">El adjunto aún no está disponible en este equipo.<br />Se sincroniza cuando el dispositivo que lo registró recupera la conexión.</p>
+            : !url ? <p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Cargando...</p>
+            : attachment.kind === 'pdf' ? <iframe src={url} title={attachment.name} className="w-full h-[70vh] rounded-xl border border-slate-200 bg-white" />
+            : <img src={url} alt={attachment.name} className="max-w-full max-h-[70vh] rounded-xl shadow" />}
         </div>
-      ) : <div className="bg-gray-50 border-2 border-dashed border-gray-200 rounded-3xl p-20 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Search className="w-8 h-8 text-blue-100" /></div><p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Esperando ID de Precinto en Sede {user.city}</p></div>}
+      </div>
     </div>
   );
 };
@@ -622,47 +1263,623 @@ const MovementsView: React.FC<{
   onInitiateMove: (s: Seal[], status: SealStatus) => void; 
   user: User;
 }> = ({ seals, onInitiateMove, user }) => {
-  const [searchQuery, setSearchQuery] = useState('');
-  const foundSeals = useMemo(() => { if (!searchQuery) return []; const ids = searchQuery.split(',').map(id => id.trim().toUpperCase()).filter(id => id !== ''); return seals.filter(s => ids.includes(s.id) && s.city === user.city); }, [seals, searchQuery, user.city]);
-  const allFound = useMemo(() => { if (!searchQuery) return false; const ids = searchQuery.split(',').map(id => id.trim().toUpperCase()).filter(id => id !== ''); return foundSeals.length === ids.length; }, [foundSeals, searchQuery]);
-  const commonStatus = useMemo(() => { if (foundSeals.length === 0) return null; const status = foundSeals[0].status; return foundSeals.every(s => s.status === status) ? status : 'MIXED'; }, [foundSeals]);
-  const handleSearch = (e: React.FormEvent) => { e.preventDefault(); const ids = searchQuery.split(',').map(id => id.trim().toUpperCase()).filter(id => id !== ''); if (foundSeals.length < ids.length) alert(`Uno o más precintos no existen en la sede ${user.city} o han sido escritos incorrectamente.`); else if (commonStatus === 'MIXED') alert(`Error de Lote: Todos los precintos deben estar en el mismo estado para realizar una operación masiva.`); };
-  const isFinal = commonStatus === SealStatus.SALIDA_FABRICA || commonStatus === SealStatus.DESTRUIDO;
+  const [scanInput, setScanInput] = useState('');
+  const [batchKeys, setBatchKeys] = useState<string[]>([]); // uid de los precintos del lote
+  const [choices, setChoices] = useState<{ code: string; options: Seal[] }[]>([]); // Códigos repetidos entre tipos pendientes de elegir
+  const [scanLog, setScanLog] = useState<{ code: string; ok: boolean; message: string }[]>([]);
+  const [flash, setFlash] = useState<'ok' | 'error' | null>(null);
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const inputRef = useRef<HTMLInputElement>(null);
+  // Se resuelve contra el inventario actual para reflejar los movimientos ya aplicados
+  const batch = useMemo(() => batchKeys.map(k => seals.find(s => s.uid === k)).filter((s): s is Seal => !!s), [batchKeys, seals]);
+  const commonStatus = useMemo(() => { if (batch.length === 0) return null; const status = batch[0].status; return batch.every(s => s.status === status) ? status : 'MIXED'; }, [batch]);
+  const isFinal = commonStatus !== null && commonStatus !== 'MIXED' && SealLifecycle.isTerminal(commonStatus);
+  useEffect(() => { if (flash) { const timer = setTimeout(() => setFlash(null), 600); return () => clearTimeout(timer); } }, [flash]);
+
+  const registerScan = (code: string, ok: boolean, message: string) => { if (ok) Scanner.accept(); else Scanner.reject(); setFlash(ok ? 'ok' : 'error'); setScanLog(prev => [{ code, ok, message }, ...prev].slice(0, 8)); };
+  const addToBatch = (keys: string[], seal: Seal, code: string): string[] => {
+    if (SealLifecycle.isTerminal(seal.status)) { registerScan(code, false, `Ciclo finalizado (${seal.status.replace('_', ' ')})`); return keys; }
+    if (keys.includes(seal.uid)) { registerScan(code, false, 'Ya escaneado en este lote'); return keys; }
+    registerScan(code, true, `${seal.type} · ${seal.status.replace('_', ' ')}`);
+    return [...keys, seal.uid];
+  };
+  const handleScan = (raw: string) => {
+    let keys = batchKeys;
+    const ambiguous: { code: string; options: Seal[] }[] = [];
+    raw.split(/[,;\s]+/).filter(Boolean).forEach(part => {
+      const id = Scanner.parse(part);
+      const matches = SealIdentity.byCode(seals, id).filter(s => s.city === user.city);
+      if (matches.length === 0) return registerScan(id, false, `No existe en la sede ${user.city}`);
+      if (matches.length > 1) return ambiguous.push({ code: id, options: matches });
+      keys = addToBatch(keys, matches[0], id);
+    });
+    setBatchKeys(keys);
+    if (ambiguous.length > 0) setChoices(prev => [...prev, ...ambiguous]);
+  };
+  const handlePick = (seal: Seal) => { const [current, ...rest] = choices; setChoices(rest); setBatchKeys(addToBatch(batchKeys, seal, current.code)); };
+  const handleSubmit = (e: React.FormEvent) => { e.preventDefault(); if (scanInput.trim()) handleScan(scanInput); setScanInput(''); inputRef.current?.focus(); };
+  const handleClear = () => { setBatchKeys([]); setScanLog([]); inputRef.current?.focus(); };
 
   return (
     <div className="space-y-8 animate-in fade-in duration-500">
       <div className="flex justify-between items-end"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Movimiento Operativo</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Gestión Centralizada - Sede: <span className="text-custom-blue">{user.city}</span></p></div></div>
-      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 max-w-2xl"><form onSubmit={handleSearch} className="flex flex-col gap-4"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Ingrese IDs separados por coma para gestión masiva</label><div className="flex gap-4"><div className="flex-1 relative"><div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400"><ICONS.Move className="w-5 h-5" /></div><input type="text" placeholder="Ej: BOG-001, BOG-002, BOG-003" className="w-full pl-12 pr-4 py-4 border border-gray-200 bg-gray-50 rounded-xl text-lg font-mono font-bold text-custom-blue focus:bg-white focus:ring-4 focus:ring-blue-100 outline-none transition-all uppercase" value={searchQuery} onChange={(e) => setSearchQuery(e.target.value)} /></div><button type="submit" className="bg-custom-blue text-white px-8 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">MOVIMIENTO SELLOS</button></div></form></div>
-      {foundSeals.length > 0 && allFound && commonStatus !== 'MIXED' ? (
+      <div className={`bg-white rounded-2xl shadow-sm border-2 p-8 max-w-2xl transition-colors duration-300 ${flash === 'ok' ? 'border-emerald-400 bg-emerald-50/40' : flash === 'error' ? 'border-red-400 bg-red-50/40' : 'border-slate-200'}`}><form onSubmit={handleSubmit} className="flex flex-col gap-4"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Escanee o digite los precintos (Enter por cada lectura)</label><div className="flex gap-4"><div className="flex-1 relative"><div className="absolute inset-y-0 left-4 flex items-center pointer-events-none text-slate-400"><ICONS.Move className="w-5 h-5" /></div><input ref={inputRef} autoFocus type="text" placeholder="Modo lector: enfoque aquí y escanee" className="w-full pl-12 pr-4 py-4 border border-gray-200 bg-gray-50 rounded-xl text-lg font-mono font-bold text-custom-blue focus:bg-white focus:ring-4 focus:ring-blue-100 outline-none transition-all uppercase" value={scanInput} onChange={(e) => setScanInput(e.target.value)} /></div><button type="submit" className="bg-custom-blue text-white px-6 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">Agregar</button><button type="button" onClick={() => setIsCameraOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-5 py-4 rounded-xl font-black text-xs uppercase tracking-widest hover:bg-slate-50 transition-all">Cámara</button></div></form>
+        {scanLog.length > 0 && <div className="mt-4 space-y-1">{scanLog.map((l, i) => <p key={i} className={`text-[10px] font-black uppercase tracking-widest ${i === 0 ? '' : 'opacity-50'} ${l.ok ? 'text-emerald-600' : 'text-red-600'}`}>{l.ok ? '✓' : '✕'} <span className="font-mono">{l.code}</span> - {l.message}</p>)}</div>}
+      </div>
+      {batch.length > 0 ? (
         <div className="max-w-2xl bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden animate-in zoom-in duration-200">
-          <div className="bg-custom-blue px-8 py-4 text-white flex justify-between items-center"><p className="text-[10px] font-black uppercase tracking-widest">{foundSeals.length > 1 ? `OPERACIÓN POR LOTE (${foundSeals.length} UNIDADES)` : `ID: ${foundSeals[0].id}`}</p><p className="text-[10px] font-black uppercase tracking-widest">Sede: {user.city}</p></div>
-          <div className="p-8 space-y-6"><div className="text-center space-y-2"><p className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Estado Actual del Sello</p><div className={`p-3 rounded-2xl border-2 text-center font-black text-xl uppercase shadow-inner transition-all duration-500 ${getStatusStyles(commonStatus as SealStatus).split('icon-bg-')[0]}`}>{(commonStatus as SealStatus).replace('_', ' ')}</div></div>
-            {!isFinal ? (
-              <div className="space-y-4"><p className="text-[10px] font-black text-slate-500 uppercase tracking-widest text-center">Seleccione el Cambio de Estado para el Sello</p><div className="grid grid-cols-1 gap-2">
-                  {(commonStatus === SealStatus.ENTRADA_INVENTARIO || commonStatus === SealStatus.NO_INSTALADO) && <button onClick={() => onInitiateMove(foundSeals, SealStatus.ASIGNADO)} className="bg-sky-600 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Asignar Sello a Pedido</button>}
-                  {commonStatus === SealStatus.ASIGNADO && <button onClick={() => onInitiateMove(foundSeals, SealStatus.ENTREGADO)} className="bg-amber-600 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Entregar Despacho del Sello</button>}
-                  {commonStatus === SealStatus.ENTREGADO && (<><button onClick={() => onInitiateMove(foundSeals, SealStatus.INSTALADO)} className="bg-orange-600 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Confirmar Instalación de Sello</button><button onClick={() => onInitiateMove(foundSeals, SealStatus.NO_INSTALADO)} className="bg-stone-500 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Reportar No Instalado (Reutilizar)</button></>)}
-                  {commonStatus === SealStatus.INSTALADO && <button onClick={() => onInitiateMove(foundSeals, SealStatus.SALIDA_FABRICA)} className="bg-gray-500 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Liberar Salida Sello (Final)</button>}
-                  <button onClick={() => onInitiateMove(foundSeals, SealStatus.DESTRUIDO)} className="bg-red-600 text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all">Reportar Sello Destruido</button>
+          <div className="bg-custom-blue px-8 py-4 text-white flex justify-between items-center"><p className="text-[10px] font-black uppercase tracking-widest">{batch.length > 1 ? `OPERACIÓN POR LOTE (${batch.length} UNIDADES)` : `ID: ${batch[0].id}`}</p><button onClick={handleClear} className="text-[10px] font-black uppercase tracking-widest hover:underline">Limpiar Lote</button></div>
+          <table className="w-full text-left text-[11px]"><tbody className="divide-y divide-slate-100 font-bold text-slate-700">{batch.map(s => (<tr key={s.uid}><td className="px-8 py-3 font-mono font-black text-custom-blue">{s.id}</td><td className="px-4 py-3 uppercase text-[9px]">{s.type}</td><td className="px-4 py-3"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${getStatusStyles(s.status).split('icon-bg-')[0]}`}>{s.status.replace('_', ' ')}</span></td><td className="px-8 py-3 text-right"><button onClick={() => setBatchKeys(prev => prev.filter(k => k !== s.uid))} className="text-slate-300 hover:text-red-600" title="Quitar del lote">✕</button></td></tr>))}</tbody></table>
+          <div className="p-8 space-y-6 border-t border-slate-100">
+            {commonStatus === 'MIXED' ? <div className="bg-red-50 border-2 border-dashed border-red-200 rounded-2xl p-6 text-center space-y-1"><p className="font-black text-red-800 uppercase text-xs tracking-widest">Inconsistencia en el Lote</p><p className="text-[10px] text-red-600 font-bold uppercase tracking-wider">Todos los precintos deben estar en el mismo estado. Quite los que no correspondan.</p></div> : !isFinal ? (
+              <div className="space-y-4"><p className="text-[10px] font-black text-slate-500 uppercase tracking-widest text-center">Seleccione el Cambio de Estado para el Lote</p><div className="grid grid-cols-1 gap-2">
+                  {SealLifecycle.getAllowedTransitions(commonStatus as SealStatus, user).map(t => <button key={t.to} onClick={() => onInitiateMove(batch, t.to)} className={`${getTransitionButtonClass(t.to)} text-white p-4 rounded-xl font-black text-xs uppercase tracking-widest shadow-lg hover:scale-[1.01] transition-all`}>{t.label}</button>)}
                 </div></div>
             ) : <div className="bg-slate-50 p-6 rounded-2xl border-2 border-dashed border-slate-200 text-center space-y-4 animate-in zoom-in"><p className={`text-sm font-black uppercase tracking-widest transition-colors ${getStatusTextColor(commonStatus as SealStatus)}`}>Ciclo operativo finalizado ({(commonStatus as SealStatus).replace('_', ' ')})</p></div>}
           </div>
         </div>
-      ) : searchQuery !== '' ? <div className="bg-red-50 border-2 border-dashed border-red-200 rounded-3xl p-12 text-center space-y-4"><div className="bg-white w-16 h-16 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.StopCircle className="w-8 h-8 text-red-500" /></div><div className="space-y-1"><p className="font-black text-red-800 uppercase text-xs tracking-widest">Inconsistencia en el Lote</p><p className="text-[10px] text-red-600 font-bold uppercase tracking-wider">Verifique que todos los precintos existan y tengan el mismo estado actual.</p></div></div> : <div className="bg-gray-50 border-2 border-dashed border-gray-200 rounded-3xl p-20 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Move className="w-8 h-8 text-blue-100" /></div><p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Ingrese IDs para iniciar gestión masiva en {user.city}</p></div>}
+      ) : <div className="bg-gray-50 border-2 border-dashed border-gray-200 rounded-3xl p-20 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Move className="w-8 h-8 text-blue-100" /></div><p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Escanee precintos para iniciar gestión masiva en {user.city}</p></div>}
+      {isCameraOpen && <CameraScanner continuous onCode={handleScan} onClose={() => setIsCameraOpen(false)} />}
+      {choices.length > 0 && <SealPicker code={choices[0].code} options={choices[0].options} onPick={handlePick} onCancel={() => setChoices(prev => prev.slice(1))} />}
     </div>
   );
 };
 
-const LoginScreen: React.FC<{ onLogin: (user: User) => void; users: User[]; settings: AppSettings }> = ({ onLogin, users, settings }) => {
+const SyncView: React.FC<{ state: SyncState }> = ({ state }) => {
+  const pending = useMemo(() => SyncQueue.getPending(), [state]);
+  const conflicts = useMemo(() => SyncQueue.getConflicts(), [state]);
+  const handleDiscard = (id: string) => { if (window.confirm('¿Descartar esta operación? El cambio local no se aplicará en el servidor.')) SyncQueue.discardConflict(id); };
+  const handleForce = async (id: string) => { if (!window.confirm('¿Aplicar la operación sobre el estado actual del servidor? Se sobrescribirá el movimiento registrado en la otra sede.')) return; const result = await SyncQueue.forceConflict(id); if (result === 'queued') alert('Sin conexión con el servidor. Intente nuevamente más tarde.'); else if (result === 'rejected') alert('El servidor rechazó nuevamente la operación. Revise el motivo actualizado.'); };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-end"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Sincronización</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Estado: <span className={state.online ? 'text-emerald-600' : 'text-red-600'}>{state.online ? 'En línea' : 'Sin conexión'}</span>{state.syncing && ' - Sincronizando...'}</p></div><button onClick={() => SyncQueue.flush()} disabled={!state.online || state.pending === 0 || state.syncing} className="flex items-center gap-2 bg-custom-blue text-white px-6 py-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-xl hover:bg-custom-blue-dark transition-all disabled:opacity-40">Sincronizar Ahora</button></div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest">Conflictos por Revisar ({conflicts.length})</div>
+        {conflicts.length > 0 ? <div className="divide-y divide-slate-100">{conflicts.map(c => (<div key={c.operation.id} className="px-8 py-5 flex items-start justify-between gap-6"><div className="space-y-1"><p className="text-xs font-black text-custom-blue uppercase">{c.operation.description}</p><p className="text-[10px] font-bold text-red-600">{c.reason}</p><p className="text-[9px] font-black text-slate-400 uppercase">Registrado por {c.operation.user} el {Dates.format(c.operation.createdAt)} - Detectado {Dates.format(c.detectedAt)}</p></div><div className="flex gap-2 shrink-0"><button onClick={() => handleDiscard(c.operation.id)} className="px-4 py-2 rounded-lg border border-slate-200 text-[9px] font-black uppercase tracking-widest text-slate-500 hover:bg-slate-50">Descartar</button>{SyncQueue.canForce(c.operation) && <button onClick={() => handleForce(c.operation.id)} className="px-4 py-2 rounded-lg bg-red-600 text-white text-[9px] font-black uppercase tracking-widest hover:bg-red-700 shadow">Forzar</button>}</div></div>))}</div> : <p className="px-8 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Sin conflictos pendientes</p>}
+      </div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <div className="px-8 py-5 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest">Operaciones en Cola ({pending.length})</div>
+        {pending.length > 0 ? <div className="divide-y divide-slate-100">{pending.map((op, i) => (<div key={op.id} className="px-8 py-4 flex items-center gap-4"><span className="text-[10px] font-black text-slate-300 font-mono">#{i + 1}</span><div><p className="text-xs font-bold text-slate-700 uppercase">{op.description}</p><p className="text-[9px] font-black text-slate-400 uppercase">{op.user} - {Dates.format(op.createdAt)}</p></div></div>))}</div> : <p className="px-8 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Todas las operaciones están sincronizadas</p>}
+      </div>
+    </div>
+  );
+};
+
+const TRANSFER_STATUS_LABELS: Record<TransferStatus, string> = { EN_TRANSITO: 'En Tránsito', RECIBIDO: 'Recibido', RECIBIDO_CON_FALTANTES: 'Con Faltantes' };
+
+const TransfersView: React.FC<{
+  seals: Seal[];
+  transfers: SealTransfer[];
+  cities: string[];
+  user: User;
+  onDispatch: (seals: Seal[], dispatch: TransferDispatch) => Promise<boolean>;
+  onReceive: (transfer: SealTransfer, received: { id: string; type: string }[]) => Promise<boolean>;
+}> = ({ seals, transfers, cities, user, onDispatch, onReceive }) => {
+  const [scanInput, setScanInput] = useState('');
+  const [batchKeys, setBatchKeys] = useState<string[]>([]);
+  const [dispatch, setDispatch] = useState<TransferDispatch>({ destination: '', carrier: '', notes: '' });
+  const [receiving, setReceiving] = useState<SealTransfer | null>(null);
+  const [receivedKeys, setReceivedKeys] = useState<Set<string>>(new Set());
+  const [receiveScan, setReceiveScan] = useState('');
+  const [choices, setChoices] = useState<{ code: string; options: Seal[]; receive: boolean }[]>([]); // Códigos repetidos entre tipos pendientes de elegir
+  const [isSaving, setIsSaving] = useState(false);
+  const batch = useMemo(() => batchKeys.map(k => seals.find(s => SealTransfers.keyOf(s) === k)).filter((s): s is Seal => !!s), [batchKeys, seals]);
+  const receivesAll = can(user, 'seal.crossCity');
+  const incoming = transfers.filter(t => (receivesAll || t.destination === user.city) && SealTransfers.pending(t).length > 0);
+  const visible = transfers.filter(t => can(user, 'report.crossCity') || t.origin === user.city || t.destination === user.city);
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase";
+
+  const handleAdd = (e: React.FormEvent) => {
+    e.preventDefault();
+    const keys = [...batchKeys];
+    scanInput.split(/[,;\s]+/).filter(Boolean).forEach(part => {
+      const id = Scanner.parse(part);
+      const options = SealIdentity.byCode(seals, id).filter(s => s.city === user.city && SealTransfers.isTransferable(s) && !keys.includes(SealTransfers.keyOf(s)));
+      if (options.length === 0) return Scanner.reject();
+      if (options.length > 1) return setChoices(prev => [...prev, { code: id, options, receive: false }]);
+      keys.push(SealTransfers.keyOf(options[0]));
+      Scanner.accept();
+    });
+    setBatchKeys(keys);
+    setScanInput('');
+  };
+  const handlePick = (seal: Seal) => { const [current, ...rest] = choices; setChoices(rest); if (current.receive) setReceivedKeys(prev => new Set(prev).add(SealTransfers.keyOf(seal))); else setBatchKeys(prev => prev.includes(SealTransfers.keyOf(seal)) ? prev : [...prev, SealTransfers.keyOf(seal)]); Scanner.accept(); };
+  const handleDispatch = async () => { const error = SealTransfers.validateDispatch(batch, dispatch, user); if (error) return alert(error); setIsSaving(true); const ok = await onDispatch(batch, dispatch); setIsSaving(false); if (ok) { setBatchKeys([]); setDispatch({ destination: '', carrier: '', notes: '' }); } };
+  const startReceiving = (t: SealTransfer) => { setReceiving(t); setReceivedKeys(new Set()); setReceiveScan(''); };
+  const toggleReceived = (key: string) => setReceivedKeys(prev => { const next = new Set(prev); if (next.has(key)) next.delete(key); else next.add(key); return next; });
+  const handleReceiveScan = (e: React.FormEvent) => { e.preventDefault(); if (!receiving) return; const id = Scanner.parse(receiveScan); const pending = new Set(SealTransfers.pending(receiving).filter(k => k.id === id && !receivedKeys.has(SealTransfers.keyOf(k))).map(SealTransfers.keyOf)); const options = seals.filter(s => pending.has(SealTransfers.keyOf(s))); if (options.length > 1) setChoices(prev => [...prev, { code: id, options, receive: true }]); else if (options.length === 1) { Scanner.accept(); setReceivedKeys(prev => new Set(prev).add(SealTransfers.keyOf(options[0]))); } else Scanner.reject(); setReceiveScan(''); };
+  const handleReceive = async () => {
+    if (!receiving) return;
+    const pending = SealTransfers.pending(receiving);
+    const received = pending.filter(k => receivedKeys.has(SealTransfers.keyOf(k)));
+    const missing = pending.length - received.length;
+    if (missing > 0 && !confirm(`${missing} precinto(s) no fueron marcados como recibidos y quedarán registrados como FALTANTES. ¿Confirmar la recepción?`)) return;
+    setIsSaving(true);
+    const ok = await onReceive(receiving, received);
+    setIsSaving(false);
+    if (ok) setReceiving(null);
+  };
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Traslados entre Sedes</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Sede Actual: <span className="text-custom-blue">{user.city}</span></p></div>
+      <div className="grid grid-cols-1 xl:grid-cols-2 gap-8">
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-5">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Nuevo Despacho desde {user.city}</h4>
+          <form onSubmit={handleAdd} className="flex gap-3"><input type="text" className={`${inputClass} font-mono`} placeholder="Escanee o digite precintos disponibles" value={scanInput} onChange={e => setScanInput(e.target.value)} /><button type="submit" className="bg-custom-blue text-white px-5 rounded-xl font-black text-[10px] uppercase tracking-widest">Agregar</button></form>
+          {batch.length > 0 && <div className="max-h-48 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100 custom-scrollbar">{batch.map(s => <div key={SealTransfers.keyOf(s)} className="flex justify-between items-center px-4 py-2 text-[11px] font-bold"><span className="font-mono text-custom-blue">{s.id}</span><span className="uppercase text-[9px] text-slate-500">{s.type}</span><button onClick={() => setBatchKeys(prev => prev.filter(k => k !== SealTransfers.keyOf(s)))} className="text-slate-300 hover:text-red-600">✕</button></div>)}</div>}
+          <div className="grid grid-cols-2 gap-3">
+            <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Sede Destino</label><select className={`${inputClass} appearance-none`} value={dispatch.destination} onChange={e => setDispatch({ ...dispatch, destination: e.target.value })}><option value="">Seleccione...</option>{cities.filter(c => c !== user.city).map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+            <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Transportador / Guía</label><input type="text" className={inputClass} value={dispatch.carrier} onChange={e => setDispatch({ ...dispatch, carrier: e.target.value.toUpperCase() })} /></div>
+            <div className="space-y-1.5 col-span-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Observaciones</label><input type="text" className={inputClass} value={dispatch.notes} onChange={e => setDispatch({ ...dispatch, notes: e.target.value.toUpperCase() })} /></div>
+          </div>
+          <button onClick={handleDispatch} disabled={isSaving || batch.length === 0} className="w-full bg-violet-600 text-white py-4 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-violet-700 disabled:opacity-40">{isSaving ? 'Procesando...' : `Despachar ${batch.length} Precinto(s)`}</button>
+        </div>
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-5">
+          <h4 className="text-[10px] font-black text-slate-400 uppercase tracking-[0.2em]">Por Recibir en {receivesAll ? 'Todas las Sedes' : user.city} ({incoming.length})</h4>
+          {incoming.length === 0 ? <p className="text-[10px] font-black text-slate-300 uppercase tracking-widest text-center py-10">Sin traslados pendientes</p> : incoming.map(t => (
+            <div key={t.id} className={`border rounded-xl p-4 space-y-3 ${receiving?.id === t.id ? 'border-violet-300 bg-violet-50/40' : 'border-slate-200'}`}>
+              <div className="flex justify-between items-center"><div><p className="font-mono font-black text-custom-blue text-sm">{t.id}</p><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Desde {t.origin}{t.destination !== user.city ? ` hacia ${t.destination}` : ''} · {Dates.format(t.createdAt)} · {SealTransfers.pending(t).length} pendiente(s){t.carrier ? ` · ${t.carrier}` : ''}</p></div>{receiving?.id !== t.id && <button onClick={() => startReceiving(t)} className="bg-custom-blue text-white px-4 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Recibir</button>}</div>
+              {receiving?.id === t.id && <>
+                <form onSubmit={handleReceiveScan}><input autoFocus type="text" className={`${inputClass} font-mono`} placeholder="Escanee cada precinto recibido" value={receiveScan} onChange={e => setReceiveScan(e.target.value)} /></form>
+                <div className="max-h-56 overflow-y-auto divide-y divide-slate-100 custom-scrollbar">{SealTransfers.pending(t).map(k => { const key = SealTransfers.keyOf(k); return <label key={key} className="flex items-center gap-3 px-2 py-2 text-[11px] font-bold cursor-pointer"><input type="checkbox" className="w-4 h-4 accent-custom-blue" checked={receivedKeys.has(key)} onChange={() => toggleReceived(key)} /><span className="font-mono text-custom-blue flex-1">{k.id}</span><span className="uppercase text-[9px] text-slate-500">{k.type}</span></label>; })}</div>
+                <div className="flex gap-3"><button onClick={() => setReceivedKeys(new Set(SealTransfers.pending(t).map(SealTransfers.keyOf)))} className="flex-1 py-3 text-[10px] font-black text-slate-500 uppercase tracking-widest">Marcar Todos</button><button onClick={() => setReceiving(null)} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button onClick={handleReceive} disabled={isSaving} className="flex-1 bg-emerald-600 text-white py-3 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Confirmar ({receivedKeys.size}/{SealTransfers.pending(t).length})</button></div>
+              </>}
+            </div>
+          ))}
+        </div>
+      </div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left text-[11px]"><thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest"><tr><th className="px-6 py-4">Traslado</th><th className="px-4 py-4">Ruta</th><th className="px-4 py-4">Unidades</th><th className="px-4 py-4">Despacho</th><th className="px-4 py-4">Recepción</th><th className="px-6 py-4">Estado</th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">{visible.length === 0 ? <tr><td colSpan={6} className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Sin traslados registrados</td></tr> : visible.map(t => (
+            <tr key={t.id}><td className="px-6 py-3 font-mono font-black text-custom-blue">{t.id}</td><td className="px-4 py-3 uppercase">{t.origin} → {t.destination}</td><td className="px-4 py-3">{t.seals.length}</td><td className="px-4 py-3">{Dates.format(t.createdAt)}<br /><span className="text-[9px] text-slate-400 uppercase">{t.createdBy}</span></td><td className="px-4 py-3">{t.receivedAt ? <>{Dates.format(t.receivedAt)}<br /><span className="text-[9px] text-slate-400 uppercase">{t.receivedBy}</span></> : '-'}</td><td className="px-6 py-3"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${t.status === 'RECIBIDO' ? 'bg-emerald-50 text-emerald-700 border-emerald-200' : t.status === 'EN_TRANSITO' ? 'bg-violet-50 text-violet-700 border-violet-200' : 'bg-red-50 text-red-700 border-red-200'}`}>{TRANSFER_STATUS_LABELS[t.status]}</span>{t.missing && <p className="mt-1 text-[9px] text-red-600 font-mono">Faltan: {t.missing.map(k => k.id).join(', ')}</p>}</td></tr>
+          ))}</tbody>
+        </table>
+      </div>
+      {choices.length > 0 && <SealPicker code={choices[0].code} options={choices[0].options} onPick={handlePick} onCancel={() => setChoices(prev => prev.slice(1))} />}
+    </div>
+  );
+};
+
+const COUNT_STATUS_LABELS: Record<CycleCountStatus, string> = { EN_CURSO: 'En Curso', POR_APROBAR: 'Por Aprobar', APROBADO: 'Aprobado', ANULADO: 'Anulado' };
+const COUNT_STATUS_STYLES: Record<CycleCountStatus, string> = { EN_CURSO: 'bg-sky-50 text-sky-700 border-sky-200', POR_APROBAR: 'bg-amber-50 text-amber-700 border-amber-200', APROBADO: 'bg-emerald-50 text-emerald-700 border-emerald-200', ANULADO: 'bg-slate-100 text-slate-500 border-slate-200' };
+
+const CycleCountsView: React.FC<{
+  seals: Seal[];
+  counts: CycleCount[];
+  cities: string[];
+  user: User;
+  onSave: (count: CycleCount) => Promise<boolean>;
+  onApprove: (count: CycleCount, adjust: { id: string; type: string }[]) => Promise<boolean>;
+}> = ({ seals, counts, cities, user, onSave, onApprove }) => {
+  const crossCity = can(user, 'report.crossCity');
+  const [newCity, setNewCity] = useState(user.city);
+  const [working, setWorking] = useState<CycleCount | null>(null);
+  const [isDirty, setIsDirty] = useState(false);
+  const [scanInput, setScanInput] = useState('');
+  const [adjustKeys, setAdjustKeys] = useState<Set<string>>(new Set());
+  const [isCameraOpen, setIsCameraOpen] = useState(false);
+  const [isSaving, setIsSaving] = useState(false);
+  const visible = counts.filter(c => crossCity || c.city === user.city);
+  const reconciliation = useMemo(() => working ? CycleCounts.reconcile(working, seals) : null, [working, seals]);
+  const canCount = can(user, 'count.perform');
+  const isOpen = (c: CycleCount) => c.status === 'EN_CURSO' || c.status === 'POR_APROBAR';
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase";
+
+  // Por defecto se proponen como ajuste todos los faltantes
+  const open = (c: CycleCount) => { setWorking(c); setIsDirty(false); setAdjustKeys(new Set(c.status === 'POR_APROBAR' ? CycleCounts.reconcile(c, seals).missing.map(d => SealTransfers.keyOf(d.key)) : [])); };
+  const discardChanges = () => !isDirty || confirm('Hay lecturas sin guardar en el conteo abierto. ¿Descartarlas?');
+  const select = (c: CycleCount) => { if (discardChanges()) open(c); };
+  const persist = async (next: CycleCount) => { setIsSaving(true); const ok = await onSave(next); setIsSaving(false); if (ok) open(next); return ok; };
+  const handleStart = async () => {
+    if (counts.some(c => c.city === newCity && isOpen(c))) return alert(`Ya hay un conteo abierto en ${newCity}. Ciérrelo o anúlelo antes de iniciar otro.`);
+    if (!discardChanges()) return;
+    const count = CycleCounts.create(seals, newCity, user);
+    if (!confirm(`Se tomará la foto de ${count.expected.length} precinto(s) disponibles en ${newCity}. ¿Iniciar el conteo?`)) return;
+    await persist(count);
+  };
+  // La caja admite varias lecturas separadas por espacios, comas o punto y coma
+  const handleCode = (raw: string) => {
+    if (!working || working.status !== 'EN_CURSO') return;
+    let next = working;
+    raw.split(/[,;\s]+/).filter(Boolean).forEach(part => {
+      const recorded = CycleCounts.record(next, seals, Scanner.parse(part), user.fullName);
+      if (recorded) { next = recorded; Scanner.accept(); } else Scanner.reject();
+    });
+    if (next !== working) { setWorking(next); setIsDirty(true); }
+  };
+  const handleScan = (e: React.FormEvent) => { e.preventDefault(); handleCode(scanInput); setScanInput(''); };
+  const handleRemove = (key: string) => { setWorking(prev => prev && { ...prev, counted: prev.counted.filter(c => SealTransfers.keyOf(c) !== key) }); setIsDirty(true); };
+  const handleClose = () => { if (!working || !reconciliation) return; if (!confirm(`Faltantes: ${reconciliation.missing.length} · Inesperados: ${reconciliation.unexpected.length} · Otra sede: ${reconciliation.wrongCity.length}. ¿Cerrar el conteo y enviarlo a aprobación?`)) return; persist({ ...working, status: 'POR_APROBAR', closedBy: user.fullName, closedAt: Dates.now() }); };
+  const handleReopen = () => working && persist({ ...working, status: 'EN_CURSO', closedBy: undefined, closedAt: undefined });
+  const handleCancel = () => { if (!working) return; const reason = prompt('Motivo de la anulación del conteo:', ''); if (reason === null) return; if (!reason.trim()) return alert('Indique el motivo de la anulación.'); persist({ ...working, status: 'ANULADO', approvedBy: user.fullName, approvedAt: Dates.now(), notes: reason.trim() }); };
+  const handleApprove = async () => {
+    if (!working || !reconciliation) return;
+    const adjust = reconciliation.missing.filter(d => adjustKeys.has(SealTransfers.keyOf(d.key))).map(d => d.key);
+    if (!confirm(adjust.length > 0 ? `Se darán de baja como DESTRUIDO ${adjust.length} precinto(s) faltante(s) con motivo "Faltante en conteo ${working.id}". ¿Aprobar el conteo?` : '¿Aprobar el conteo sin ajustes de inventario?')) return;
+    setIsSaving(true);
+    const ok = await onApprove(working, adjust);
+    setIsSaving(false);
+    if (ok) { setWorking(null); setIsDirty(false); }
+  };
+  const toggleAdjust = (key: string) => setAdjustKeys(prev => { const next = new Set(prev); if (next.has(key)) next.delete(key); else next.add(key); return next; });
+  const handleExport = () => { if (!working || !reconciliation) return; const rows = (label: string, list: CountDiscrepancy[]) => list.map(d => ({ Resultado: label, Sello: d.key.id, Tipo: d.key.type || 'DESCONOCIDO', Detalle: d.reason, Ajustado: (working.adjusted || []).some(k => SealTransfers.keyOf(k) === SealTransfers.keyOf(d.key)) ? 'SÍ' : '' })); exportToExcel([...rows('FALTANTE', reconciliation.missing), ...rows('INESPERADO', reconciliation.unexpected), ...rows('OTRA SEDE', reconciliation.wrongCity), ...rows('MOVIDO DURANTE EL CONTEO', reconciliation.moved), ...reconciliation.matched.map(c => ({ Resultado: 'CONTADO', Sello: c.id, Tipo: c.type, Detalle: `${c.countedBy} · ${Dates.format(c.countedAt)}`, Ajustado: '' }))], `Conteo_${working.id}_${working.city}`); };
+
+  const discrepancyList = (title: string, list: CountDiscrepancy[], tone: string, selectable = false) => (
+    <div className="border border-slate-200 rounded-xl overflow-hidden">
+      <p className={`px-4 py-2 text-[9px] font-black uppercase tracking-widest ${tone}`}>{title} ({list.length})</p>
+      {list.length > 0 && <div className="max-h-48 overflow-y-auto divide-y divide-slate-100 custom-scrollbar">{list.map(d => { const key = SealTransfers.keyOf(d.key); return <label key={key} className={`flex items-center gap-3 px-4 py-2 text-[11px] font-bold ${selectable ? 'cursor-pointer' : ''}`}>{selectable && <input type="checkbox" className="w-4 h-4 accent-custom-blue" checked={adjustKeys.has(key)} onChange={() => toggleAdjust(key)} />}<span className="font-mono text-custom-blue">{d.key.id}</span><span className="uppercase text-[9px] text-slate-500">{d.key.type || 'Desconocido'}</span><span className="flex-1 text-right text-[9px] text-slate-400 uppercase">{d.reason}</span></label>; })}</div>}
+    </div>
+  );
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Conteos Físicos</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Conciliación del inventario disponible contra lo encontrado en bodega</p></div>
+        <div className="bg-white px-5 py-3 rounded-2xl shadow-sm border border-slate-200 flex items-center gap-3">
+          {!canCount ? <span className="text-[10px] font-black text-slate-400 uppercase tracking-widest">Revisión y aprobación de conteos</span> : crossCity ? <select className="border border-slate-200 bg-slate-50 rounded-xl px-3 py-2 text-[11px] font-black text-custom-blue uppercase outline-none" value={newCity} onChange={e => setNewCity(e.target.value)}>{cities.map(c => <option key={c} value={c}>{c}</option>)}</select> : <span className="text-[11px] font-black text-custom-blue uppercase">{user.city}</span>}
+          {canCount && <button onClick={handleStart} disabled={isSaving} className="bg-custom-blue text-white px-5 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg disabled:opacity-40">Iniciar Conteo</button>}
+        </div>
+      </div>
+
+      {working && reconciliation && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-6">
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div><p className="font-mono font-black text-custom-blue text-lg">{working.id} <span className={`ml-2 align-middle px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${COUNT_STATUS_STYLES[working.status]}`}>{COUNT_STATUS_LABELS[working.status]}</span></p><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">{working.city} · Abierto por {working.createdBy} el {Dates.format(working.createdAt)}{working.closedBy ? ` · Cerrado por ${working.closedBy}` : ''}{working.approvedBy ? ` · ${working.status === 'ANULADO' ? 'Anulado' : 'Aprobado'} por ${working.approvedBy} el ${Dates.format(working.approvedAt)}` : ''}</p>{working.notes && <p className="text-[10px] font-bold text-slate-500 uppercase mt-1">Nota: {working.notes}</p>}</div>
+            <div className="flex gap-6 text-center">{[['Esperados', working.expected.length, 'text-custom-blue'], ['Contados', working.counted.length, 'text-sky-600'], ['Coinciden', reconciliation.matched.length, 'text-emerald-600'], ['Faltantes', reconciliation.missing.length, 'text-red-600']].map(([label, value, color]) => <div key={label as string}><p className={`text-2xl font-black italic ${color}`}>{value}</p><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</p></div>)}</div>
+          </div>
+
+          {working.status === 'EN_CURSO' && canCount && <div className="space-y-4">
+            <div className="flex gap-3"><form onSubmit={handleScan} className="flex-1"><input autoFocus type="text" className={`${inputClass} font-mono`} placeholder="Escanee o digite cada precinto encontrado" value={scanInput} onChange={e => setScanInput(e.target.value)} /></form><button onClick={() => setIsCameraOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-5 rounded-xl font-black text-[10px] uppercase tracking-widest">Cámara</button></div>
+            {working.counted.length > 0 && <div className="max-h-56 overflow-y-auto border border-slate-100 rounded-xl divide-y divide-slate-100 custom-scrollbar">{working.counted.map(c => { const key = SealTransfers.keyOf(c); return <div key={key} className="flex justify-between items-center gap-3 px-4 py-2 text-[11px] font-bold"><span className="font-mono text-custom-blue">{c.id}</span><span className="uppercase text-[9px] text-slate-500">{c.type || 'Desconocido'}</span><span className="flex-1 text-right text-[9px] text-slate-400 uppercase">{c.countedBy} · {Dates.format(c.countedAt)}</span><button onClick={() => handleRemove(key)} className="text-slate-300 hover:text-red-600">✕</button></div>; })}</div>}
+            <div className="flex flex-wrap gap-3 justify-end">{can(user, 'count.approve') && <button onClick={handleCancel} disabled={isSaving} className="px-5 py-3 text-[10px] font-black text-red-500 uppercase tracking-widest disabled:opacity-40">Anular</button>}<button onClick={() => working && persist(working)} disabled={isSaving || !isDirty} className="bg-white text-custom-blue border border-custom-blue px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Guardar Avance</button><button onClick={handleClose} disabled={isSaving} className="bg-amber-500 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg disabled:opacity-40">Cerrar y Enviar a Aprobación</button></div>
+          </div>}
+
+          {working.status !== 'EN_CURSO' && <div className="grid grid-cols-1 lg:grid-cols-2 gap-4">
+            {discrepancyList(working.status === 'POR_APROBAR' ? 'Faltantes · marque los que se darán de baja' : 'Faltantes', reconciliation.missing, 'bg-red-50 text-red-700', working.status === 'POR_APROBAR' && can(user, 'count.approve'))}
+            {discrepancyList('Inesperados', reconciliation.unexpected, 'bg-amber-50 text-amber-700')}
+            {discrepancyList('De otra sede', reconciliation.wrongCity, 'bg-violet-50 text-violet-700')}
+            {discrepancyList('Movidos durante el conteo', reconciliation.moved, 'bg-slate-50 text-slate-500')}
+            {working.adjusted && <p className="lg:col-span-2 text-[10px] font-black text-emerald-700 uppercase tracking-widest">Ajustados como destruidos: <span className="font-mono">{working.adjusted.map(k => k.id).join(', ')}</span></p>}
+          </div>}
+
+          <div className="flex flex-wrap gap-3 justify-end">
+            <button onClick={handleExport} className="bg-emerald-600 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest flex items-center gap-2"><ICONS.Excel className="w-4 h-4" /> Exportar Conciliación</button>
+            {working.status === 'POR_APROBAR' && can(user, 'count.approve') && <><button onClick={handleCancel} disabled={isSaving} className="px-5 py-3 text-[10px] font-black text-red-500 uppercase tracking-widest disabled:opacity-40">Anular</button><button onClick={handleReopen} disabled={isSaving} className="bg-white text-custom-blue border border-custom-blue px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Reabrir Conteo</button><button onClick={handleApprove} disabled={isSaving} className="bg-emerald-700 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg disabled:opacity-40">{isSaving ? 'Procesando...' : `Aprobar${adjustKeys.size > 0 ? ` y Ajustar ${adjustKeys.size}` : ''}`}</button></>}
+            <button onClick={() => { if (discardChanges()) { setWorking(null); setIsDirty(false); } }} className="px-5 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cerrar Panel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left text-[11px]"><thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest"><tr><th className="px-6 py-4">Conteo</th><th className="px-4 py-4">Sede</th><th className="px-4 py-4">Esperados</th><th className="px-4 py-4">Contados</th><th className="px-4 py-4">Apertura</th><th className="px-4 py-4">Estado</th><th className="px-6 py-4"></th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">{visible.length === 0 ? <tr><td colSpan={7} className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Sin conteos registrados</td></tr> : visible.map(c => (
+            <tr key={c.id} className={working?.id === c.id ? 'bg-blue-50/40' : ''}><td className="px-6 py-3 font-mono font-black text-custom-blue">{c.id}</td><td className="px-4 py-3 uppercase">{c.city}</td><td className="px-4 py-3">{c.expected.length}</td><td className="px-4 py-3">{c.counted.length}</td><td className="px-4 py-3">{Dates.format(c.createdAt)}<br /><span className="text-[9px] text-slate-400 uppercase">{c.createdBy}</span></td><td className="px-4 py-3"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${COUNT_STATUS_STYLES[c.status]}`}>{COUNT_STATUS_LABELS[c.status]}</span></td><td className="px-6 py-3 text-right"><button onClick={() => select(c)} className="text-[10px] font-black text-custom-blue uppercase hover:underline">{c.status === 'EN_CURSO' ? 'Contar' : c.status === 'POR_APROBAR' && can(user, 'count.approve') ? 'Revisar' : 'Ver'}</button></td></tr>
+          ))}</tbody>
+        </table>
+      </div>
+      {isCameraOpen && <CameraScanner continuous onCode={handleCode} onClose={() => setIsCameraOpen(false)} />}
+    </div>
+  );
+};
+
+const SHIPMENT_STATUS_STYLES: Record<ShipmentStatus, string> = { ABIERTO: 'bg-sky-50 text-sky-700 border-sky-200', CERRADO: 'bg-slate-100 text-slate-500 border-slate-200' };
+
+const ShipmentsView: React.FC<{
+  seals: Seal[];
+  shipments: Shipment[];
+  user: User;
+  onSave: (shipment: Shipment) => Promise<boolean>;
+}> = ({ seals, shipments, user, onSave }) => {
+  const crossCity = can(user, 'report.crossCity');
+  const canManage = can(user, 'shipment.manage');
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const [editing, setEditing] = useState<Shipment | null>(null);
+  const [draft, setDraft] = useState<ShipmentDraft | null>(null);
+  const [search, setSearch] = useState('');
+  const [isSaving, setIsSaving] = useState(false);
+  const term = search.trim().toUpperCase();
+  const visible = shipments.filter(s => (crossCity || s.city === user.city) && (!term || [s.id, s.orderNumber, s.customer, s.vehiclePlate, s.trailerContainer].some(v => v.includes(term))));
+  const selected = shipments.find(s => s.id === selectedId) || null;
+  const detail = useMemo(() => selected ? Shipments.sealsOf(selected, seals) : [], [selected, seals]);
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase";
+
+  const startEdit = (s: Shipment | null) => { setEditing(s); setDraft(s ? Shipments.toDraft(s) : Shipments.emptyDraft()); };
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!draft) return;
+    const error = Shipments.validate(draft, shipments, editing?.id);
+    if (error) return alert(error);
+    const shipment = Shipments.fromDraft(draft, user, editing || undefined);
+    setIsSaving(true);
+    const ok = await onSave(shipment);
+    setIsSaving(false);
+    if (ok) { setDraft(null); setEditing(null); setSelectedId(shipment.id); }
+  };
+  const handleStatus = async (s: Shipment, status: ShipmentStatus) => {
+    if (status === 'CERRADO' && !confirm(`Al cerrar el despacho ${s.orderNumber} no se podrán vincular más precintos. ¿Continuar?`)) return;
+    setIsSaving(true);
+    await onSave({ ...s, status });
+    setIsSaving(false);
+  };
+  const handleExport = () => { if (!selected) return; exportToExcel(detail.map(({ seal, entries, attached }) => ({ Pedido: selected.orderNumber, Despacho: selected.id, Cliente: selected.customer, Sello: seal.id, Tipo: seal.type, "Estado Actual": seal.status.replace('_', ' '), Sede: seal.city, "Último Movimiento del Despacho": `${entries[0].toStatus.replace('_', ' ')} · ${Dates.format(entries[0].date)}`, Operador: entries[0].user, Contenedor: seal.containerId, Vinculado: attached ? 'SÍ' : 'REASIGNADO', Eliminado: seal.deletedAt ? 'SÍ' : '' })), `Despacho_${selected.orderNumber}`); };
+
+  const field = (label: string, key: keyof ShipmentDraft, placeholder = '') => draft && <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">{label}:</label><input type="text" className={inputClass} value={draft[key]} onChange={e => setDraft({ ...draft, [key]: e.target.value.toUpperCase() })} placeholder={placeholder} /></div>;
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex flex-col md:flex-row md:items-end justify-between gap-4">
+        <div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Despachos y Pedidos</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Precintos asignados e instalados por pedido, vehículo y contenedor</p></div>
+        <div className="bg-white px-5 py-3 rounded-2xl shadow-sm border border-slate-200 flex items-center gap-3">
+          <input type="text" className="border border-slate-200 bg-slate-50 rounded-xl px-3 py-2 text-[11px] font-black text-custom-blue uppercase outline-none" placeholder="Pedido, cliente, placa..." value={search} onChange={e => setSearch(e.target.value)} />
+          {canManage && <button onClick={() => startEdit(null)} className="bg-custom-blue text-white px-5 py-2.5 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg">Nuevo Despacho</button>}
+        </div>
+      </div>
+
+      {draft && (
+        <form onSubmit={handleSubmit} className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-6">
+          <p className="text-[10px] font-black text-custom-blue uppercase tracking-widest">{editing ? `Modificar despacho ${editing.id}` : `Nuevo despacho en ${user.city}`}</p>
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            {field('Número de Pedido', 'orderNumber', 'PED-0001')}
+            {field('Cliente', 'customer', 'Razón social')}
+            {field('Conductor', 'driver', 'Nombre del conductor')}
+            {field('Placa Vehículo', 'vehiclePlate', 'ABC-123')}
+            {field('Trailer/Contenedor', 'trailerContainer', 'Nro Contenedor')}
+            <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Salida Programada:</label><input type="datetime-local" className={inputClass} value={draft.departureAt} onChange={e => setDraft({ ...draft, departureAt: e.target.value })} /></div>
+          </div>
+          <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Observaciones:</label><textarea className={`${inputClass} normal-case`} value={draft.notes} onChange={e => setDraft({ ...draft, notes: e.target.value })} /></div>
+          <div className="flex gap-3 justify-end"><button type="button" onClick={() => { setDraft(null); setEditing(null); }} className="px-5 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button type="submit" disabled={isSaving} className="bg-custom-blue text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg disabled:opacity-40">{isSaving ? 'Guardando...' : 'Guardar Despacho'}</button></div>
+        </form>
+      )}
+
+      {selected && (
+        <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-8 space-y-6">
+          <div className="flex flex-wrap justify-between items-start gap-4">
+            <div><p className="font-mono font-black text-custom-blue text-lg">{selected.orderNumber} <span className={`ml-2 align-middle px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${SHIPMENT_STATUS_STYLES[selected.status]}`}>{SHIPMENT_STATUS_LABELS[selected.status]}</span></p><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest mt-1">{selected.id} · {selected.city} · Creado por {selected.createdBy} el {Dates.format(selected.createdAt)}</p>{selected.notes && <p className="text-[10px] font-bold text-slate-500 mt-2">{selected.notes}</p>}</div>
+            <div className="flex gap-6 text-center">{[['Precintos', detail.length, 'text-custom-blue'], ['Asignados', detail.filter(d => d.seal.status === SealStatus.ASIGNADO).length, 'text-sky-600'], ['Instalados', detail.filter(d => d.seal.status === SealStatus.INSTALADO).length, 'text-emerald-600'], ['Reasignados', detail.filter(d => !d.attached).length, 'text-amber-600']].map(([label, value, color]) => <div key={label as string}><p className={`text-2xl font-black italic ${color}`}>{value}</p><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</p></div>)}</div>
+          </div>
+          <div className="grid grid-cols-2 md:grid-cols-5 gap-4 bg-slate-50 rounded-xl p-4">{[['Cliente', selected.customer], ['Placa', selected.vehiclePlate], ['Trailer/Contenedor', selected.trailerContainer], ['Conductor', selected.driver], ['Salida', selected.departureAt ? Dates.format(selected.departureAt) : '']].map(([label, value]) => <div key={label}><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{label}</p><p className="text-[11px] font-black text-custom-blue uppercase">{value || '-'}</p></div>)}</div>
+          <div className="border border-slate-200 rounded-xl overflow-hidden">
+            <table className="w-full text-left text-[11px]"><thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest"><tr><th className="px-4 py-3">Sello</th><th className="px-4 py-3">Tipo</th><th className="px-4 py-3">Estado Actual</th><th className="px-4 py-3">Movimiento en el Despacho</th><th className="px-4 py-3">Contenedor</th><th className="px-4 py-3"></th></tr></thead>
+              <tbody className="divide-y divide-slate-100 font-bold text-slate-700">{detail.length === 0 ? <tr><td colSpan={6} className="px-4 py-8 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Sin precintos vinculados</td></tr> : detail.map(({ seal, entries, attached }) => (
+                <tr key={SealTransfers.keyOf(seal)}><td className="px-4 py-2 font-mono font-black text-custom-blue">{seal.id}</td><td className="px-4 py-2 uppercase text-[9px] text-slate-500">{seal.type}</td><td className="px-4 py-2"><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border ${getStatusStyles(seal.status).split('icon-bg-')[0]}`}>{seal.status.replace('_', ' ')}</span></td><td className="px-4 py-2 text-[10px] uppercase">{entries.map(h => <p key={h.date}>{h.toStatus.replace('_', ' ')} · {Dates.format(h.date)} · {h.user}</p>)}</td><td className="px-4 py-2 font-mono">{seal.containerId}</td><td className="px-4 py-2 text-right text-[9px] font-black uppercase tracking-widest">{seal.deletedAt ? <span className="text-red-500">Eliminado</span> : !attached ? <span className="text-amber-600">Reasignado</span> : null}</td></tr>
+              ))}</tbody>
+            </table>
+          </div>
+          <div className="flex flex-wrap gap-3 justify-end">
+            <button onClick={handleExport} className="bg-emerald-600 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest flex items-center gap-2"><ICONS.Excel className="w-4 h-4" /> Exportar Despacho</button>
+            {canManage && <button onClick={() => startEdit(selected)} className="bg-white text-custom-blue border border-custom-blue px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest">Modificar</button>}
+            {canManage && (selected.status === 'ABIERTO' ? <button onClick={() => handleStatus(selected, 'CERRADO')} disabled={isSaving} className="bg-slate-800 text-white px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg disabled:opacity-40">Cerrar Despacho</button> : <button onClick={() => handleStatus(selected, 'ABIERTO')} disabled={isSaving} className="bg-white text-custom-blue border border-custom-blue px-6 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest disabled:opacity-40">Reabrir Despacho</button>)}
+            <button onClick={() => setSelectedId(null)} className="px-5 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cerrar Panel</button>
+          </div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden">
+        <table className="w-full text-left text-[11px]"><thead className="bg-slate-50 text-[9px] font-black text-slate-400 uppercase tracking-widest"><tr><th className="px-6 py-4">Pedido</th><th className="px-4 py-4">Cliente</th><th className="px-4 py-4">Vehículo</th><th className="px-4 py-4">Sede</th><th className="px-4 py-4">Salida</th><th className="px-4 py-4">Estado</th><th className="px-6 py-4"></th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">{visible.length === 0 ? <tr><td colSpan={7} className="px-6 py-10 text-center text-[10px] font-black text-slate-300 uppercase tracking-widest">Sin despachos registrados</td></tr> : visible.map(s => (
+            <tr key={s.id} className={selectedId === s.id ? 'bg-blue-50/40' : ''}><td className="px-6 py-3"><span className="font-mono font-black text-custom-blue">{s.orderNumber}</span><br /><span className="text-[9px] text-slate-400">{s.id}</span></td><td className="px-4 py-3 uppercase">{s.customer}</td><td className="px-4 py-3 uppercase">{s.vehiclePlate || '-'}<br /><span className="text-[9px] text-slate-400">{s.trailerContainer}</span></td><td className="px-4 py-3 uppercase">{s.city}</td><td className="px-4 py-3">{s.departureAt ? Dates.format(s.departureAt) : '-'}</td><td className="px-4 py-3"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${SHIPMENT_STATUS_STYLES[s.status]}`}>{SHIPMENT_STATUS_LABELS[s.status]}</span></td><td className="px-6 py-3 text-right"><button onClick={() => setSelectedId(s.id)} className="text-[10px] font-black text-custom-blue uppercase tracking-widest hover:underline">Ver Precintos</button></td></tr>
+          ))}</tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const ReportsView: React.FC<{ seals: Seal[]; cities: string[]; user: User; settings: AppSettings }> = ({ seals, cities, user, settings }) => {
+  const [templates, setTemplates] = useState<ReportTemplate[]>([]);
+  const [generated, setGenerated] = useState<GeneratedReport[]>([]);
+  const [draft, setDraft] = useState<ReportTemplate | null>(null);
+  const [runningId, setRunningId] = useState<string | null>(null);
+  const crossCity = can(user, 'report.crossCity');
+  useEffect(() => { ApiService.getReportTemplates().then(setTemplates); ApiService.getGeneratedReports().then(setGenerated); }, []);
+  const visible = useMemo(() => templates.filter(t => crossCity || t.city === user.city), [templates, crossCity, user]);
+  const visibleIds = useMemo(() => new Set(visible.map(t => t.id)), [visible]);
+  const history = generated.filter(r => crossCity || visibleIds.has(r.templateId));
+  const periodLabel = (t: ReportTemplate) => t.period.preset === 'custom' ? `${t.period.from || ''} a ${t.period.to || ''}` : REPORT_PERIOD_LABELS[t.period.preset];
+
+  const newDraft = (preset = REPORT_PRESETS[0]): ReportTemplate => ({ ...preset, id: `TPL-${Date.now().toString(36).toUpperCase()}`, columns: REPORT_COLUMNS[preset.kind].map(c => c.key), city: crossCity ? '' : user.city, createdBy: user.fullName, createdAt: Dates.now() });
+  const toggleColumn = (key: string) => draft && setDraft({ ...draft, columns: draft.columns.includes(key) ? draft.columns.filter(c => c !== key) : REPORT_COLUMNS[draft.kind].map(c => c.key).filter(c => c === key || draft.columns.includes(c)) });
+
+  const handleSave = async () => {
+    if (!draft) return;
+    if (!draft.name.trim()) return alert('Asigne un nombre a la plantilla.');
+    if (draft.columns.length === 0) return alert('Seleccione al menos una columna.');
+    if (draft.period.preset === 'custom' && (!draft.period.from || !draft.period.to || draft.period.from > draft.period.to)) return alert('Indique un rango de fechas válido.');
+    const previous = templates.find(t => t.id === draft.id);
+    if (!(await ApiService.saveReportTemplate(draft))) return alert('No se pudo guardar en el servidor SQL');
+    const next = previous ? templates.map(t => t.id === draft.id ? { ...draft, lastRunAt: t.lastRunAt } : t) : [...templates, draft];
+    setTemplates(next);
+    localStorage.setItem('selloReportTemplates', JSON.stringify(next));
+    setDraft(null);
+  };
+
+  const handleDelete = async (t: ReportTemplate) => {
+    if (!window.confirm(`¿Eliminar la plantilla "${t.name}"? Los archivos ya generados se conservan en el historial.`)) return;
+    if (!(await ApiService.deleteReportTemplate(t.id))) return alert('No se pudo guardar en el servidor SQL');
+    const next = templates.filter(x => x.id !== t.id);
+    setTemplates(next);
+    localStorage.setItem('selloReportTemplates', JSON.stringify(next));
+  };
+
+  // Sin conexión el libro se genera en el navegador y no queda en el historial del servidor
+  const handleRun = async (t: ReportTemplate) => {
+    setRunningId(t.id);
+    const report = await ApiService.runReport(t.id, user);
+    setRunningId(null);
+    if (!report) {
+      const local = Reports.generate(t, seals, user.fullName, Dates.now(), Dates.timeZoneFor(t.city, settings));
+      downloadBase64(local.data || '', local.fileName);
+      return alert('Sin conexión con el servidor: el informe se generó localmente y no quedó registrado en el historial.');
+    }
+    downloadBase64(report.data || '', report.fileName);
+    const { data: _data, ...summary } = report;
+    setGenerated(prev => [summary, ...prev]);
+    setTemplates(prev => prev.map(x => x.id === t.id ? { ...x, lastRunAt: report.generatedAt } : x));
+  };
+
+  const handleDownload = async (r: GeneratedReport) => {
+    const report = await ApiService.getGeneratedReport(r.id);
+    if (!report?.data) return alert('El archivo solo está disponible con conexión al servidor.');
+    downloadBase64(report.data, report.fileName);
+  };
+
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-3 py-2.5 text-[11px] font-bold text-custom-blue outline-none";
+  const labelClass = "text-[9px] font-black text-slate-400 uppercase tracking-widest";
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-end"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Informes</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Plantillas guardadas, generación programada e historial de archivos</p></div>{can(user, 'report.manage') && !draft && <div className="flex gap-2">{REPORT_PRESETS.map(p => <button key={p.kind} onClick={() => setDraft(newDraft(p))} className="bg-white text-custom-blue border border-custom-blue px-4 py-3 rounded-xl font-black text-[9px] uppercase tracking-widest hover:bg-slate-50">+ {REPORT_KIND_LABELS[p.kind]}</button>)}</div>}</div>
+
+      {draft && (
+        <div className="bg-white rounded-2xl shadow-sm border-2 border-custom-blue p-8 space-y-6">
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <div className="space-y-1 md:col-span-2"><label className={labelClass}>Nombre</label><input type="text" className={inputClass} value={draft.name} onChange={e => setDraft({ ...draft, name: e.target.value })} /></div>
+            <div className="space-y-1"><label className={labelClass}>Tipo de informe</label><select className={inputClass} value={draft.kind} onChange={e => { const kind = e.target.value as ReportKind; setDraft({ ...draft, kind, columns: REPORT_COLUMNS[kind].map(c => c.key) }); }}>{(Object.keys(REPORT_KIND_LABELS) as ReportKind[]).map(k => <option key={k} value={k}>{REPORT_KIND_LABELS[k]}</option>)}</select></div>
+            <div className="space-y-1"><label className={labelClass}>Sede</label><select className={inputClass} value={draft.city} disabled={!crossCity} onChange={e => setDraft({ ...draft, city: e.target.value })}>{crossCity && <option value="">Todas las sedes</option>}{(crossCity ? cities : [user.city]).map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+            <div className="space-y-1"><label className={labelClass}>{draft.kind === 'inventory' ? 'Corte (fin del periodo)' : 'Periodo'}</label><select className={inputClass} value={draft.period.preset} onChange={e => setDraft({ ...draft, period: { preset: e.target.value as ReportPeriodPreset } })}>{(Object.keys(REPORT_PERIOD_LABELS) as ReportPeriodPreset[]).map(p => <option key={p} value={p}>{REPORT_PERIOD_LABELS[p]}</option>)}</select></div>
+            <div className="space-y-1"><label className={labelClass}>Hojas</label><select className={inputClass} value={draft.groupBy} onChange={e => setDraft({ ...draft, groupBy: e.target.value as ReportGrouping })}>{(Object.keys(REPORT_GROUPING_LABELS) as ReportGrouping[]).map(g => <option key={g} value={g}>{REPORT_GROUPING_LABELS[g]}</option>)}</select></div>
+            {draft.period.preset === 'custom' && <div className="space-y-1"><label className={labelClass}>Desde</label><input type="date" className={inputClass} value={draft.period.from || ''} onChange={e => setDraft({ ...draft, period: { ...draft.period, from: e.target.value } })} /></div>}
+            {draft.period.preset === 'custom' && <div className="space-y-1"><label className={labelClass}>Hasta</label><input type="date" className={inputClass} value={draft.period.to || ''} onChange={e => setDraft({ ...draft, period: { ...draft.period, to: e.target.value } })} /></div>}
+            <div className="space-y-1"><label className={labelClass}>Generación automática</label><select className={inputClass} value={draft.schedule} onChange={e => setDraft({ ...draft, schedule: e.target.value as ReportSchedule })}>{(Object.keys(REPORT_SCHEDULE_LABELS) as ReportSchedule[]).map(s => <option key={s} value={s}>{REPORT_SCHEDULE_LABELS[s]}</option>)}</select></div>
+          </div>
+          <div className="space-y-2"><label className={labelClass}>Columnas</label><div className="flex flex-wrap gap-2">{REPORT_COLUMNS[draft.kind].map(c => <button key={c.key} type="button" onClick={() => toggleColumn(c.key)} className={`px-3 py-1.5 rounded-lg text-[9px] font-black uppercase tracking-widest border transition-all ${draft.columns.includes(c.key) ? 'bg-custom-blue text-white border-custom-blue' : 'bg-white text-slate-400 border-slate-200'}`}>{c.label}</button>)}</div></div>
+          <p className="text-[9px] text-slate-400 font-bold uppercase tracking-wider italic">Cada grupo se exporta en su propia hoja con fila de total; la hoja "Resumen" consolida los totales. El servidor regenera las plantillas programadas al cambiar de día, semana o mes.</p>
+          <div className="flex justify-end gap-4"><button onClick={() => setDraft(null)} className="px-6 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button onClick={handleSave} className="bg-custom-blue text-white px-8 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-black transition-all">Guardar Plantilla</button></div>
+        </div>
+      )}
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden overflow-x-auto">
+        <table className="w-full text-left text-[11px]">
+          <thead className="bg-slate-50 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest"><tr><th className="px-6 py-4">Plantilla</th><th className="px-6 py-4">Sede</th><th className="px-6 py-4">Periodo</th><th className="px-6 py-4">Hojas</th><th className="px-6 py-4">Programación</th><th className="px-6 py-4">Última Ejecución</th><th className="px-6 py-4 text-right">Acciones</th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+            {visible.length > 0 ? visible.map(t => (<tr key={t.id} className="hover:bg-slate-50/50"><td className="px-6 py-4"><p className="font-black text-custom-blue uppercase">{t.name}</p><p className="text-[9px] text-slate-400 uppercase">{REPORT_KIND_LABELS[t.kind]} · {t.columns.length} columnas</p></td><td className="px-6 py-4 uppercase text-[10px]">{t.city || 'Todas'}</td><td className="px-6 py-4 uppercase text-[10px]">{periodLabel(t)}</td><td className="px-6 py-4 uppercase text-[10px]">{REPORT_GROUPING_LABELS[t.groupBy]}</td><td className="px-6 py-4 uppercase text-[10px]">{REPORT_SCHEDULE_LABELS[t.schedule]}</td><td className="px-6 py-4 font-mono text-[10px]">{t.lastRunAt ? Dates.format(t.lastRunAt) : '-'}</td><td className="px-6 py-4 text-right whitespace-nowrap space-x-2"><button onClick={() => handleRun(t)} disabled={runningId === t.id} className="px-3 py-1.5 rounded-lg bg-emerald-600 text-white text-[9px] font-black uppercase tracking-widest hover:bg-emerald-700 disabled:opacity-50">{runningId === t.id ? 'Generando...' : 'Generar'}</button>{can(user, 'report.manage') && <button onClick={() => setDraft(t)} className="px-3 py-1.5 rounded-lg border border-slate-200 text-custom-blue text-[9px] font-black uppercase tracking-widest hover:bg-slate-50">Editar</button>}{can(user, 'report.manage') && <button onClick={() => handleDelete(t)} className="p-1.5 text-red-400 hover:text-red-700 align-middle"><ICONS.Trash className="w-4 h-4" /></button>}</td></tr>)) : <tr><td colSpan={7} className="px-8 py-16 text-center font-bold text-slate-400 uppercase tracking-widest">No hay plantillas de informe</td></tr>}
+          </tbody>
+        </table>
+      </div>
+
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden overflow-x-auto">
+        <div className="px-6 py-4 border-b border-slate-100"><h4 className="text-xs font-black text-custom-blue uppercase tracking-widest border-l-4 border-custom-blue pl-4">Historial de Archivos Generados</h4></div>
+        <table className="w-full text-left text-[11px]">
+          <thead className="bg-slate-50 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest"><tr><th className="px-6 py-4">Fecha</th><th className="px-6 py-4">Plantilla</th><th className="px-6 py-4">Archivo</th><th className="px-6 py-4 text-right">Registros</th><th className="px-6 py-4">Generado por</th><th className="px-6 py-4 text-right"></th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+            {history.length > 0 ? history.map(r => (<tr key={r.id} className="hover:bg-slate-50/50"><td className="px-6 py-4 font-mono text-[10px] whitespace-nowrap">{Dates.format(r.generatedAt)}</td><td className="px-6 py-4 uppercase">{r.templateName}</td><td className="px-6 py-4 font-mono text-[10px]">{r.fileName}</td><td className="px-6 py-4 text-right">{r.rows}</td><td className="px-6 py-4 uppercase text-[10px]">{r.generatedBy}</td><td className="px-6 py-4 text-right"><button onClick={() => handleDownload(r)} className="flex items-center gap-1.5 ml-auto text-emerald-700 text-[9px] font-black uppercase tracking-widest hover:underline"><ICONS.Excel className="w-3.5 h-3.5" /> Descargar</button></td></tr>)) : <tr><td colSpan={6} className="px-8 py-12 text-center font-bold text-slate-400 uppercase tracking-widest">Aún no se han generado informes</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const ALERT_STATUS_STYLES: Record<AlertReviewStatus | 'PENDIENTE', string> = {
+  PENDIENTE: 'bg-red-50 text-red-700 border-red-200',
+  RECONOCIDA: 'bg-amber-50 text-amber-700 border-amber-200',
+  RESUELTA: 'bg-emerald-50 text-emerald-700 border-emerald-200',
+};
+
+const AlertsView: React.FC<{ alerts: SealAlert[]; reviews: AlertReview[]; cities: string[]; user: User; onReview: (alert: SealAlert, status: AlertReviewStatus) => void }> = ({ alerts, reviews, cities, user, onReview }) => {
+  const [filters, setFilters] = useState({ rule: '', status: 'ABIERTAS', city: '', sealId: '' });
+  const reviewOf = useMemo(() => new Map(reviews.map(r => [r.alertId, r])), [reviews]);
+  const statusOf = (a: SealAlert) => reviewOf.get(a.id)?.status || 'PENDIENTE';
+  const filtered = useMemo(() => alerts.filter(a => (!filters.rule || a.rule === filters.rule) && (!filters.city || a.city === filters.city) && (!filters.sealId || a.sealId.includes(filters.sealId.toUpperCase())) && (filters.status === 'ABIERTAS' ? statusOf(a) !== 'RESUELTA' : !filters.status || statusOf(a) === filters.status)), [alerts, filters, reviewOf]);
+  const countByRule = (rule: AnomalyRuleId) => alerts.filter(a => a.rule === rule && statusOf(a) === 'PENDIENTE').length;
+  const handleExport = () => exportToExcel(filtered.map(a => { const r = reviewOf.get(a.id); return { Fecha: Dates.format(a.date), Regla: ANOMALY_RULE_LABELS[a.rule], Sello: a.sealId, Tipo: a.sealType, Sede: a.city, Detalle: a.message, Estado: statusOf(a), 'Revisada por': r?.by || '', 'Fecha revisión': r ? Dates.format(r.at) : '', Nota: r?.note || '' }; }), 'Alertas_SelloMaster');
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-3 py-2.5 text-[11px] font-bold text-custom-blue outline-none";
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-end"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Alertas</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Precintos detenidos y patrones sospechosos en el historial</p></div>{can(user, 'report.export') && <button onClick={handleExport} disabled={filtered.length === 0} className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-emerald-700 transition-all disabled:opacity-40"><ICONS.Excel className="w-4 h-4" /> Exportar Alertas</button>}</div>
+      <div className="grid grid-cols-2 lg:grid-cols-4 gap-4">{(Object.keys(ANOMALY_RULE_LABELS) as AnomalyRuleId[]).map(rule => <button key={rule} onClick={() => setFilters({ ...filters, rule: filters.rule === rule ? '' : rule })} className={`bg-white p-5 rounded-2xl border shadow-sm text-left transition-all ${filters.rule === rule ? 'border-custom-blue ring-2 ring-blue-100' : 'border-slate-200 hover:border-slate-300'}`}><p className="text-[9px] font-black text-slate-400 uppercase tracking-widest">{ANOMALY_RULE_LABELS[rule]}</p><p className={`text-3xl font-black mt-2 ${countByRule(rule) > 0 ? 'text-red-600' : 'text-slate-300'}`}>{countByRule(rule)}</p><p className="text-[9px] font-bold text-slate-400 uppercase tracking-widest">pendientes</p></button>)}</div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 grid grid-cols-1 md:grid-cols-4 gap-4">
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Regla</label><select className={inputClass} value={filters.rule} onChange={e => setFilters({ ...filters, rule: e.target.value })}><option value="">Todas</option>{(Object.keys(ANOMALY_RULE_LABELS) as AnomalyRuleId[]).map(r => <option key={r} value={r}>{ANOMALY_RULE_LABELS[r]}</option>)}</select></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Estado</label><select className={inputClass} value={filters.status} onChange={e => setFilters({ ...filters, status: e.target.value })}><option value="ABIERTAS">Abiertas</option><option value="PENDIENTE">Pendientes</option><option value="RECONOCIDA">Reconocidas</option><option value="RESUELTA">Resueltas</option><option value="">Todas</option></select></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Sede</label><select className={inputClass} value={filters.city} onChange={e => setFilters({ ...filters, city: e.target.value })} disabled={!can(user, 'report.crossCity')}><option value="">{can(user, 'report.crossCity') ? 'Todas' : user.city}</option>{can(user, 'report.crossCity') && cities.map(c => <option key={c} value={c}>{c}</option>)}</select></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Sello</label><input type="text" className={inputClass} placeholder="ID del precinto" value={filters.sealId} onChange={e => setFilters({ ...filters, sealId: e.target.value })} /></div>
+      </div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden overflow-x-auto">
+        <table className="w-full text-left text-[11px]">
+          <thead className="bg-slate-50 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest"><tr><th className="px-6 py-4">Fecha</th><th className="px-6 py-4">Regla</th><th className="px-6 py-4">Sello</th><th className="px-6 py-4">Sede</th><th className="px-6 py-4">Detalle</th><th className="px-6 py-4">Estado</th>{can(user, 'alert.review') && <th className="px-6 py-4 text-right">Acciones</th>}</tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+            {filtered.length > 0 ? filtered.map(a => { const review = reviewOf.get(a.id); const status = statusOf(a); return (<tr key={a.id} className="align-top hover:bg-slate-50/50"><td className="px-6 py-4 font-mono text-[10px] whitespace-nowrap">{Dates.format(a.date)}</td><td className="px-6 py-4 uppercase text-[10px] text-custom-blue">{ANOMALY_RULE_LABELS[a.rule]}</td><td className="px-6 py-4 font-mono font-black text-custom-blue">{a.sealId}<span className="block text-[9px] text-slate-400 font-sans uppercase">{a.sealType}</span></td><td className="px-6 py-4 uppercase text-[10px]">{a.city}</td><td className="px-6 py-4 text-slate-600">{a.message}{review?.note && <span className="block text-[10px] text-slate-400 italic mt-1">Nota: {review.note}</span>}</td><td className="px-6 py-4"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest ${ALERT_STATUS_STYLES[status]}`}>{status}</span>{review && <span className="block text-[9px] text-slate-400 uppercase mt-1.5">{review.by} · {Dates.format(review.at)}</span>}</td>{can(user, 'alert.review') && <td className="px-6 py-4 text-right whitespace-nowrap space-x-2">{status === 'PENDIENTE' && <button onClick={() => onReview(a, 'RECONOCIDA')} className="px-3 py-1.5 rounded-lg border border-amber-200 text-amber-700 text-[9px] font-black uppercase tracking-widest hover:bg-amber-50">Reconocer</button>}{status !== 'RESUELTA' && <button onClick={() => onReview(a, 'RESUELTA')} className="px-3 py-1.5 rounded-lg border border-emerald-200 text-emerald-700 text-[9px] font-black uppercase tracking-widest hover:bg-emerald-50">Resolver</button>}</td>}</tr>); }) : <tr><td colSpan={7} className="px-8 py-16 text-center font-bold text-slate-400 uppercase tracking-widest">No hay alertas para los filtros seleccionados</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const AuditView: React.FC<{ user: User }> = ({ user }) => {
+  const [entries, setEntries] = useState<AuditEntry[]>([]);
+  const [isLoading, setIsLoading] = useState(true);
+  const [filters, setFilters] = useState({ actor: '', action: '', target: '', from: '', to: '' });
+  useEffect(() => { ApiService.getAuditLog().then(list => { setEntries(list); setIsLoading(false); }); }, []);
+  const actors = useMemo(() => Array.from(new Set(entries.map(e => e.actor))).sort(), [entries]);
+  const filtered = useMemo(() => entries.filter(e => (!filters.actor || e.actor === filters.actor) && (!filters.action || e.action === filters.action) && (!filters.target || e.target.toLowerCase().includes(filters.target.toLowerCase())) && Dates.inRange(e.date, filters.from, filters.to)), [entries, filters]);
+  const formatSnapshot = (value: unknown) => value === undefined ? '' : JSON.stringify(value);
+  const handleExport = () => exportToExcel(filtered.map(e => ({ Fecha: Dates.format(e.date), Usuario: e.actor, Acción: AUDIT_ACTION_LABELS[e.action] || e.action, Objetivo: e.target, Antes: formatSnapshot(e.before), Después: formatSnapshot(e.after) })), 'Auditoria_SelloMaster');
+  const inputClass = "w-full border border-slate-200 bg-slate-50 rounded-xl px-3 py-2.5 text-[11px] font-bold text-custom-blue outline-none";
+
+  return (
+    <div className="space-y-8 animate-in fade-in duration-500">
+      <div className="flex justify-between items-end"><div><h3 className="text-2xl font-black text-custom-blue uppercase tracking-tighter italic">Auditoría</h3><p className="text-xs text-slate-500 font-bold uppercase tracking-widest mt-1">Registro inalterable de acciones administrativas</p></div>{can(user, 'report.export') && <button onClick={handleExport} disabled={filtered.length === 0} className="flex items-center gap-2 bg-emerald-600 text-white px-5 py-3 rounded-xl font-black text-[10px] uppercase tracking-widest shadow-lg hover:bg-emerald-700 transition-all disabled:opacity-40"><ICONS.Excel className="w-4 h-4" /> Exportar Auditoría</button>}</div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 p-6 grid grid-cols-1 md:grid-cols-5 gap-4">
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Usuario</label><select className={inputClass} value={filters.actor} onChange={e => setFilters({ ...filters, actor: e.target.value })}><option value="">Todos</option>{actors.map(a => <option key={a} value={a}>{a}</option>)}</select></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Acción</label><select className={inputClass} value={filters.action} onChange={e => setFilters({ ...filters, action: e.target.value })}><option value="">Todas</option>{(Object.keys(AUDIT_ACTION_LABELS) as AuditAction[]).map(a => <option key={a} value={a}>{AUDIT_ACTION_LABELS[a]}</option>)}</select></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Objetivo</label><input type="text" className={inputClass} placeholder="Sello, usuario, sede..." value={filters.target} onChange={e => setFilters({ ...filters, target: e.target.value })} /></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Desde</label><input type="date" className={inputClass} value={filters.from} onChange={e => setFilters({ ...filters, from: e.target.value })} /></div>
+        <div className="space-y-1"><label className="text-[9px] font-black text-slate-400 uppercase tracking-widest">Hasta</label><input type="date" className={inputClass} value={filters.to} onChange={e => setFilters({ ...filters, to: e.target.value })} /></div>
+      </div>
+      <div className="bg-white rounded-2xl shadow-sm border border-slate-200 overflow-hidden overflow-x-auto">
+        <table className="w-full text-left text-[11px]">
+          <thead className="bg-slate-50 border-b border-slate-100 text-[10px] font-black text-custom-blue uppercase tracking-widest"><tr><th className="px-6 py-4">Fecha</th><th className="px-6 py-4">Usuario</th><th className="px-6 py-4">Acción</th><th className="px-6 py-4">Objetivo</th><th className="px-6 py-4">Antes</th><th className="px-6 py-4">Después</th></tr></thead>
+          <tbody className="divide-y divide-slate-100 font-bold text-slate-700">
+            {filtered.length > 0 ? filtered.map(e => (<tr key={e.id} className="align-top hover:bg-slate-50/50"><td className="px-6 py-4 font-mono text-[10px] whitespace-nowrap">{Dates.format(e.date)}</td><td className="px-6 py-4 uppercase">{e.actor}</td><td className={`px-6 py-4 uppercase text-[10px] ${e.action === 'auth.loginFailed' || e.action.endsWith('.delete') ? 'text-red-600' : 'text-custom-blue'}`}>{AUDIT_ACTION_LABELS[e.action] || e.action}</td><td className="px-6 py-4 font-mono">{e.target}</td><td className="px-6 py-4 font-mono text-[9px] text-slate-500 max-w-xs break-all">{formatSnapshot(e.before)}</td><td className="px-6 py-4 font-mono text-[9px] text-slate-500 max-w-xs break-all">{formatSnapshot(e.after)}</td></tr>)) : <tr><td colSpan={6} className="px-8 py-16 text-center font-bold text-slate-400 uppercase tracking-widest">{isLoading ? 'Cargando registros...' : 'No hay registros para los filtros seleccionados'}</td></tr>}
+          </tbody>
+        </table>
+      </div>
+    </div>
+  );
+};
+
+const LoginScreen: React.FC<{ onLogin: (username: string, password: string) => Promise<string | null>; settings: AppSettings }> = ({ onLogin, settings }) => {
   const [username, setUsername] = useState('');
   const [password, setPassword] = useState('');
   const [error, setError] = useState('');
-  const handleLogin = (e: React.FormEvent) => { e.preventDefault(); const user = users.find(u => u.username.toLowerCase() === username.toLowerCase()); if (user) { if (user.password === password) onLogin(user); else setError('Contraseña incorrecta.'); } else setError('Usuario no encontrado o no asignado a ninguna sede.'); };
+  const [isValidating, setIsValidating] = useState(false);
+  const handleLogin = async (e: React.FormEvent) => { e.preventDefault(); setIsValidating(true); const loginError = await onLogin(username, password); setIsValidating(false); if (loginError) { setError(loginError); setPassword(''); } };
   return (
     <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
       <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200">
         <div className="bg-custom-blue p-12 text-center text-white"><div className="bg-white/10 w-24 h-24 rounded-3xl flex items-center justify-center mx-auto mb-6 overflow-hidden backdrop-blur-md border border-white/20 shadow-2xl">{settings.logo ? <img src={settings.logo} className="w-full h-full object-cover" /> : <ICONS.Truck className="w-10 h-10" />}</div><h1 className="text-3xl font-black tracking-tight uppercase italic">{settings.title}</h1></div>
-        <form onSubmit={handleLogin} className="p-10 space-y-8">{error && <div className="bg-red-50 text-red-700 p-4 rounded-xl text-[11px] font-bold border border-red-200 animate-pulse">{error}</div>}<div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Identificación de Usuario</label><input type="text" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all uppercase" value={username} onChange={(e) => setUsername(e.target.value.toUpperCase())} /></div><div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Contraseña de Acceso</label><input type="password" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all" value={password} onChange={(e) => setPassword(e.target.value)} /></div><button type="submit" className="w-full bg-custom-blue text-white font-black py-5 rounded-xl hover:bg-black transition-all shadow-2xl uppercase tracking-[0.2em] text-xs">Validar Credenciales</button></form>
+        <form onSubmit={handleLogin} className="p-10 space-y-8">{error && <div className="bg-red-50 text-red-700 p-4 rounded-xl text-[11px] font-bold border border-red-200 animate-pulse">{error}</div>}<div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Identificación de Usuario</label><input type="text" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all uppercase" value={username} onChange={(e) => setUsername(e.target.value.toUpperCase())} /></div><div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Contraseña de Acceso</label><input type="password" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all" value={password} onChange={(e) => setPassword(e.target.value)} /></div><button type="submit" disabled={isValidating} className="w-full bg-custom-blue text-white font-black py-5 rounded-xl hover:bg-black transition-all shadow-2xl uppercase tracking-[0.2em] text-xs disabled:opacity-60">{isValidating ? 'Validando...' : 'Validar Credenciales'}</button></form>
+      </div>
+    </div>
+  );
+};
+
+const ChangePasswordScreen: React.FC<{ user: User; settings: AppSettings; onChange: (password: string) => Promise<string | null>; onCancel: () => void }> = ({ user, settings, onChange, onCancel }) => {
+  const [password, setPassword] = useState('');
+  const [confirmation, setConfirmation] = useState('');
+  const [error, setError] = useState('');
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const validationError = AuthService.validatePassword(password);
+    if (validationError) return setError(validationError);
+    if (password !== confirmation) return setError('Las contraseñas no coinciden.');
+    setError(await onChange(password) || '');
+  };
+  return (
+    <div className="min-h-screen bg-slate-100 flex items-center justify-center p-4">
+      <div className="bg-white rounded-2xl shadow-2xl w-full max-w-md overflow-hidden border border-slate-200">
+        <div className="bg-custom-blue p-10 text-center text-white"><h1 className="text-2xl font-black tracking-tight uppercase italic">{settings.title}</h1><p className="text-[10px] font-black uppercase tracking-widest mt-3 text-white/70">Cambio de contraseña obligatorio - {user.username}</p></div>
+        <form onSubmit={handleSubmit} className="p-10 space-y-6">
+          <p className="text-[11px] text-slate-500 font-medium leading-relaxed">Por seguridad debe definir una contraseña personal antes de continuar. Mínimo {MIN_PASSWORD_LENGTH} caracteres, combinando letras y números.</p>
+          {error && <div className="bg-red-50 text-red-700 p-4 rounded-xl text-[11px] font-bold border border-red-200">{error}</div>}
+          <div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Nueva Contraseña</label><input type="password" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all" value={password} onChange={(e) => setPassword(e.target.value)} /></div>
+          <div className="space-y-2"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Confirmar Contraseña</label><input type="password" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-5 py-4 focus:bg-white focus:ring-4 focus:ring-blue-50 font-bold text-custom-blue outline-none transition-all" value={confirmation} onChange={(e) => setConfirmation(e.target.value)} /></div>
+          <div className="flex gap-4 pt-2"><button type="button" onClick={onCancel} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Salir</button><button type="submit" className="flex-1 bg-custom-blue text-white font-black py-4 rounded-xl hover:bg-black transition-all shadow-xl uppercase tracking-widest text-[10px]">Guardar Contraseña</button></div>
+        </form>
       </div>
     </div>
   );
@@ -674,24 +1891,58 @@ export default function App() {
   const [currentUser, setCurrentUser] = useState<User | null>(null);
   const [activeTab, setActiveTab] = useState('Dashboard');
   const [seals, setSeals] = useState<Seal[]>([]);
+  const [lots, setLots] = useState<SealLot[]>([]);
+  const [transfers, setTransfers] = useState<SealTransfer[]>([]);
+  const [cycleCounts, setCycleCounts] = useState<CycleCount[]>([]);
+  const [shipments, setShipments] = useState<Shipment[]>([]);
+  const [alertReviews, setAlertReviews] = useState<AlertReview[]>([]);
   const [users, setUsers] = useState<User[]>([]);
   const [cities, setCities] = useState<string[]>(['BOGOTÁ', 'MEDELLÍN', 'CALI', 'BARRANQUILLA']);
-  const [filteredSeals, setFilteredSeals] = useState<Seal[]>([]);
-  const [isSearchPerformed, setIsSearchPerformed] = useState(false);
+  const [inventorySearch, setInventorySearch] = useState<FilterOptions | null>(null); // Filtros de la búsqueda vigente (null = sin resultados)
+  const [inventorySort, setInventorySort] = useState<SealSort>(DEFAULT_SEAL_SORT);
+  const [inventoryTotal, setInventoryTotal] = useState(0);
+  const [storeRevision, setStoreRevision] = useState(0); // Aumenta cada vez que termina una escritura de la copia local
   const [isSearchModalOpen, setIsSearchModalOpen] = useState(false);
   const [isNewSealModalOpen, setIsNewSealModalOpen] = useState(false);
   const [selectedSeals, setSelectedSeals] = useState<Seal[]>([]);
   const [targetStatus, setTargetStatus] = useState<SealStatus | null>(null);
   const [isMoveFormOpen, setIsMoveFormOpen] = useState(false);
   const [moveData, setMoveData] = useState({ requester: '', observations: '', vehiclePlate: '', trailerContainer: '', deliveredSub: '' });
+  const [moveShipmentId, setMoveShipmentId] = useState(''); // Despacho al que se vinculan los sellos asignados o instalados
+  const [printReceipt, setPrintReceipt] = useState(true);
+  const [moveEvidence, setMoveEvidence] = useState<PreparedAttachment[]>([]); // Fotos y PDF del movimiento en curso
   const [toast, setToast] = useState<{message: string, type: 'success' | 'error'} | null>(null);
   const [isDeleteModeActive, setIsDeleteModeActive] = useState(false);
+  const [syncState, setSyncState] = useState<SyncState>(SyncQueue.getState());
+  // Los sellos con baja lógica solo se consultan desde trazabilidad y auditoría
+  const activeSeals = useMemo(() => seals.filter(s => !s.deletedAt), [seals]);
+  // Incluye los eliminados: su ID sigue ocupado en el backend
+  const sealKeys = useMemo(() => new Set(seals.map(s => `${s.id}\u0000${s.type}`)), [seals]);
   
   const [appSettings, setAppSettings] = useState<AppSettings>({ title: 'GESTION DE SELLOS CNCH', logo: null, sealTypes: ['Botella', 'Guaya', 'Correa', 'Adhesivo'], themeColor: '#003594' });
-  const fileExcelRef = useRef<HTMLInputElement>(null);
+  const [isImportWizardOpen, setIsImportWizardOpen] = useState(false);
+  // Las fechas se muestran en la zona horaria de la sede del usuario activo. El render no toca el estado global:
+  // la zona se aplica en un efecto y `configuredTimeZone` vuelve a montar el contenido para que se formatee con ella
+  const displayTimeZone = useMemo(() => Dates.timeZoneFor(currentUser?.city || '', appSettings), [currentUser?.city, appSettings]);
+  const [configuredTimeZone, setConfiguredTimeZone] = useState(Dates.getTimeZone);
+  useEffect(() => { Dates.configure({ timeZone: displayTimeZone }); setConfiguredTimeZone(displayTimeZone); }, [displayTimeZone]);
+  // Agregados del dashboard: cada cambio de `seals` solo vuelve a contar los precintos modificados
+  const dashboardAggregates = useRef<DashboardAggregates | null>(null);
+  const aggregates = useMemo(() => dashboardAggregates.current = DashboardStats.aggregate(dashboardAggregates.current, seals, displayTimeZone), [seals, displayTimeZone]);
+  // Estado completo que se exporta como respaldo y contra el que se compara una restauración
+  const backupData = useMemo<BackupData>(() => ({ seals, lots, transfers, shipments, users, cities, settings: appSettings }), [seals, lots, transfers, shipments, users, cities, appSettings]);
+  const searchAsOf = inventorySearch?.alCorte || ''; // Corte aplicado a los resultados: son de solo lectura
+  const asOfSeals = useMemo(() => searchAsOf ? SealReplay.asOf(seals, Dates.endOfDay(searchAsOf)) : null, [seals, searchAsOf]);
+  // Resultados del buscador: el inventario actual se pagina en el backend (o en la copia local) y el corte
+  // histórico en memoria; storeRevision renueva la consulta cuando la copia local refleja un cambio
+  const loadInventory = useCallback((offset: number, limit?: number): Promise<SealPage> => {
+    if (!inventorySearch) return Promise.resolve({ items: [], total: 0, offset });
+    const query = SealQueries.fromFilters(inventorySearch, inventorySort, offset, limit);
+    return asOfSeals ? Promise.resolve(SealQueries.run(asOfSeals, query)) : ApiService.querySeals(query);
+  }, [inventorySearch, inventorySort, asOfSeals, storeRevision]);
 
   // Apply theme colors to CSS variables
-  useEffect(() =>
+  useEffect(() => {
     const root = document.documentElement;
     const color = appSettings.themeColor || '#003594';
     root.style.setProperty('--color-primary', color);
@@ -699,73 +1950,168 @@ export default function App() {
     root.style.setProperty('--color-primary-light', lightenColor(color, 40));
   }, [appSettings.themeColor]);
 
+  // El backend solo entrega los datos con una sesión válida; sin conexión se leen las copias locales
+  const loadData = async () => {
+    const [savedSettings, savedCities, savedSeals, savedUsers, savedLots, savedTransfers, savedReviews, savedCounts, savedShipments] = await Promise.all([ApiService.getSettings(), ApiService.getCities(), ApiService.getSeals(), ApiService.getUsers(), ApiService.getLots(), ApiService.getTransfers(), ApiService.getAlertReviews(), ApiService.getCycleCounts(), ApiService.getShipments()]);
+    if (savedSettings) { setRolePermissions(savedSettings.rolePermissions); setAppSettings(savedSettings); }
+    if (savedCities.length > 0) setCities(savedCities);
+    setSeals(SealStore.migrate(savedSeals, savedSettings));
+    setLots(savedLots);
+    setTransfers(savedTransfers);
+    setAlertReviews(savedReviews);
+    setCycleCounts(savedCounts);
+    setShipments(savedShipments);
+    // Las copias locales anteriores podían guardar hash y sal
+    setUsers(savedUsers.map(({ password, passwordHash, passwordSalt, ...u }) => u));
+  };
+
+  useEffect(() => {
+    // Sesión heredada que almacenaba el usuario completo con su contraseña
+    localStorage.removeItem('selloUser');
+    (async () => {
+      const savedSettings = await ApiService.getSettings();
+      if (savedSettings) { setRolePermissions(savedSettings.rolePermissions); setAppSettings(savedSettings); }
+      // El backend confirma la sesión guardada; sin conexión se usa la copia local del usuario
+      const sessionUser = await ApiService.getSessionUser();
+      const session = AuthService.getSession();
+      const cachedUser = sessionUser === undefined && session ? (await ApiService.getUsers()).find(u => u.id === session.userId && !u.disabled) : undefined;
+      const user = sessionUser || cachedUser;
+      if (!user) return AuthService.endSession();
+      setCurrentUser(user);
+      await loadData();
+    })();
+  }, []);
+
+  // Cierra la sesión cuando expira el token
   useEffect(() => {
-    const savedUser = localStorage.getItem('selloUser');
-    const savedSettings = localStorage.getItem('selloSettings');
-    const savedSeals = localStorage.getItem('selloData');
-    const savedUsers = localStorage.getItem('selloUsers');
-    const savedCities = localStorage.getItem('selloCities');
-    if (savedSettings) setAppSettings(JSON.parse(savedSettings));
-    if (savedCities) setCities(JSON.parse(savedCities));
-    setSeals(savedSeals ? JSON.parse(savedSeals) : MOCK_DATA);
-    setUsers(savedUsers ? JSON.parse(savedUsers) : MOCK_USERS);
-    if (savedUser) setCurrentUser(JSON.parse(savedUser));
+    if (!currentUser) return;
+    const timer = setInterval(() => { if (!AuthService.getSession()) { handleLogout(); setToast({message: "Sesión expirada, ingrese nuevamente", type: 'error'}); } }, 60000);
+    return () => clearInterval(timer);
+  }, [currentUser]);
+
+  // Bandeja offline: reintentos automáticos y recarga tras aplicar operaciones pendientes
+  useEffect(() => {
+    const stop = SyncQueue.start();
+    ApiService.uploadAttachments(); // Evidencia que quedó sin subir en sesiones anteriores
+    const unsubscribe = SyncQueue.subscribe(setSyncState);
+    const offFlushed = SyncQueue.onFlushed(async () => { const [saved, settings] = await Promise.all([ApiService.getSeals(), ApiService.getSettings()]); setSeals(SealStore.migrate(saved, settings)); setTransfers(await ApiService.getTransfers()); ApiService.uploadAttachments(); });
+    return () => { stop(); unsubscribe(); offFlushed(); };
   }, []);
 
-  useEffect(() => { if (seals.length > 0) localStorage.setItem('selloData', JSON.stringify(seals)); }, [seals]);
+  // Copia local incremental: solo se escriben los precintos cuyo objeto cambió desde la última escritura
+  const storedSeals = useRef<Seal[] | null>(null);
+  useEffect(() => {
+    if (seals.length === 0) return;
+    const previous = storedSeals.current;
+    storedSeals.current = seals;
+    (previous ? SealStore.save(SealStore.changed(previous, seals)) : SealStore.replaceAll(seals)).catch(error => console.error('No fue posible guardar la copia local de precintos:', error)).then(() => setStoreRevision(r => r + 1));
+  }, [seals]);
   useEffect(() => { if (users.length > 0) localStorage.setItem('selloUsers', JSON.stringify(users)); }, [users]);
   useEffect(() => { localStorage.setItem('selloCities', JSON.stringify(cities)); }, [cities]);
+  useEffect(() => { if (lots.length > 0) localStorage.setItem('selloLots', JSON.stringify(lots)); }, [lots]);
+  useEffect(() => { if (transfers.length > 0) localStorage.setItem('selloTransfers', JSON.stringify(transfers)); }, [transfers]);
+  useEffect(() => { if (alertReviews.length > 0) localStorage.setItem('selloAlertReviews', JSON.stringify(alertReviews)); }, [alertReviews]);
+  useEffect(() => { if (cycleCounts.length > 0) localStorage.setItem('selloCycleCounts', JSON.stringify(cycleCounts)); }, [cycleCounts]);
+  useEffect(() => { if (shipments.length > 0) localStorage.setItem('selloShipments', JSON.stringify(shipments)); }, [shipments]);
   useEffect(() => { if (toast) { const timer = setTimeout(() => setToast(null), 4000); return () => clearTimeout(timer); } }, [toast]);
 
-  const handleRestoreDB = (data: any) => {
-    if (data.seals) localStorage.setItem('selloData', JSON.stringify(data.seals));
-    if (data.users) localStorage.setItem('selloUsers', JSON.stringify(data.users));
+  const notifySyncError = () => setToast({message: "No se pudo guardar en el servidor SQL", type: 'error'});
+  // Resultado de una mutación de precintos: 'queued' se aplica localmente y se sincroniza después
+  const notifySubmit = (result: SubmitResult, message: string) => { if (result === 'rejected') { notifySyncError(); return false; } setToast({message: result === 'queued' ? `${message} (sin conexión: pendiente de sincronizar)` : message, type: 'success'}); return true; };
+
+  // `data` ya viene validado y migrado (y combinado con lo actual en modo combinar) por BackupService
+  const handleRestoreDB = async (data: BackupData, mode: RestoreMode) => {
+    if (!(await ApiService.restore(data, mode))) { notifySyncError(); return false; }
+    if (data.seals) await SealStore.replaceAll(data.seals);
+    if (data.lots) localStorage.setItem('selloLots', JSON.stringify(data.lots));
+    if (data.transfers) localStorage.setItem('selloTransfers', JSON.stringify(data.transfers));
+    if (data.shipments) localStorage.setItem('selloShipments', JSON.stringify(data.shipments));
+    if (data.users) localStorage.setItem('selloUsers', JSON.stringify(data.users.map(({ password, passwordHash, passwordSalt, ...u }) => u)));
     if (data.cities) localStorage.setItem('selloCities', JSON.stringify(data.cities));
     if (data.settings) localStorage.setItem('selloSettings', JSON.stringify(data.settings));
+    return true;
   };
 
-  const handleLogin = (u: User) => { setCurrentUser(u); localStorage.setItem('selloUser', JSON.stringify(u)); setIsSearchPerformed(false); setFilteredSeals([]); };
-  const handleLogout = () => { setCurrentUser(null); localStorage.removeItem('selloUser'); setActiveTab('dashboard'); setIsSearchPerformed(false); setIsDeleteModeActive(false); };
-  const handleUpdateSettings = (s: AppSettings) => { setAppSettings(s); localStorage.setItem('selloSettings', JSON.stringify(s)); };
-  const handleAddUser = (u: User) => setUsers([...users, u]);
-  const handleUpdateUser = (updatedUser: User) => { setUsers(users.map(u => u.id === updatedUser.id ? updatedUser : u)); if (currentUser?.id === updatedUser.id) { setCurrentUser(updatedUser); localStorage.setItem('selloUser', JSON.stringify(updatedUser)); } };
-  const handleDeleteUser = (id: string) => setUsers(users.filter(u => u.id !== id));
-  const handleAddCity = (city: string) => setCities([...cities, city]);
-  const handleDeleteCity = (city: string) => { if (users.some(u => u.city === city)) return alert('No se puede eliminar una ciudad que tiene usuarios asociados.'); setCities(cities.filter(c => c !== city)); };
-  const handleUpdateCity = (oldCity: string, newCity: string) => { setCities(cities.map(c => c === oldCity ? newCity : c)); setUsers(users.map(u => u.city === oldCity ? { ...u, city: newCity } : u)); setSeals(seals.map(s => s.city === oldCity ? { ...s, city: newCity } : s)); };
-  const checkSealDuplicate = (id: string, type: string) => seals.some(s => s.id === id && s.type === type);
-  const handleAddSeal = (s: Seal) => { if (checkSealDuplicate(s.id, s.type)) { setToast({message: "Sello ya existe, favor verificar", type: 'error'}); return false; } const sealWithCity = { ...s, city: currentUser?.city || 'Sede Central' }; setSeals([sealWithCity, ...seals]); return true; };
-  const handleDeleteSeal = (id: string) => { if (window.confirm(`¿Está seguro de eliminar permanentemente el sello ${id}? Esta acción no se puede deshacer.`)) { const updatedSeals = seals.filter(s => s.id !== id); setSeals(updatedSeals); if (isSearchPerformed) setFilteredSeals(filteredSeals.filter(s => s.id !== id)); setToast({message: "Sello eliminado con éxito", type: 'success'}); } };
-  const handleInventoryDownload = () => { const exportData = (isSearchPerformed ? filteredSeals : seals).filter(s => s.city === currentUser?.city).map(s => ({ ID: s.id, Estado: s.status, Tipo: s.type, "Fecha Alta": s.creationDate, "Último Movimiento": s.lastMovement, Operador: s.entryUser })); exportToExcel(exportData, `Inventario_SelloMaster_${currentUser?.city}`); };
-  const handleExcelImport = (e: React.ChangeEvent<HTMLInputElement>) => { const file = e.target.files?.[0]; if (!file || !currentUser) return; const reader = new FileReader(); reader.onload = (evt) => { const bstr = evt.target?.result; const wb = XLSX.read(bstr, { type: 'binary' }); const wsname = wb.SheetNames[0]; const ws = wb.Sheets[wsname]; const data = XLSX.utils.sheet_to_json(ws, { header: 1 }) as any[][]; const now = new Date().toLocaleString('es-ES'); const newSealsBatch: Seal[] = []; let duplicateCount = 0; for (let i = 1; i < data.length; i++) { const sealId = String(data[i][0] || '').toUpperCase(); const sealType = appSettings.sealTypes[0] || 'Genérico'; if (sealId) { const isDuplicate = seals.some(s => s.id === sealId && s.type === sealType) || newSealsBatch.some(s => s.id === sealId && s.type === sealType); if (!isDuplicate) newSealsBatch.push({ id: sealId, type: sealType, status: SealStatus.ENTRADA_INVENTARIO, creationDate: now, lastMovement: now, entryUser: currentUser.fullName, orderNumber: '-', containerId: '-', notes: 'Carga Masiva Excel', city: currentUser.city, history: [{ date: now, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: currentUser.fullName, details: `Alta masiva Excel en ${currentUser.city}` }] }); else duplicateCount++; } } if (newSealsBatch.length > 0) { setSeals([...newSealsBatch, ...seals]); let msg = "SELLOS CARGADOS EXITOSAMENTE"; if (duplicateCount > 0) msg += ` (${duplicateCount} omitidos por duplicidad)`; setToast({message: msg, type: duplicateCount > 0 ? 'error' : 'success'}); } else if (duplicateCount > 0) setToast({message: "Sello ya existe, favor verificar (Todos los registros del Excel ya existen)", type: 'error'}); else alert("No se encontraron registros válidos en el archivo."); }; reader.readAsBinaryString(file); if (fileExcelRef.current) fileExcelRef.current.value = ''; };
-  const handleInventorySearch = (filters: FilterOptions) => { if (!currentUser) return; let result = seals.filter(s => s.city === currentUser.city); if (filters.idSello) result = result.filter(s => s.id.toLowerCase().includes(filters.idSello.toLowerCase())); if (filters.estado) result = result.filter(s => s.status === filters.estado); if (filters.tipo !== 'Todos') result = result.filter(s => s.type === filters.tipo); setFilteredSeals(result); setIsSearchPerformed(true); };
-  const initiateMovement = (selectedBatch: Seal[], status: SealStatus) => { setSelectedSeals(selectedBatch); setTargetStatus(status); setMoveData({ requester: '', observations: '', vehiclePlate: '', trailerContainer: '', deliveredSub: '' }); setIsMoveFormOpen(true); };
-  const handleConfirmMovement = () => { if (selectedSeals.length === 0 || !targetStatus) return; let details = ""; if (targetStatus === SealStatus.ASIGNADO || targetStatus === SealStatus.ENTREGADO) { if (!moveData.requester) return alert("El Usuario Receptor es obligatorio."); details = `USUARIO RECEPTOR: ${moveData.requester} | OBSERVACIONES: ${moveData.observations || 'Sin observaciones'}`; } else if (targetStatus === SealStatus.INSTALADO) { if (!moveData.vehiclePlate || !moveData.trailerContainer) return alert("Placa y Contenedor obligatorios."); details = `PLACA VEHÍCULO: ${moveData.vehiclePlate} | TRAILER/CONTENEDOR: ${moveData.trailerContainer} | OBSERVACIONES: ${moveData.observations || 'Sin observaciones'}`; } else if (targetStatus === SealStatus.NO_INSTALADO) { if (!moveData.deliveredSub) return alert("El campo 'Entregado sub:' es obligatorio."); details = `ENTREGADO SUB: ${moveData.deliveredSub} | OBSERVACIONES: ${moveData.observations || 'Sin observaciones'}`; } else if (targetStatus === SealStatus.DESTRUIDO) { if (!moveData.observations) return alert("El Motivo es obligatorio."); details = `MOTIVO DESTRUCCIÓN: ${moveData.observations}`; } else details = moveData.observations || `Cambio de estado a ${targetStatus.replace('_', ' ')}`; const now = new Date().toLocaleString('es-ES'); const selectedIds = selectedSeals.map(s => s.id); const updated = seals.map(s => { if (selectedIds.includes(s.id)) return { ...s, status: targetStatus, lastMovement: now, entryUser: currentUser?.fullName || 'SISTEMA', history: [{ date: now, fromStatus: s.status, toStatus: targetStatus, user: currentUser?.fullName || 'SISTEMA', details: selectedSeals.length > 1 ? `[MASIVO] ${details}` : details }, ...s.history] }; return s; }); setSeals(updated); if (isSearchPerformed) setFilteredSeals(prev => prev.map(s => { const match = updated.find(u => u.id === s.id); return match ? match : s; })); setIsMoveFormOpen(false); setSelectedSeals([]); setTargetStatus(null); setToast({message: "Movimiento procesado correctamente", type: 'success'}); };
-
-  if (!currentUser) return <LoginScreen onLogin={handleLogin} users={users} settings={appSettings} />;
+  const handleLogin = async (username: string, password: string) => { const result = await ApiService.login(username, password); if (result.error || !result.user) return result.error || 'Error de autenticación.'; setCurrentUser(result.user); setInventorySearch(null); loadData(); return null; };
+  const handleChangePassword = async (password: string) => { if (!currentUser) return null; const error = await ApiService.changePassword(password); if (error) return error; const updated: User = { ...currentUser, mustChangePassword: false }; setUsers(prev => prev.map(u => u.id === updated.id ? updated : u)); setCurrentUser(updated); setToast({message: "Contraseña actualizada", type: 'success'}); return null; };
+  const handleLogout = () => { ApiService.logout(); setCurrentUser(null); setActiveTab('dashboard'); setInventorySearch(null); setIsDeleteModeActive(false); };
+  const handleUpdateSettings = async (s: AppSettings) => { if (!(await ApiService.updateSettings(s))) { notifySyncError(); return false; } setRolePermissions(s.rolePermissions); setAppSettings(s); localStorage.setItem('selloSettings', JSON.stringify(s)); return true; };
+  // La contraseña temporal solo viaja al backend; el estado y las copias locales nunca la guardan
+  const handleAddUser = async ({ password, ...u }: User) => { if (!(await ApiService.createUser({ ...u, password }))) return notifySyncError(); setUsers(prev => [...prev, u]); };
+  const handleUpdateUser = async ({ password, ...updatedUser }: User) => { if (!(await ApiService.updateUser({ ...updatedUser, password }))) { notifySyncError(); return false; } setUsers(prev => prev.map(u => u.id === updatedUser.id ? updatedUser : u)); if (currentUser?.id === updatedUser.id) setCurrentUser(updatedUser); return true; };
+  const handleDeleteUser = async (id: string) => { if (!(await ApiService.deleteUser(id))) return notifySyncError(); setUsers(prev => prev.filter(u => u.id !== id)); };
+  const handleAddCity = async (city: string) => { if (!(await ApiService.createCity(city))) return notifySyncError(); setCities(prev => [...prev, city]); };
+  const handleDeleteCity = async (city: string) => { if (users.some(u => u.city === city)) return alert('No se puede eliminar una ciudad que tiene usuarios asociados.'); if (!(await ApiService.deleteCity(city))) return notifySyncError(); setCities(prev => prev.filter(c => c !== city)); };
+  const handleUpdateCityTimeZone = (city: string, timeZone: string) => handleUpdateSettings({ ...appSettings, cityTimeZones: { ...appSettings.cityTimeZones, [city]: timeZone } });
+  const handleUpdateCity = async (oldCity: string, newCity: string) => { if (!(await ApiService.renameCity(oldCity, newCity))) return notifySyncError(); const { cityTimeZones: zones, stockThresholds: thresholds } = appSettings; if (zones?.[oldCity] || thresholds?.[oldCity]) { const { [oldCity]: zone, ...otherZones } = zones || {}; const { [oldCity]: levels, ...otherLevels } = thresholds || {}; handleUpdateSettings({ ...appSettings, cityTimeZones: zone ? { ...otherZones, [newCity]: zone } : zones, stockThresholds: levels ? { ...otherLevels, [newCity]: levels } : thresholds }); } setCities(cities.map(c => c === oldCity ? newCity : c)); setUsers(users.map(u => u.city === oldCity ? { ...u, city: newCity } : u)); setSeals(seals.map(s => s.city === oldCity ? { ...s, city: newCity } : s)); setCycleCounts(prev => prev.map(c => c.city === oldCity ? { ...c, city: newCity } : c)); setShipments(prev => prev.map(s => s.city === oldCity ? { ...s, city: newCity } : s)); };
+  // Alertas de inventario bajo de las sedes que el usuario puede consultar
+  const stockAlerts = useMemo(() => currentUser ? StockLevels.alerts(StockLevels.compute(activeSeals, appSettings)).filter(a => can(currentUser, 'report.crossCity') || a.city === currentUser.city) : [], [activeSeals, appSettings, currentUser]);
+  // Alertas de anomalías sobre el historial (se recalculan con cada cambio de precintos o reglas)
+  const sealAlerts = useMemo(() => currentUser ? Anomalies.evaluate(activeSeals, appSettings).filter(a => can(currentUser, 'report.crossCity') || a.city === currentUser.city) : [], [activeSeals, appSettings, currentUser]);
+  // El auditor consulta las alertas sin poder revisarlas
+  const canSeeAlerts = can(currentUser, 'alert.review') || can(currentUser, 'audit.view');
+  const pendingAlerts = useMemo(() => { const reviewed = new Set(alertReviews.map(r => r.alertId)); return sealAlerts.filter(a => !reviewed.has(a.id)).length; }, [sealAlerts, alertReviews]);
+  const pendingCounts = useMemo(() => can(currentUser, 'count.approve') ? cycleCounts.filter(c => c.status === 'POR_APROBAR' && (can(currentUser, 'report.crossCity') || c.city === currentUser?.city)).length : 0, [cycleCounts, currentUser]);
+  const handleReviewAlert = async (alert: SealAlert, status: AlertReviewStatus) => { if (!currentUser) return; const note = prompt(status === 'RESUELTA' ? 'Describa cómo se resolvió la alerta:' : 'Nota (opcional):', ''); if (note === null) return; if (status === 'RESUELTA' && !note.trim()) return setToast({message: "Indique cómo se resolvió la alerta", type: 'error'}); const review: AlertReview = { alertId: alert.id, status, by: currentUser.fullName, at: Dates.now(), ...(note.trim() ? { note: note.trim() } : {}) }; if (!(await ApiService.reviewAlert(review))) return notifySyncError(); setAlertReviews(prev => [review, ...prev.filter(r => r.alertId !== alert.id)]); setToast({message: status === 'RESUELTA' ? "Alerta resuelta" : "Alerta reconocida", type: 'success'}); };
+  const ownStockAlerts = stockAlerts.filter(a => a.city === currentUser?.city).length;
+  const previousStockAlerts = useRef(0);
+  useEffect(() => { if (ownStockAlerts > previousStockAlerts.current) setToast({message: `INVENTARIO BAJO EN ${currentUser?.city}: ${ownStockAlerts} tipo(s) bajo el umbral`, type: 'error'}); previousStockAlerts.current = ownStockAlerts; }, [ownStockAlerts]);
+  const checkSealDuplicate = useCallback((id: string, type: string) => sealKeys.has(`${id}\u0000${type}`), [sealKeys]);
+  const handleAddSeal = async (s: Seal) => { if (!currentUser) return false; const creationError = SealLifecycle.validateCreation(s.status, currentUser); if (creationError) { setToast({message: creationError, type: 'error'}); return false; } if (checkSealDuplicate(s.id, s.type)) { setToast({message: "Sello ya existe, favor verificar", type: 'error'}); return false; } const sealWithCity = { ...s, city: currentUser.city }; if (!notifySubmit(await ApiService.createSeal(sealWithCity, currentUser), "PRECINTO REGISTRADO")) return false; setSeals(prev => [sealWithCity, ...prev]); return true; };
+  const handlePrintLabels = (batch: Seal[]) => { Documents.labelSheet(batch, appSettings).catch(() => setToast({message: 'No fue posible generar las etiquetas', type: 'error'})); };
+  const handleDispatchTransfer = async (batch: Seal[], dispatch: TransferDispatch) => { if (!currentUser) return false; const dispatchError = SealTransfers.validateDispatch(batch, dispatch, currentUser); if (dispatchError) { setToast({message: dispatchError, type: 'error'}); return false; } const transfer = SealTransfers.create(batch, dispatch, currentUser); if (!notifySubmit(await ApiService.createTransfer(transfer, batch, currentUser), `TRASLADO ${transfer.id} DESPACHADO A ${transfer.destination}`)) return false; setSeals(prev => SealTransfers.applyDispatch(prev, transfer)); setTransfers(prev => [transfer, ...prev]); return true; };
+  const handleReceiveTransfer = async (transfer: SealTransfer, received: { id: string; type: string }[]) => { if (!currentUser) return false; const receptionError = SealTransfers.validateReception(transfer, currentUser); if (receptionError) { setToast({message: receptionError, type: 'error'}); return false; } const now = Dates.now(); if (!notifySubmit(await ApiService.receiveTransfer(transfer, received, currentUser, now), `TRASLADO ${transfer.id} RECIBIDO: ${received.length} de ${SealTransfers.pending(transfer).length}`)) return false; const result = SealTransfers.applyReception(seals, transfer, received, currentUser.fullName, now); setSeals(result.seals); setTransfers(prev => prev.map(t => t.id === transfer.id ? result.transfer : t)); return true; };
+  const handleSaveCycleCount = async (count: CycleCount) => { if (!currentUser) return false; const previous = cycleCounts.find(c => c.id === count.id); const countError = CycleCounts.validateTransition(previous, count, currentUser); if (countError) { setToast({message: countError, type: 'error'}); return false; } if (!(await ApiService.saveCycleCount(count))) { notifySyncError(); return false; } setCycleCounts(prev => previous ? prev.map(c => c.id === count.id ? count : c) : [count, ...prev]); setToast({message: previous ? `CONTEO ${count.id}: ${count.status.replace('_', ' ')}` : `CONTEO ${count.id} INICIADO EN ${count.city}`, type: 'success'}); return true; };
+  // Renombrar el pedido de un despacho también actualiza los sellos vinculados (igual que el servidor)
+  const handleSaveShipment = async (shipment: Shipment) => { if (!currentUser) return false; const previous = shipments.find(s => s.id === shipment.id); if (!(await ApiService.saveShipment(shipment))) { notifySyncError(); return false; } setShipments(prev => previous ? prev.map(s => s.id === shipment.id ? shipment : s) : [shipment, ...prev]); if (previous && previous.orderNumber !== shipment.orderNumber) setSeals(prev => prev.map(s => s.shipmentId === shipment.id ? { ...s, orderNumber: shipment.orderNumber } : s)); setToast({message: previous ? `DESPACHO ${shipment.orderNumber}: ${SHIPMENT_STATUS_LABELS[shipment.status].toUpperCase()}` : `DESPACHO ${shipment.orderNumber} CREADO`, type: 'success'}); return true; };
+  // Los faltantes aprobados se dan de baja por la ruta normal de movimientos (validación, bandeja offline e historial)
+  const handleApproveCycleCount = async (count: CycleCount, adjust: { id: string; type: string }[]) => { if (!currentUser) return false; const countError = CycleCounts.validateTransition(count, { ...count, status: 'APROBADO' }, currentUser); if (countError) { setToast({message: countError, type: 'error'}); return false; } const now = Dates.now(); const keys = new Set(adjust.map(SealTransfers.keyOf)); const current = seals.filter(s => keys.has(SealTransfers.keyOf(s))); if (current.length > 0) { const { status, metadata } = CycleCounts.adjustment(count, current.length > 1); const error = SealLifecycle.validateMovement(current, status, currentUser); if (error) { alert(error); return false; } if (!notifySubmit(await ApiService.updateSealStatus(current, status, metadata, currentUser, now), `${current.length} FALTANTE(S) DADOS DE BAJA`)) return false; const details = MovementDetails.format(status, metadata); setSeals(prev => prev.map(s => keys.has(SealTransfers.keyOf(s)) ? { ...s, status, lastMovement: now, entryUser: currentUser.fullName, history: [{ date: now, fromStatus: s.status, toStatus: status, user: currentUser.fullName, details, metadata }, ...s.history] } : s)); } const approved: CycleCount = { ...count, status: 'APROBADO', approvedBy: currentUser.fullName, approvedAt: now, ...(current.length > 0 ? { adjusted: current.map(s => ({ id: s.id, type: s.type })) } : {}) }; if (!(await ApiService.saveCycleCount(approved))) { notifySyncError(); return false; } setCycleCounts(prev => prev.map(c => c.id === count.id ? approved : c)); setToast({message: `CONTEO ${count.id} APROBADO`, type: 'success'}); return true; };
+  const handleAddLot = async (lot: SealLot, batch: Seal[]) => { if (!currentUser) return false; if (batch.some(s => checkSealDuplicate(s.id, s.type))) { setToast({message: "Sello ya existe, favor verificar", type: 'error'}); return false; } if (!notifySubmit(await ApiService.createLot(lot, batch, currentUser), `LOTE ${lot.id} REGISTRADO (${batch.length} PRECINTOS)`)) return false; setLots(prev => [lot, ...prev]); setSeals(prev => [...batch, ...prev]); return true; };
+  const handleDeleteSeal = async (seal: Seal) => { if (!can(currentUser, 'seal.delete')) { setToast({message: "Su rol no está autorizado para eliminar precintos", type: 'error'}); return; } if (window.confirm(`¿Está seguro de eliminar el sello ${seal.id}? Saldrá del inventario y su historial solo será visible para auditoría.`)) { if (!currentUser) return; const now = Dates.now(); if (!notifySubmit(await ApiService.deleteSeal(seal, currentUser, now), "Sello eliminado con éxito")) return; const isTarget = (s: Seal) => s.uid === seal.uid; setSeals(prev => prev.map(s => isTarget(s) ? { ...s, deletedAt: now, deletedBy: currentUser.fullName } : s)); } };
+  const handleInventoryDownload = async () => { const source = inventorySearch ? (await loadInventory(0)).items : activeSeals.filter(s => can(currentUser, 'report.crossCity') || s.city === currentUser?.city); const exportData = source.map(s => ({ ID: s.id, Estado: s.status, Tipo: s.type, Lote: s.lot || '', "Fecha Alta": Dates.format(s.creationDate), "Último Movimiento": Dates.format(s.lastMovement), Operador: s.entryUser })); exportToExcel(exportData, `Inventario_SelloMaster_${currentUser?.city}${searchAsOf ? `_al_${searchAsOf}` : ''}`); };
+  const handleImportSeals = async (batch: Seal[], fileName: string) => { if (!currentUser) return false; const creationError = SealLifecycle.validateCreation(SealStatus.ENTRADA_INVENTARIO, currentUser); if (creationError) { alert(creationError); return false; } const result = await ApiService.createSeals(batch, currentUser); if (result === 'rejected') { notifySyncError(); return false; } setSeals(prev => [...batch, ...prev]); setToast({message: `${batch.length} SELLOS CARGADOS DESDE ${fileName}${result === 'queued' ? ' - pendiente de sincronizar' : ''}`, type: 'success'}); return true; };
+  // Sin permiso multisede la búsqueda queda fija en la sede del usuario
+  const handleInventorySearch = (filters: FilterOptions) => { if (!currentUser) return; setInventorySearch({ ...filters, ciudad: can(currentUser, 'report.crossCity') ? filters.ciudad || '' : currentUser.city }); };
+  // Desglose desde el dashboard: abre el inventario con los filtros del gráfico
+  const handleDrillDown = (filters: Partial<FilterOptions>) => { handleInventorySearch({ ...EMPTY_FILTERS, ...filters }); setActiveTab('inventory'); };
+  // Si todos los sellos ya pertenecen al mismo despacho abierto (p. ej. asignados), se propone para la instalación
+  const initiateMovement = (selectedBatch: Seal[], status: SealStatus) => { const linked = new Set(selectedBatch.map(s => s.shipmentId)); const shipment = linked.size === 1 ? shipments.find(s => s.id === selectedBatch[0].shipmentId && s.status === 'ABIERTO') : undefined; setSelectedSeals(selectedBatch); setTargetStatus(status); setMoveShipmentId(shipment?.id || ''); setMoveData({ requester: '', observations: '', vehiclePlate: shipment?.vehiclePlate || '', trailerContainer: shipment?.trailerContainer || '', deliveredSub: '' }); setMoveEvidence([]); setIsMoveFormOpen(true); };
+  const handleSelectShipment = (id: string) => { const shipment = shipments.find(s => s.id === id); setMoveShipmentId(id); if (shipment) setMoveData(prev => ({ ...prev, vehiclePlate: prev.vehiclePlate || shipment.vehiclePlate, trailerContainer: prev.trailerContainer || shipment.trailerContainer })); };
+  const handleConfirmMovement = async () => { if (selectedSeals.length === 0 || !targetStatus || !currentUser) return; const current = selectedSeals.map(sel => seals.find(s => s.uid === sel.uid) || sel); const error = SealLifecycle.validateMovement(current, targetStatus, currentUser, moveData) || Attachments.validate(targetStatus, moveEvidence.map(e => e.attachment), appSettings); if (error) return alert(error); if (moveEvidence.length > 0 && !(await ApiService.saveAttachments(moveEvidence.map(e => e.content)))) return setToast({ message: 'No fue posible guardar la evidencia en este equipo. El movimiento no se registró', type: 'error' }); const shipment = SHIPMENT_STATUSES.includes(targetStatus) ? shipments.find(s => s.id === moveShipmentId) || null : null; const metadata = { ...MovementDetails.build(targetStatus, moveData, selectedSeals.length > 1), ...(shipment ? Shipments.metadata(shipment) : {}), ...(moveEvidence.length > 0 ? { attachments: moveEvidence.map(e => e.attachment) } : {}) }; const details = MovementDetails.format(targetStatus, metadata); const now = Dates.now(); if (!notifySubmit(await ApiService.updateSealStatus(current, targetStatus, metadata, currentUser, now), "Movimiento procesado correctamente")) return; if (printReceipt) Documents.movementReceipt({ seals: current.map(s => ({ id: s.id, type: s.type, fromStatus: s.status })), toStatus: targetStatus, metadata, user: currentUser.fullName, date: now, city: currentUser.city }, appSettings).catch(() => setToast({message: 'No fue posible generar el comprobante PDF', type: 'error'})); const selectedUids = new Set(selectedSeals.map(s => s.uid)); const updated = seals.map(s => { if (selectedUids.has(s.uid)) return { ...s, ...Shipments.link(s, targetStatus, metadata, shipment), status: targetStatus, lastMovement: now, entryUser: currentUser.fullName, history: [{ date: now, fromStatus: s.status, toStatus: targetStatus, user: currentUser.fullName, details, metadata }, ...s.history] }; return s; }); setSeals(updated); setIsMoveFormOpen(false); setSelectedSeals([]); setTargetStatus(null); setMoveEvidence([]); };
+
+  if (!currentUser) return <LoginScreen onLogin={handleLogin} settings={appSettings} />;
+  if (currentUser.mustChangePassword) return <ChangePasswordScreen user={currentUser} settings={appSettings} onChange={handleChangePassword} onCancel={handleLogout} />;
 
   return (
     <div className="min-h-screen bg-slate-50 flex text-slate-900 font-sans">
       {toast && <div className="fixed top-20 left-1/2 -translate-x-1/2 z-[60] animate-in slide-in-from-top-4"><div className={`px-8 py-4 rounded-2xl shadow-2xl border flex items-center gap-3 ${toast.type === 'success' ? 'bg-emerald-600 border-emerald-500 text-white' : 'bg-red-600 border-red-500 text-white'}`}><div className="w-6 h-6 rounded-full bg-white/20 flex items-center justify-center">{toast.type === 'success' ? <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M5 13l4 4L19 7"/></svg> : <svg className="w-4 h-4" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="3" d="M6 18L18 6M6 6l12 12"/></svg>}</div><p className="text-xs font-black uppercase tracking-widest">{toast.message}</p></div></div>}
-      <aside className="w-64 bg-slate-900 text-white h-screen fixed left-0 top-0 overflow-y-auto hidden md:block border-r border-slate-800 shadow-2xl z-20"><div className="p-8 h-full flex flex-col"><div className="flex items-center gap-4 mb-12"><div className="bg-custom-blue p-2 rounded-xl shadow-lg w-11 h-11 flex items-center justify-center shrink-0 border border-blue-400/30">{appSettings.logo ? <img src={appSettings.logo} className="w-full h-full object-cover" /> : <ICONS.Truck className="text-white" />}</div><h1 className="text-sm font-black tracking-tight leading-tight uppercase italic text-white">{appSettings.title}</h1></div><nav className="space-y-1.5 flex-1"><button onClick={() => setActiveTab('dashboard')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'dashboard' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Dashboard className="w-5 h-5" /> Dashboard</button><button onClick={() => { setActiveTab('inventory'); setIsSearchPerformed(false); }} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'inventory' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Search className="w-5 h-5" /> Inventario</button><button onClick={() => setActiveTab('movements')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'movements' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Move className="w-5 h-5" /> Movimientos</button><button onClick={() => setActiveTab('traceability')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'traceability' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.History className="w-5 h-5" /> Trazabilidad</button>{currentUser.role === UserRole.ADMIN && (<><div className="h-px bg-slate-800 my-6"></div><button onClick={() => setActiveTab('users')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'users' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Users className="w-5 h-5" /> Usuarios</button><button onClick={() => setActiveTab('cities')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'cities' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Map className="w-5 h-5" /> Ciudades</button><button onClick={() => setActiveTab('settings')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'settings' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924-1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/></svg> Configuración</button></>)}</nav><div className="pt-8 border-t border-slate-800 mt-auto text-center"><p className="text-[10px] font-black uppercase text-slate-500 mb-2">Sede: {currentUser.city}</p><button onClick={handleLogout} className="w-full flex items-center justify-center gap-2 px-3 py-3 rounded-lg text-red-400 hover:text-white transition-all text-[10px] font-black uppercase tracking-widest hover:bg-red-900/20"><ICONS.Logout className="w-4 h-4" /> Salir del Sistema</button></div></div></aside>
-      <main className="flex-1 md:ml-64 pt-16 min-w-0 bg-slate-50 min-h-screen"><header className="h-16 bg-white border-b border-slate-200 fixed top-0 right-0 left-0 md:left-64 z-10 flex items-center justify-between px-10"><h2 className="text-sm font-black text-custom-blue uppercase tracking-[0.2em]">{activeTab.toUpperCase()}</h2><div className="flex items-center gap-6">{currentUser.role === UserRole.ADMIN && activeTab === 'inventory' && <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200"><span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Modo Seguro (Borrado)</span><button onClick={() => setIsDeleteModeActive(!isDeleteModeActive)} className={`relative inline-flex h-5 w-10 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${isDeleteModeActive ? 'bg-red-500' : 'bg-slate-200'}`}><span className={`pointer-events-none inline-block h-4 w-4 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${isDeleteModeActive ? 'translate-x-5' : 'translate-x-0'}`}></span></button></div>}<div className="flex items-center gap-3"><span className="text-[10px] font-bold text-custom-blue uppercase tracking-widest">Sede {currentUser.city}</span><div className="w-2.5 h-2.5 bg-green-500 rounded-full animate-pulse border border-white"></div></div></div></header>
-        <div className="p-8 sm:p-12">
-          {activeTab === 'dashboard' && <DashboardView seals={seals} user={currentUser} cities={cities} />}
-          {activeTab === 'inventory' && <div className="space-y-8 animate-in fade-in duration-500"><div className="flex flex-wrap items-center justify-between bg-white p-5 rounded-3xl border border-slate-200 shadow-sm gap-4"><div className="flex flex-wrap gap-4"><button onClick={() => setIsNewSealModalOpen(true)} className="bg-custom-blue text-white px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">Nuevo Sello</button><button onClick={() => fileExcelRef.current?.click()} className="bg-white text-custom-blue border border-custom-blue px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 flex items-center gap-2"><ICONS.Import className="w-4 h-4" /> Carga Masiva</button><button onClick={() => setIsSearchModalOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 flex items-center gap-2"><ICONS.Search className="w-4 h-4" /> Búsqueda</button></div><button onClick={handleInventoryDownload} className="bg-emerald-600 text-white px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-emerald-700 transition-all flex items-center gap-2 shadow-lg"><ICONS.Excel className="w-4 h-4" /> Exportar Inventario</button><input ref={fileExcelRef} type="file" accept=".xlsx, .xls, .csv" onChange={handleExcelImport} className="hidden" /></div>{isSearchPerformed ? <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300"><div className="flex items-center justify-between bg-white p-4 rounded-2xl border border-slate-200 shadow-sm"><p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Resultados: <span className="text-custom-blue">{filteredSeals.length} precintos encontrados</span></p><button onClick={() => setIsSearchPerformed(false)} className="text-[10px] font-black text-custom-blue uppercase hover:underline">Limpiar Resultados</button></div><div className="bg-white border border-slate-200 rounded-3xl shadow-sm overflow-hidden overflow-x-auto"><table className="w-full text-left text-[11px]"><thead className="bg-slate-50 border-b border-slate-100 text-slate-500 font-black uppercase tracking-widest"><tr><th className="px-8 py-6 text-custom-blue">ID Sello</th><th className="px-8 py-6 text-custom-blue">Estado Logístico</th><th className="px-8 py-6 text-custom-blue">Tipo</th><th className="px-8 py-6 text-custom-blue">Operador</th><th className="px-8 py-6 text-custom-blue">Ciudad</th>{isDeleteModeActive && currentUser.role === UserRole.ADMIN && <th className="px-8 py-6 text-red-600 text-right">Acciones</th>}</tr></thead><tbody className="divide-y divide-slate-100 font-bold text-slate-900">{filteredSeals.length > 0 ? filteredSeals.map(s => (<tr key={s.id} onClick={() => !isDeleteModeActive && initiateMovement([s], s.status)} className={`group transition-all ${!isDeleteModeActive ? 'hover:bg-blue-50/30 cursor-pointer' : ''}`}><td className="px-8 py-5 font-black font-mono text-[14px] text-custom-blue group-hover:text-blue-600 uppercase">{s.id}</td><td className="px-8 py-5"><span className={`px-2.5 py-1 rounded-lg border text-[9px] font-black uppercase tracking-widest transition-all ${getStatusStyles(s.status).split('icon-bg-')[0]}`}>{s.status.replace('_', ' ')}</span></td><td className="px-8 py-5 text-slate-700 font-bold uppercase text-[9px]">{s.type}</td><td className="px-8 py-5 uppercase font-black text-[10px] text-slate-700">{s.entryUser}</td><td className="px-8 py-5 text-custom-blue font-black text-[10px]">{s.city}</td>{isDeleteModeActive && currentUser.role === UserRole.ADMIN && (<td className="px-8 py-5 text-right"><button onClick={(e) => { e.stopPropagation(); handleDeleteSeal(s.id); }} className="p-2 text-red-400 hover:text-red-700 hover:bg-red-50 rounded-lg transition-colors" title="Eliminar Precinto Permanentemente"><ICONS.Trash className="w-4 h-4" /></button></td>)}</tr>)) : (<tr><td colSpan={isDeleteModeActive ? 6 : 5} className="px-8 py-20 text-center font-bold text-slate-400 uppercase tracking-widest">No se encontraron registros</td></tr>)}</tbody></table></div></div> : <div className="bg-slate-50 border-2 border-dashed border-slate-200 rounded-3xl p-32 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Search className="w-8 h-8 text-blue-100 opacity-50" /></div><p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Utilice el botón "Búsqueda" para consultar el inventario de {currentUser.city}</p></div>}</div>}
-          {activeTab === 'movements' && <MovementsView seals={seals} onInitiateMove={initiateMovement} user={currentUser} />}
-          {activeTab === 'traceability' && <TraceabilityView seals={seals} user={currentUser} />}
-          {activeTab === 'users' && currentUser.role === UserRole.ADMIN && <UserManagement users={users} cities={cities} onAddUser={handleAddUser} onUpdateUser={handleUpdateUser} onDeleteUser={handleDeleteUser} />}
-          {activeTab === 'cities' && currentUser.role === UserRole.ADMIN && <CityManagement cities={cities} onAddCity={handleAddCity} onDeleteCity={handleDeleteCity} onUpdateCity={handleUpdateCity} />}
-          {activeTab === 'settings' && currentUser.role === UserRole.ADMIN && <SettingsView settings={appSettings} onUpdate={handleUpdateSettings} onRestoreDB={handleRestoreDB} />}
+      <aside className="w-64 bg-slate-900 text-white h-screen fixed left-0 top-0 overflow-y-auto hidden md:block border-r border-slate-800 shadow-2xl z-20"><div className="p-8 h-full flex flex-col"><div className="flex items-center gap-4 mb-12"><div className="bg-custom-blue p-2 rounded-xl shadow-lg w-11 h-11 flex items-center justify-center shrink-0 border border-blue-400/30">{appSettings.logo ? <img src={appSettings.logo} className="w-full h-full object-cover" /> : <ICONS.Truck className="text-white" />}</div><h1 className="text-sm font-black tracking-tight leading-tight uppercase italic text-white">{appSettings.title}</h1></div><nav className="space-y-1.5 flex-1"><button onClick={() => setActiveTab('dashboard')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'dashboard' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Dashboard className="w-5 h-5" /> Dashboard</button><button onClick={() => { setActiveTab('inventory'); setInventorySearch(null); }} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'inventory' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Search className="w-5 h-5" /> Inventario</button>{canMoveAny(currentUser) && <button onClick={() => setActiveTab('movements')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'movements' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Move className="w-5 h-5" /> Movimientos</button>}<button onClick={() => setActiveTab('traceability')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'traceability' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.History className="w-5 h-5" /> Trazabilidad</button>{canMoveTo(currentUser, SealStatus.EN_TRANSITO) && <button onClick={() => setActiveTab('transfers')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'transfers' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Truck className="w-5 h-5" /> Traslados</button>}{(can(currentUser, 'shipment.manage') || SHIPMENT_STATUSES.some(s => canMoveTo(currentUser, s))) && <button onClick={() => setActiveTab('shipments')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'shipments' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Package className="w-5 h-5" /> Despachos</button>}{(can(currentUser, 'count.perform') || can(currentUser, 'count.approve')) && <button onClick={() => setActiveTab('counts')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'counts' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Clipboard className="w-5 h-5" /> Conteos{pendingCounts > 0 && <span className="ml-auto bg-amber-500 text-white text-[9px] px-1.5 py-0.5 rounded-md">{pendingCounts}</span>}</button>}{canSeeAlerts && <button onClick={() => setActiveTab('alerts')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'alerts' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Alert className="w-5 h-5" /> Alertas{pendingAlerts > 0 && <span className="ml-auto bg-red-600 text-white text-[9px] px-1.5 py-0.5 rounded-md">{pendingAlerts}</span>}</button>}{can(currentUser, 'report.export') && <button onClick={() => setActiveTab('reports')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'reports' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Chart className="w-5 h-5" /> Informes</button>}{can(currentUser, 'audit.view') && <button onClick={() => setActiveTab('audit')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'audit' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Shield className="w-5 h-5" /> Auditoría</button>}{(can(currentUser, 'user.manage') || can(currentUser, 'city.manage') || can(currentUser, 'settings.edit')) && <div className="h-px bg-slate-800 my-6"></div>}{can(currentUser, 'user.manage') && <button onClick={() => setActiveTab('users')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'users' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Users className="w-5 h-5" /> Usuarios</button>}{can(currentUser, 'city.manage') && <button onClick={() => setActiveTab('cities')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'cities' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><ICONS.Map className="w-5 h-5" /> Ciudades</button>}{can(currentUser, 'settings.edit') && <button onClick={() => setActiveTab('settings')} className={`w-full flex items-center gap-4 px-5 py-4 rounded-2xl transition-all font-bold text-xs uppercase tracking-widest ${activeTab === 'settings' ? 'bg-custom-blue text-white shadow-xl translate-x-1' : 'text-slate-400 hover:bg-slate-800 hover:text-white'}`}><svg className="w-5 h-5" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M10.325 4.317c.426-1.756 2.924-1.756 3.35 0a1.724 1.724 0 002.573 1.066c1.543-.94 3.31.826 2.37 2.37a1.724 1.724 0 001.065 2.572c1.756.426 1.756 2.924 0 3.35a1.724 1.724 0 00-1.066 2.573c.94 1.543-.826 3.31-2.37 2.37a1.724 1.724 0 00-2.572 1.065c-.426 1.756-2.924-1.756-3.35 0a1.724 1.724 0 00-2.573-1.066c-1.543.94-3.31-.826-2.37-2.37a1.724 1.724 0 00-1.065-2.572-1.756-.426-1.756-2.924 0-3.35a1.724 1.724 0 001.066-2.573c-.94-1.543.826-3.31 2.37-2.37.996.608 2.296.07 2.572-1.065z"/><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M15 12a3 3 0 11-6 0 3 3 0 016 0z"/></svg> Configuración</button>}</nav><div className="pt-8 border-t border-slate-800 mt-auto text-center"><p className="text-[10px] font-black uppercase text-slate-500 mb-2">Sede: {currentUser.city}</p><button onClick={handleLogout} className="w-full flex items-center justify-center gap-2 px-3 py-3 rounded-lg text-red-400 hover:text-white transition-all text-[10px] font-black uppercase tracking-widest hover:bg-red-900/20"><ICONS.Logout className="w-4 h-4" /> Salir del Sistema</button></div></div></aside>
+      <main className="flex-1 md:ml-64 pt-16 min-w-0 bg-slate-50 min-h-screen"><header className="h-16 bg-white border-b border-slate-200 fixed top-0 right-0 left-0 md:left-64 z-10 flex items-center justify-between px-10"><h2 className="text-sm font-black text-custom-blue uppercase tracking-[0.2em]">{activeTab.toUpperCase()}</h2><div className="flex items-center gap-6">{can(currentUser, 'seal.delete') && activeTab === 'inventory' && <div className="flex items-center gap-3 bg-slate-50 px-4 py-2 rounded-xl border border-slate-200"><span className="text-[9px] font-black uppercase tracking-widest text-slate-500">Modo Seguro (Borrado)</span><button onClick={() => setIsDeleteModeActive(!isDeleteModeActive)} className={`relative inline-flex h-5 w-10 shrink-0 cursor-pointer rounded-full border-2 border-transparent transition-colors duration-200 ease-in-out focus:outline-none ${isDeleteModeActive ? 'bg-red-500' : 'bg-slate-200'}`}><span className={`pointer-events-none inline-block h-4 w-4 transform rounded-full bg-white shadow ring-0 transition duration-200 ease-in-out ${isDeleteModeActive ? 'translate-x-5' : 'translate-x-0'}`}></span></button></div>}{stockAlerts.length > 0 && <button onClick={() => setActiveTab('dashboard')} title="Alertas de inventario bajo" className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border text-[9px] font-black uppercase tracking-widest ${stockAlerts.some(a => a.severity === 'critical') ? 'bg-red-50 border-red-200 text-red-700' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>Stock bajo <span className={`text-white px-1.5 py-0.5 rounded-md ${stockAlerts.some(a => a.severity === 'critical') ? 'bg-red-600' : 'bg-amber-500'}`}>{stockAlerts.length}</span></button>}<button onClick={() => setActiveTab('sync')} title="Estado de sincronización" className={`flex items-center gap-2 px-3 py-1.5 rounded-xl border text-[9px] font-black uppercase tracking-widest transition-colors ${syncState.conflicts > 0 ? 'bg-red-50 border-red-200 text-red-700' : syncState.online ? 'bg-slate-50 border-slate-200 text-slate-500' : 'bg-amber-50 border-amber-200 text-amber-700'}`}>{syncState.syncing ? 'Sincronizando' : syncState.online ? 'En línea' : 'Sin conexión'}{syncState.pending > 0 && <span className="bg-amber-500 text-white px-1.5 py-0.5 rounded-md">{syncState.pending} pend.</span>}{syncState.conflicts > 0 && <span className="bg-red-600 text-white px-1.5 py-0.5 rounded-md">{syncState.conflicts} conflictos</span>}</button><div className="flex items-center gap-3"><span className="text-[10px] font-bold text-custom-blue uppercase tracking-widest">Sede {currentUser.city}</span><div className={`w-2.5 h-2.5 rounded-full animate-pulse border border-white ${syncState.online ? 'bg-green-500' : 'bg-red-500'}`}></div></div></div></header>
+        <div key={configuredTimeZone} className="p-8 sm:p-12">
+          {activeTab === 'dashboard' && <DashboardView seals={seals} aggregates={aggregates} user={currentUser} cities={cities} stockAlerts={stockAlerts} onDrillDown={handleDrillDown} />}
+          {activeTab === 'inventory' && <div className="space-y-8 animate-in fade-in duration-500"><div className="flex flex-wrap items-center justify-between bg-white p-5 rounded-3xl border border-slate-200 shadow-sm gap-4"><div className="flex flex-wrap gap-4">{can(currentUser, 'seal.create') && <button onClick={() => setIsNewSealModalOpen(true)} className="bg-custom-blue text-white px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-custom-blue-dark transition-all shadow-lg">Nuevo Sello</button>}{can(currentUser, 'seal.create') && <button onClick={() => setIsImportWizardOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 flex items-center gap-2"><ICONS.Import className="w-4 h-4" /> Carga Masiva</button>}<button onClick={() => setIsSearchModalOpen(true)} className="bg-white text-custom-blue border border-custom-blue px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-slate-50 flex items-center gap-2"><ICONS.Search className="w-4 h-4" /> Búsqueda</button></div>{can(currentUser, 'report.export') && <button onClick={handleInventoryDownload} className="bg-emerald-600 text-white px-7 py-4 rounded-2xl font-black text-[10px] uppercase tracking-widest hover:bg-emerald-700 transition-all flex items-center gap-2 shadow-lg"><ICONS.Excel className="w-4 h-4" /> Exportar Inventario</button>}</div>{inventorySearch ? <div className="space-y-6 animate-in slide-in-from-bottom-4 duration-300"><div className="flex items-center justify-between bg-white p-4 rounded-2xl border border-slate-200 shadow-sm"><p className="text-[10px] font-black text-slate-500 uppercase tracking-widest">Resultados: <span className="text-custom-blue">{inventoryTotal} precintos encontrados</span>{searchAsOf && <span className="ml-3 px-2.5 py-1 rounded-lg bg-amber-50 border border-amber-200 text-amber-700">Inventario reconstruido al {Dates.formatDate(searchAsOf)} · solo lectura</span>}</p><button onClick={() => setInventorySearch(null)} className="text-[10px] font-black text-custom-blue uppercase hover:underline">Limpiar Resultados</button></div><InventoryTable key={JSON.stringify(inventorySearch)} load={loadInventory} sort={inventorySort} onSort={setInventorySort} onTotal={setInventoryTotal} onOpen={!isDeleteModeActive && !searchAsOf ? s => initiateMovement([s], s.status) : undefined} onDelete={isDeleteModeActive && !searchAsOf && can(currentUser, 'seal.delete') ? handleDeleteSeal : undefined} /></div> : <div className="bg-slate-50 border-2 border-dashed border-slate-200 rounded-3xl p-32 text-center space-y-4"><div className="bg-white w-20 h-20 rounded-full flex items-center justify-center mx-auto shadow-sm"><ICONS.Search className="w-8 h-8 text-blue-100 opacity-50" /></div><p className="font-black text-slate-300 uppercase text-xs tracking-[0.3em]">Utilice el botón "Búsqueda" para consultar el inventario de {currentUser.city}</p></div>}</div>}
+          {activeTab === 'movements' && canMoveAny(currentUser) && <MovementsView seals={activeSeals} onInitiateMove={initiateMovement} user={currentUser} />}
+          {activeTab === 'traceability' && <TraceabilityView seals={seals} lots={lots} user={currentUser} settings={appSettings} />}
+          {activeTab === 'users' && can(currentUser, 'user.manage') && <UserManagement users={users} cities={cities} onAddUser={handleAddUser} onUpdateUser={handleUpdateUser} onDeleteUser={handleDeleteUser} />}
+          {activeTab === 'cities' && can(currentUser, 'city.manage') && <CityManagement cities={cities} timeZones={appSettings.cityTimeZones || {}} onAddCity={handleAddCity} onDeleteCity={handleDeleteCity} onUpdateCity={handleUpdateCity} onUpdateTimeZone={handleUpdateCityTimeZone} />}
+          {activeTab === 'transfers' && canMoveTo(currentUser, SealStatus.EN_TRANSITO) && <TransfersView seals={activeSeals} transfers={transfers} cities={cities} user={currentUser} onDispatch={handleDispatchTransfer} onReceive={handleReceiveTransfer} />}
+          {activeTab === 'shipments' && (can(currentUser, 'shipment.manage') || SHIPMENT_STATUSES.some(s => canMoveTo(currentUser, s))) && <ShipmentsView seals={seals} shipments={shipments} user={currentUser} onSave={handleSaveShipment} />}
+          {activeTab === 'counts' && (can(currentUser, 'count.perform') || can(currentUser, 'count.approve')) && <CycleCountsView seals={activeSeals} counts={cycleCounts} cities={cities} user={currentUser} onSave={handleSaveCycleCount} onApprove={handleApproveCycleCount} />}
+          {activeTab === 'alerts' && canSeeAlerts && <AlertsView alerts={sealAlerts} reviews={alertReviews} cities={cities} user={currentUser} onReview={handleReviewAlert} />}
+          {activeTab === 'reports' && can(currentUser, 'report.export') && <ReportsView seals={seals} cities={cities} user={currentUser} settings={appSettings} />}
+          {activeTab === 'sync' && <SyncView state={syncState} />}
+          {activeTab === 'audit' && can(currentUser, 'audit.view') && <AuditView user={currentUser} />}
+          {activeTab === 'settings' && can(currentUser, 'settings.edit') && <SettingsView settings={appSettings} onUpdate={handleUpdateSettings} backupData={backupData} onRestoreDB={handleRestoreDB} cities={cities} />}
         </div>
       </main>
 
       {/* Modal Alta Precinto */}
-      {isNewSealModalOpen && <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"><div className="bg-white rounded-2xl shadow-2xl w-full max-sm overflow-hidden border border-slate-200"><div className="bg-custom-blue px-6 py-5 text-white font-black text-xs uppercase tracking-widest">Nuevo Precinto - {currentUser.city}</div><div className="p-8 space-y-6"><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">ID Precinto</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl p-3.5 text-sm font-mono font-bold text-custom-blue outline-none uppercase" placeholder="Ej: BOG-4432" id="new-seal-id" /></div><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Tipo</label><select className="w-full border border-slate-200 bg-slate-50 rounded-xl p-3.5 text-sm font-bold text-custom-blue outline-none appearance-none" id="new-seal-type">{appSettings.sealTypes.map(t => <option key={t} value={t}>{t}</option>)}</select></div><div className="flex gap-4 pt-6"><button onClick={() => setIsNewSealModalOpen(false)} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Cancelar</button><button onClick={() => { const idEl = document.getElementById('new-seal-id') as HTMLInputElement; const typeEl = document.getElementById('new-seal-type') as HTMLSelectElement; const id = idEl.value.toUpperCase(); const type = typeEl.value; if (!id) return alert('ID obligatorio'); const now = new Date().toLocaleString('es-ES'); const success = handleAddSeal({ id, type, status: SealStatus.ENTRADA_INVENTARIO, creationDate: now, lastMovement: now, entryUser: currentUser.fullName, orderNumber: '-', containerId: '-', notes: 'Alta Sede', city: currentUser.city, history: [{ date: now, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: currentUser.fullName, details: `Alta inicial en ${currentUser.city}` }] }); if (success) { setIsNewSealModalOpen(false); setToast({message: "PRECINTO REGISTRADO", type: 'success'}); } }} className="flex-1 bg-custom-blue text-white py-4 rounded-xl font-black text-[10px] uppercase shadow-xl hover:bg-black">Registrar</button></div></div></div></div>}
+      {isNewSealModalOpen && <NewSealModal user={currentUser} sealTypes={appSettings.sealTypes} checkDuplicate={checkSealDuplicate} onClose={() => setIsNewSealModalOpen(false)} onAddSeal={handleAddSeal} onAddLot={handleAddLot} onPrintLabels={handlePrintLabels} />}
 
       {/* Modal de Movimiento */}
-      {isMoveFormOpen && selectedSeals.length > 0 && <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"><div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg border border-gray-200 overflow-hidden animate-in zoom-in duration-200"><div className="bg-custom-blue px-8 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest">{selectedSeals.length > 1 ? `GESTIÓN MASIVA: ${selectedSeals.length} UNIDADES` : `GESTIONAR: ${selectedSeals[0].id}`}</h3><button onClick={() => setIsMoveFormOpen(false)}>✕</button></div><div className="p-8 space-y-6">{targetStatus === selectedSeals[0].status ? <div className="space-y-4 text-center"><p className={`text-[10px] font-black uppercase tracking-widest ${getStatusTextColor(selectedSeals[0].status)}`}>Estado Actual: {selectedSeals[0].status.replace('_', ' ')}</p><div className="grid grid-cols-1 gap-2">{(selectedSeals[0].status === SealStatus.ENTRADA_INVENTARIO || selectedSeals[0].status === SealStatus.NO_INSTALADO) && <button onClick={() => setTargetStatus(SealStatus.ASIGNADO)} className="bg-sky-600 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Mover Sello a Asignado</button>}{selectedSeals[0].status === SealStatus.ASIGNADO && <button onClick={() => setTargetStatus(SealStatus.ENTREGADO)} className="bg-amber-600 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Mover Sello a Entregado</button>}{selectedSeals[0].status === SealStatus.ENTREGADO && (<><button onClick={() => setTargetStatus(SealStatus.INSTALADO)} className="bg-orange-600 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Mover Sello a Instalado</button><button onClick={() => setTargetStatus(SealStatus.NO_INSTALADO)} className="bg-stone-500 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Reportar No Instalado</button></>)}{selectedSeals[0].status === SealStatus.INSTALADO && <button onClick={() => setTargetStatus(SealStatus.SALIDA_FABRICA)} className="bg-gray-500 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Mover Sello a Salida</button>}<button onClick={() => setTargetStatus(SealStatus.DESTRUIDO)} className="bg-red-600 text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest">Mover Sello a Destruido</button></div></div> : <div className="space-y-6"><div className="flex items-center justify-center gap-3 bg-slate-50 p-4 rounded-xl"><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border ${getStatusStyles(selectedSeals[0].status).split('icon-bg-')[0]}`}>{selectedSeals[0].status.replace('_', ' ')}</span><ICONS.ArrowRightTiny className="text-slate-300" /><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border shadow-sm ${targetStatus ? getStatusStyles(targetStatus).split('icon-bg-')[0] : ''}`}>{targetStatus?.replace('_', ' ')}</span></div><div className="max-h-[45vh] overflow-y-auto pr-2 space-y-4 custom-scrollbar">{(targetStatus === SealStatus.ASIGNADO || targetStatus === SealStatus.ENTREGADO) ? <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Usuario Receptor:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.requester} onChange={e => setMoveData({...moveData, requester: e.target.value.toUpperCase()})} placeholder="Nombre del receptor" /></div> : targetStatus === SealStatus.INSTALADO ? <><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Placa Vehículo:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-black font-mono text-custom-blue outline-none uppercase" value={moveData.vehiclePlate} onChange={e => setMoveData({...moveData, vehiclePlate: e.target.value.toUpperCase()})} placeholder="ABC-123" /></div><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Trailer/Contenedor:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-black font-mono text-custom-blue outline-none uppercase" value={moveData.trailerContainer} onChange={e => setMoveData({...moveData, trailerContainer: e.target.value.toUpperCase()})} placeholder="Nro Contenedor" /></div></> : targetStatus === SealStatus.NO_INSTALADO ? <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Entregado sub:</label><input type="text" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.deliveredSub} onChange={e => setMoveData({...moveData, deliveredSub: e.target.value.toUpperCase()})} placeholder="Receptor secundario" /></div> : null}<div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Numero Transporte:</label><textarea className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.observations} onChange={e => setMoveData({...moveData, observations: e.target.value.toUpperCase()})} placeholder="Motivo..." /></div></div><div className="flex gap-4 pt-4"><button type="button" onClick={() => setTargetStatus(selectedSeals[0]?.status || null)} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Atrás</button><button onClick={handleConfirmMovement} className={`flex-1 text-white py-4 rounded-xl font-black text-[10px] uppercase shadow-xl ${targetStatus === SealStatus.DESTRUIDO ? 'bg-red-600' : 'bg-custom-blue'}`}>Confirmar Sello</button></div></div>}</div></div></div>}
+      {isMoveFormOpen && selectedSeals.length > 0 && <div className="fixed inset-0 bg-slate-900/60 backdrop-blur-sm z-50 flex items-center justify-center p-4"><div className="bg-white rounded-3xl shadow-2xl w-full max-w-lg border border-gray-200 overflow-hidden animate-in zoom-in duration-200"><div className="bg-custom-blue px-8 py-5 flex justify-between items-center text-white"><h3 className="text-[10px] font-black uppercase tracking-widest">{selectedSeals.length > 1 ? `GESTIÓN MASIVA: ${selectedSeals.length} UNIDADES` : `GESTIONAR: ${selectedSeals[0].id}`}</h3><button onClick={() => setIsMoveFormOpen(false)}>✕</button></div><div className="p-8 space-y-6">{targetStatus === selectedSeals[0].status ? <div className="space-y-4 text-center"><p className={`text-[10px] font-black uppercase tracking-widest ${getStatusTextColor(selectedSeals[0].status)}`}>Estado Actual: {selectedSeals[0].status.replace('_', ' ')}</p>{SealLifecycle.isTerminal(selectedSeals[0].status) && <p className="text-[10px] font-bold text-slate-400 uppercase tracking-wider">Ciclo operativo finalizado</p>}<div className="grid grid-cols-1 gap-2">{SealLifecycle.getAllowedTransitions(selectedSeals[0].status, currentUser).map(t => <button key={t.to} onClick={() => setTargetStatus(t.to)} className={`${getTransitionButtonClass(t.to)} text-white p-3.5 rounded-xl font-black text-[10px] uppercase tracking-widest`}>{t.label}</button>)}</div></div> : <div className="space-y-6"><div className="flex items-center justify-center gap-3 bg-slate-50 p-4 rounded-xl"><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border ${getStatusStyles(selectedSeals[0].status).split('icon-bg-')[0]}`}>{selectedSeals[0].status.replace('_', ' ')}</span><ICONS.ArrowRightTiny className="text-slate-300" /><span className={`text-[9px] font-black uppercase px-2 py-1 rounded border shadow-sm ${targetStatus ? getStatusStyles(targetStatus).split('icon-bg-')[0] : ''}`}>{targetStatus?.replace('_', ' ')}</span></div><div className="max-h-[45vh] overflow-y-auto pr-2 space-y-4 custom-scrollbar">{(targetStatus === SealStatus.ASIGNADO || targetStatus === SealStatus.ENTREGADO) ? <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Usuario Receptor:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.requester} onChange={e => setMoveData({...moveData, requester: e.target.value.toUpperCase()})} placeholder="Nombre del receptor" /></div> : targetStatus === SealStatus.INSTALADO ? <><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Placa Vehículo:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-black font-mono text-custom-blue outline-none uppercase" value={moveData.vehiclePlate} onChange={e => setMoveData({...moveData, vehiclePlate: e.target.value.toUpperCase()})} placeholder="ABC-123" /></div><div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Trailer/Contenedor:</label><input type="text" className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-black font-mono text-custom-blue outline-none uppercase" value={moveData.trailerContainer} onChange={e => setMoveData({...moveData, trailerContainer: e.target.value.toUpperCase()})} placeholder="Nro Contenedor" /></div></> : targetStatus === SealStatus.NO_INSTALADO ? <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Entregado sub:</label><input type="text" required className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.deliveredSub} onChange={e => setMoveData({...moveData, deliveredSub: e.target.value.toUpperCase()})} placeholder="Receptor secundario" /></div> : null}{targetStatus && SHIPMENT_STATUSES.includes(targetStatus) && <div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Despacho / Pedido:</label><select className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveShipmentId} onChange={e => handleSelectShipment(e.target.value)}><option value="">Sin despacho</option>{shipments.filter(s => s.status === 'ABIERTO' && s.city === selectedSeals[0].city).map(s => <option key={s.id} value={s.id}>{s.orderNumber} · {s.customer}{s.vehiclePlate ? ` · ${s.vehiclePlate}` : ''}</option>)}</select></div>}<div className="space-y-1.5"><label className="text-[10px] font-black text-custom-blue uppercase tracking-widest">Numero Transporte:</label><textarea className="w-full border border-slate-200 bg-slate-50 rounded-xl px-4 py-3 text-sm font-bold text-custom-blue outline-none uppercase" value={moveData.observations} onChange={e => setMoveData({...moveData, observations: e.target.value.toUpperCase()})} placeholder="Motivo..." /></div>{targetStatus && <EvidencePicker items={moveEvidence} required={Attachments.isRequired(targetStatus, appSettings)} onChange={setMoveEvidence} />}<label className="flex items-center gap-3 text-[10px] font-black text-slate-500 uppercase tracking-widest cursor-pointer"><input type="checkbox" className="w-4 h-4 accent-custom-blue" checked={printReceipt} onChange={e => setPrintReceipt(e.target.checked)} /> Generar comprobante PDF para firma</label></div><div className="flex gap-4 pt-4"><button type="button" onClick={() => setTargetStatus(selectedSeals[0]?.status || null)} className="flex-1 py-3 text-[10px] font-black text-slate-400 uppercase tracking-widest">Atrás</button><button onClick={handleConfirmMovement} className={`flex-1 text-white py-4 rounded-xl font-black text-[10px] uppercase shadow-xl ${targetStatus === SealStatus.DESTRUIDO ? 'bg-red-600' : 'bg-custom-blue'}`}>Confirmar Sello</button></div></div>}</div></div></div>}
       <style>{`.custom-scrollbar::-webkit-scrollbar { width: 4px; } .custom-scrollbar::-webkit-scrollbar-track { background: #f1f1f1; } .custom-scrollbar::-webkit-scrollbar-thumb { background: #cbd5e1; border-radius: 10px; }`}</style>
+      {isImportWizardOpen && <ImportWizard user={currentUser} seals={seals} sealTypes={appSettings.sealTypes} cities={cities} onClose={() => setIsImportWizardOpen(false)} onImport={handleImportSeals} />}
       <InventorySearchModal isOpen={isSearchModalOpen} onClose={() => setIsSearchModalOpen(false)} onSearch={handleInventorySearch} sealTypes={appSettings.sealTypes} />
     </div>
   );
@@ -0,0 +1,78 @@
+import initSqlJs, { Database, SqlValue } from 'sql.js';
+import { existsSync, mkdirSync, readFileSync, writeFileSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { MIGRATIONS } from './migrations';
+
+export type Row = Record<string, SqlValue>;
+
+/**
+ * BASE DE DATOS SQLITE LOCAL
+ * SQLite embebido (sql.js) persistido en un único archivo, sin servidor de base de datos.
+ */
+export class SqlStore {
+  private constructor(private db: Database, private file: string) {}
+
+  static async open(file: string): Promise<SqlStore> {
+    const SQL = await initSqlJs();
+    const db = existsSync(file) ? new SQL.Database(readFileSync(file)) : new SQL.Database();
+    db.exec('PRAGMA foreign_keys = ON;');
+    const store = new SqlStore(db, file);
+    store.migrate();
+    return store;
+  }
+
+  all<T = Row>(sql: string, params: SqlValue[] = []): T[] {
+    const stmt = this.db.prepare(sql);
+    try {
+      stmt.bind(params);
+      const rows: T[] = [];
+      while (stmt.step()) rows.push(stmt.getAsObject() as T);
+      return rows;
+    } finally {
+      stmt.free();
+    }
+  }
+
+  get<T = Row>(sql: string, params: SqlValue[] = []): T | undefined {
+    return this.all<T>(sql, params)[0];
+  }
+
+  run(sql: string, params: SqlValue[] = []): number {
+    this.db.run(sql, params);
+    return this.db.getRowsModified();
+  }
+
+  // Ejecuta el bloque de forma atómica y persiste el archivo solo si todo salió bien
+  transaction<T>(fn: () => T): T {
+    this.db.exec('BEGIN');
+    try {
+      const result = fn();
+      this.db.exec('COMMIT');
+      this.persist();
+      return result;
+    } catch (error) {
+      this.db.exec('ROLLBACK');
+      throw error;
+    }
+  }
+
+  private persist() {
+    mkdirSync(dirname(this.file), { recursive: true });
+    writeFileSync(this.file, Buffer.from(this.db.export()));
+    // export() de sql.js restablece los pragmas de la conexión
+    this.db.exec('PRAGMA foreign_keys = ON;');
+  }
+
+  private migrate() {
+    this.db.exec('CREATE TABLE IF NOT EXISTS schema_migrations (version INTEGER PRIMARY KEY, name TEXT NOT NULL, applied_at TEXT NOT NULL)');
+    const applied = new Set(this.all<{ version: number }>('SELECT version FROM schema_migrations').map(r => r.version));
+    MIGRATIONS.filter(m => !applied.has(m.version)).forEach(m => {
+      this.transaction(() => {
+        if (m.up) this.db.exec(m.up);
+        m.transform?.(this);
+        this.run('INSERT INTO schema_migrations (version, name, applied_at) VALUES (?, ?, ?)', [m.version, m.name, new Date().toISOString()]);
+      });
+      console.log(`Migración aplicada: ${m.version} ${m.name}`);
+    });
+  }
+}
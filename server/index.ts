@@ -0,0 +1,172 @@
+import { createServer, IncomingMessage, ServerResponse } from 'node:http';
+import { resolve } from 'node:path';
+import { SqlStore } from './db';
+import { createRepository, DomainError, Repository } from './repository';
+import { seedDefaults } from './seed';
+import { generateReport, startReportScheduler } from './reports';
+import { SealQueries } from '../services/sealQuery';
+import { Dates } from '../services/dates';
+import { can, canMoveAny, canMoveTo, setRolePermissions } from '../services/permissions';
+import { Permission, Seal, User } from '../types';
+
+const PORT = Number(process.env.PORT || 4000);
+const DB_FILE = resolve(process.env.SELLOS_DB || 'server/data/sellos.sqlite');
+
+type Handler = (ctx: { params: string[]; query: URLSearchParams; body: any; token: string | null; user: User }) => unknown;
+
+// 'public' no exige sesión; con una lista de permisos basta con tener uno de ellos
+type Access = 'public' | 'session' | Permission[];
+
+interface Route {
+  method: string;
+  pattern: RegExp;
+  handler: Handler;
+  access: Access;
+}
+
+const readBody = (req: IncomingMessage): Promise<any> => new Promise((ok, fail) => {
+  const chunks: Buffer[] = [];
+  req.on('data', c => chunks.push(c));
+  req.on('end', () => {
+    if (chunks.length === 0) return ok(undefined);
+    try {
+      ok(JSON.parse(Buffer.concat(chunks).toString('utf8')));
+    } catch {
+      fail(new DomainError('JSON inválido'));
+    }
+  });
+  req.on('error', fail);
+});
+
+// Token de sesión enviado como `Authorization: Bearer <token>`
+const readToken = (req: IncomingMessage): string | null => {
+  const match = /^Bearer (.+)$/.exec(req.headers.authorization || '');
+  return match ? match[1] : null;
+};
+
+const send = (res: ServerResponse, status: number, payload?: unknown) => {
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Access-Control-Allow-Origin': '*',
+    'Access-Control-Allow-Methods': 'GET, POST, PUT, DELETE, OPTIONS',
+    'Access-Control-Allow-Headers': 'Content-Type, Authorization',
+  });
+  res.end(payload === undefined ? undefined : JSON.stringify(payload));
+};
+
+const forbidden = (message = 'No tiene permiso para realizar esta acción.') => new DomainError(message, 403, 'FORBIDDEN');
+
+// El mapa de permisos configurado se aplica igual que en la aplicación
+const applyRolePermissions = (repo: Repository) => setRolePermissions(repo.getSettings()?.rolePermissions);
+
+// Sede a la que se limitan las consultas de inventario; sin límite para quien consulta todas las sedes
+const cityScope = (user: User): string | undefined => can(user, 'report.crossCity') ? undefined : user.city;
+
+// El autor de cada registro es el usuario de la sesión, no el que declare el cliente
+const stampSeal = (s: Seal, user: User): Seal => ({ ...s, entryUser: user.fullName, history: (s.history || []).map(h => ({ ...h, user: user.fullName })) });
+
+const buildRoutes = (repo: Repository): Route[] => {
+  const route = (method: string, path: string, handler: Handler, access: Access = 'session'): Route => ({
+    method,
+    pattern: new RegExp(`^/api${path.replace(/:\w+/g, '([^/]+)')}$`),
+    handler,
+    access,
+  });
+  return [
+    route('POST', '/auth/login', ({ body }) => repo.login(body?.username, body?.password), 'public'),
+    route('POST', '/auth/logout', ({ token }) => { if (token) repo.logout(token); }, 'public'),
+    route('GET', '/auth/session', ({ user }) => user),
+    route('POST', '/auth/password', ({ user, body }) => repo.changePassword(user, body?.password)),
+
+    route('GET', '/seals', ({ user }) => repo.getSeals(cityScope(user))),
+    route('GET', '/seals/query', ({ query, user }) => { const filter = SealQueries.fromParams(query); return repo.querySeals({ ...filter, city: cityScope(user) || filter.city }); }),
+    route('POST', '/seals', ({ body, user }) => repo.createSeals((Array.isArray(body) ? body : [body]).map(s => stampSeal(s, user)), user), ['seal.create']),
+    route('GET', '/lots', () => repo.getLots()),
+    route('POST', '/lots', ({ body, user }) => repo.createLot({ ...body.lot, createdBy: user.fullName }, body.seals.map((s: Seal) => stampSeal(s, user)), user), ['seal.create']),
+    route('GET', '/transfers', () => repo.getTransfers()),
+    // Despachar y recibir traslados comparten el permiso de mover a EN_TRANSITO; se despacha siempre desde la sede del usuario
+    route('POST', '/transfers', ({ body, user }) => repo.createTransfer({ ...body, transfer: { ...body.transfer, origin: user.city, createdBy: user.fullName } }), ['seal.move:EN_TRANSITO']),
+    route('POST', '/transfers/:id/receive', ({ params, body, user }) => repo.receiveTransfer(params[0], { ...body, user: user.fullName }, user), ['seal.move:EN_TRANSITO']),
+
+    route('GET', '/shipments', () => repo.getShipments()),
+    route('PUT', '/shipments/:id', ({ params, body, user }) => repo.saveShipment({ ...body, id: params[0] }, user), ['shipment.manage']),
+    route('GET', '/counts', () => repo.getCycleCounts()),
+    route('PUT', '/counts/:id', ({ params, body, user }) => repo.saveCycleCount({ ...body, id: params[0] }, user), ['count.perform', 'count.approve']),
+
+    // Cada estado destino tiene su propio permiso (mismo catálogo que la tabla de transiciones)
+    route('PUT', '/seals/movement', ({ body, user }) => {
+      if (!canMoveTo(user, body?.status)) throw forbidden(`El rol ${user.role} no está autorizado para mover sellos a ${String(body?.status).replace('_', ' ')}.`);
+      repo.moveSeals({ ...body, user: user.fullName });
+    }),
+    route('POST', '/attachments', ({ body, user }) => { if (!canMoveAny(user)) throw forbidden(); repo.saveAttachment(body); }),
+    route('GET', '/attachments/:id', ({ params }) => repo.getAttachment(params[0])),
+    route('DELETE', '/seals/:id', ({ params, query, body, user }) => repo.deleteSeal({ ...body, id: params[0], type: query.get('type') || '', user: user.fullName }, !!body?.force, user), ['seal.delete']),
+
+    route('GET', '/users', () => repo.getUsers()),
+    route('POST', '/users', ({ body, user }) => repo.createUser(body, user), ['user.manage']),
+    route('PUT', '/users/:id', ({ params, body, user }) => repo.updateUser({ ...body, id: params[0] }, user), ['user.manage']),
+    route('DELETE', '/users/:id', ({ params, user }) => repo.deleteUser(params[0], user), ['user.manage']),
+
+    route('GET', '/cities', () => repo.getCities()),
+    route('POST', '/cities', ({ body, user }) => repo.createCity(body.name, user), ['city.manage']),
+    route('PUT', '/cities/:name', ({ params, body, user }) => repo.renameCity(params[0], body.name, user), ['city.manage']),
+    route('DELETE', '/cities/:name', ({ params, user }) => repo.deleteCity(params[0], user), ['city.manage']),
+
+    // La pantalla de ingreso necesita el título y el logo
+    route('GET', '/settings', () => repo.getSettings(), 'public'),
+    route('PUT', '/settings', ({ body, user }) => { repo.updateSettings(body, user); applyRolePermissions(repo); }, ['settings.edit']),
+
+    route('GET', '/audit', () => repo.getAuditLog(), ['audit.view']),
+    // Solo lectura: cada mutación registra su propia entrada en el backend
+
+    route('GET', '/reports/templates', () => repo.getReportTemplates()),
+    route('PUT', '/reports/templates/:id', ({ params, body, user }) => repo.saveReportTemplate({ ...body, id: params[0] }, user), ['report.manage']),
+    route('DELETE', '/reports/templates/:id', ({ params, user }) => repo.deleteReportTemplate(params[0], user), ['report.manage']),
+    route('POST', '/reports/templates/:id/run', ({ params, user }) => generateReport(repo, params[0], user.fullName), ['report.export']),
+    route('GET', '/reports/generated', () => repo.getGeneratedReports(), ['report.export']),
+    route('GET', '/reports/generated/:id', ({ params }) => repo.getGeneratedReport(params[0]), ['report.export']),
+
+    route('GET', '/alerts/reviews', () => repo.getAlertReviews()),
+    route('PUT', '/alerts/reviews/:id', ({ params, body, user }) => repo.reviewAlert({ ...body, alertId: params[0], by: user.fullName, at: Dates.now() }, user), ['alert.review']),
+
+    // Restaurar usuarios equivale a gestionarlos
+    route('POST', '/restore', async ({ body, user }) => {
+      if (body?.users && !can(user, 'user.manage')) throw forbidden();
+      await repo.restore(body, user);
+      applyRolePermissions(repo);
+    }, ['settings.edit']),
+  ];
+};
+
+const main = async () => {
+  const store = await SqlStore.open(DB_FILE);
+  const repo = createRepository(store);
+  await seedDefaults(repo);
+  applyRolePermissions(repo);
+  const routes = buildRoutes(repo);
+  startReportScheduler(repo);
+
+  createServer(async (req, res) => {
+    if (req.method === 'OPTIONS') return send(res, 204);
+    const url = new URL(req.url || '/', `http://${req.headers.host}`);
+    const match = routes
+      .filter(r => r.method === req.method)
+      .map(r => ({ r, m: r.pattern.exec(url.pathname) }))
+      .find(x => x.m);
+    if (!match || !match.m) return send(res, 404, { error: 'Ruta no encontrada' });
+    try {
+      const token = readToken(req);
+      const user = match.r.access === 'public' ? null : repo.sessionUser(token);
+      if (match.r.access !== 'public' && !user) throw new DomainError('Sesión inválida o expirada. Ingrese nuevamente.', 401, 'UNAUTHORIZED');
+      if (Array.isArray(match.r.access) && !match.r.access.some(p => can(user, p))) throw forbidden();
+      const result = await match.r.handler({ params: match.m.slice(1).map(decodeURIComponent), query: url.searchParams, body: await readBody(req), token, user: user as User });
+      send(res, result === undefined ? 204 : 200, result);
+    } catch (error) {
+      if (error instanceof DomainError) return send(res, error.status, { error: error.message, code: error.code });
+      console.error(error);
+      send(res, 500, { error: 'Error interno del servidor' });
+    }
+  }).listen(PORT, () => console.log(`API de sellos escuchando en http://localhost:${PORT}/api (BD: ${DB_FILE})`));
+};
+
+main();
@@ -0,0 +1,359 @@
+import type { SqlStore } from './db';
+import { Dates } from '../services/dates';
+import { SealIdentity } from '../services/identity';
+import { AppSettings } from '../types';
+
+export interface Migration {
+  version: number;
+  name: string;
+  up: string;
+  transform?: (store: SqlStore) => void; // Migración de datos que no puede expresarse en SQL
+}
+
+// Fechas heredadas en formato local → ISO-8601 UTC según la zona horaria de cada sede
+const migrateDatesToIso = (store: SqlStore) => {
+  const row = store.get<{ value: string }>("SELECT value FROM settings WHERE key = 'app'");
+  const settings: AppSettings | null = row ? JSON.parse(row.value) : null;
+  store.all<{ id: string; type: string; city: string; creation_date: string; last_movement: string; deleted_at: string | null }>('SELECT id, type, city, creation_date, last_movement, deleted_at FROM seals').forEach(s => {
+    const zone = Dates.timeZoneFor(s.city, settings);
+    store.run('UPDATE seals SET creation_date = ?, last_movement = ?, deleted_at = ? WHERE id = ? AND type = ?', [
+      Dates.toIso(s.creation_date, zone), Dates.toIso(s.last_movement, zone), s.deleted_at && Dates.toIso(s.deleted_at, zone), s.id, s.type,
+    ]);
+    store.all<{ id: number; date: string }>('SELECT id, date FROM seal_history WHERE seal_id = ? AND seal_type = ?', [s.id, s.type]).forEach(h => {
+      store.run('UPDATE seal_history SET date = ? WHERE id = ?', [Dates.toIso(h.date, zone), h.id]);
+    });
+  });
+};
+
+// Identidad interna (UUID) para cada precinto existente y su historial
+const assignSealUids = (store: SqlStore) => {
+  store.all<{ id: string; type: string }>('SELECT id, type FROM seals').forEach(s => {
+    store.run('UPDATE seals SET uid = ? WHERE id = ? AND type = ?', [SealIdentity.create(), s.id, s.type]);
+  });
+  store.run('UPDATE seal_history SET seal_uid = (SELECT uid FROM seals WHERE seals.id = seal_history.seal_id AND seals.type = seal_history.seal_type)');
+};
+
+// Sede de origen en las recepciones de traslados anteriores, tomada de la orden de traslado
+const addReceiptOrigins = (store: SqlStore) => {
+  store.all<{ id: number; metadata: string; origin: string }>(`
+    SELECT h.id, h.metadata, t.origin FROM seal_history h
+    JOIN seal_transfers t ON t.id = json_extract(h.metadata, '$.transferId')
+    WHERE h.from_status = 'EN_TRANSITO' AND h.to_status = 'ENTRADA_INVENTARIO'
+  `).forEach(h => {
+    store.run('UPDATE seal_history SET metadata = ? WHERE id = ?', [JSON.stringify({ ...JSON.parse(h.metadata), origin: h.origin }), h.id]);
+  });
+};
+
+/**
+ * MIGRACIONES DEL ESQUEMA SQL
+ * Se aplican en orden y una sola vez; la versión aplicada queda en schema_migrations.
+ * Nunca modifique una migración publicada: agregue una nueva al final.
+ */
+export const MIGRATIONS: Migration[] = [
+  {
+    version: 1,
+    name: 'esquema_inicial',
+    up: `
+      CREATE TABLE cities (
+        name TEXT PRIMARY KEY
+      );
+
+      CREATE TABLE users (
+        id TEXT PRIMARY KEY,
+        username TEXT NOT NULL UNIQUE COLLATE NOCASE,
+        full_name TEXT NOT NULL,
+        password_hash TEXT,
+        password_salt TEXT,
+        must_change_password INTEGER NOT NULL DEFAULT 0,
+        failed_attempts INTEGER NOT NULL DEFAULT 0,
+        locked_until TEXT,
+        disabled INTEGER NOT NULL DEFAULT 0,
+        role TEXT NOT NULL,
+        organization TEXT NOT NULL,
+        city TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE
+      );
+
+      CREATE TABLE seals (
+        id TEXT NOT NULL,
+        type TEXT NOT NULL,
+        status TEXT NOT NULL,
+        creation_date TEXT NOT NULL,
+        last_movement TEXT NOT NULL,
+        entry_user TEXT NOT NULL,
+        order_number TEXT NOT NULL DEFAULT '-',
+        container_id TEXT NOT NULL DEFAULT '-',
+        notes TEXT NOT NULL DEFAULT '',
+        city TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        PRIMARY KEY (id, type)
+      );
+      CREATE INDEX idx_seals_city_status ON seals(city, status);
+
+      CREATE TABLE seal_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        seal_id TEXT NOT NULL,
+        seal_type TEXT NOT NULL,
+        date TEXT NOT NULL,
+        from_status TEXT,
+        to_status TEXT NOT NULL,
+        user TEXT NOT NULL,
+        details TEXT NOT NULL,
+        metadata TEXT,
+        FOREIGN KEY (seal_id, seal_type) REFERENCES seals(id, type) ON DELETE CASCADE
+      );
+      CREATE INDEX idx_history_seal ON seal_history(seal_id, seal_type);
+
+      CREATE TABLE settings (
+        key TEXT PRIMARY KEY,
+        value TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 2,
+    name: 'auditoria_y_baja_logica',
+    up: `
+      ALTER TABLE seals ADD COLUMN deleted_at TEXT;
+      ALTER TABLE seals ADD COLUMN deleted_by TEXT;
+
+      CREATE TABLE audit_log (
+        seq INTEGER PRIMARY KEY AUTOINCREMENT,
+        id TEXT NOT NULL UNIQUE,
+        date TEXT NOT NULL,
+        actor TEXT NOT NULL,
+        actor_id TEXT,
+        action TEXT NOT NULL,
+        target TEXT NOT NULL,
+        before TEXT,
+        after TEXT
+      );
+      CREATE INDEX idx_audit_date ON audit_log(date);
+
+      -- Solo anexado: ninguna fila de auditoría puede modificarse ni borrarse
+      CREATE TRIGGER audit_log_no_update BEFORE UPDATE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'El registro de auditoría no se puede modificar'); END;
+      CREATE TRIGGER audit_log_no_delete BEFORE DELETE ON audit_log
+      BEGIN SELECT RAISE(ABORT, 'El registro de auditoría no se puede borrar'); END;
+    `,
+  },
+  {
+    version: 3,
+    name: 'fechas_iso',
+    up: '',
+    transform: migrateDatesToIso,
+  },
+  {
+    version: 4,
+    name: 'lote_de_sello',
+    up: `
+      ALTER TABLE seals ADD COLUMN lot TEXT;
+      CREATE INDEX idx_seals_lot ON seals(lot);
+    `,
+  },
+  {
+    version: 5,
+    name: 'lotes_de_recepcion',
+    up: `
+      CREATE TABLE seal_lots (
+        id TEXT PRIMARY KEY,
+        supplier TEXT NOT NULL,
+        purchase_order TEXT NOT NULL,
+        received_date TEXT NOT NULL,
+        quantity INTEGER NOT NULL,
+        type TEXT NOT NULL,
+        city TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        range_prefix TEXT,
+        range_start INTEGER,
+        range_end INTEGER,
+        range_padding INTEGER,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      ALTER TABLE seals ADD COLUMN lot_id TEXT REFERENCES seal_lots(id) ON DELETE SET NULL;
+      CREATE INDEX idx_seals_lot_id ON seals(lot_id);
+    `,
+  },
+  {
+    version: 6,
+    name: 'traslados_entre_sedes',
+    up: `
+      CREATE TABLE seal_transfers (
+        id TEXT PRIMARY KEY,
+        origin TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        destination TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        status TEXT NOT NULL,
+        carrier TEXT,
+        notes TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        received_by TEXT,
+        received_at TEXT
+      );
+
+      -- received_at NULL = pendiente; missing = 1 cuando el destino no lo recibió
+      CREATE TABLE seal_transfer_items (
+        transfer_id TEXT NOT NULL REFERENCES seal_transfers(id) ON DELETE CASCADE,
+        seal_id TEXT NOT NULL,
+        seal_type TEXT NOT NULL,
+        received_at TEXT,
+        missing INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (transfer_id, seal_id, seal_type)
+      );
+      CREATE INDEX idx_transfer_items_seal ON seal_transfer_items(seal_id, seal_type);
+    `,
+  },
+  {
+    version: 7,
+    name: 'revision_de_alertas',
+    up: `
+      -- Las alertas se calculan a partir del historial; solo se persiste su revisión
+      CREATE TABLE alert_reviews (
+        alert_id TEXT PRIMARY KEY,
+        status TEXT NOT NULL,
+        reviewed_by TEXT NOT NULL,
+        reviewed_at TEXT NOT NULL,
+        note TEXT
+      );
+    `,
+  },
+  {
+    version: 8,
+    name: 'informes_programados',
+    up: `
+      -- city NULL = todas las sedes
+      CREATE TABLE report_templates (
+        id TEXT PRIMARY KEY,
+        name TEXT NOT NULL,
+        kind TEXT NOT NULL,
+        columns TEXT NOT NULL,
+        group_by TEXT NOT NULL,
+        city TEXT REFERENCES cities(name) ON UPDATE CASCADE,
+        period TEXT NOT NULL,
+        schedule TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        last_run_at TEXT
+      );
+
+      -- Historial de archivos generados; se conserva aunque se elimine la plantilla
+      CREATE TABLE generated_reports (
+        id TEXT PRIMARY KEY,
+        template_id TEXT NOT NULL,
+        template_name TEXT NOT NULL,
+        file_name TEXT NOT NULL,
+        generated_at TEXT NOT NULL,
+        generated_by TEXT NOT NULL,
+        rows INTEGER NOT NULL,
+        data TEXT NOT NULL
+      );
+      CREATE INDEX idx_generated_reports_template ON generated_reports(template_id, generated_at);
+    `,
+  },
+  {
+    version: 9,
+    name: 'conteos_fisicos',
+    up: `
+      CREATE TABLE cycle_counts (
+        id TEXT PRIMARY KEY,
+        city TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        status TEXT NOT NULL,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL,
+        closed_by TEXT,
+        closed_at TEXT,
+        approved_by TEXT,
+        approved_at TEXT,
+        notes TEXT
+      );
+
+      -- expected_status NULL = leído sin figurar en la foto; counted_at NULL = no encontrado; adjusted = 1 cuando se dio de baja al aprobar
+      CREATE TABLE cycle_count_items (
+        count_id TEXT NOT NULL REFERENCES cycle_counts(id) ON DELETE CASCADE,
+        seal_id TEXT NOT NULL,
+        seal_type TEXT NOT NULL,
+        expected_status TEXT,
+        counted_by TEXT,
+        counted_at TEXT,
+        adjusted INTEGER NOT NULL DEFAULT 0,
+        PRIMARY KEY (count_id, seal_id, seal_type)
+      );
+    `,
+  },
+  {
+    version: 10,
+    name: 'despachos',
+    up: `
+      CREATE TABLE shipments (
+        id TEXT PRIMARY KEY,
+        order_number TEXT NOT NULL UNIQUE,
+        customer TEXT NOT NULL,
+        vehicle_plate TEXT NOT NULL,
+        trailer_container TEXT NOT NULL,
+        driver TEXT NOT NULL,
+        departure_at TEXT,
+        city TEXT NOT NULL REFERENCES cities(name) ON UPDATE CASCADE,
+        status TEXT NOT NULL,
+        notes TEXT,
+        created_by TEXT NOT NULL,
+        created_at TEXT NOT NULL
+      );
+
+      ALTER TABLE seals ADD COLUMN shipment_id TEXT REFERENCES shipments(id) ON DELETE SET NULL;
+      CREATE INDEX idx_seals_shipment_id ON seals(shipment_id);
+    `,
+  },
+  {
+    version: 11,
+    name: 'identidad_de_sellos',
+    up: `
+      ALTER TABLE seals ADD COLUMN uid TEXT;
+      CREATE UNIQUE INDEX idx_seals_uid ON seals(uid);
+      ALTER TABLE seal_history ADD COLUMN seal_uid TEXT;
+      CREATE INDEX idx_history_seal_uid ON seal_history(seal_uid);
+    `,
+    transform: assignSealUids,
+  },
+  {
+    version: 12,
+    name: 'consulta_paginada',
+    up: `
+      CREATE INDEX idx_seals_status ON seals(status);
+      CREATE INDEX idx_seals_type ON seals(type);
+      CREATE INDEX idx_seals_creation_date ON seals(creation_date);
+      CREATE INDEX idx_seals_last_movement ON seals(last_movement);
+      CREATE INDEX idx_history_date ON seal_history(date);
+    `,
+  },
+  {
+    version: 13,
+    name: 'adjuntos_movimientos',
+    up: `
+      CREATE TABLE attachments (
+        id TEXT PRIMARY KEY,
+        mime_type TEXT NOT NULL,
+        size INTEGER NOT NULL,
+        data TEXT NOT NULL,
+        uploaded_at TEXT NOT NULL
+      );
+    `,
+  },
+  {
+    version: 14,
+    name: 'sesiones',
+    up: `
+      CREATE TABLE sessions (
+        token_hash TEXT PRIMARY KEY,
+        user_id TEXT NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+        issued_at TEXT NOT NULL,
+        expires_at TEXT NOT NULL
+      );
+      CREATE INDEX idx_sessions_user_id ON sessions(user_id);
+    `,
+  },
+  {
+    version: 15,
+    name: 'origen_en_recepciones',
+    up: '',
+    transform: addReceiptOrigins,
+  },
+];
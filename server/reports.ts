@@ -0,0 +1,39 @@
+import { Repository } from './repository';
+import { Reports } from '../services/reports';
+import { Dates } from '../services/dates';
+import { GeneratedReport } from '../types';
+
+const SCHEDULER_INTERVAL_MS = Number(process.env.REPORTS_INTERVAL_MS || 60_000);
+export const SCHEDULER_USER = 'Programador automático';
+
+// Genera la plantilla con los datos actuales y guarda el archivo en el historial
+export const generateReport = (repo: Repository, templateId: string, user: string): GeneratedReport => {
+  const template = repo.getReportTemplate(templateId);
+  const settings = repo.getSettings();
+  const report = Reports.generate(template, repo.getSeals(), user, Dates.now(), Dates.timeZoneFor(template.city, settings));
+  repo.saveGeneratedReport(report);
+  return report;
+};
+
+/**
+ * PROGRAMADOR DE INFORMES
+ * Revisa cada minuto las plantillas periódicas y regenera las que cambiaron de periodo
+ * (día, semana o mes) desde su última ejecución.
+ */
+export const startReportScheduler = (repo: Repository) => {
+  const tick = () => {
+    const settings = repo.getSettings();
+    repo.getReportTemplates()
+      .filter(t => Reports.isDue(t, Dates.now(), Dates.timeZoneFor(t.city, settings)))
+      .forEach(t => {
+        try {
+          const report = generateReport(repo, t.id, SCHEDULER_USER);
+          console.log(`Informe programado generado: ${report.fileName} (${report.rows} registros)`);
+        } catch (error) {
+          console.error(`No se pudo generar el informe ${t.name}:`, error);
+        }
+      });
+  };
+  tick();
+  return setInterval(tick, SCHEDULER_INTERVAL_MS);
+};
@@ -0,0 +1,1090 @@
+import type { SqlValue } from 'sql.js';
+import { createHash } from 'node:crypto';
+import { SqlStore } from './db';
+import { Seal, SealLot, SealTransfer, TransferStatus, CycleCount, CycleCountStatus, Shipment, ShipmentStatus, SealStatus, MovementHistory, MovementMetadata, User, UserRole, AppSettings, AuditEntry, AuditAction, AlertReview, AlertReviewStatus, ReportTemplate, ReportKind, ReportGrouping, ReportSchedule, GeneratedReport, AttachmentContent, LoginResponse, RestoreMode } from '../types';
+import { AuthService, LOGIN_FAILED } from '../services/auth';
+import { SealLifecycle } from '../services/sealLifecycle';
+import { can } from '../services/permissions';
+import { MovementDetails } from '../services/movementDetails';
+import { SealTransfers } from '../services/transfers';
+import { CycleCounts } from '../services/cycleCounts';
+import { Shipments } from '../services/shipments';
+import { SealIdentity } from '../services/identity';
+import { Attachments } from '../services/attachments';
+import { AuditService } from '../services/audit';
+import { Anomalies } from '../services/anomalies';
+import { Dates } from '../services/dates';
+import { SealPage, SealQuery, SealSortField } from '../services/sealQuery';
+
+interface SealRow {
+  uid: string;
+  id: string;
+  type: string;
+  status: string;
+  creation_date: string;
+  last_movement: string;
+  entry_user: string;
+  order_number: string;
+  container_id: string;
+  notes: string;
+  lot: string | null;
+  lot_id: string | null;
+  shipment_id: string | null;
+  city: string;
+  deleted_at: string | null;
+  deleted_by: string | null;
+}
+
+interface HistoryRow {
+  seal_uid: string;
+  seal_id: string;
+  seal_type: string;
+  date: string;
+  from_status: string | null;
+  to_status: string;
+  user: string;
+  details: string;
+  metadata: string | null;
+}
+
+interface UserRow {
+  id: string;
+  username: string;
+  full_name: string;
+  password_hash: string | null;
+  password_salt: string | null;
+  must_change_password: number;
+  failed_attempts: number;
+  locked_until: string | null;
+  disabled: number;
+  role: string;
+  organization: string;
+  city: string;
+}
+
+interface LotRow {
+  id: string;
+  supplier: string;
+  purchase_order: string;
+  received_date: string;
+  quantity: number;
+  type: string;
+  city: string;
+  range_prefix: string | null;
+  range_start: number | null;
+  range_end: number | null;
+  range_padding: number | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface TransferRow {
+  id: string;
+  origin: string;
+  destination: string;
+  status: string;
+  carrier: string | null;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+  received_by: string | null;
+  received_at: string | null;
+}
+
+interface TransferItemRow {
+  transfer_id: string;
+  seal_id: string;
+  seal_type: string;
+  received_at: string | null;
+  missing: number;
+}
+
+interface ShipmentRow {
+  id: string;
+  order_number: string;
+  customer: string;
+  vehicle_plate: string;
+  trailer_container: string;
+  driver: string;
+  departure_at: string | null;
+  city: string;
+  status: string;
+  notes: string | null;
+  created_by: string;
+  created_at: string;
+}
+
+interface CycleCountRow {
+  id: string;
+  city: string;
+  status: string;
+  created_by: string;
+  created_at: string;
+  closed_by: string | null;
+  closed_at: string | null;
+  approved_by: string | null;
+  approved_at: string | null;
+  notes: string | null;
+}
+
+interface CycleCountItemRow {
+  count_id: string;
+  seal_id: string;
+  seal_type: string;
+  expected_status: string | null;
+  counted_by: string | null;
+  counted_at: string | null;
+  adjusted: number;
+}
+
+interface AuditRow {
+  id: string;
+  date: string;
+  actor: string;
+  actor_id: string | null;
+  action: string;
+  target: string;
+  before: string | null;
+  after: string | null;
+}
+
+interface ReportTemplateRow {
+  id: string;
+  name: string;
+  kind: string;
+  columns: string;
+  group_by: string;
+  city: string | null;
+  period: string;
+  schedule: string;
+  created_by: string;
+  created_at: string;
+  last_run_at: string | null;
+}
+
+interface GeneratedReportRow {
+  id: string;
+  template_id: string;
+  template_name: string;
+  file_name: string;
+  generated_at: string;
+  generated_by: string;
+  rows: number;
+  data?: string;
+}
+
+interface AttachmentRow {
+  id: string;
+  mime_type: string;
+  size: number;
+  data: string;
+  uploaded_at: string;
+}
+
+interface SessionRow {
+  token_hash: string;
+  user_id: string;
+  issued_at: string;
+  expires_at: string;
+}
+
+interface AlertReviewRow {
+  alert_id: string;
+  status: string;
+  reviewed_by: string;
+  reviewed_at: string;
+  note: string | null;
+}
+
+export interface SealKey {
+  uid?: string; // Identidad interna; las operaciones encoladas antes de que existiera solo traen código y tipo
+  id: string;
+  type: string;
+}
+
+// Versión del sello que el cliente vio al registrar la operación (detección de conflictos)
+export interface VersionedSealKey extends SealKey {
+  expectedStatus?: SealStatus;
+  expectedLastMovement?: string;
+}
+
+export interface DeleteSealRequest extends VersionedSealKey {
+  user: string;
+  date: string;
+}
+
+export interface RestoreRequest {
+  lots?: SealLot[];
+  transfers?: SealTransfer[];
+  shipments?: Shipment[];
+  seals?: Seal[];
+  users?: User[];
+  cities?: string[];
+  settings?: AppSettings;
+  mode?: RestoreMode;
+}
+
+export interface MovementRequest {
+  keys: VersionedSealKey[];
+  force?: boolean; // Aplicar aunque el sello haya cambiado desde que se registró la operación
+  status: SealStatus;
+  details: string;
+  metadata?: MovementMetadata;
+  user: string;
+  date: string;
+}
+
+export interface TransferRequest {
+  transfer: SealTransfer;
+  keys: VersionedSealKey[];
+}
+
+export interface ReceiveTransferRequest {
+  received: SealKey[];
+  user: string;
+  date: string;
+}
+
+// Error de negocio que la API traduce a una respuesta 4xx
+export class DomainError extends Error {
+  constructor(message: string, public status = 400, public code?: string) {
+    super(message);
+  }
+}
+
+// Solo se guarda la huella del token: una copia de la base no permite suplantar sesiones
+const hashToken = (token: string) => createHash('sha256').update(token).digest('hex');
+
+const assertVersion = (row: SealRow, key: VersionedSealKey) => {
+  if (key.expectedLastMovement === undefined) return;
+  if (row.status !== key.expectedStatus || row.last_movement !== key.expectedLastMovement) {
+    throw new DomainError(`El sello ${key.id} cambió en otra sede (estado actual ${row.status}, último movimiento ${row.last_movement}).`, 409, 'CONFLICT');
+  }
+};
+
+const toHistory = (r: HistoryRow): MovementHistory => ({
+  date: r.date,
+  fromStatus: r.from_status as SealStatus | null,
+  toStatus: r.to_status as SealStatus,
+  user: r.user,
+  details: r.details,
+  ...(r.metadata ? { metadata: JSON.parse(r.metadata) } : {}),
+});
+
+const toSeal = (r: SealRow, history: MovementHistory[]): Seal => ({
+  uid: r.uid,
+  id: r.id,
+  type: r.type,
+  status: r.status as SealStatus,
+  creationDate: r.creation_date,
+  lastMovement: r.last_movement,
+  entryUser: r.entry_user,
+  orderNumber: r.order_number,
+  containerId: r.container_id,
+  notes: r.notes,
+  ...(r.lot ? { lot: r.lot } : {}),
+  ...(r.lot_id ? { lotId: r.lot_id } : {}),
+  ...(r.shipment_id ? { shipmentId: r.shipment_id } : {}),
+  city: r.city,
+  history,
+  ...(r.deleted_at ? { deletedAt: r.deleted_at, deletedBy: r.deleted_by || '' } : {}),
+});
+
+// Historial por uid de precinto, conservando el orden de las filas (más reciente primero)
+const groupHistory = (rows: HistoryRow[]): Map<string, MovementHistory[]> => {
+  const history = new Map<string, MovementHistory[]>();
+  rows.forEach(r => history.set(r.seal_uid, [...(history.get(r.seal_uid) || []), toHistory(r)]));
+  return history;
+};
+
+const SORT_COLUMNS: Record<SealSortField, string> = {
+  id: 'id',
+  status: 'status',
+  type: 'type',
+  entryUser: 'entry_user',
+  city: 'city',
+  creationDate: 'creation_date',
+  lastMovement: 'last_movement',
+};
+
+// Mismos filtros que SealQueries.matches, traducidos a SQL sobre columnas indexadas
+const sealFilter = (query: SealQuery): { where: string; params: SqlValue[] } => {
+  const conditions = ['deleted_at IS NULL'];
+  const params: SqlValue[] = [];
+  const add = (condition: string, ...values: SqlValue[]) => { conditions.push(condition); params.push(...values); };
+  if (query.city) add('city = ?', query.city);
+  if (query.id) add("id LIKE ? ESCAPE '\\'", `%${query.id.replace(/[\\%_]/g, c => `\\${c}`)}%`);
+  if (query.status) add('status = ?', query.status);
+  if (query.type) add('type = ?', query.type);
+  if (query.dateField === 'movimiento') {
+    if (query.from || query.to) {
+      const movement = ['h.seal_uid = seals.uid'];
+      const values: SqlValue[] = [];
+      if (query.from) { movement.push('h.date >= ?'); values.push(query.from); }
+      if (query.to) { movement.push('h.date <= ?'); values.push(query.to); }
+      if (query.movementStatus) { movement.push('h.to_status = ?'); values.push(query.movementStatus); }
+      add(`EXISTS (SELECT 1 FROM seal_history h WHERE ${movement.join(' AND ')})`, ...values);
+    }
+  } else {
+    const column = query.dateField === 'alta' ? 'creation_date' : 'last_movement';
+    if (query.from) add(`${column} >= ?`, query.from);
+    if (query.to) add(`${column} <= ?`, query.to);
+  }
+  return { where: conditions.join(' AND '), params };
+};
+
+const toLot = (r: LotRow): SealLot => ({
+  id: r.id,
+  supplier: r.supplier,
+  purchaseOrder: r.purchase_order,
+  receivedDate: r.received_date,
+  quantity: r.quantity,
+  type: r.type,
+  city: r.city,
+  ...(r.range_prefix !== null ? { range: { prefix: r.range_prefix, start: r.range_start as number, end: r.range_end as number, padding: r.range_padding as number } } : {}),
+  createdBy: r.created_by,
+  createdAt: r.created_at,
+});
+
+const toTransfer = (r: TransferRow, items: TransferItemRow[]): SealTransfer => {
+  const missing = items.filter(i => i.missing).map(i => ({ id: i.seal_id, type: i.seal_type }));
+  return {
+    id: r.id,
+    origin: r.origin,
+    destination: r.destination,
+    seals: items.map(i => ({ id: i.seal_id, type: i.seal_type })),
+    status: r.status as TransferStatus,
+    ...(r.carrier ? { carrier: r.carrier } : {}),
+    ...(r.notes ? { notes: r.notes } : {}),
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+    ...(r.received_by ? { receivedBy: r.received_by, receivedAt: r.received_at || '' } : {}),
+    ...(missing.length > 0 ? { missing } : {}),
+  };
+};
+
+const toShipment = (r: ShipmentRow): Shipment => ({
+  id: r.id,
+  orderNumber: r.order_number,
+  customer: r.customer,
+  vehiclePlate: r.vehicle_plate,
+  trailerContainer: r.trailer_container,
+  driver: r.driver,
+  ...(r.departure_at ? { departureAt: r.departure_at } : {}),
+  city: r.city,
+  status: r.status as ShipmentStatus,
+  ...(r.notes ? { notes: r.notes } : {}),
+  createdBy: r.created_by,
+  createdAt: r.created_at,
+});
+
+const toCycleCount = (r: CycleCountRow, items: CycleCountItemRow[]): CycleCount => {
+  const adjusted = items.filter(i => i.adjusted).map(i => ({ id: i.seal_id, type: i.seal_type }));
+  return {
+    id: r.id,
+    city: r.city,
+    status: r.status as CycleCountStatus,
+    expected: items.filter(i => i.expected_status).map(i => ({ id: i.seal_id, type: i.seal_type, status: i.expected_status as SealStatus })),
+    // Las lecturas más recientes primero, como en la app
+    counted: items.filter(i => i.counted_at).sort((a, b) => (b.counted_at as string).localeCompare(a.counted_at as string)).map(i => ({ id: i.seal_id, type: i.seal_type, countedBy: i.counted_by || '', countedAt: i.counted_at as string })),
+    createdBy: r.created_by,
+    createdAt: r.created_at,
+    ...(r.closed_by ? { closedBy: r.closed_by, closedAt: r.closed_at || '' } : {}),
+    ...(r.approved_by ? { approvedBy: r.approved_by, approvedAt: r.approved_at || '' } : {}),
+    ...(adjusted.length > 0 ? { adjusted } : {}),
+    ...(r.notes ? { notes: r.notes } : {}),
+  };
+};
+
+const toAudit = (r: AuditRow): AuditEntry => ({
+  id: r.id,
+  date: r.date,
+  actor: r.actor,
+  ...(r.actor_id ? { actorId: r.actor_id } : {}),
+  action: r.action as AuditAction,
+  target: r.target,
+  ...(r.before ? { before: JSON.parse(r.before) } : {}),
+  ...(r.after ? { after: JSON.parse(r.after) } : {}),
+});
+
+const toReportTemplate = (r: ReportTemplateRow): ReportTemplate => ({
+  id: r.id,
+  name: r.name,
+  kind: r.kind as ReportKind,
+  columns: JSON.parse(r.columns),
+  groupBy: r.group_by as ReportGrouping,
+  city: r.city || '',
+  period: JSON.parse(r.period),
+  schedule: r.schedule as ReportSchedule,
+  createdBy: r.created_by,
+  createdAt: r.created_at,
+  ...(r.last_run_at ? { lastRunAt: r.last_run_at } : {}),
+});
+
+const toGeneratedReport = (r: GeneratedReportRow): GeneratedReport => ({
+  id: r.id,
+  templateId: r.template_id,
+  templateName: r.template_name,
+  fileName: r.file_name,
+  generatedAt: r.generated_at,
+  generatedBy: r.generated_by,
+  rows: r.rows,
+  ...(r.data ? { data: r.data } : {}),
+});
+
+const toAttachment = (r: AttachmentRow): AttachmentContent => ({ id: r.id, mimeType: r.mime_type, data: r.data });
+
+const toAlertReview = (r: AlertReviewRow): AlertReview => ({
+  alertId: r.alert_id,
+  status: r.status as AlertReviewStatus,
+  by: r.reviewed_by,
+  at: r.reviewed_at,
+  ...(r.note ? { note: r.note } : {}),
+});
+
+// Hash y sal nunca salen del backend; solo el ingreso y el cambio de contraseña los leen
+const toUser = (r: UserRow): User => ({
+  id: r.id,
+  username: r.username,
+  fullName: r.full_name,
+  mustChangePassword: !!r.must_change_password,
+  failedAttempts: r.failed_attempts,
+  lockedUntil: r.locked_until,
+  disabled: !!r.disabled,
+  role: r.role as UserRole,
+  organization: r.organization,
+  city: r.city,
+});
+
+const toCredentials = (r: UserRow): User => ({ ...toUser(r), passwordHash: r.password_hash || undefined, passwordSalt: r.password_salt || undefined });
+
+// Una contraseña en claro (asignada por un administrador o heredada) se guarda como hash temporal
+const withCredentials = async ({ password, passwordHash, passwordSalt, ...user }: User): Promise<User> =>
+  password ? AuthService.resetPassword(user, password) : user;
+
+const userParams = (u: User) => [
+  u.username, u.fullName, u.passwordHash || null, u.passwordSalt || null, u.mustChangePassword ? 1 : 0,
+  u.failedAttempts || 0, u.lockedUntil || null, u.disabled ? 1 : 0, u.role, u.organization, u.city,
+];
+
+/**
+ * REPOSITORIO SQL
+ * Traduce entre las filas de SQLite y los tipos compartidos con la aplicación React.
+ */
+export const createRepository = (store: SqlStore) => {
+  // Los sellos se ubican por uid; el código y el tipo solo cuando la operación no lo trae
+  const findSeal = (key: SealKey) => key.uid
+    ? store.get<SealRow>('SELECT * FROM seals WHERE uid = ?', [key.uid])
+    : store.get<SealRow>('SELECT * FROM seals WHERE id = ? AND type = ?', [key.id, key.type]);
+
+  const insertHistory = (seal: Pick<SealRow, 'uid' | 'id' | 'type'>, h: MovementHistory) => store.run(
+    'INSERT INTO seal_history (seal_uid, seal_id, seal_type, date, from_status, to_status, user, details, metadata) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [seal.uid, seal.id, seal.type, h.date, h.fromStatus, h.toStatus, h.user, h.details, h.metadata ? JSON.stringify(h.metadata) : null],
+  );
+
+  const insertUser = (u: User) => store.run(
+    'INSERT INTO users (username, full_name, password_hash, password_salt, must_change_password, failed_attempts, locked_until, disabled, role, organization, city, id) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [...userParams(u), u.id],
+  );
+
+  const insertSession = (s: SessionRow) => store.run(
+    'INSERT INTO sessions (token_hash, user_id, issued_at, expires_at) VALUES (?, ?, ?, ?)',
+    [s.token_hash, s.user_id, s.issued_at, s.expires_at],
+  );
+
+  // Usuario dueño de un token vigente; null si expiró, no existe o la cuenta está deshabilitada
+  const sessionUser = (token: string | null): User | null => {
+    if (!token) return null;
+    const row = store.get<UserRow>(
+      'SELECT users.* FROM sessions JOIN users ON users.id = sessions.user_id WHERE sessions.token_hash = ? AND sessions.expires_at > ? AND users.disabled = 0',
+      [hashToken(token), new Date().toISOString()],
+    );
+    return row ? toUser(row) : null;
+  };
+
+  // Cada mutación anexa su entrada dentro de su propia transacción, con la hora del servidor:
+  // ni el actor ni la fecha dependen del cliente
+  const insertAudit = (actor: User | string, action: AuditAction, target: string, before?: unknown, after?: unknown) => {
+    const e = AuditService.entry(actor, action, target, before, after);
+    store.run(
+      'INSERT INTO audit_log (id, date, actor, actor_id, action, target, before, after) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+      [e.id, e.date, e.actor, e.actorId || null, e.action, e.target, e.before === undefined ? null : JSON.stringify(e.before), e.after === undefined ? null : JSON.stringify(e.after)],
+    );
+  };
+
+  // Un respaldo puede traer sellos de lotes que no incluye: el vínculo se descarta
+  const lotExists = (id?: string) => !!id && !!store.get('SELECT 1 FROM seal_lots WHERE id = ?', [id]);
+
+  const shipmentExists = (id?: string) => !!id && !!store.get('SELECT 1 FROM shipments WHERE id = ?', [id]);
+
+  const insertShipment = (s: Shipment) => store.run(
+    'INSERT INTO shipments (id, order_number, customer, vehicle_plate, trailer_container, driver, departure_at, city, status, notes, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [s.id, s.orderNumber, s.customer, s.vehiclePlate, s.trailerContainer, s.driver, s.departureAt || null, s.city, s.status, s.notes || null, s.createdBy, s.createdAt],
+  );
+
+  const readSettings = (): AppSettings | null => {
+    const row = store.get<{ value: string }>("SELECT value FROM settings WHERE key = 'app'");
+    return row ? JSON.parse(row.value) : null;
+  };
+
+  const getShipment = (id: string): Shipment | null => {
+    const row = store.get<ShipmentRow>('SELECT * FROM shipments WHERE id = ?', [id]);
+    return row ? toShipment(row) : null;
+  };
+
+  const insertLot = (l: SealLot) => store.run(
+    'INSERT INTO seal_lots (id, supplier, purchase_order, received_date, quantity, type, city, range_prefix, range_start, range_end, range_padding, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+    [l.id, l.supplier, l.purchaseOrder, l.receivedDate, l.quantity, l.type, l.city, l.range?.prefix ?? null, l.range?.start ?? null, l.range?.end ?? null, l.range?.padding ?? null, l.createdBy, l.createdAt],
+  );
+
+  // Los ítems recibidos o faltantes se deducen de la lista missing y del estado del traslado
+  const insertTransfer = (t: SealTransfer) => {
+    store.run(
+      'INSERT INTO seal_transfers (id, origin, destination, status, carrier, notes, created_by, created_at, received_by, received_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [t.id, t.origin, t.destination, t.status, t.carrier || null, t.notes || null, t.createdBy, t.createdAt, t.receivedBy || null, t.receivedAt || null],
+    );
+    const missing = new Set((t.missing || []).map(SealTransfers.keyOf));
+    t.seals.forEach(k => {
+      const isMissing = missing.has(SealTransfers.keyOf(k));
+      store.run('INSERT INTO seal_transfer_items (transfer_id, seal_id, seal_type, received_at, missing) VALUES (?, ?, ?, ?, ?)', [
+        t.id, k.id, k.type, t.status === 'EN_TRANSITO' || isMissing ? null : t.receivedAt || null, isMissing ? 1 : 0,
+      ]);
+    });
+  };
+
+  const getTransfer = (id: string): SealTransfer | null => {
+    const row = store.get<TransferRow>('SELECT * FROM seal_transfers WHERE id = ?', [id]);
+    return row ? toTransfer(row, store.all<TransferItemRow>('SELECT * FROM seal_transfer_items WHERE transfer_id = ? ORDER BY rowid', [id])) : null;
+  };
+
+  // Foto, lecturas y ajustes comparten tabla: un ítem por precinto del conteo
+  const insertCycleCount = (c: CycleCount) => {
+    store.run(
+      'INSERT INTO cycle_counts (id, city, status, created_by, created_at, closed_by, closed_at, approved_by, approved_at, notes) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [c.id, c.city, c.status, c.createdBy, c.createdAt, c.closedBy || null, c.closedAt || null, c.approvedBy || null, c.approvedAt || null, c.notes || null],
+    );
+    const items = new Map<string, CycleCountItemRow>();
+    const item = (k: SealKey) => {
+      const key = SealTransfers.keyOf(k);
+      if (!items.has(key)) items.set(key, { count_id: c.id, seal_id: k.id, seal_type: k.type, expected_status: null, counted_by: null, counted_at: null, adjusted: 0 });
+      return items.get(key) as CycleCountItemRow;
+    };
+    c.expected.forEach(k => { item(k).expected_status = k.status; });
+    c.counted.forEach(k => Object.assign(item(k), { counted_by: k.countedBy, counted_at: k.countedAt }));
+    (c.adjusted || []).forEach(k => { item(k).adjusted = 1; });
+    items.forEach(i => store.run(
+      'INSERT INTO cycle_count_items (count_id, seal_id, seal_type, expected_status, counted_by, counted_at, adjusted) VALUES (?, ?, ?, ?, ?, ?, ?)',
+      [i.count_id, i.seal_id, i.seal_type, i.expected_status, i.counted_by, i.counted_at, i.adjusted],
+    ));
+  };
+
+  // Alta manual, por lote o importada: estado inicial, tipo configurado y sede propia salvo permiso multisede
+  const assertRegistrable = (s: Seal, user: User) => {
+    if (!SealLifecycle.getTransition(null, s.status)) throw new DomainError(`No se permite registrar precintos en estado ${s.status}`);
+    const sealTypes = readSettings()?.sealTypes;
+    if (sealTypes && !sealTypes.includes(s.type)) throw new DomainError(`Tipo de sello no configurado: ${s.type} (sello ${s.id})`);
+    if (!store.get('SELECT 1 FROM cities WHERE name = ?', [s.city])) throw new DomainError(`Ciudad no registrada: ${s.city}`, 404);
+    if (s.city !== user.city && !can(user, 'seal.crossCity')) throw new DomainError(`Sin permiso para registrar precintos en ${s.city}`, 403, 'FORBIDDEN');
+  };
+
+  const insertSeal = (s: Seal) => {
+    if (store.get('SELECT 1 FROM seals WHERE id = ? AND type = ?', [s.id, s.type])) throw new DomainError(`Sello ya existe: ${s.id} (${s.type})`, 409);
+    if (s.uid && store.get('SELECT 1 FROM seals WHERE uid = ?', [s.uid])) throw new DomainError(`Identificador interno duplicado para el sello ${s.id}`, 409);
+    const uid = s.uid || SealIdentity.create();
+    store.run(
+      'INSERT INTO seals (uid, id, type, status, creation_date, last_movement, entry_user, order_number, container_id, notes, lot, lot_id, shipment_id, city, deleted_at, deleted_by) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?, ?)',
+      [uid, s.id, s.type, s.status, s.creationDate, s.lastMovement, s.entryUser, s.orderNumber, s.containerId, s.notes, s.lot || null, lotExists(s.lotId) ? s.lotId as string : null, shipmentExists(s.shipmentId) ? s.shipmentId as string : null, s.city, s.deletedAt || null, s.deletedBy || null],
+    );
+    // El historial se guarda del más antiguo al más reciente; la app lo muestra al revés
+    [...s.history].reverse().forEach(h => insertHistory({ uid, id: s.id, type: s.type }, h));
+  };
+
+  return {
+    // --- SELLOS ---
+    // Con sede, solo el inventario (e historial) de los sellos que están hoy en ella
+    getSeals(city?: string): Seal[] {
+      const params = city ? [city] : [];
+      const history = groupHistory(store.all<HistoryRow>(`SELECT * FROM seal_history${city ? ' WHERE seal_uid IN (SELECT uid FROM seals WHERE city = ?)' : ''} ORDER BY id DESC`, params));
+      return store.all<SealRow>(`SELECT * FROM seals${city ? ' WHERE city = ?' : ''} ORDER BY last_movement DESC`, params).map(r => toSeal(r, history.get(r.uid) || []));
+    },
+
+    // Página filtrada y ordenada en SQL; solo se lee el historial de las filas devueltas
+    querySeals(query: SealQuery): SealPage {
+      const { where, params } = sealFilter(query);
+      const total = store.get<{ total: number }>(`SELECT COUNT(*) AS total FROM seals WHERE ${where}`, params)?.total || 0;
+      const direction = query.direction === 'asc' ? 'ASC' : 'DESC';
+      const rows = store.all<SealRow>(
+        `SELECT * FROM seals WHERE ${where} ORDER BY ${SORT_COLUMNS[query.sort]} ${direction}, id ${direction}, type ${direction} LIMIT ? OFFSET ?`,
+        [...params, query.limit ?? -1, query.offset],
+      );
+      const history = groupHistory(rows.length > 0 ? store.all<HistoryRow>(`SELECT * FROM seal_history WHERE seal_uid IN (${rows.map(() => '?').join(', ')}) ORDER BY id DESC`, rows.map(r => r.uid)) : []);
+      return { items: rows.map(r => toSeal(r, history.get(r.uid) || [])), total, offset: query.offset };
+    },
+
+    createSeals(seals: Seal[], user: User) {
+      store.transaction(() => seals.forEach(s => {
+        assertRegistrable(s, user);
+        insertSeal(s);
+      }));
+    },
+
+    // --- LOTES ---
+    getLots(): SealLot[] {
+      return store.all<LotRow>('SELECT * FROM seal_lots ORDER BY received_date DESC, created_at DESC').map(toLot);
+    },
+
+    // La recepción y todos sus sellos se registran juntos o no se registra nada
+    createLot(lot: SealLot, seals: Seal[], user: User) {
+      store.transaction(() => {
+        if (store.get('SELECT 1 FROM seal_lots WHERE id = ?', [lot.id])) throw new DomainError(`El lote ${lot.id} ya existe`, 409);
+        if (seals.length !== lot.quantity) throw new DomainError(`El lote declara ${lot.quantity} sellos pero se enviaron ${seals.length}`);
+        insertLot(lot);
+        seals.forEach(s => {
+          assertRegistrable(s, user);
+          insertSeal({ ...s, lotId: lot.id });
+        });
+      });
+    },
+
+    moveSeals(req: MovementRequest) {
+      store.transaction(() => {
+        const shipmentId = req.metadata?.shipmentId;
+        const shipment = shipmentId ? getShipment(shipmentId) : null;
+        if (shipmentId && !shipment) throw new DomainError(`Despacho no encontrado: ${shipmentId}`, 404);
+        if (shipment && shipment.status !== 'ABIERTO') throw new DomainError(`El despacho ${shipment.id} está cerrado`, 409, 'CONFLICT');
+        const evidenceError = Attachments.validate(req.status, req.metadata?.attachments, readSettings());
+        if (evidenceError) throw new DomainError(evidenceError);
+        const form = MovementDetails.formOf(req.status, req.metadata);
+        req.keys.forEach(key => {
+          const row = findSeal(key);
+          if (!row) throw new DomainError(`Sello no encontrado: ${key.id} (${key.type})`, 404);
+          if (row.deleted_at) throw new DomainError(`El sello ${key.id} fue eliminado el ${row.deleted_at}`, 409, 'CONFLICT');
+          if (!req.force) assertVersion(row, key);
+          const from = row.status as SealStatus;
+          const transition = SealLifecycle.getTransition(from, req.status);
+          if (!transition) throw new DomainError(`Transición no permitida para el sello ${key.id}: ${from} → ${req.status}`, 409);
+          if (transition.transfer) throw new DomainError(`El sello ${key.id} solo puede cambiar a ${req.status} mediante una orden de traslado`, 409);
+          const missing = SealLifecycle.missingField(transition, form);
+          if (missing) throw new DomainError(`${missing} (sello ${key.id})`);
+          const link = Shipments.link({ shipmentId: row.shipment_id || undefined, orderNumber: row.order_number, containerId: row.container_id }, req.status, req.metadata, shipment);
+          store.run('UPDATE seals SET status = ?, last_movement = ?, entry_user = ?, shipment_id = ?, order_number = ?, container_id = ? WHERE uid = ?', [req.status, req.date, req.user, link.shipmentId || null, link.orderNumber, link.containerId, row.uid]);
+          insertHistory(row, { date: req.date, fromStatus: from, toStatus: req.status, user: req.user, details: req.details, metadata: req.metadata });
+        });
+      });
+    },
+
+    // Baja lógica: el sello y su historial permanecen disponibles para auditoría
+    deleteSeal(req: DeleteSealRequest, force: boolean, actor: User) {
+      store.transaction(() => {
+        const row = findSeal(req);
+        if (!row || row.deleted_at) throw new DomainError(`Sello no encontrado: ${req.id}`, 404);
+        if (!force) assertVersion(row, req);
+        store.run('UPDATE seals SET deleted_at = ?, deleted_by = ? WHERE uid = ?', [req.date, req.user, row.uid]);
+        insertAudit(actor, 'seal.delete', `${req.id} (${req.type})`, toSeal(row, []));
+      });
+    },
+
+    // --- ADJUNTOS ---
+    // El cliente reintenta la subida tras perder la conexión: repetir un adjunto ya guardado no es un error
+    saveAttachment(content: AttachmentContent) {
+      const error = Attachments.validateContent(content);
+      if (error) throw new DomainError(error);
+      store.transaction(() => {
+        store.run('INSERT OR IGNORE INTO attachments (id, mime_type, size, data, uploaded_at) VALUES (?, ?, ?, ?, ?)', [content.id, content.mimeType, Attachments.sizeOf(content), content.data, Dates.now()]);
+      });
+    },
+
+    getAttachment(id: string): AttachmentContent {
+      const row = store.get<AttachmentRow>('SELECT * FROM attachments WHERE id = ?', [id]);
+      if (!row) throw new DomainError(`Adjunto no encontrado: ${id}`, 404);
+      return toAttachment(row);
+    },
+
+    // --- TRASLADOS ---
+    getTransfers(): SealTransfer[] {
+      const items = new Map<string, TransferItemRow[]>();
+      store.all<TransferItemRow>('SELECT * FROM seal_transfer_items ORDER BY rowid').forEach(i => items.set(i.transfer_id, [...(items.get(i.transfer_id) || []), i]));
+      return store.all<TransferRow>('SELECT * FROM seal_transfers ORDER BY created_at DESC').map(r => toTransfer(r, items.get(r.id) || []));
+    },
+
+    // Despacho: todos los sellos pasan a EN_TRANSITO o ninguno
+    createTransfer({ transfer: t, keys }: TransferRequest) {
+      store.transaction(() => {
+        if (store.get('SELECT 1 FROM seal_transfers WHERE id = ?', [t.id])) throw new DomainError(`El traslado ${t.id} ya existe`, 409);
+        if (t.origin === t.destination) throw new DomainError('La sede de destino debe ser distinta a la de origen');
+        if (!store.get('SELECT 1 FROM cities WHERE name = ?', [t.destination])) throw new DomainError(`Ciudad no registrada: ${t.destination}`, 404);
+        if (keys.length === 0 || keys.length !== t.seals.length) throw new DomainError('El traslado no coincide con los sellos enviados');
+        const entry = SealTransfers.dispatchEntry(t);
+        keys.forEach(key => {
+          const row = findSeal(key);
+          if (!row || row.deleted_at) throw new DomainError(`Sello no encontrado: ${key.id} (${key.type})`, 404);
+          assertVersion(row, key);
+          if (row.city !== t.origin) throw new DomainError(`El sello ${key.id} pertenece a ${row.city}, no a ${t.origin}`, 409, 'CONFLICT');
+          if (!SealLifecycle.getTransition(row.status as SealStatus, SealStatus.EN_TRANSITO)) throw new DomainError(`El sello ${key.id} no está disponible para traslado (estado ${row.status})`, 409, 'CONFLICT');
+          store.run('UPDATE seals SET status = ?, last_movement = ?, entry_user = ? WHERE uid = ?', [SealStatus.EN_TRANSITO, t.createdAt, t.createdBy, row.uid]);
+          insertHistory(row, entry);
+        });
+        insertTransfer({ ...t, status: 'EN_TRANSITO', missing: undefined, receivedBy: undefined, receivedAt: undefined });
+      });
+    },
+
+    // Recepción en destino; admite recepciones posteriores de unidades marcadas como faltantes
+    receiveTransfer(id: string, req: ReceiveTransferRequest, user: User) {
+      store.transaction(() => {
+        const t = getTransfer(id);
+        if (!t) throw new DomainError(`Traslado no encontrado: ${id}`, 404);
+        const receptionError = SealTransfers.validateReception(t, user);
+        if (receptionError) throw new DomainError(receptionError, 403, 'FORBIDDEN');
+        const pending = SealTransfers.pending(t);
+        if (pending.length === 0) throw new DomainError(`El traslado ${id} ya fue recibido completo`, 409, 'CONFLICT');
+        const pendingKeys = new Set(pending.map(SealTransfers.keyOf));
+        const unknown = req.received.find(k => !pendingKeys.has(SealTransfers.keyOf(k)));
+        if (unknown) throw new DomainError(`El sello ${unknown.id} no está pendiente en el traslado ${id}`);
+        const received = new Set(req.received.map(SealTransfers.keyOf));
+        const receipt = SealTransfers.receiptEntry(t, req.user, req.date);
+        const flag = SealTransfers.missingEntry(t, req.user, req.date);
+        let missing = 0;
+        pending.forEach(key => {
+          const item = store.get<TransferItemRow>('SELECT * FROM seal_transfer_items WHERE transfer_id = ? AND seal_id = ? AND seal_type = ?', [id, key.id, key.type]) as TransferItemRow;
+          // Las unidades del traslado se guardan por código y tipo, únicos entre los sellos
+          const row = findSeal({ id: key.id, type: key.type });
+          if (!received.has(SealTransfers.keyOf(key))) {
+            missing++;
+            if (!item.missing) {
+              store.run('UPDATE seal_transfer_items SET missing = 1 WHERE transfer_id = ? AND seal_id = ? AND seal_type = ?', [id, key.id, key.type]);
+              if (row) insertHistory(row, flag);
+            }
+            return;
+          }
+          if (!row || row.deleted_at || row.status !== SealStatus.EN_TRANSITO) throw new DomainError(`El sello ${key.id} ya no está en tránsito (estado ${row?.status || 'eliminado'})`, 409, 'CONFLICT');
+          store.run('UPDATE seals SET status = ?, city = ?, last_movement = ?, entry_user = ? WHERE uid = ?', [SealStatus.ENTRADA_INVENTARIO, t.destination, req.date, req.user, row.uid]);
+          store.run('UPDATE seal_transfer_items SET received_at = ?, missing = 0 WHERE transfer_id = ? AND seal_id = ? AND seal_type = ?', [req.date, id, key.id, key.type]);
+          insertHistory(row, receipt);
+        });
+        store.run('UPDATE seal_transfers SET status = ?, received_by = ?, received_at = ? WHERE id = ?', [missing > 0 ? 'RECIBIDO_CON_FALTANTES' : 'RECIBIDO', req.user, req.date, id]);
+      });
+    },
+
+    // --- DESPACHOS ---
+    getShipments(): Shipment[] {
+      return store.all<ShipmentRow>('SELECT * FROM shipments ORDER BY created_at DESC').map(toShipment);
+    },
+
+    // Alta o modificación; la sede y el autor no cambian después del alta
+    saveShipment(s: Shipment, actor: User) {
+      if (!s.orderNumber?.trim()) throw new DomainError('El número de pedido es obligatorio');
+      if (s.status !== 'ABIERTO' && s.status !== 'CERRADO') throw new DomainError(`Estado de despacho inválido: ${s.status}`);
+      store.transaction(() => {
+        const duplicate = store.get<{ id: string }>('SELECT id FROM shipments WHERE order_number = ? AND id <> ?', [s.orderNumber, s.id]);
+        if (duplicate) throw new DomainError(`El pedido ${s.orderNumber} ya tiene el despacho ${duplicate.id}`, 409);
+        const previous = getShipment(s.id);
+        if (!previous) {
+          if (!store.get('SELECT 1 FROM cities WHERE name = ?', [s.city])) throw new DomainError(`Ciudad no registrada: ${s.city}`, 404);
+          insertShipment(s);
+          insertAudit(actor, 'shipment.create', `${s.orderNumber} - ${s.city}`, undefined, s);
+          return;
+        }
+        store.run(
+          'UPDATE shipments SET order_number = ?, customer = ?, vehicle_plate = ?, trailer_container = ?, driver = ?, departure_at = ?, status = ?, notes = ? WHERE id = ?',
+          [s.orderNumber, s.customer, s.vehiclePlate, s.trailerContainer, s.driver, s.departureAt || null, s.status, s.notes || null, s.id],
+        );
+        // Los sellos vinculados conservan el pedido vigente del despacho
+        store.run('UPDATE seals SET order_number = ? WHERE shipment_id = ?', [s.orderNumber, s.id]);
+        insertAudit(actor, 'shipment.update', `${s.orderNumber} - ${previous.city}`, previous, getShipment(s.id));
+      });
+    },
+
+    // --- CONTEOS FÍSICOS ---
+    getCycleCounts(): CycleCount[] {
+      const items = new Map<string, CycleCountItemRow[]>();
+      store.all<CycleCountItemRow>('SELECT * FROM cycle_count_items ORDER BY rowid').forEach(i => items.set(i.count_id, [...(items.get(i.count_id) || []), i]));
+      return store.all<CycleCountRow>('SELECT * FROM cycle_counts ORDER BY created_at DESC').map(r => toCycleCount(r, items.get(r.id) || []));
+    },
+
+    // Guarda el conteo completo; los ajustes de inventario llegan aparte como movimientos de precintos.
+    // El estado lo cambia quien tiene el permiso y la autoría de cada paso la pone el backend
+    saveCycleCount(c: CycleCount, user: User) {
+      if (!['EN_CURSO', 'POR_APROBAR', 'APROBADO', 'ANULADO'].includes(c.status)) throw new DomainError(`Estado de conteo inválido: ${c.status}`);
+      store.transaction(() => {
+        const row = store.get<CycleCountRow>('SELECT * FROM cycle_counts WHERE id = ?', [c.id]);
+        if (row && (row.status === 'APROBADO' || row.status === 'ANULADO')) throw new DomainError(`El conteo ${c.id} ya está cerrado (${row.status})`, 409, 'CONFLICT');
+        if (!row && store.get("SELECT 1 FROM cycle_counts WHERE city = ? AND status IN ('EN_CURSO', 'POR_APROBAR')", [c.city])) throw new DomainError(`Ya hay un conteo abierto en ${c.city}`, 409, 'CONFLICT');
+        const previous = row && toCycleCount(row, store.all<CycleCountItemRow>('SELECT * FROM cycle_count_items WHERE count_id = ? ORDER BY rowid', [c.id]));
+        const error = CycleCounts.validateTransition(previous, c, user);
+        if (error) throw new DomainError(error, 403, 'FORBIDDEN');
+        const count = CycleCounts.stamp(previous, { ...c, city: previous ? previous.city : c.city }, user, Dates.now());
+        if (!store.get('SELECT 1 FROM cities WHERE name = ?', [count.city])) throw new DomainError(`Ciudad no registrada: ${count.city}`, 404);
+        store.run('DELETE FROM cycle_counts WHERE id = ?', [c.id]);
+        insertCycleCount(count);
+        if (count.status === 'ANULADO') insertAudit(user, 'count.cancel', `${count.id} - ${count.city}`, previous && { estado: previous.status }, { estado: count.status, motivo: count.notes });
+        if (count.status === 'APROBADO') insertAudit(user, 'count.approve', `${count.id} - ${count.city}`, previous && { estado: previous.status }, { estado: count.status, esperados: count.expected.length, contados: count.counted.length, ajustados: (count.adjusted || []).map(k => k.id) });
+      });
+    },
+
+    // --- USUARIOS ---
+    getUsers(): User[] {
+      return store.all<UserRow>('SELECT * FROM users ORDER BY full_name').map(toUser);
+    },
+
+    async createUser(u: User, actor: User | string) {
+      const user = await withCredentials(u);
+      store.transaction(() => {
+        if (store.get('SELECT 1 FROM users WHERE username = ?', [user.username])) throw new DomainError(`El usuario ${user.username} ya existe`, 409);
+        insertUser(user);
+        insertAudit(actor, 'user.create', user.username, undefined, user);
+      });
+    },
+
+    // Sin contraseña nueva se conservan las credenciales guardadas
+    async updateUser(u: User, actor: User) {
+      const user = await withCredentials(u);
+      store.transaction(() => {
+        const previous = store.get<UserRow>('SELECT * FROM users WHERE id = ?', [user.id]);
+        const changed = store.run(
+          'UPDATE users SET username = ?, full_name = ?, password_hash = COALESCE(?, password_hash), password_salt = COALESCE(?, password_salt), must_change_password = ?, failed_attempts = ?, locked_until = ?, disabled = ?, role = ?, organization = ?, city = ? WHERE id = ?',
+          [...userParams(user), user.id],
+        );
+        if (changed === 0) throw new DomainError(`Usuario no encontrado: ${user.id}`, 404);
+        // Restablecer la contraseña cierra las sesiones abiertas con la anterior
+        if (user.passwordHash) store.run('DELETE FROM sessions WHERE user_id = ?', [user.id]);
+        // También los cambios sobre la propia cuenta (rol o permisos incluidos)
+        insertAudit(actor, 'user.update', user.username, previous && toUser(previous), user);
+      });
+    },
+
+    deleteUser(id: string, actor: User) {
+      store.transaction(() => {
+        const row = store.get<UserRow>('SELECT * FROM users WHERE id = ?', [id]);
+        if (!row) throw new DomainError(`Usuario no encontrado: ${id}`, 404);
+        store.run('DELETE FROM users WHERE id = ?', [id]);
+        insertAudit(actor, 'user.delete', row.username, toUser(row));
+      });
+    },
+
+    // --- SESIONES ---
+    // Usuario inexistente y contraseña incorrecta responden igual; el bloqueo se cuenta aquí
+    async login(username: string, password: string): Promise<LoginResponse> {
+      const row = typeof username === 'string' ? store.get<UserRow>('SELECT * FROM users WHERE username = ?', [username.trim()]) : undefined;
+      const result = await AuthService.authenticate(row ? toCredentials(row) : undefined, typeof password === 'string' ? password : '');
+      const user = result.user;
+      if (result.error || !user) {
+        store.transaction(() => {
+          if (user) store.run('UPDATE users SET failed_attempts = ?, locked_until = ? WHERE id = ?', [user.failedAttempts || 0, user.lockedUntil || null, user.id]);
+          insertAudit(String(username), 'auth.loginFailed', String(username), undefined, { motivo: result.error });
+        });
+        throw new DomainError(result.error || LOGIN_FAILED, 401, 'LOGIN_FAILED');
+      }
+      const session = AuthService.createSession(user);
+      store.transaction(() => {
+        store.run('UPDATE users SET failed_attempts = 0, locked_until = NULL WHERE id = ?', [user.id]);
+        store.run('DELETE FROM sessions WHERE expires_at <= ?', [session.issuedAt]);
+        insertSession({ token_hash: hashToken(session.token), user_id: user.id, issued_at: session.issuedAt, expires_at: session.expiresAt });
+        insertAudit(user, 'auth.login', user.username);
+      });
+      return { session, user: { ...toUser(row as UserRow), failedAttempts: 0, lockedUntil: null } };
+    },
+
+    sessionUser(token: string | null): User | null {
+      return sessionUser(token);
+    },
+
+    logout(token: string) {
+      store.transaction(() => {
+        const user = sessionUser(token);
+        store.run('DELETE FROM sessions WHERE token_hash = ?', [hashToken(token)]);
+        if (user) insertAudit(user, 'auth.logout', user.username);
+      });
+    },
+
+    // Cambio hecho por el propio usuario; la contraseña temporal no puede reutilizarse
+    async changePassword(user: User, password: string) {
+      const error = typeof password === 'string' ? AuthService.validatePassword(password) : 'Contraseña inválida';
+      if (error) throw new DomainError(error);
+      const row = store.get<UserRow>('SELECT * FROM users WHERE id = ?', [user.id]);
+      if (!row) throw new DomainError(`Usuario no encontrado: ${user.id}`, 404);
+      if (await AuthService.verifyPassword(toCredentials(row), password)) throw new DomainError('La nueva contraseña debe ser distinta a la actual.');
+      const updated = await AuthService.changePassword(user, password);
+      store.transaction(() => {
+        store.run(
+          'UPDATE users SET password_hash = ?, password_salt = ?, must_change_password = 0, failed_attempts = 0, locked_until = NULL WHERE id = ?',
+          [updated.passwordHash as string, updated.passwordSalt as string, user.id],
+        );
+        insertAudit(user, 'auth.passwordChange', user.username);
+      });
+    },
+
+    // --- CIUDADES ---
+    getCities(): string[] {
+      return store.all<{ name: string }>('SELECT name FROM cities ORDER BY rowid').map(r => r.name);
+    },
+
+    createCity(name: string, actor: User | string) {
+      store.transaction(() => {
+        if (store.get('SELECT 1 FROM cities WHERE name = ?', [name])) throw new DomainError('La ciudad ya existe', 409);
+        store.run('INSERT INTO cities (name) VALUES (?)', [name]);
+        insertAudit(actor, 'city.create', name, undefined, { nombre: name });
+      });
+    },
+
+    // Renombra la sede; usuarios y sellos se actualizan por ON UPDATE CASCADE
+    renameCity(oldName: string, newName: string, actor: User) {
+      store.transaction(() => {
+        if (store.run('UPDATE cities SET name = ? WHERE name = ?', [newName, oldName]) === 0) throw new DomainError(`Ciudad no encontrada: ${oldName}`, 404);
+        insertAudit(actor, 'city.rename', oldName, { nombre: oldName }, { nombre: newName });
+      });
+    },
+
+    deleteCity(name: string, actor: User) {
+      store.transaction(() => {
+        if (store.get('SELECT 1 FROM users WHERE city = ?', [name])) throw new DomainError('No se puede eliminar una ciudad que tiene usuarios asociados.', 409);
+        if (store.get('SELECT 1 FROM seals WHERE city = ?', [name])) throw new DomainError('No se puede eliminar una ciudad que tiene precintos registrados.', 409);
+        if (store.get('SELECT 1 FROM seal_transfers WHERE origin = ? OR destination = ?', [name, name])) throw new DomainError('No se puede eliminar una ciudad con traslados registrados.', 409);
+        if (store.get('SELECT 1 FROM report_templates WHERE city = ?', [name])) throw new DomainError('No se puede eliminar una ciudad con plantillas de informe asociadas.', 409);
+        if (store.get('SELECT 1 FROM cycle_counts WHERE city = ?', [name])) throw new DomainError('No se puede eliminar una ciudad con conteos físicos registrados.', 409);
+        if (store.get('SELECT 1 FROM shipments WHERE city = ?', [name])) throw new DomainError('No se puede eliminar una ciudad con despachos registrados.', 409);
+        if (store.run('DELETE FROM cities WHERE name = ?', [name]) === 0) throw new DomainError(`Ciudad no encontrada: ${name}`, 404);
+        insertAudit(actor, 'city.delete', name, { nombre: name });
+      });
+    },
+
+    // --- CONFIGURACIÓN ---
+    getSettings(): AppSettings | null {
+      return readSettings();
+    },
+
+    updateSettings(settings: AppSettings, actor: User | string) {
+      store.transaction(() => {
+        const previous = readSettings();
+        store.run("INSERT INTO settings (key, value) VALUES ('app', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value", [JSON.stringify(settings)]);
+        insertAudit(actor, 'settings.update', 'Configuración', previous, settings);
+      });
+    },
+
+    // --- AUDITORÍA ---
+    getAuditLog(): AuditEntry[] {
+      return store.all<AuditRow>('SELECT * FROM audit_log ORDER BY seq DESC').map(toAudit);
+    },
+
+    // --- ALERTAS ---
+    getAlertReviews(): AlertReview[] {
+      return store.all<AlertReviewRow>('SELECT * FROM alert_reviews ORDER BY reviewed_at DESC').map(toAlertReview);
+    },
+
+    // Una alerta conserva solo su última revisión (reconocida → resuelta)
+    reviewAlert(review: AlertReview, actor: User) {
+      if (review.status !== 'RECONOCIDA' && review.status !== 'RESUELTA') throw new DomainError(`Estado de revisión inválido: ${review.status}`);
+      store.transaction(() => {
+        const previous = store.get<AlertReviewRow>('SELECT * FROM alert_reviews WHERE alert_id = ?', [review.alertId]);
+        store.run(
+          `INSERT INTO alert_reviews (alert_id, status, reviewed_by, reviewed_at, note) VALUES (?, ?, ?, ?, ?)
+           ON CONFLICT(alert_id) DO UPDATE SET status = excluded.status, reviewed_by = excluded.reviewed_by, reviewed_at = excluded.reviewed_at, note = excluded.note`,
+          [review.alertId, review.status, review.by, review.at, review.note || null],
+        );
+        insertAudit(actor, 'alert.review', Anomalies.targetOf(review.alertId), previous && toAlertReview(previous), review);
+      });
+    },
+
+    // --- INFORMES ---
+    getReportTemplates(): ReportTemplate[] {
+      return store.all<ReportTemplateRow>('SELECT * FROM report_templates ORDER BY name').map(toReportTemplate);
+    },
+
+    getReportTemplate(id: string): ReportTemplate {
+      const row = store.get<ReportTemplateRow>('SELECT * FROM report_templates WHERE id = ?', [id]);
+      if (!row) throw new DomainError(`Plantilla no encontrada: ${id}`, 404);
+      return toReportTemplate(row);
+    },
+
+    // Alta o modificación; la fecha de la última ejecución la mantiene el servidor
+    saveReportTemplate(t: ReportTemplate, actor: User) {
+      if (!t.name?.trim()) throw new DomainError('La plantilla debe tener un nombre');
+      if (!['movements', 'destroyed', 'inventory', 'closing'].includes(t.kind)) throw new DomainError(`Tipo de informe inválido: ${t.kind}`);
+      store.transaction(() => {
+        const previous = store.get<ReportTemplateRow>('SELECT * FROM report_templates WHERE id = ?', [t.id]);
+        store.run(
+          `INSERT INTO report_templates (id, name, kind, columns, group_by, city, period, schedule, created_by, created_at) VALUES (?, ?, ?, ?, ?, ?, ?, ?, ?, ?)
+           ON CONFLICT(id) DO UPDATE SET name = excluded.name, kind = excluded.kind, columns = excluded.columns, group_by = excluded.group_by, city = excluded.city, period = excluded.period, schedule = excluded.schedule`,
+          [t.id, t.name.trim(), t.kind, JSON.stringify(t.columns), t.groupBy, t.city || null, JSON.stringify(t.period), t.schedule, t.createdBy, t.createdAt],
+        );
+        insertAudit(actor, previous ? 'report.update' : 'report.create', t.name.trim(), previous && toReportTemplate(previous), t);
+      });
+    },
+
+    deleteReportTemplate(id: string, actor: User) {
+      store.transaction(() => {
+        const row = store.get<ReportTemplateRow>('SELECT * FROM report_templates WHERE id = ?', [id]);
+        if (!row) throw new DomainError(`Plantilla no encontrada: ${id}`, 404);
+        store.run('DELETE FROM report_templates WHERE id = ?', [id]);
+        insertAudit(actor, 'report.delete', row.name, toReportTemplate(row));
+      });
+    },
+
+    // El contenido solo viaja al pedir un archivo concreto
+    getGeneratedReports(): GeneratedReport[] {
+      return store.all<GeneratedReportRow>('SELECT id, template_id, template_name, file_name, generated_at, generated_by, rows FROM generated_reports ORDER BY generated_at DESC').map(toGeneratedReport);
+    },
+
+    getGeneratedReport(id: string): GeneratedReport {
+      const row = store.get<GeneratedReportRow>('SELECT * FROM generated_reports WHERE id = ?', [id]);
+      if (!row) throw new DomainError(`Informe no encontrado: ${id}`, 404);
+      return toGeneratedReport(row);
+    },
+
+    saveGeneratedReport(r: GeneratedReport) {
+      store.transaction(() => {
+        store.run(
+          'INSERT INTO generated_reports (id, template_id, template_name, file_name, generated_at, generated_by, rows, data) VALUES (?, ?, ?, ?, ?, ?, ?, ?)',
+          [r.id, r.templateId, r.templateName, r.fileName, r.generatedAt, r.generatedBy, r.rows, r.data || ''],
+        );
+        store.run('UPDATE report_templates SET last_run_at = ? WHERE id = ?', [r.generatedAt, r.templateId]);
+      });
+    },
+
+    // --- RESPALDO ---
+    // Reemplaza las colecciones incluidas en el respaldo dentro de una sola transacción (la auditoría solo suma la entrada de la restauración).
+    // Los respaldos no traen credenciales: cada usuario conserva las suyas por id
+    async restore(data: RestoreRequest, actor: User) {
+      const users = data.users && await Promise.all(data.users.map(u => u.passwordHash ? u : withCredentials(u)));
+      const count = (sql: string) => store.get<{ n: number }>(sql)?.n || 0;
+      const totals = () => ({ precintos: count('SELECT COUNT(*) AS n FROM seals WHERE deleted_at IS NULL'), usuarios: count('SELECT COUNT(*) AS n FROM users'), ciudades: count('SELECT COUNT(*) AS n FROM cities') });
+      store.transaction(() => {
+        const before = totals();
+        // Las sedes se borran y se vuelven a insertar: las claves foráneas se validan al confirmar
+        store.run('PRAGMA defer_foreign_keys = ON');
+        if (data.seals) store.run('DELETE FROM seals');
+        if (data.lots) store.run('DELETE FROM seal_lots');
+        if (data.transfers) store.run('DELETE FROM seal_transfers');
+        if (data.shipments) store.run('DELETE FROM shipments');
+        // Las sesiones de los usuarios que siguen en el respaldo sobreviven a la restauración
+        const sessions = users ? store.all<SessionRow>('SELECT * FROM sessions') : [];
+        const credentials = new Map(users ? store.all<UserRow>('SELECT * FROM users').map(r => [r.id, toCredentials(r)]) : []);
+        if (users) store.run('DELETE FROM users');
+        const referenced = [...(users || []).map(u => u.city), ...(data.seals || []).map(s => s.city), ...(data.lots || []).map(l => l.city), ...(data.transfers || []).flatMap(t => [t.origin, t.destination]), ...(data.shipments || []).map(s => s.city)];
+        if (data.cities) {
+          if (!data.seals) referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM seals').map(r => r.city));
+          if (!users) referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM users').map(r => r.city));
+          if (!data.lots) referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM seal_lots').map(r => r.city));
+          if (!data.transfers) referenced.push(...store.all<{ city: string }>('SELECT origin AS city FROM seal_transfers UNION SELECT destination FROM seal_transfers').map(r => r.city));
+          referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM report_templates WHERE city IS NOT NULL').map(r => r.city));
+          referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM cycle_counts').map(r => r.city));
+          if (!data.shipments) referenced.push(...store.all<{ city: string }>('SELECT DISTINCT city FROM shipments').map(r => r.city));
+          store.run('DELETE FROM cities');
+        }
+        new Set([...(data.cities || []), ...referenced]).forEach(city => store.run('INSERT OR IGNORE INTO cities (name) VALUES (?)', [city]));
+        (users || []).forEach(u => {
+          const stored = credentials.get(u.id);
+          insertUser(u.passwordHash || !stored ? u : { ...u, passwordHash: stored.passwordHash, passwordSalt: stored.passwordSalt });
+        });
+        sessions.filter(s => users?.some(u => u.id === s.user_id)).forEach(insertSession);
+        (data.lots || []).forEach(insertLot);
+        (data.shipments || []).forEach(insertShipment);
+        (data.seals || []).forEach(insertSeal);
+        (data.transfers || []).forEach(insertTransfer);
+        if (data.settings) store.run("INSERT INTO settings (key, value) VALUES ('app', ?) ON CONFLICT(key) DO UPDATE SET value = excluded.value", [JSON.stringify(data.settings)]);
+        insertAudit(actor, 'backup.restore', 'Base de datos', before, { modo: data.mode || 'replace', ...totals(), configuracion: !!data.settings });
+      });
+    },
+  };
+};
+
+export type Repository = ReturnType<typeof createRepository>;
@@ -0,0 +1,29 @@
+import { Repository } from './repository';
+import { UserRole } from '../types';
+
+const DEFAULT_CITIES = ['BOGOTÁ', 'MEDELLÍN', 'CALI', 'BARRANQUILLA'];
+// Autor de las entradas de auditoría de la carga inicial
+const SEED_ACTOR = 'Sistema';
+
+/**
+ * Datos mínimos para arrancar una base vacía: sedes, configuración y un
+ * administrador con contraseña temporal que debe cambiarse al primer ingreso.
+ */
+export const seedDefaults = async (repo: Repository) => {
+  if (repo.getCities().length === 0) DEFAULT_CITIES.forEach(city => repo.createCity(city, SEED_ACTOR));
+  if (!repo.getSettings()) {
+    repo.updateSettings({ title: 'GESTION DE SELLOS CNCH', logo: null, sealTypes: ['Botella', 'Guaya', 'Correa', 'Adhesivo'], themeColor: '#003594' }, SEED_ACTOR);
+  }
+  if (repo.getUsers().length === 0) {
+    await repo.createUser({
+      id: '1',
+      username: 'admin',
+      fullName: 'Administrador',
+      role: UserRole.ADMIN,
+      organization: 'Nacional de Chocolates',
+      city: repo.getCities()[0],
+      password: 'admin',
+    }, SEED_ACTOR);
+    console.log('Usuario inicial creado: admin / admin (cambio de contraseña obligatorio)');
+  }
+};
@@ -0,0 +1,183 @@
+import { Seal, SealStatus } from '../types';
+import { Dates } from './dates';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export interface DashboardRange {
+  from: string; // YYYY-MM-DD
+  to: string;
+}
+
+export type StatusBreakdown = { city: string; total: number } & Partial<Record<SealStatus, number>>;
+
+export interface DailyActivity {
+  day: string;
+  altas: number;
+  movimientos: number;
+}
+
+export interface DestructionRate {
+  city: string;
+  destruidos: number;
+  instalados: number;
+  tasa: number | null; // % de destruidos sobre los precintos consumidos (instalados + destruidos)
+}
+
+export interface OperatorVolume {
+  operator: string;
+  movimientos: number;
+}
+
+// Cantidad de precintos por sede y estado
+export type StockCounts = Map<string, Partial<Record<SealStatus, number>>>;
+
+// Movimientos de un día en una sede
+interface ActivityBucket {
+  altas: number;
+  movimientos: number;
+  destruidos: number;
+  instalados: number;
+  operators: Map<string, number>;
+}
+
+/**
+ * Agregados precalculados del dashboard. Se actualizan restando el aporte anterior y sumando
+ * el nuevo de cada precinto que cambió, sin recorrer todo el inventario ni su historial.
+ */
+export interface DashboardAggregates {
+  timeZone: string; // Zona con la que se agruparon los días; si cambia se recalcula todo
+  seals: Map<string, Seal>; // Precinto contabilizado por uid (los cambios se detectan por identidad)
+  stock: StockCounts; // Inventario actual sin precintos eliminados
+  activity: Map<string, ActivityBucket>; // `${día}\u0000${sede}`
+}
+
+const bucketKey = (day: string, city: string) => `${day}\u0000${city}`;
+
+const emptyBucket = (): ActivityBucket => ({ altas: 0, movimientos: 0, destruidos: 0, instalados: 0, operators: new Map() });
+
+const addStock = (stock: StockCounts, seal: Seal, sign: number) => {
+  const row = stock.get(seal.city) || {};
+  row[seal.status] = (row[seal.status] || 0) + sign;
+  stock.set(seal.city, row);
+};
+
+// Suma (sign = 1) o resta (sign = -1) el aporte de un precinto; las anotaciones que no cambian el estado no cuentan
+const contribute = (aggregates: DashboardAggregates, seal: Seal, sign: number) => {
+  if (seal.deletedAt) return;
+  addStock(aggregates.stock, seal, sign);
+  seal.history.forEach(h => {
+    if (h.fromStatus === h.toStatus) return;
+    const key = bucketKey(Dates.toDay(h.date, aggregates.timeZone), seal.city);
+    const bucket = aggregates.activity.get(key) || emptyBucket();
+    if (h.fromStatus === null) bucket.altas += sign;
+    else bucket.movimientos += sign;
+    if (h.toStatus === SealStatus.DESTRUIDO) bucket.destruidos += sign;
+    if (h.toStatus === SealStatus.INSTALADO) bucket.instalados += sign;
+    bucket.operators.set(h.user, (bucket.operators.get(h.user) || 0) + sign);
+    aggregates.activity.set(key, bucket);
+  });
+};
+
+// Días consecutivos del rango (aritmética de calendario, sin zona horaria)
+const daysBetween = (from: string, to: string): string[] => {
+  const days: string[] = [];
+  for (let t = Date.parse(`${from}T00:00:00Z`), end = Date.parse(`${to}T00:00:00Z`); t <= end; t += DAY_MS) days.push(new Date(t).toISOString().slice(0, 10));
+  return days;
+};
+
+/**
+ * INDICADORES DEL DASHBOARD
+ * Agregados para la vista consolidada: el desglose por estado es una foto del inventario
+ * actual; la actividad, la destrucción y los operadores se calculan sobre el historial
+ * dentro del rango de fechas seleccionado. Ambos se leen de DashboardAggregates, que se
+ * mantiene al día con los precintos que cambian.
+ */
+export const DashboardStats = {
+  defaultRange(days = 30): DashboardRange {
+    const now = Date.now();
+    return { from: Dates.toDay(new Date(now - (days - 1) * DAY_MS).toISOString()), to: Dates.toDay(new Date(now).toISOString()) };
+  },
+
+  // Aplica los cambios de `seals` sobre los agregados anteriores (idempotente para el mismo arreglo)
+  aggregate(previous: DashboardAggregates | null, seals: Seal[], timeZone: string): DashboardAggregates {
+    const aggregates = previous && previous.timeZone === timeZone ? previous : { timeZone, seals: new Map(), stock: new Map(), activity: new Map() };
+    const incoming = new Set<string>();
+    seals.forEach(seal => {
+      incoming.add(seal.uid);
+      const counted = aggregates.seals.get(seal.uid);
+      if (counted === seal) return;
+      if (counted) contribute(aggregates, counted, -1);
+      contribute(aggregates, seal, 1);
+      aggregates.seals.set(seal.uid, seal);
+    });
+    aggregates.seals.forEach((seal, uid) => {
+      if (incoming.has(uid)) return;
+      contribute(aggregates, seal, -1);
+      aggregates.seals.delete(uid);
+    });
+    return { ...aggregates };
+  },
+
+  // Conteo completo para fotos que no se mantienen incrementalmente (inventario al corte)
+  countStock(seals: Seal[]): StockCounts {
+    const stock: StockCounts = new Map();
+    seals.forEach(s => addStock(stock, s, 1));
+    return stock;
+  },
+
+  // Total por estado de las sedes indicadas
+  stockTotals(stock: StockCounts, cities: string[]): Partial<Record<SealStatus, number>> {
+    const totals: Partial<Record<SealStatus, number>> = {};
+    cities.forEach(city => Object.entries(stock.get(city) || {}).forEach(([status, count]) => {
+      if (count) totals[status as SealStatus] = (totals[status as SealStatus] || 0) + count;
+    }));
+    return totals;
+  },
+
+  statusByCity(stock: StockCounts, cities: string[]): StatusBreakdown[] {
+    return cities.map(city => {
+      const row: StatusBreakdown = { city, total: 0 };
+      Object.entries(stock.get(city) || {}).forEach(([status, count]) => {
+        if (!count) return;
+        row[status as SealStatus] = count;
+        row.total += count;
+      });
+      return row;
+    });
+  },
+
+  dailyActivity(aggregates: DashboardAggregates, range: DashboardRange, cities: string[]): DailyActivity[] {
+    return daysBetween(range.from, range.to).map(day => {
+      const row = { day, altas: 0, movimientos: 0 };
+      cities.forEach(city => {
+        const bucket = aggregates.activity.get(bucketKey(day, city));
+        if (bucket) { row.altas += bucket.altas; row.movimientos += bucket.movimientos; }
+      });
+      return row;
+    });
+  },
+
+  destructionRates(aggregates: DashboardAggregates, range: DashboardRange, cities: string[]): DestructionRate[] {
+    const days = daysBetween(range.from, range.to);
+    return cities.map(city => {
+      let destruidos = 0;
+      let instalados = 0;
+      days.forEach(day => {
+        const bucket = aggregates.activity.get(bucketKey(day, city));
+        if (bucket) { destruidos += bucket.destruidos; instalados += bucket.instalados; }
+      });
+      return { city, destruidos, instalados, tasa: destruidos + instalados > 0 ? Math.round((destruidos / (destruidos + instalados)) * 1000) / 10 : null };
+    });
+  },
+
+  topOperators(aggregates: DashboardAggregates, range: DashboardRange, cities: string[], limit = 10): OperatorVolume[] {
+    const counts = new Map<string, number>();
+    daysBetween(range.from, range.to).forEach(day => cities.forEach(city => {
+      aggregates.activity.get(bucketKey(day, city))?.operators.forEach((count, operator) => counts.set(operator, (counts.get(operator) || 0) + count));
+    }));
+    return Array.from(counts, ([operator, movimientos]) => ({ operator, movimientos }))
+      .filter(o => o.movimientos > 0)
+      .sort((a, b) => b.movimientos - a.movimientos)
+      .slice(0, limit);
+  },
+};
@@ -0,0 +1,94 @@
+import { AnomalyRuleId, AnomalyRules, AppSettings, MovementHistory, Seal, SealAlert, SealStatus } from '../types';
+import { SealLifecycle } from './sealLifecycle';
+import { Dates } from './dates';
+
+const HOUR_MS = 60 * 60 * 1000;
+
+export const DEFAULT_ANOMALY_RULES: AnomalyRules = {
+  dwellHours: {
+    [SealStatus.ASIGNADO]: 72,
+    [SealStatus.ENTREGADO]: 48,
+    [SealStatus.NO_INSTALADO]: 168,
+    [SealStatus.EN_TRANSITO]: 120,
+  },
+  maxReuseCycles: 2,
+  quickDestructionHours: 24,
+  workingHours: { start: 6, end: 20, days: [1, 2, 3, 4, 5, 6] },
+};
+
+export const ANOMALY_RULE_LABELS: Record<AnomalyRuleId, string> = {
+  dwell: 'Permanencia excedida',
+  reuseLoop: 'Reutilización repetida',
+  quickDestruction: 'Destrucción tras asignación',
+  offHours: 'Movimiento fuera de horario',
+};
+
+const hoursBetween = (from: string, to: string) => (new Date(to).getTime() - new Date(from).getTime()) / HOUR_MS;
+const status = (s: SealStatus) => s.replace('_', ' ');
+
+/**
+ * MOTOR DE ALERTAS
+ * Recorre el historial de cada precinto y genera alertas por permanencia excesiva en un
+ * estado y por patrones sospechosos. Las alertas se recalculan siempre a partir de los
+ * datos; solo su revisión (reconocida/resuelta) se guarda aparte.
+ */
+export const Anomalies = {
+  rules(settings?: AppSettings | null): AnomalyRules {
+    return { ...DEFAULT_ANOMALY_RULES, ...settings?.anomalyRules };
+  },
+
+  evaluateSeal(seal: Seal, rules: AnomalyRules, settings: AppSettings | null, now: string): SealAlert[] {
+    const key = `${seal.id}:${seal.type}`;
+    const alert = (rule: AnomalyRuleId, discriminator: string, date: string, message: string): SealAlert =>
+      ({ id: `${rule}:${key}:${discriminator}`, rule, sealId: seal.id, sealType: seal.type, city: seal.city, date, message });
+    const alerts: SealAlert[] = [];
+    const chronological = [...seal.history].reverse();
+
+    // Permanencia: el id incluye el último movimiento, así un nuevo movimiento cierra la alerta anterior
+    const limit = rules.dwellHours[seal.status];
+    if (limit && !SealLifecycle.isTerminal(seal.status)) {
+      const hours = hoursBetween(seal.lastMovement, now);
+      if (hours > limit) alerts.push(alert('dwell', seal.lastMovement, seal.lastMovement, `${Math.floor(hours / 24)} día(s) en ${status(seal.status)} (máximo ${limit} h)`));
+    }
+
+    const reuses = chronological.filter(h => h.fromStatus === SealStatus.NO_INSTALADO && h.toStatus === SealStatus.ASIGNADO);
+    if (reuses.length > rules.maxReuseCycles) {
+      const last = reuses[reuses.length - 1];
+      alerts.push(alert('reuseLoop', String(reuses.length), last.date, `${reuses.length} ciclos NO INSTALADO → ASIGNADO (tolerados ${rules.maxReuseCycles})`));
+    }
+
+    let lastAssignment: MovementHistory | null = null;
+    chronological.forEach(h => {
+      if (h.toStatus === SealStatus.ASIGNADO) lastAssignment = h;
+      else if (h.toStatus === SealStatus.DESTRUIDO && lastAssignment) {
+        const hours = hoursBetween((lastAssignment as MovementHistory).date, h.date);
+        if (hours <= rules.quickDestructionHours) alerts.push(alert('quickDestruction', h.date, h.date, `Destruido ${hours.toFixed(1)} h después de asignarse a ${(lastAssignment as MovementHistory).metadata?.receiver || 'receptor sin registrar'} por ${h.user}`));
+      }
+    });
+
+    const zone = Dates.timeZoneFor(seal.city, settings);
+    const { start, end, days } = rules.workingHours;
+    chronological.forEach(h => {
+      const local = Dates.localParts(h.date, zone);
+      if (!days.includes(local.weekday) || local.hour < start || local.hour >= end) {
+        alerts.push(alert('offHours', h.date, h.date, `${status(h.toStatus)} registrado a las ${String(local.hour).padStart(2, '0')}:${String(local.minute).padStart(2, '0')} por ${h.user}`));
+      }
+    });
+
+    return alerts;
+  },
+
+  evaluate(seals: Seal[], settings: AppSettings | null, now = Dates.now()): SealAlert[] {
+    const rules = this.rules(settings);
+    return seals
+      .filter(s => !s.deletedAt)
+      .flatMap(s => this.evaluateSeal(s, rules, settings, now))
+      .sort((a, b) => b.date.localeCompare(a.date));
+  },
+
+  // Etiqueta de auditoría a partir del id de la alerta (regla:código:tipo:discriminador)
+  targetOf(alertId: string): string {
+    const [rule, sealId] = alertId.split(':');
+    return `${sealId} - ${ANOMALY_RULE_LABELS[rule as AnomalyRuleId] || rule}`;
+  },
+};
@@ -1,8 +1,33 @@
+import { Seal, SealLot, SealTransfer, CycleCount, Shipment, User, SealStatus, AppSettings, MovementMetadata, AuditEntry, AlertReview, ReportTemplate, GeneratedReport, AttachmentContent, LoginResponse, RestoreMode } from '../types';
+import { SealLifecycle } from './sealLifecycle';
+import { can, canMoveTo } from './permissions';
+import { MovementDetails } from './movementDetails';
+import { request } from './http';
+import { AuthService } from './auth';
+import { SyncQueue, SubmitResult } from './syncQueue';
+import { AttachmentStore, SealStore } from './storage';
+import { SealPage, SealQueries, SealQuery } from './sealQuery';
 
-import { Seal, User, SealStatus, AppSettings } from '../types';
+export interface BackupData {
+  lots?: SealLot[];
+  transfers?: SealTransfer[];
+  shipments?: Shipment[];
+  seals?: Seal[];
+  users?: User[];
+  cities?: string[];
+  settings?: AppSettings;
+}
 
-// Configura aquí la URL de tu API que conecta con SQL
-const API_BASE_URL = 'https://tu-api-sql-backend.com/api';
+const send = async (path: string, method: string, body?: unknown): Promise<boolean> =>
+  (await request(path, method, body)).status === 'ok';
+
+const fetchOrFallback = async <T>(path: string, storageKey: string, fallback: T): Promise<T> => {
+  const result = await request<T>(path);
+  if (result.status === 'ok') return result.data as T;
+  // Fallback a la copia local si no hay conexión
+  const cached = localStorage.getItem(storageKey);
+  return cached ? JSON.parse(cached) : fallback;
+};
 
 /**
  * SERVICIO MAESTRO DE DATOS
@@ -11,61 +36,325 @@ const API_BASE_URL = 'https://tu-api-sql-backend.com/api';
 export const ApiService = {
   // --- SELLOS / PRECINTOS ---
   async getSeals(): Promise<Seal[]> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/seals`);
-      if (!response.ok) throw new Error('Error al obtener sellos');
-      return await response.json();
-    } catch (error) {
-      console.error('SQL Connection Error:', error);
-      // Fallback a localStorage si no hay conexión
-      return JSON.parse(localStorage.getItem('selloData') || '[]');
+    const result = await request<Seal[]>('/seals');
+    if (result.status === 'ok') return result.data as Seal[];
+    // Sin conexión se lee la copia local de IndexedDB
+    return SealStore.load().catch(error => {
+      console.error('No fue posible leer la copia local de precintos:', error);
+      return [];
+    });
+  },
+
+  // Página del inventario filtrada y ordenada por el backend. Con operaciones pendientes en la
+  // bandeja o sin conexión se consulta la copia local, que ya refleja los cambios sin sincronizar
+  async querySeals(query: SealQuery): Promise<SealPage> {
+    if (SyncQueue.getState().pending === 0) {
+      const result = await request<SealPage>(`/seals/query?${SealQueries.toParams(query)}`);
+      if (result.status === 'ok') return result.data as SealPage;
     }
+    return SealStore.page(query).catch(error => {
+      console.error('No fue posible consultar la copia local de precintos:', error);
+      return { items: [], total: 0, offset: query.offset };
+    });
   },
 
-  async createSeal(seal: Seal): Promise<boolean> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/seals`, {
-        method: 'POST',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify(seal),
-      });
-      return response.ok;
-    } catch (error) {
-      console.error('Error al guardar en SQL:', error);
-      return false;
+  // Las mutaciones de precintos pasan por la bandeja offline (ver SyncQueue)
+  async createSeal(seal: Seal, user: User): Promise<SubmitResult> {
+    return this.createSeals([seal], user);
+  },
+
+  // Alta en bloque: el backend la aplica completa o la rechaza completa
+  async createSeals(seals: Seal[], user: User): Promise<SubmitResult> {
+    const error = seals.map(s => SealLifecycle.validateCreation(s.status, user)).find(Boolean);
+    if (error) {
+      console.error('Alta rechazada:', error);
+      return 'rejected';
     }
+    return SyncQueue.submit({
+      kind: 'seal.create',
+      description: `Alta de ${seals.length} precinto(s): ${seals.slice(0, 5).map(s => s.id).join(', ')}${seals.length > 5 ? '...' : ''}`,
+      user: user.fullName,
+      method: 'POST',
+      path: '/seals',
+      body: seals,
+    });
   },
 
-  async updateSealStatus(ids: string[], status: SealStatus, details: string, user: string): Promise<boolean> {
+  // --- LOTES ---
+  async getLots(): Promise<SealLot[]> {
+    return fetchOrFallback('/lots', 'selloLots', []);
+  },
+
+  // La recepción y sus sellos viajan en una sola operación atómica
+  async createLot(lot: SealLot, seals: Seal[], user: User): Promise<SubmitResult> {
+    const error = SealLifecycle.validateCreation(SealStatus.ENTRADA_INVENTARIO, user);
+    if (error) {
+      console.error('Lote rechazado:', error);
+      return 'rejected';
+    }
+    return SyncQueue.submit({
+      kind: 'lot.create',
+      description: `Lote ${lot.id}: ${lot.quantity} precinto(s) ${seals[0]?.id || ''} a ${seals[seals.length - 1]?.id || ''}`,
+      user: user.fullName,
+      method: 'POST',
+      path: '/lots',
+      body: { lot, seals },
+    });
+  },
+
+  async updateSealStatus(seals: Seal[], status: SealStatus, metadata: MovementMetadata, user: User, date: string): Promise<SubmitResult> {
+    // Ningún movimiento fuera de la tabla de transiciones llega al backend
+    const error = SealLifecycle.validateMovement(seals, status, user, MovementDetails.formOf(status, metadata));
+    if (error) {
+      console.error('Movimiento rechazado:', error);
+      return 'rejected';
+    }
+    return SyncQueue.submit({
+      kind: 'seal.move',
+      description: `Movimiento a ${status.replace('_', ' ')}: ${seals.map(s => s.id).join(', ')}`,
+      user: user.fullName,
+      method: 'PUT',
+      path: '/seals/movement',
+      body: {
+        // La versión vista por el operador permite detectar movimientos hechos en otra sede
+        keys: seals.map(s => ({ uid: s.uid, id: s.id, type: s.type, expectedStatus: s.status, expectedLastMovement: s.lastMovement })),
+        status,
+        details: MovementDetails.format(status, metadata),
+        metadata,
+        user: user.fullName,
+        date,
+      },
+    });
+  },
+
+  // Baja lógica: el backend marca el sello como eliminado y conserva su historial
+  async deleteSeal(seal: Seal, user: User, date: string): Promise<SubmitResult> {
+    if (!can(user, 'seal.delete')) {
+      console.error(`Eliminación rechazada: el rol ${user.role} no puede eliminar precintos`);
+      return 'rejected';
+    }
+    return SyncQueue.submit({
+      kind: 'seal.delete',
+      description: `Eliminación del precinto ${seal.id} (${seal.type})`,
+      user: user.fullName,
+      method: 'DELETE',
+      path: `/seals/${encodeURIComponent(seal.id)}?type=${encodeURIComponent(seal.type)}`,
+      body: { uid: seal.uid, expectedStatus: seal.status, expectedLastMovement: seal.lastMovement, user: user.fullName, date },
+    });
+  },
+
+  // --- ADJUNTOS DE MOVIMIENTOS ---
+  // Se guardan primero en IndexedDB: el movimiento solo lleva las referencias y no depende de la subida.
+  // false si falla la copia local; sin ella el movimiento no debe registrarse
+  async saveAttachments(contents: AttachmentContent[]): Promise<boolean> {
     try {
-      const response = await fetch(`${API_BASE_URL}/seals/movement`, {
-        method: 'PUT',
-        headers: { 'Content-Type': 'application/json' },
-        body: JSON.stringify({ ids, status, details, user, date: new Date().toLocaleString('es-ES') }),
-      });
-      return response.ok;
+      await AttachmentStore.save(contents, false);
     } catch (error) {
+      console.error('No fue posible guardar la evidencia localmente:', error);
       return false;
     }
+    await this.uploadAttachments();
+    return true;
+  },
+
+  // Sube los adjuntos pendientes; se detiene sin conexión y reintenta en la próxima sincronización
+  async uploadAttachments(): Promise<void> {
+    const pending = await AttachmentStore.pending().catch(error => {
+      console.error('No fue posible leer los adjuntos pendientes:', error);
+      return [];
+    });
+    for (const content of pending) {
+      const result = await request('/attachments', 'POST', content);
+      if (result.status === 'offline') return;
+      if (result.status === 'rejected') console.error(`Adjunto ${content.id} rechazado:`, result.error);
+      else await AttachmentStore.markUploaded(content.id);
+    }
+  },
+
+  // Copia local primero; lo descargado del backend se conserva para consultarlo sin conexión
+  async getAttachment(id: string): Promise<AttachmentContent | null> {
+    const local = await AttachmentStore.get(id).catch(() => null);
+    if (local) return local;
+    const result = await request<AttachmentContent>(`/attachments/${encodeURIComponent(id)}`);
+    if (result.status !== 'ok' || !result.data) return null;
+    await AttachmentStore.save([result.data], true).catch(error => console.error('No fue posible guardar el adjunto localmente:', error));
+    return result.data;
+  },
+
+  // --- TRASLADOS ---
+  async getTransfers(): Promise<SealTransfer[]> {
+    return fetchOrFallback('/transfers', 'selloTransfers', []);
+  },
+
+  async createTransfer(transfer: SealTransfer, seals: Seal[], user: User): Promise<SubmitResult> {
+    if (!canMoveTo(user, SealStatus.EN_TRANSITO)) {
+      console.error(`Traslado rechazado: el rol ${user.role} no puede despachar traslados`);
+      return 'rejected';
+    }
+    return SyncQueue.submit({
+      kind: 'transfer.create',
+      description: `Traslado ${transfer.id} a ${transfer.destination}: ${seals.length} precinto(s)`,
+      user: user.fullName,
+      method: 'POST',
+      path: '/transfers',
+      body: { transfer, keys: seals.map(s => ({ uid: s.uid, id: s.id, type: s.type, expectedStatus: s.status, expectedLastMovement: s.lastMovement })) },
+    });
+  },
+
+  async receiveTransfer(transfer: SealTransfer, received: { id: string; type: string }[], user: User, date: string): Promise<SubmitResult> {
+    if (!canMoveTo(user, SealStatus.EN_TRANSITO)) {
+      console.error(`Recepción rechazada: el rol ${user.role} no puede recibir traslados`);
+      return 'rejected';
+    }
+    return SyncQueue.submit({
+      kind: 'transfer.receive',
+      description: `Recepción del traslado ${transfer.id}: ${received.length} de ${transfer.seals.length} precinto(s)`,
+      user: user.fullName,
+      method: 'POST',
+      path: `/transfers/${encodeURIComponent(transfer.id)}/receive`,
+      body: { received, user: user.fullName, date },
+    });
+  },
+
+  // --- DESPACHOS ---
+  async getShipments(): Promise<Shipment[]> {
+    return fetchOrFallback('/shipments', 'selloShipments', []);
+  },
+
+  async saveShipment(shipment: Shipment): Promise<boolean> {
+    return send(`/shipments/${encodeURIComponent(shipment.id)}`, 'PUT', shipment);
+  },
+
+  // --- CONTEOS FÍSICOS ---
+  async getCycleCounts(): Promise<CycleCount[]> {
+    return fetchOrFallback('/counts', 'selloCycleCounts', []);
+  },
+
+  async saveCycleCount(count: CycleCount): Promise<boolean> {
+    return send(`/counts/${encodeURIComponent(count.id)}`, 'PUT', count);
+  },
+
+  // --- SESIÓN ---
+  // El backend verifica la contraseña y emite el token; el navegador solo guarda la sesión
+  async login(username: string, password: string): Promise<{ user?: User; error?: string }> {
+    const result = await request<LoginResponse>('/auth/login', 'POST', { username, password });
+    if (result.status === 'offline') return { error: 'Sin conexión con el servidor. El ingreso requiere conexión.' };
+    if (result.status === 'rejected' || !result.data) return { error: result.error || 'Error de autenticación.' };
+    AuthService.saveSession(result.data.session);
+    return { user: result.data.user };
+  },
+
+  async logout(): Promise<void> {
+    const session = AuthService.getSession();
+    if (!session) return;
+    await request('/auth/logout', 'POST');
+    // Un nuevo ingreso pudo guardar otra sesión mientras el backend respondía
+    if (AuthService.getSession()?.token === session.token) AuthService.endSession();
+  },
+
+  // Usuario de la sesión guardada: null si el backend la rechaza, undefined si no responde
+  async getSessionUser(): Promise<User | null | undefined> {
+    if (!AuthService.getSession()) return null;
+    const result = await request<User>('/auth/session');
+    if (result.status === 'offline') return undefined;
+    if (result.status === 'rejected') AuthService.endSession();
+    return result.data || null;
+  },
+
+  // Devuelve el mensaje de error o null si el cambio se guardó
+  async changePassword(password: string): Promise<string | null> {
+    const result = await request('/auth/password', 'POST', { password });
+    if (result.status === 'ok') return null;
+    return result.status === 'offline' ? 'Sin conexión con el servidor. Intente de nuevo.' : result.error || 'No fue posible cambiar la contraseña.';
   },
 
   // --- USUARIOS ---
   async getUsers(): Promise<User[]> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/users`);
-      return await response.json();
-    } catch {
-      return JSON.parse(localStorage.getItem('selloUsers') || '[]');
-    }
+    return fetchOrFallback('/users', 'selloUsers', []);
+  },
+
+  async createUser(user: User): Promise<boolean> {
+    return send('/users', 'POST', user);
+  },
+
+  async updateUser(user: User): Promise<boolean> {
+    return send(`/users/${encodeURIComponent(user.id)}`, 'PUT', user);
+  },
+
+  async deleteUser(id: string): Promise<boolean> {
+    return send(`/users/${encodeURIComponent(id)}`, 'DELETE');
+  },
+
+  // --- CIUDADES ---
+  async getCities(): Promise<string[]> {
+    return fetchOrFallback('/cities', 'selloCities', []);
+  },
+
+  async createCity(name: string): Promise<boolean> {
+    return send('/cities', 'POST', { name });
+  },
+
+  async renameCity(oldName: string, newName: string): Promise<boolean> {
+    return send(`/cities/${encodeURIComponent(oldName)}`, 'PUT', { name: newName });
+  },
+
+  async deleteCity(name: string): Promise<boolean> {
+    return send(`/cities/${encodeURIComponent(name)}`, 'DELETE');
   },
 
   // --- CONFIGURACIÓN ---
-  async getSettings(): Promise<AppSettings> {
-    try {
-      const response = await fetch(`${API_BASE_URL}/settings`);
-      return await response.json();
-    } catch {
-      return JSON.parse(localStorage.getItem('selloSettings') || '{"GESTION DE SELLOS CNCH", "logo": null, "sealTypes": ["BOTELLA", "CORREA","GUAYA", "ADHESIVO"]}');
-    }
-  }
+  async getSettings(): Promise<AppSettings | null> {
+    return fetchOrFallback('/settings', 'selloSettings', null);
+  },
+
+  async updateSettings(settings: AppSettings): Promise<boolean> {
+    return send('/settings', 'PUT', settings);
+  },
+
+  // --- AUDITORÍA ---
+  async getAuditLog(): Promise<AuditEntry[]> {
+    return fetchOrFallback('/audit', 'selloAudit', []);
+  },
+
+  // --- INFORMES ---
+  async getReportTemplates(): Promise<ReportTemplate[]> {
+    return fetchOrFallback('/reports/templates', 'selloReportTemplates', []);
+  },
+
+  async saveReportTemplate(template: ReportTemplate): Promise<boolean> {
+    return send(`/reports/templates/${encodeURIComponent(template.id)}`, 'PUT', template);
+  },
+
+  async deleteReportTemplate(id: string): Promise<boolean> {
+    return send(`/reports/templates/${encodeURIComponent(id)}`, 'DELETE');
+  },
+
+  // El backend genera el libro y lo guarda en el historial; null si no hay conexión
+  async runReport(templateId: string, user: User): Promise<GeneratedReport | null> {
+    const result = await request<GeneratedReport>(`/reports/templates/${encodeURIComponent(templateId)}/run`, 'POST', { user: user.fullName });
+    return result.status === 'ok' ? result.data || null : null;
+  },
+
+  async getGeneratedReports(): Promise<GeneratedReport[]> {
+    return fetchOrFallback('/reports/generated', 'selloGeneratedReports', []);
+  },
+
+  async getGeneratedReport(id: string): Promise<GeneratedReport | null> {
+    const result = await request<GeneratedReport>(`/reports/generated/${encodeURIComponent(id)}`);
+    return result.status === 'ok' ? result.data || null : null;
+  },
+
+  // --- ALERTAS ---
+  async getAlertReviews(): Promise<AlertReview[]> {
+    return fetchOrFallback('/alerts/reviews', 'selloAlertReviews', []);
+  },
+
+  async reviewAlert(review: AlertReview): Promise<boolean> {
+    return send(`/alerts/reviews/${encodeURIComponent(review.alertId)}`, 'PUT', review);
+  },
+
+  // --- RESPALDO ---
+  async restore(data: BackupData, mode: RestoreMode): Promise<boolean> {
+    return send('/restore', 'POST', { ...data, mode });
+  },
 };
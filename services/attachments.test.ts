@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { AppSettings, MovementAttachment, SealStatus } from '../types';
+import { Attachments, EVIDENCE_STATUSES, MAX_ATTACHMENTS, MAX_ATTACHMENT_BYTES } from './attachments';
+
+const settings: AppSettings = { title: 'Sellos', logo: null, sealTypes: ['Botella'], themeColor: '#003594', evidenceRequired: [SealStatus.DESTRUIDO] };
+const photo = (id: string): MovementAttachment => ({ id, name: `${id}.jpg`, kind: 'image', mimeType: 'image/jpeg', size: 10 });
+
+describe('Attachments', () => {
+  it('exige evidencia solo en los estados configurados', () => {
+    expect(Attachments.validate(SealStatus.DESTRUIDO, [], settings)).toMatch(/exige adjuntar/);
+    expect(Attachments.validate(SealStatus.DESTRUIDO, [photo('a')], settings)).toBeNull();
+    expect(Attachments.validate(SealStatus.ASIGNADO, undefined, settings)).toBeNull();
+    expect(Attachments.validate(SealStatus.DESTRUIDO, undefined, null)).toBeNull();
+  });
+
+  it('limita la cantidad de adjuntos por movimiento', () => {
+    const many = Array.from({ length: MAX_ATTACHMENTS + 1 }, (_, i) => photo(`f${i}`));
+    expect(Attachments.validate(SealStatus.ASIGNADO, many, settings)).toMatch(/como máximo/);
+  });
+
+  it('solo ofrece como obligatorios los destinos de movimientos manuales', () => {
+    expect(EVIDENCE_STATUSES).toContain(SealStatus.INSTALADO);
+    expect(EVIDENCE_STATUSES).not.toContain(SealStatus.EN_TRANSITO);
+    expect(EVIDENCE_STATUSES).not.toContain(SealStatus.ENTRADA_INVENTARIO);
+  });
+
+  it('valida tipo y tamaño del contenido recibido por el backend', () => {
+    expect(Attachments.validateContent({ id: 'a', mimeType: 'image/jpeg', data: 'AAAA' })).toBeNull();
+    expect(Attachments.sizeOf({ id: 'a', mimeType: 'image/jpeg', data: 'AAA=' })).toBe(2);
+    expect(Attachments.validateContent({ id: 'a', mimeType: 'image/png', data: 'AAAA' })).toMatch(/no admitido/);
+    expect(Attachments.validateContent({ id: '', mimeType: 'image/jpeg', data: 'AAAA' })).toBe('Adjunto inválido');
+    const oversized = 'A'.repeat(Math.ceil(MAX_ATTACHMENT_BYTES * 4 / 3) + 4);
+    expect(Attachments.validateContent({ id: 'a', mimeType: 'application/pdf', data: oversized })).toMatch(/supera el máximo/);
+  });
+});
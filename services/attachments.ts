@@ -0,0 +1,120 @@
+import { AppSettings, AttachmentContent, AttachmentKind, MovementAttachment, SealStatus } from '../types';
+import { SEAL_TRANSITIONS } from './sealLifecycle';
+
+// Selector de archivos del formulario de movimiento
+export const ATTACHMENT_ACCEPT = 'image/*,application/pdf';
+export const MAX_ATTACHMENTS = 6; // Por movimiento
+export const MAX_ATTACHMENT_BYTES = 5 * 1024 * 1024; // Ya comprimido; en la práctica limita los PDF
+
+// Estados destino de los movimientos manuales, los únicos que pueden exigir evidencia
+export const EVIDENCE_STATUSES: SealStatus[] = Array.from(new Set(SEAL_TRANSITIONS.filter(t => t.from && !t.transfer).map(t => t.to)));
+
+// Las fotos siempre se guardan como JPEG comprimido
+const STORED_TYPES = ['image/jpeg', 'application/pdf'];
+const IMAGE_MAX_SIDE = 1600;
+const IMAGE_QUALITY = 0.75;
+const THUMBNAIL_SIDE = 160;
+const THUMBNAIL_QUALITY = 0.6;
+
+export interface PreparedAttachment {
+  attachment: MovementAttachment; // Va en la metadata del movimiento
+  content: AttachmentContent; // Se guarda y se sube por separado
+}
+
+// --- HELPERS ---
+
+const kindOf = (mimeType: string): AttachmentKind | null => mimeType === 'application/pdf' ? 'pdf' : mimeType.startsWith('image/') ? 'image' : null;
+
+const readDataUrl = (blob: Blob) => new Promise<string>((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = () => resolve(reader.result as string);
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(blob);
+});
+
+const base64Of = (dataUrl: string) => dataUrl.slice(dataUrl.indexOf(',') + 1);
+
+const byteLength = (base64: string) => Math.floor(base64.length * 3 / 4) - (base64.endsWith('==') ? 2 : base64.endsWith('=') ? 1 : 0);
+
+// Reduce la imagen a `side` px en su lado mayor y la codifica en JPEG (fondo blanco para PNG transparentes)
+const toJpeg = (image: ImageBitmap, side: number, quality: number): string => {
+  const scale = Math.min(1, side / Math.max(image.width, image.height));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(image.width * scale));
+  canvas.height = Math.max(1, Math.round(image.height * scale));
+  const context = canvas.getContext('2d') as CanvasRenderingContext2D;
+  context.fillStyle = '#ffffff';
+  context.fillRect(0, 0, canvas.width, canvas.height);
+  context.drawImage(image, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', quality);
+};
+
+/**
+ * EVIDENCIA DE MOVIMIENTOS
+ * Fotos (archivo o cámara) y PDF adjuntos a un movimiento. Las fotos se comprimen en el
+ * navegador y llevan una miniatura que viaja con el historial; el contenido completo se
+ * guarda aparte y se pide por id. La validación de obligatoriedad es común a cliente y servidor.
+ */
+export const Attachments = {
+  // Devuelve el mensaje de error si el archivo no se admite
+  async prepare(file: File): Promise<PreparedAttachment | string> {
+    const kind = kindOf(file.type);
+    if (!kind) return `${file.name}: solo se admiten imágenes y documentos PDF.`;
+    let dataUrl: string;
+    let thumbnail: string | undefined;
+    if (kind === 'image') {
+      let image: ImageBitmap;
+      try {
+        image = await createImageBitmap(file);
+      } catch {
+        return `${file.name}: no fue posible leer la imagen.`;
+      }
+      dataUrl = toJpeg(image, IMAGE_MAX_SIDE, IMAGE_QUALITY);
+      thumbnail = toJpeg(image, THUMBNAIL_SIDE, THUMBNAIL_QUALITY);
+      image.close();
+    } else {
+      dataUrl = await readDataUrl(file);
+    }
+    const data = base64Of(dataUrl);
+    const size = byteLength(data);
+    if (size > MAX_ATTACHMENT_BYTES) return `${file.name}: supera el máximo de ${this.formatSize(MAX_ATTACHMENT_BYTES)}.`;
+    const id = crypto.randomUUID();
+    const mimeType = kind === 'image' ? 'image/jpeg' : file.type;
+    const name = kind === 'image' ? `${file.name.replace(/\.[^.]+$/, '') || 'foto'}.jpg` : file.name;
+    return { attachment: { id, name, kind, mimeType, size, ...(thumbnail ? { thumbnail } : {}) }, content: { id, mimeType, data } };
+  },
+
+  isRequired(status: SealStatus, settings?: AppSettings | null): boolean {
+    return !!settings?.evidenceRequired?.includes(status);
+  },
+
+  validate(status: SealStatus, attachments: MovementAttachment[] | undefined, settings?: AppSettings | null): string | null {
+    const count = attachments?.length || 0;
+    if (count > MAX_ATTACHMENTS) return `Se admiten como máximo ${MAX_ATTACHMENTS} adjuntos por movimiento.`;
+    if (count === 0 && this.isRequired(status, settings)) return `El movimiento a ${status.replace('_', ' ')} exige adjuntar al menos una foto o PDF como evidencia.`;
+    return null;
+  },
+
+  // Contenido que recibe el backend
+  validateContent(content: AttachmentContent): string | null {
+    if (!content || typeof content.id !== 'string' || !content.id || typeof content.data !== 'string') return 'Adjunto inválido';
+    if (!STORED_TYPES.includes(content.mimeType)) return `Tipo de adjunto no admitido: ${content.mimeType}`;
+    if (this.sizeOf(content) > MAX_ATTACHMENT_BYTES) return `El adjunto supera el máximo de ${this.formatSize(MAX_ATTACHMENT_BYTES)}`;
+    return null;
+  },
+
+  sizeOf(content: AttachmentContent): number {
+    return byteLength(content.data);
+  },
+
+  toBlob(content: AttachmentContent): Blob {
+    const binary = atob(content.data);
+    const bytes = new Uint8Array(binary.length);
+    for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+    return new Blob([bytes], { type: content.mimeType });
+  },
+
+  formatSize(bytes: number): string {
+    return bytes < 1024 * 1024 ? `${Math.max(1, Math.round(bytes / 1024))} KB` : `${(bytes / 1024 / 1024).toFixed(1)} MB`;
+  },
+};
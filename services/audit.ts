@@ -0,0 +1,54 @@
+import { AuditAction, AuditEntry, User } from '../types';
+import { Dates } from './dates';
+
+export const AUDIT_ACTION_LABELS: Record<AuditAction, string> = {
+  'auth.login': 'Inicio de sesión',
+  'auth.loginFailed': 'Inicio de sesión fallido',
+  'auth.logout': 'Cierre de sesión',
+  'auth.passwordChange': 'Cambio de contraseña',
+  'seal.delete': 'Eliminación de precinto',
+  'user.create': 'Alta de usuario',
+  'user.update': 'Modificación de usuario',
+  'user.delete': 'Eliminación de usuario',
+  'city.create': 'Alta de sede',
+  'city.rename': 'Renombre de sede',
+  'city.delete': 'Eliminación de sede',
+  'settings.update': 'Cambio de configuración',
+  'backup.restore': 'Restauración de respaldo',
+  'alert.review': 'Revisión de alerta',
+  'report.create': 'Alta de plantilla de informe',
+  'report.update': 'Modificación de plantilla de informe',
+  'report.delete': 'Eliminación de plantilla de informe',
+  'count.approve': 'Aprobación de conteo físico',
+  'count.cancel': 'Anulación de conteo físico',
+  'shipment.create': 'Alta de despacho',
+  'shipment.update': 'Modificación de despacho',
+};
+
+// Las credenciales nunca se copian a la auditoría
+const snapshot = (value: unknown): unknown => {
+  if (value === undefined || value === null || typeof value !== 'object') return value ?? undefined;
+  if (Array.isArray(value)) return value.map(snapshot);
+  const { password, passwordHash, passwordSalt, history, ...rest } = value as Record<string, unknown>;
+  return rest;
+};
+
+/**
+ * REGISTRO DE AUDITORÍA
+ * El backend anexa una entrada por cada acción administrativa o de sesión, dentro de la
+ * misma transacción que la aplica y con la hora del servidor. El navegador solo lo consulta.
+ */
+export const AuditService = {
+  entry(actor: User | string, action: AuditAction, target: string, before?: unknown, after?: unknown, date = Dates.now()): AuditEntry {
+    return {
+      id: crypto.randomUUID(),
+      date,
+      actor: typeof actor === 'string' ? actor : actor.fullName,
+      ...(typeof actor === 'string' ? {} : { actorId: actor.id }),
+      action,
+      target,
+      before: snapshot(before),
+      after: snapshot(after),
+    };
+  },
+};
@@ -0,0 +1,37 @@
+import { beforeAll, describe, expect, it } from 'vitest';
+import { User, UserRole } from '../types';
+import { AuthService, LOGIN_FAILED } from './auth';
+
+let operator: User;
+
+beforeAll(async () => {
+  operator = { id: 'u1', username: 'OPERADOR', fullName: 'Operador', role: UserRole.OPERADOR_BODEGA, organization: 'Org', city: 'BOGOTÁ', ...(await AuthService.hashPassword('clave123')) };
+});
+
+describe('AuthService.authenticate', () => {
+  it('responde igual a un usuario inexistente y a una contraseña incorrecta', async () => {
+    expect((await AuthService.authenticate(undefined, 'clave123')).error).toBe(LOGIN_FAILED);
+    const wrong = await AuthService.authenticate(operator, 'otra');
+    expect(wrong.error).toBe(LOGIN_FAILED);
+    expect(wrong.user?.failedAttempts).toBe(1);
+  });
+
+  it('bloquea la cuenta al quinto intento fallido sin cambiar el mensaje', async () => {
+    const result = await AuthService.authenticate({ ...operator, failedAttempts: 4 }, 'otra');
+    expect(result.error).toBe(LOGIN_FAILED);
+    expect(result.user && AuthService.isLocked(result.user)).toBe(true);
+  });
+
+  it('solo informa el bloqueo o la deshabilitación con la contraseña correcta', async () => {
+    const locked = { ...operator, lockedUntil: new Date(Date.now() + 60_000).toISOString() };
+    expect((await AuthService.authenticate(locked, 'otra')).error).toBe(LOGIN_FAILED);
+    expect((await AuthService.authenticate(locked, 'clave123')).error).toMatch(/bloqueada/);
+    expect((await AuthService.authenticate({ ...operator, disabled: true }, 'clave123')).error).toMatch(/deshabilitada/);
+  });
+
+  it('reinicia los intentos al ingresar', async () => {
+    const result = await AuthService.authenticate({ ...operator, failedAttempts: 3 }, 'clave123');
+    expect(result.error).toBeUndefined();
+    expect(result.user?.failedAttempts).toBe(0);
+  });
+});
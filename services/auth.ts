@@ -0,0 +1,120 @@
+import { User, AuthSession } from '../types';
+
+const SESSION_KEY = 'selloSession';
+const PBKDF2_ITERATIONS = 150000;
+const SESSION_TTL_MS = 8 * 60 * 60 * 1000; // 8 horas
+const MAX_FAILED_ATTEMPTS = 5;
+const LOCKOUT_MS = 15 * 60 * 1000; // 15 minutos
+export const MIN_PASSWORD_LENGTH = 8;
+
+// Mismo mensaje para usuario inexistente y contraseña incorrecta: no revela qué cuentas existen
+export const LOGIN_FAILED = 'Usuario o contraseña incorrectos.';
+
+export interface AuthResult {
+  user?: User; // Registro actualizado (intentos fallidos, bloqueo) a persistir
+  error?: string;
+}
+
+const toBase64 = (bytes: Uint8Array) => btoa(String.fromCharCode(...bytes));
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const derive = async (password: string, salt: Uint8Array<ArrayBuffer>): Promise<string> => {
+  const key = await crypto.subtle.importKey('raw', new TextEncoder().encode(password), 'PBKDF2', false, ['deriveBits']);
+  const bits = await crypto.subtle.deriveBits({ name: 'PBKDF2', salt, iterations: PBKDF2_ITERATIONS, hash: 'SHA-256' }, key, 256);
+  return toBase64(new Uint8Array(bits));
+};
+
+// Comparación en tiempo constante para no filtrar información por tiempos
+const safeEqual = (a: string, b: string) => {
+  if (a.length !== b.length) return false;
+  let diff = 0;
+  for (let i = 0; i < a.length; i++) diff |= a.charCodeAt(i) ^ b.charCodeAt(i);
+  return diff === 0;
+};
+
+/**
+ * SERVICIO DE AUTENTICACIÓN
+ * Hash PBKDF2 con sal por usuario, sesiones con expiración y bloqueo por intentos fallidos.
+ * La verificación y la emisión de sesiones ocurren en el backend; el navegador solo guarda
+ * el token de su sesión. Las contraseñas nunca se guardan en claro.
+ */
+export const AuthService = {
+  async hashPassword(password: string): Promise<Pick<User, 'passwordHash' | 'passwordSalt'>> {
+    const salt = randomBytes(16);
+    return { passwordHash: await derive(password, salt), passwordSalt: toBase64(salt) };
+  },
+
+  async verifyPassword(user: User, password: string): Promise<boolean> {
+    if (!user.passwordHash || !user.passwordSalt) return false;
+    return safeEqual(await derive(password, fromBase64(user.passwordSalt)), user.passwordHash);
+  },
+
+  validatePassword(password: string): string | null {
+    if (password.length < MIN_PASSWORD_LENGTH) return `La contraseña debe tener al menos ${MIN_PASSWORD_LENGTH} caracteres.`;
+    if (!/[0-9]/.test(password) || !/[A-Za-z]/.test(password)) return 'La contraseña debe combinar letras y números.';
+    return null;
+  },
+
+  isLocked(user: User): boolean {
+    return !!user.lockedUntil && new Date(user.lockedUntil).getTime() > Date.now();
+  },
+
+  // Se ejecuta en el backend. Bloqueo y cuenta deshabilitada solo se informan con la contraseña correcta
+  async authenticate(user: User | undefined, password: string): Promise<AuthResult> {
+    if (!user) {
+      // Mismo costo que una verificación real para no distinguir usuarios por tiempo de respuesta
+      await derive(password, randomBytes(16));
+      return { error: LOGIN_FAILED };
+    }
+    const valid = await this.verifyPassword(user, password);
+    if (this.isLocked(user)) return valid ? { error: `Cuenta bloqueada por intentos fallidos hasta ${new Date(user.lockedUntil as string).toLocaleTimeString('es-ES')}.` } : { error: LOGIN_FAILED };
+    if (!valid) {
+      const failedAttempts = (user.failedAttempts || 0) + 1;
+      if (failedAttempts >= MAX_FAILED_ATTEMPTS) return { user: { ...user, failedAttempts: 0, lockedUntil: new Date(Date.now() + LOCKOUT_MS).toISOString() }, error: LOGIN_FAILED };
+      return { user: { ...user, failedAttempts }, error: LOGIN_FAILED };
+    }
+    if (user.disabled) return { error: 'Cuenta deshabilitada. Contacte al administrador.' };
+    return { user: { ...user, failedAttempts: 0, lockedUntil: null } };
+  },
+
+  // --- SESIONES ---
+  // El backend emite el token y guarda solo su huella; el navegador lo envía en cada petición
+  createSession(user: User): AuthSession {
+    return {
+      token: toBase64(randomBytes(32)),
+      userId: user.id,
+      issuedAt: new Date().toISOString(),
+      expiresAt: new Date(Date.now() + SESSION_TTL_MS).toISOString(),
+    };
+  },
+
+  saveSession(session: AuthSession) {
+    localStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  },
+
+  getSession(): AuthSession | null {
+    const raw = localStorage.getItem(SESSION_KEY);
+    if (!raw) return null;
+    const session: AuthSession = JSON.parse(raw);
+    if (new Date(session.expiresAt).getTime() <= Date.now()) {
+      this.endSession();
+      return null;
+    }
+    return session;
+  },
+
+  endSession() {
+    localStorage.removeItem(SESSION_KEY);
+  },
+
+  // --- ADMINISTRACIÓN DE CREDENCIALES ---
+  async changePassword(user: User, newPassword: string): Promise<User> {
+    return { ...user, ...(await this.hashPassword(newPassword)), mustChangePassword: false, failedAttempts: 0, lockedUntil: null };
+  },
+
+  // Contraseña temporal asignada por un administrador: exige cambio al ingresar
+  async resetPassword(user: User, temporaryPassword: string): Promise<User> {
+    return { ...(await this.changePassword(user, temporaryPassword)), mustChangePassword: true };
+  },
+};
@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { AppSettings, Seal, SealStatus, User, UserRole } from '../types';
+import type { BackupData } from './api';
+import { BACKUP_VERSION, BackupService } from './backup';
+
+const settings: AppSettings = { title: 'Sellos', logo: null, sealTypes: ['Botella'], themeColor: '#003594' };
+const admin: User = { id: 'u1', username: 'ADMIN', fullName: 'Administrador', role: UserRole.ADMIN, organization: 'Org', city: 'BOGOTÁ' };
+
+const seal = (id: string, lastMovement = '2026-03-01T15:00:00.000Z', overrides: Partial<Seal> = {}): Seal => ({
+  uid: `u-${id}`, id, type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO, creationDate: '2026-03-01T15:00:00.000Z', lastMovement,
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ',
+  history: [{ date: lastMovement, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: 'Operador', details: 'Ingreso' }],
+  ...overrides,
+});
+
+const data: BackupData = { seals: [seal('S1')], users: [admin], cities: ['BOGOTÁ'], settings };
+
+describe('BackupService', () => {
+  it('lee un respaldo en claro y detecta si los datos fueron modificados', async () => {
+    const text = await BackupService.create(data);
+    expect(await BackupService.read(text)).toMatchObject({ version: BACKUP_VERSION, data });
+    const tampered = JSON.parse(text);
+    tampered.data.cities.push('CALI');
+    expect((await BackupService.read(JSON.stringify(tampered))).errors?.[0]).toMatch(/suma de verificación/);
+  });
+
+  it('cifra con la contraseña y solo la misma contraseña lo abre', async () => {
+    const text = await BackupService.create(data, 'clave-respaldo');
+    expect(text).not.toContain('Administrador');
+    expect(await BackupService.read(text)).toEqual({ version: BACKUP_VERSION, needsPassphrase: true });
+    expect((await BackupService.read(text, 'otra')).errors).toEqual(['Contraseña incorrecta o archivo dañado.']);
+    expect((await BackupService.read(text, 'clave-respaldo')).data).toEqual(data);
+  });
+
+  it('migra el volcado heredado: fechas locales a ISO, uid nuevo y colecciones vacías ausentes', async () => {
+    const { uid: _uid, ...legacy } = seal('S1', '14/1/2026, 7:45:36', { creationDate: '14/1/2026, 7:45:36' });
+    const result = await BackupService.read(JSON.stringify({ seals: [legacy], users: [], cities: ['BOGOTÁ'], settings: { title: 'Sellos', logo: null, sealTypes: ['Botella'] } }));
+    expect(result.version).toBe(1);
+    expect(result.data?.users).toBeUndefined();
+    expect(result.data?.settings?.themeColor).toBe('#003594');
+    const [migrated] = result.data?.seals || [];
+    expect(migrated.uid).toBeTruthy();
+    expect(migrated.lastMovement).toBe('2026-01-14T12:45:36.000Z');
+    expect(migrated.history[0].metadata).toBeDefined();
+  });
+
+  it('rechaza versiones futuras y reporta todos los errores de validación', async () => {
+    expect((await BackupService.read(JSON.stringify({ format: 'appsellos-backup', version: BACKUP_VERSION + 1 }))).errors?.[0]).toMatch(/solo admite hasta/);
+    expect(BackupService.validate({ seals: [{ ...seal('S1'), status: 'OTRO', lastMovement: '1/3/2026' }], users: [{ ...admin, passwordHash: 'x' }] })).toEqual([
+      'Precinto #1 (S1): "lastMovement" no es una fecha ISO-8601',
+      'Precinto #1 (S1): estado "OTRO" no válido',
+      'Usuario #1 (ADMIN): credenciales incompletas',
+    ]);
+    expect(BackupService.validate({ seals: [seal('S1'), { ...seal('S1'), uid: 'otro' }], users: [{ ...admin, disabled: true }] })).toEqual([
+      'Precinto repetido: S1 / Botella',
+      'El respaldo debe incluir al menos un administrador activo.',
+    ]);
+  });
+
+  it('al combinar une historiales, conserva la configuración vigente y resume los cambios', () => {
+    const current: BackupData = { ...data, settings: { ...settings, title: 'Vigente' } };
+    const moved = seal('S1', '2026-03-05T15:00:00.000Z', { uid: 'ajeno', status: SealStatus.ASIGNADO });
+    const incoming: BackupData = { seals: [moved, seal('S2')], users: [{ ...admin, id: 'u2' }], cities: ['CALI'], settings };
+    const { data: merged, diff, combinedHistories } = BackupService.plan(current, incoming, 'merge');
+    expect(combinedHistories).toBe(1);
+    const [s1] = merged.seals || [];
+    expect(s1).toMatchObject({ uid: 'u-S1', status: SealStatus.ASIGNADO });
+    expect(s1.history.map(h => h.date)).toEqual(['2026-03-05T15:00:00.000Z', '2026-03-01T15:00:00.000Z']);
+    expect(merged.users).toEqual([admin]);
+    expect(merged.cities).toEqual(['BOGOTÁ', 'CALI']);
+    expect(merged.settings?.title).toBe('Vigente');
+    expect(diff.find(d => d.label === 'Precintos')).toMatchObject({ added: 1, changed: 1, removed: 0 });
+    expect(BackupService.plan(current, { cities: ['CALI'] }, 'replace').diff.find(d => d.label === 'Usuarios')).toMatchObject({ included: false, unchanged: 1 });
+  });
+});
@@ -0,0 +1,317 @@
+import { AppSettings, MovementHistory, RestoreMode, Seal, SealStatus, UserRole } from '../types';
+import type { BackupData } from './api';
+import { Dates } from './dates';
+import { SealIdentity } from './identity';
+import { SealTransfers } from './transfers';
+import { SealStore } from './storage';
+
+const BACKUP_FORMAT = 'appsellos-backup';
+export const BACKUP_VERSION = 2;
+const PBKDF2_ITERATIONS = 250000;
+const DEFAULT_THEME_COLOR = '#003594';
+
+export const RESTORE_MODE_LABELS: Record<RestoreMode, string> = { replace: 'Reemplazar', merge: 'Combinar' };
+
+// Archivo de respaldo: los datos van en claro (`data`) o cifrados con la contraseña (`ciphertext`)
+interface BackupFile {
+  format: typeof BACKUP_FORMAT;
+  version: number;
+  exportedAt: string;
+  checksum: string; // SHA-256 (hex) del JSON compacto de los datos en claro
+  encryption?: { algorithm: 'AES-GCM'; kdf: 'PBKDF2-SHA256'; iterations: number; salt: string; iv: string };
+  data?: BackupData;
+  ciphertext?: string;
+}
+
+export interface BackupReadResult {
+  data?: BackupData; // Validado y migrado a BACKUP_VERSION
+  version?: number; // Versión del archivo antes de migrarlo (1 = volcado heredado sin versión)
+  exportedAt?: string;
+  needsPassphrase?: boolean;
+  errors?: string[];
+}
+
+export interface CollectionDiff {
+  label: string;
+  included: boolean; // false: el respaldo no trae la colección y la actual se conserva
+  added: number;
+  removed: number;
+  changed: number;
+  unchanged: number;
+}
+
+export interface RestorePlan {
+  data: BackupData; // Lo que se envía al backend
+  diff: CollectionDiff[];
+  combinedHistories: number; // Precintos presentes en ambos lados cuyo historial se completó (solo combinar)
+}
+
+// --- HELPERS ---
+
+const isObject = (value: unknown): value is Record<string, any> => !!value && typeof value === 'object' && !Array.isArray(value);
+const isString = (value: unknown): value is string => typeof value === 'string';
+
+const toBase64 = (bytes: Uint8Array) => {
+  let binary = '';
+  // Por bloques: un respaldo completo excede el límite de argumentos de fromCharCode
+  for (let i = 0; i < bytes.length; i += 0x8000) binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  return btoa(binary);
+};
+const fromBase64 = (value: string) => Uint8Array.from(atob(value), c => c.charCodeAt(0));
+const randomBytes = (length: number) => crypto.getRandomValues(new Uint8Array(length));
+
+const sha256 = async (text: string): Promise<string> =>
+  Array.from(new Uint8Array(await crypto.subtle.digest('SHA-256', new TextEncoder().encode(text))), b => b.toString(16).padStart(2, '0')).join('');
+
+const deriveKey = async (passphrase: string, salt: Uint8Array<ArrayBuffer>, iterations: number): Promise<CryptoKey> => {
+  const material = await crypto.subtle.importKey('raw', new TextEncoder().encode(passphrase), 'PBKDF2', false, ['deriveKey']);
+  return crypto.subtle.deriveKey({ name: 'PBKDF2', salt, iterations, hash: 'SHA-256' }, material, { name: 'AES-GCM', length: 256 }, false, ['encrypt', 'decrypt']);
+};
+
+const decrypt = async (file: BackupFile, passphrase: string): Promise<string> => {
+  const { salt, iv, iterations } = file.encryption as NonNullable<BackupFile['encryption']>;
+  const key = await deriveKey(passphrase, fromBase64(salt), iterations);
+  return new TextDecoder().decode(await crypto.subtle.decrypt({ name: 'AES-GCM', iv: fromBase64(iv) }, key, fromBase64(file.ciphertext || '')));
+};
+
+// JSON con las claves ordenadas: el mismo registro leído del backend o del archivo compara igual
+const canonical = (value: unknown) => JSON.stringify(value, (_key, v) => isObject(v) ? Object.fromEntries(Object.entries(v).sort(([a], [b]) => a < b ? -1 : a > b ? 1 : 0)) : v);
+
+const STATUSES: string[] = Object.values(SealStatus);
+const ROLES: string[] = Object.values(UserRole);
+
+const missingFields = (record: Record<string, any>, fields: string[], where: string) =>
+  fields.filter(f => !isString(record[f])).map(f => `${where}: falta el campo "${f}"`);
+
+const isoFields = (record: Record<string, any>, fields: string[], where: string) =>
+  fields.filter(f => record[f] !== undefined && !(isString(record[f]) && Dates.isIso(record[f]))).map(f => `${where}: "${f}" no es una fecha ISO-8601`);
+
+const isMovement = (h: unknown): h is MovementHistory => isObject(h) && isString(h.date) && Dates.isIso(h.date) && STATUSES.includes(h.toStatus)
+  && (h.fromStatus === null || STATUSES.includes(h.fromStatus)) && isString(h.user) && isString(h.details);
+
+const sealErrors = (s: unknown, index: number): string[] => {
+  const where = `Precinto #${index + 1}${isObject(s) && isString(s.id) ? ` (${s.id})` : ''}`;
+  if (!isObject(s)) return [`${where}: registro inválido`];
+  const errors = [
+    ...missingFields(s, ['uid', 'id', 'type', 'entryUser', 'orderNumber', 'containerId', 'notes', 'city'], where),
+    ...isoFields(s, ['creationDate', 'lastMovement', 'deletedAt'], where),
+  ];
+  if (!isString(s.creationDate) || !isString(s.lastMovement)) errors.push(`${where}: faltan las fechas de alta o último movimiento`);
+  if (!STATUSES.includes(s.status)) errors.push(`${where}: estado "${String(s.status)}" no válido`);
+  if (!Array.isArray(s.history)) errors.push(`${where}: historial inválido`);
+  else s.history.forEach((h: unknown, i: number) => { if (!isMovement(h)) errors.push(`${where}: movimiento #${i + 1} del historial inválido`); });
+  return errors;
+};
+
+const userErrors = (u: unknown, index: number): string[] => {
+  const where = `Usuario #${index + 1}${isObject(u) && isString(u.username) ? ` (${u.username})` : ''}`;
+  if (!isObject(u)) return [`${where}: registro inválido`];
+  const errors = missingFields(u, ['id', 'username', 'fullName', 'organization', 'city'], where);
+  if (!ROLES.includes(u.role)) errors.push(`${where}: rol "${String(u.role)}" no válido`);
+  // Los respaldos actuales no traen credenciales (el backend conserva las de cada usuario); las de respaldos antiguos deben venir completas
+  if ((u.passwordHash !== undefined || u.passwordSalt !== undefined) && !(isString(u.passwordHash) && isString(u.passwordSalt))) errors.push(`${where}: credenciales incompletas`);
+  if (u.password !== undefined && !isString(u.password)) errors.push(`${where}: contraseña inválida`);
+  return errors;
+};
+
+const settingsErrors = (s: unknown): string[] => {
+  if (!isObject(s)) return ['Configuración: registro inválido'];
+  const errors = missingFields(s, ['title', 'themeColor'], 'Configuración');
+  if (s.logo !== null && !isString(s.logo)) errors.push('Configuración: logo inválido');
+  if (!Array.isArray(s.sealTypes) || !s.sealTypes.every(isString)) errors.push('Configuración: los tipos de sello deben ser textos');
+  return errors;
+};
+
+// Registros con identificador y sede (lotes, traslados, despachos)
+const recordErrors = (label: string, cityFields: string[]) => (r: unknown, index: number): string[] => {
+  const where = `${label} #${index + 1}`;
+  return isObject(r) ? missingFields(r, ['id', ...cityFields], where) : [`${where}: registro inválido`];
+};
+
+const duplicates = <T>(items: T[], key: (item: T) => string): string[] => {
+  const seen = new Set<string>();
+  const repeated = new Set<string>();
+  items.map(key).forEach(k => seen.has(k) ? repeated.add(k) : seen.add(k));
+  return Array.from(repeated);
+};
+
+// Migraciones del contenido por versión de origen: cada una deja los datos en la versión siguiente
+const MIGRATIONS: Record<number, (data: Record<string, any>) => Record<string, any>> = {
+  // v1: volcado sin versión de localStorage. Las colecciones vacías eran copias locales ausentes,
+  // no inventarios vacíos; las fechas podían estar en formato local y los precintos sin uid.
+  1: ({ exportedAt: _exportedAt, ...data }) => {
+    const present = Object.fromEntries(Object.entries(data).filter(([, value]) => !Array.isArray(value) || value.length > 0));
+    const settings = isObject(data.settings) && isString(data.settings.title) ? { themeColor: DEFAULT_THEME_COLOR, ...data.settings } as AppSettings : undefined;
+    const seals = Array.isArray(present.seals) ? SealStore.migrate(present.seals, settings) : undefined;
+    const { settings: _settings, seals: _seals, ...rest } = present;
+    return { ...rest, ...(settings ? { settings } : {}), ...(seals ? { seals } : {}) };
+  },
+};
+
+// Mismo precinto en ambos lados: historial unido sin duplicados y estado del lado con el movimiento más reciente
+const mergeSeal = (current: Seal, incoming: Seal): Seal => {
+  const entries = new Map([...current.history, ...incoming.history].map(h => [`${h.date}\u0000${h.fromStatus}\u0000${h.toStatus}\u0000${h.user}`, h]));
+  const latest = incoming.lastMovement > current.lastMovement ? incoming : current;
+  return { ...latest, uid: current.uid, history: Array.from(entries.values()).sort((a, b) => b.date.localeCompare(a.date)) };
+};
+
+// Precintos por código y tipo; un uid ajeno que choca con otro precinto recibe uno nuevo
+const mergeSeals = (current: Seal[], incoming: Seal[]): { seals: Seal[]; combined: number } => {
+  const merged = new Map(current.map(s => [SealTransfers.keyOf(s), s]));
+  const uids = new Set(current.map(s => s.uid));
+  let combined = 0;
+  incoming.forEach(seal => {
+    const key = SealTransfers.keyOf(seal);
+    const match = merged.get(key);
+    if (!match) {
+      const uid = uids.has(seal.uid) ? SealIdentity.create() : seal.uid;
+      uids.add(uid);
+      merged.set(key, { ...seal, uid });
+      return;
+    }
+    const result = mergeSeal(match, seal);
+    if (result.history.length > match.history.length) combined++;
+    merged.set(key, result);
+  });
+  return { seals: Array.from(merged.values()), combined };
+};
+
+// Une colecciones conservando los registros actuales; los del respaldo entran si no chocan con ninguna clave
+const unite = <T>(current: T[] | undefined, incoming: T[] | undefined, keys: ((item: T) => string)[]): T[] | undefined => {
+  if (!incoming) return current;
+  const taken = keys.map(key => new Set((current || []).map(key)));
+  return [...(current || []), ...incoming.filter(item => keys.every((key, i) => !taken[i].has(key(item))))];
+};
+
+const compare = <T>(label: string, current: T[] | undefined, next: T[] | undefined, key: (item: T) => string, signature: (item: T) => string = canonical): CollectionDiff => {
+  if (!next) return { label, included: false, added: 0, removed: 0, changed: 0, unchanged: current?.length || 0 };
+  const before = new Map((current || []).map(item => [key(item), signature(item)]));
+  const after = new Set<string>();
+  const diff: CollectionDiff = { label, included: true, added: 0, removed: 0, changed: 0, unchanged: 0 };
+  next.forEach(item => {
+    const k = key(item);
+    after.add(k);
+    const previous = before.get(k);
+    if (previous === undefined) diff.added++;
+    else if (previous === signature(item)) diff.unchanged++;
+    else diff.changed++;
+  });
+  diff.removed = Array.from(before.keys()).filter(k => !after.has(k)).length;
+  return diff;
+};
+
+/**
+ * RESPALDOS VERSIONADOS
+ * El archivo lleva formato, versión y suma SHA-256 de los datos, y opcionalmente los cifra
+ * con AES-GCM y una clave derivada de la contraseña (PBKDF2). Al restaurar se verifica,
+ * se migra a la versión actual y se valida antes de calcular el plan que se aplicará.
+ */
+export const BackupService = {
+  async create(data: BackupData, passphrase?: string): Promise<string> {
+    const payload = JSON.stringify(data);
+    const header = { format: BACKUP_FORMAT, version: BACKUP_VERSION, exportedAt: Dates.now(), checksum: await sha256(payload) };
+    if (!passphrase) return JSON.stringify({ ...header, data }, null, 2);
+    const salt = randomBytes(16);
+    const iv = randomBytes(12);
+    const key = await deriveKey(passphrase, salt, PBKDF2_ITERATIONS);
+    const ciphertext = new Uint8Array(await crypto.subtle.encrypt({ name: 'AES-GCM', iv }, key, new TextEncoder().encode(payload)));
+    const encryption = { algorithm: 'AES-GCM', kdf: 'PBKDF2-SHA256', iterations: PBKDF2_ITERATIONS, salt: toBase64(salt), iv: toBase64(iv) };
+    return JSON.stringify({ ...header, encryption, ciphertext: toBase64(ciphertext) }, null, 2);
+  },
+
+  async read(text: string, passphrase?: string): Promise<BackupReadResult> {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(text);
+    } catch {
+      return { errors: ['El archivo no es un JSON válido.'] };
+    }
+    if (!isObject(parsed)) return { errors: ['Archivo de respaldo inválido.'] };
+    let version = 1;
+    let content: unknown = parsed;
+    let exportedAt = isString(parsed.exportedAt) ? parsed.exportedAt : undefined;
+    if (parsed.format === BACKUP_FORMAT) {
+      const file = parsed as BackupFile;
+      version = file.version;
+      if (!Number.isInteger(version) || version < 2) return { errors: ['Versión de respaldo inválida.'] };
+      if (version > BACKUP_VERSION) return { version, errors: [`El respaldo es de la versión ${version} y esta aplicación solo admite hasta la ${BACKUP_VERSION}. Actualice la aplicación.`] };
+      let payload: string;
+      if (file.encryption) {
+        if (!passphrase) return { version, needsPassphrase: true };
+        try {
+          payload = await decrypt(file, passphrase);
+        } catch {
+          return { version, needsPassphrase: true, errors: ['Contraseña incorrecta o archivo dañado.'] };
+        }
+      } else payload = JSON.stringify(file.data);
+      if (await sha256(payload) !== file.checksum) return { version, errors: ['La suma de verificación no coincide: el archivo fue modificado o está dañado.'] };
+      content = JSON.parse(payload);
+    } else if (!['seals', 'users', 'cities', 'settings'].some(key => key in parsed)) {
+      return { errors: ['El archivo no es un respaldo de la aplicación.'] };
+    }
+    if (!isObject(content)) return { version, errors: ['El respaldo no contiene datos.'] };
+    let migrated: Record<string, any> = content;
+    try {
+      for (let v = version; v < BACKUP_VERSION; v++) migrated = MIGRATIONS[v](migrated);
+    } catch {
+      return { version, errors: [`No fue posible migrar el respaldo de la versión ${version}: su contenido está incompleto.`] };
+    }
+    const errors = this.validate(migrated);
+    return errors.length > 0 ? { version, errors } : { version, exportedAt, data: migrated as BackupData };
+  },
+
+  // Comprueba la forma de cada colección contra los tipos de la app; devuelve todos los errores encontrados
+  validate(data: Record<string, any>): string[] {
+    const errors: string[] = [];
+    const list = (key: string, check: (item: unknown, index: number) => string[]) => {
+      if (data[key] === undefined) return;
+      if (!Array.isArray(data[key])) errors.push(`"${key}" debe ser una lista.`);
+      else data[key].forEach((item: unknown, i: number) => errors.push(...check(item, i)));
+    };
+    list('seals', sealErrors);
+    list('users', userErrors);
+    list('cities', (c, i) => isString(c) && c.trim() ? [] : [`Sede #${i + 1}: nombre inválido`]);
+    list('lots', recordErrors('Lote', ['city']));
+    list('transfers', recordErrors('Traslado', ['origin', 'destination']));
+    list('shipments', recordErrors('Despacho', ['orderNumber', 'city']));
+    if (data.settings !== undefined) errors.push(...settingsErrors(data.settings));
+    if (errors.length > 0) return errors;
+    const seals: Seal[] = data.seals || [];
+    duplicates(seals, SealTransfers.keyOf).forEach(k => errors.push(`Precinto repetido: ${k.replace('\u0000', ' / ')}`));
+    duplicates(seals, s => s.uid).forEach(uid => errors.push(`Identificador interno repetido: ${uid}`));
+    if (data.users) {
+      duplicates(data.users as { username: string }[], u => u.username).forEach(username => errors.push(`Usuario repetido: ${username}`));
+      if (!data.users.some((u: { role: UserRole; disabled?: boolean }) => u.role === UserRole.ADMIN && !u.disabled)) errors.push('El respaldo debe incluir al menos un administrador activo.');
+    }
+    return errors;
+  },
+
+  // Datos a aplicar y resumen de cambios frente al estado actual
+  plan(current: BackupData, incoming: BackupData, mode: RestoreMode): RestorePlan {
+    let data = incoming;
+    let combinedHistories = 0;
+    if (mode === 'merge') {
+      const seals = incoming.seals && mergeSeals(current.seals || [], incoming.seals);
+      combinedHistories = seals?.combined || 0;
+      data = {
+        seals: seals ? seals.seals : current.seals,
+        users: unite(current.users, incoming.users, [u => u.id, u => u.username]),
+        cities: unite(current.cities, incoming.cities, [c => c]),
+        lots: unite(current.lots, incoming.lots, [l => l.id]),
+        transfers: unite(current.transfers, incoming.transfers, [t => t.id]),
+        shipments: unite(current.shipments, incoming.shipments, [s => s.id, s => s.orderNumber]),
+        settings: current.settings || incoming.settings, // La configuración vigente se conserva
+      };
+    }
+    const diff = [
+      compare('Precintos', current.seals, data.seals, SealTransfers.keyOf, ({ uid: _uid, ...seal }) => canonical(seal)),
+      compare('Usuarios', current.users, data.users, u => u.username),
+      compare('Sedes', current.cities, data.cities, c => c, c => c),
+      compare('Lotes', current.lots, data.lots, l => l.id),
+      compare('Traslados', current.transfers, data.transfers, t => t.id),
+      compare('Despachos', current.shipments, data.shipments, s => s.id),
+      compare('Configuración', current.settings && [current.settings], data.settings && [data.settings], () => 'app'),
+    ];
+    return { data, diff, combinedHistories };
+  },
+};
@@ -0,0 +1,54 @@
+import { describe, expect, it } from 'vitest';
+import { CycleCount, SealStatus, User, UserRole } from '../types';
+import { CycleCounts } from './cycleCounts';
+
+const user = (fullName: string, role: UserRole): User => ({ id: fullName, username: fullName, fullName, role, organization: 'Org', city: 'BOGOTÁ' });
+const counter = user('Contador', UserRole.OPERADOR_BODEGA);
+const supervisor = user('Supervisor', UserRole.ADMIN);
+
+const open: CycleCount = {
+  id: 'CNT-1', city: 'BOGOTÁ', status: 'EN_CURSO',
+  expected: [{ id: 'S1', type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO }],
+  counted: [{ id: 'S1', type: 'Botella', countedBy: 'Contador', countedAt: '2026-03-01T15:00:00.000Z' }],
+  createdBy: 'Contador', createdAt: '2026-03-01T14:00:00.000Z',
+};
+const pending: CycleCount = { ...open, status: 'POR_APROBAR', closedBy: 'Contador', closedAt: '2026-03-01T16:00:00.000Z' };
+
+describe('CycleCounts.validateTransition', () => {
+  it('solo el supervisor aprueba, anula o reabre', () => {
+    expect(CycleCounts.validateTransition(open, { ...open, status: 'POR_APROBAR' }, counter)).toBeNull();
+    expect(CycleCounts.validateTransition(pending, { ...pending, status: 'APROBADO' }, counter)).toMatch(/no está autorizado para aprobar/);
+    expect(CycleCounts.validateTransition(open, { ...open, status: 'ANULADO', notes: 'Error' }, counter)).toMatch(/no está autorizado/);
+    expect(CycleCounts.validateTransition(pending, { ...pending, status: 'EN_CURSO' }, counter)).toMatch(/no está autorizado/);
+    expect(CycleCounts.validateTransition(pending, { ...pending, status: 'APROBADO' }, supervisor)).toBeNull();
+  });
+
+  it('impide que quien realizó el conteo lo apruebe', () => {
+    const selfCounted = { ...pending, counted: [...pending.counted, { id: 'S2', type: 'Botella', countedBy: 'Supervisor', countedAt: '2026-03-01T15:30:00.000Z' }] };
+    expect(CycleCounts.validateTransition(selfCounted, { ...selfCounted, status: 'APROBADO' }, supervisor)).toMatch(/distinto de quien lo realizó/);
+    expect(CycleCounts.validateTransition(selfCounted, { ...selfCounted, status: 'ANULADO', notes: 'Repetir' }, supervisor)).toBeNull();
+  });
+
+  it('rechaza saltos de estado, conteos nuevos ya cerrados y anulaciones sin motivo', () => {
+    expect(CycleCounts.validateTransition(open, { ...open, status: 'APROBADO' }, supervisor)).toMatch(/no puede pasar/);
+    expect(CycleCounts.validateTransition(undefined, { ...open, status: 'APROBADO' }, supervisor)).toMatch(/debe iniciar en curso/);
+    expect(CycleCounts.validateTransition(pending, { ...pending, status: 'ANULADO' }, supervisor)).toMatch(/motivo/);
+  });
+});
+
+describe('CycleCounts.stamp', () => {
+  it('pone la autoría y las fechas de cada paso sin confiar en el cuerpo recibido', () => {
+    const forged = { ...pending, status: 'APROBADO' as const, approvedBy: 'Otro', approvedAt: '2020-01-01T00:00:00.000Z', createdBy: 'Otro', counted: [] };
+    const approved = CycleCounts.stamp(pending, forged, supervisor, '2026-03-02T10:00:00.000Z');
+    expect(approved).toMatchObject({ approvedBy: 'Supervisor', approvedAt: '2026-03-02T10:00:00.000Z', createdBy: 'Contador', closedBy: 'Contador', closedAt: pending.closedAt });
+    expect(approved.counted).toEqual(pending.counted);
+  });
+
+  it('registra al usuario de la sesión en el cierre y en las lecturas nuevas', () => {
+    const next = { ...open, status: 'POR_APROBAR' as const, closedBy: 'Otro', counted: [{ id: 'S9', type: '', countedBy: 'Otro', countedAt: '2026-03-01T15:10:00.000Z' }, ...open.counted] };
+    const closed = CycleCounts.stamp(open, next, counter, '2026-03-01T16:00:00.000Z');
+    expect(closed).toMatchObject({ closedBy: 'Contador', closedAt: '2026-03-01T16:00:00.000Z' });
+    expect(closed.counted.map(c => c.countedBy)).toEqual(['Contador', 'Contador']);
+    expect(CycleCounts.stamp(pending, { ...pending, status: 'EN_CURSO' }, supervisor, '2026-03-02T10:00:00.000Z')).not.toHaveProperty('closedBy');
+  });
+});
@@ -0,0 +1,140 @@
+import { CountedSeal, CycleCount, CycleCountStatus, MovementMetadata, Seal, SealStatus, User } from '../types';
+import { can } from './permissions';
+import { AVAILABLE_STATUSES } from './stock';
+import { SealTransfers } from './transfers';
+import { Dates } from './dates';
+
+type SealKey = { id: string; type: string };
+
+export interface CountDiscrepancy {
+  key: SealKey;
+  seal?: Seal; // Ausente si el código leído no existe en el sistema
+  reason: string;
+}
+
+export interface CountReconciliation {
+  matched: CountedSeal[];
+  missing: CountDiscrepancy[]; // Esperados que no se encontraron y siguen disponibles en la sede
+  unexpected: CountDiscrepancy[]; // Encontrados que no figuraban en la foto (no registrados o en otro estado)
+  wrongCity: CountDiscrepancy[]; // Encontrados que pertenecen a otra sede
+  moved: CountDiscrepancy[]; // Esperados no encontrados que se movieron legítimamente durante el conteo
+}
+
+const { keyOf } = SealTransfers;
+
+// Cambios de estado permitidos desde cada estado del conteo
+const COUNT_TRANSITIONS: Record<CycleCountStatus, CycleCountStatus[]> = {
+  EN_CURSO: ['EN_CURSO', 'POR_APROBAR', 'ANULADO'],
+  POR_APROBAR: ['EN_CURSO', 'APROBADO', 'ANULADO'],
+  APROBADO: [],
+  ANULADO: [],
+};
+
+// Aprobar, anular y reabrir corresponden al supervisor; contar y cerrar, al operador
+const needsApproval = (from: CycleCountStatus | undefined, to: CycleCountStatus) =>
+  to === 'APROBADO' || to === 'ANULADO' || (from === 'POR_APROBAR' && to === 'EN_CURSO');
+
+/**
+ * CONTEOS FÍSICOS (CICLO)
+ * Un conteo toma la foto de los precintos disponibles de una sede, recibe las lecturas
+ * de lo que se encuentra físicamente y concilia ambas listas. Los ajustes que aprueba el
+ * supervisor se registran como movimientos normales (ver ApiService.updateSealStatus).
+ */
+export const CycleCounts = {
+  create(seals: Seal[], city: string, user: User): CycleCount {
+    return {
+      id: `CNT-${Date.now().toString(36).toUpperCase()}`,
+      city,
+      status: 'EN_CURSO',
+      expected: seals.filter(s => s.city === city && !s.deletedAt && AVAILABLE_STATUSES.includes(s.status)).map(s => ({ id: s.id, type: s.type, status: s.status })),
+      counted: [],
+      createdBy: user.fullName,
+      createdAt: Dates.now(),
+    };
+  },
+
+  // Identifica el código leído: primero entre lo esperado, luego en el inventario (prefiriendo la sede del conteo)
+  resolve(count: CycleCount, seals: Seal[], code: string): SealKey {
+    const counted = new Set(count.counted.map(keyOf));
+    const expected = count.expected.filter(k => k.id === code);
+    const pending = expected.find(k => !counted.has(keyOf(k))) || expected[0];
+    if (pending) return { id: pending.id, type: pending.type };
+    const matches = seals.filter(s => s.id === code && !s.deletedAt);
+    const seal = matches.find(s => s.city === count.city) || matches[0];
+    return { id: code, type: seal?.type || '' };
+  },
+
+  // Registra una lectura; null si el precinto ya estaba contado
+  record(count: CycleCount, seals: Seal[], code: string, user: string): CycleCount | null {
+    const key = this.resolve(count, seals, code);
+    if (count.counted.some(c => keyOf(c) === keyOf(key))) return null;
+    return { ...count, counted: [{ ...key, countedBy: user, countedAt: Dates.now() }, ...count.counted] };
+  },
+
+  reconcile(count: CycleCount, seals: Seal[]): CountReconciliation {
+    const byKey = new Map(seals.filter(s => !s.deletedAt).map(s => [keyOf(s), s]));
+    const expectedKeys = new Set(count.expected.map(keyOf));
+    const countedKeys = new Set(count.counted.map(keyOf));
+    const result: CountReconciliation = { matched: [], missing: [], unexpected: [], wrongCity: [], moved: [] };
+    count.counted.forEach(c => {
+      if (expectedKeys.has(keyOf(c))) return result.matched.push(c);
+      const seal = byKey.get(keyOf(c));
+      const key = { id: c.id, type: c.type };
+      if (!seal) result.unexpected.push({ key, reason: 'No registrado en el sistema' });
+      else if (seal.city !== count.city) result.wrongCity.push({ key, seal, reason: `Pertenece a ${seal.city} (${seal.status.replace('_', ' ')})` });
+      else result.unexpected.push({ key, seal, reason: `Registrado como ${seal.status.replace('_', ' ')}` });
+    });
+    count.expected.filter(k => !countedKeys.has(keyOf(k))).forEach(k => {
+      const seal = byKey.get(keyOf(k));
+      const key = { id: k.id, type: k.type };
+      // Solo es faltante si sigue disponible en la sede; si cambió, el movimiento lo explica
+      if (seal && seal.city === count.city && AVAILABLE_STATUSES.includes(seal.status)) result.missing.push({ key, seal, reason: `Esperado en ${k.status.replace('_', ' ')}` });
+      else result.moved.push({ key, ...(seal ? { seal } : {}), reason: seal ? `Ahora ${seal.status.replace('_', ' ')} en ${seal.city}` : 'Eliminado durante el conteo' });
+    });
+    return result;
+  },
+
+  // Quienes abrieron, contaron o cerraron el conteo (no pueden aprobarlo)
+  performers(count: CycleCount): Set<string> {
+    return new Set([count.createdBy, ...(count.closedBy ? [count.closedBy] : []), ...count.counted.map(c => c.countedBy)]);
+  },
+
+  // Comprueba el cambio de estado y el permiso del usuario; null si procede
+  validateTransition(previous: CycleCount | undefined, next: CycleCount, user: User): string | null {
+    if (!previous && next.status !== 'EN_CURSO') return 'Un conteo nuevo debe iniciar en curso.';
+    if (previous && !COUNT_TRANSITIONS[previous.status].includes(next.status)) return `El conteo ${next.id} no puede pasar de ${previous.status.replace('_', ' ')} a ${next.status.replace('_', ' ')}.`;
+    const permission = needsApproval(previous?.status, next.status) ? 'count.approve' : 'count.perform';
+    if (!can(user, permission)) return `El rol ${user.role} no está autorizado para ${permission === 'count.approve' ? 'aprobar, anular o reabrir' : 'realizar'} conteos.`;
+    if (next.status === 'ANULADO' && !next.notes?.trim()) return 'Indique el motivo de la anulación.';
+    // Separación de funciones: quien realizó el conteo no lo aprueba
+    if (previous && next.status === 'APROBADO' && this.performers(previous).has(user.fullName)) return 'El conteo debe aprobarlo un usuario distinto de quien lo realizó.';
+    return null;
+  },
+
+  // Conteo a guardar: la autoría y las fechas de cada paso las pone quien guarda, no el que envía el conteo
+  stamp(previous: CycleCount | undefined, next: CycleCount, user: User, now: string): CycleCount {
+    const { closedBy: _closedBy, closedAt: _closedAt, approvedBy: _approvedBy, approvedAt: _approvedAt, adjusted, ...rest } = next;
+    const known = new Set((previous?.counted || []).map(keyOf));
+    // Las lecturas solo cambian mientras el conteo está en curso
+    const counted = !previous || previous.status === 'EN_CURSO'
+      ? next.counted.map(c => known.has(keyOf(c)) ? c : { ...c, countedBy: user.fullName })
+      : previous.counted;
+    const kept = previous?.closedBy ? { closedBy: previous.closedBy, closedAt: previous.closedAt } : {};
+    const closed = next.status === 'EN_CURSO' ? {} : next.status === 'POR_APROBAR' && previous?.status !== 'POR_APROBAR' ? { closedBy: user.fullName, closedAt: now } : kept;
+    return {
+      ...rest,
+      counted,
+      expected: previous ? previous.expected : next.expected,
+      createdBy: previous ? previous.createdBy : user.fullName,
+      createdAt: previous ? previous.createdAt : now,
+      ...closed,
+      ...(next.status === 'APROBADO' || next.status === 'ANULADO' ? { approvedBy: user.fullName, approvedAt: now } : {}),
+      ...(next.status === 'APROBADO' && adjusted ? { adjusted } : {}),
+    };
+  },
+
+  // Datos del movimiento de ajuste con el que se dan de baja los faltantes
+  adjustment(count: CycleCount, batch: boolean): { status: SealStatus; metadata: MovementMetadata } {
+    return { status: SealStatus.DESTRUIDO, metadata: { batch, destructionReason: `Faltante en conteo ${count.id}` } };
+  },
+};
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { AppSettings, Seal, SealStatus } from '../types';
+import { DEFAULT_TIME_ZONE, Dates } from './dates';
+
+const settings: AppSettings = { title: 'Sellos', logo: null, sealTypes: ['Botella'], themeColor: '#003594', cityTimeZones: { MADRID: 'Europe/Madrid' } };
+
+const seal = (city: string, date: string): Seal => ({
+  uid: `u-${city}`, id: 'S1', type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO, creationDate: date, lastMovement: date,
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city,
+  history: [{ date, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: 'Operador', details: 'Ingreso' }],
+});
+
+afterEach(() => Dates.configure({ timeZone: DEFAULT_TIME_ZONE }));
+
+describe('Dates', () => {
+  it('convierte fechas heredadas a ISO según la zona, incluido el horario de verano', () => {
+    expect(Dates.toIso('14/1/2026, 7:45:36', 'America/Bogota')).toBe('2026-01-14T12:45:36.000Z');
+    expect(Dates.toIso('14/01/2026 07:45', 'Europe/Madrid')).toBe('2026-01-14T06:45:00.000Z');
+    expect(Dates.toIso('14/07/2026 07:45', 'Europe/Madrid')).toBe('2026-07-14T05:45:00.000Z');
+  });
+
+  it('deja intactas las fechas ISO y el texto no interpretable', () => {
+    expect(Dates.toIso('2026-01-14T12:45:36.000Z', 'Europe/Madrid')).toBe('2026-01-14T12:45:36.000Z');
+    expect(Dates.toIso('sin fecha')).toBe('sin fecha');
+    expect(Dates.toIso('')).toBe('');
+  });
+
+  it('migra cada sello con la zona de su sede', () => {
+    const [bogota, madrid] = Dates.migrateSeals([seal('BOGOTÁ', '14/1/2026, 7:45:36'), { ...seal('MADRID', '14/1/2026, 7:45:36'), deletedAt: '15/1/2026, 8:00:00' }], settings);
+    expect(bogota.creationDate).toBe('2026-01-14T12:45:36.000Z');
+    expect(bogota.history[0].date).toBe('2026-01-14T12:45:36.000Z');
+    expect(bogota.deletedAt).toBeUndefined();
+    expect(madrid.lastMovement).toBe('2026-01-14T06:45:36.000Z');
+    expect(madrid.deletedAt).toBe('2026-01-15T07:00:00.000Z');
+  });
+
+  it('calcula los límites del día y agrupa por día en la zona indicada', () => {
+    expect(Dates.startOfDay('2026-03-01', 'America/Bogota')).toBe('2026-03-01T05:00:00.000Z');
+    expect(Dates.endOfDay('2026-03-01', 'America/Bogota')).toBe('2026-03-02T04:59:59.999Z');
+    expect(Dates.toDay('2026-03-02T04:00:00.000Z', 'America/Bogota')).toBe('2026-03-01');
+    expect(Dates.toDay('2026-03-02T04:00:00.000Z', 'Europe/Madrid')).toBe('2026-03-02');
+  });
+
+  it('filtra rangos inclusivos en la zona de presentación', () => {
+    Dates.configure({ timeZone: 'America/Bogota' });
+    expect(Dates.inRange('2026-03-02T04:00:00.000Z', '2026-03-01', '2026-03-01')).toBe(true);
+    expect(Dates.inRange('2026-03-02T05:00:00.000Z', '2026-03-01', '2026-03-01')).toBe(false);
+    expect(Dates.inRange('2026-03-02T05:00:00.000Z', '', '')).toBe(true);
+    Dates.configure({ timeZone: 'Europe/Madrid' });
+    expect(Dates.inRange('2026-03-02T04:00:00.000Z', '2026-03-01', '2026-03-01')).toBe(false);
+  });
+});
@@ -0,0 +1,154 @@
+import { AppSettings, Seal } from '../types';
+
+export const DEFAULT_TIME_ZONE = 'America/Bogota';
+
+// Zonas horarias ofrecidas al configurar las sedes
+export const TIME_ZONES = [
+  'America/Bogota',
+  'America/Lima',
+  'America/Panama',
+  'America/Mexico_City',
+  'America/Caracas',
+  'America/Santiago',
+  'America/Argentina/Buenos_Aires',
+  'America/Sao_Paulo',
+  'America/New_York',
+  'Europe/Madrid',
+  'UTC',
+];
+
+// Formato heredado de toLocaleString('es-ES'): "14/1/2026, 7:45:36" o "14/01/2026 07:45:36"
+const LEGACY_PATTERN = /^(\d{1,2})\/(\d{1,2})\/(\d{4}),?\s+(\d{1,2}):(\d{2})(?::(\d{2}))?$/;
+const ISO_PATTERN = /^\d{4}-\d{2}-\d{2}T\d{2}:\d{2}:\d{2}(\.\d+)?Z$/;
+const DAY_PATTERN = /^(\d{4})-(\d{2})-(\d{2})$/;
+const INPUT_PATTERN = /^(\d{4})-(\d{2})-(\d{2})T(\d{2}):(\d{2})/;
+
+let displayTimeZone = DEFAULT_TIME_ZONE;
+let displayLocale = typeof navigator !== 'undefined' ? navigator.language : 'es-ES';
+
+// Diferencia (ms) entre la hora de pared de la zona y UTC en un instante dado
+const zoneOffset = (utcMs: number, timeZone: string): number => {
+  const parts = new Intl.DateTimeFormat('en-US', {
+    timeZone, hourCycle: 'h23', year: 'numeric', month: 'numeric', day: 'numeric', hour: 'numeric', minute: 'numeric', second: 'numeric',
+  }).formatToParts(new Date(utcMs));
+  const get = (type: Intl.DateTimeFormatPartTypes) => Number(parts.find(p => p.type === type)?.value);
+  return Date.UTC(get('year'), get('month') - 1, get('day'), get('hour'), get('minute'), get('second')) - Math.floor(utcMs / 1000) * 1000;
+};
+
+// Instante UTC que corresponde a una hora de pared en la zona indicada
+const fromWallClock = (year: number, month: number, day: number, hour: number, minute: number, second: number, ms: number, timeZone: string): Date => {
+  const wall = Date.UTC(year, month - 1, day, hour, minute, second, ms);
+  const guess = wall - zoneOffset(wall, timeZone);
+  // Segunda pasada para los cambios de horario de verano
+  return new Date(wall - zoneOffset(guess, timeZone));
+};
+
+/**
+ * MODELO DE FECHAS
+ * Todas las fechas se guardan como ISO-8601 en UTC y solo se formatean al mostrarlas,
+ * según el idioma del usuario y la zona horaria de su sede.
+ */
+export const Dates = {
+  now(): string {
+    return new Date().toISOString();
+  },
+
+  isIso(value: string): boolean {
+    return ISO_PATTERN.test(value);
+  },
+
+  // Ajusta la zona y el idioma de presentación (sede y navegador del usuario activo)
+  configure(options: { timeZone?: string; locale?: string }) {
+    if (options.timeZone) displayTimeZone = options.timeZone;
+    if (options.locale) displayLocale = options.locale;
+  },
+
+  getTimeZone(): string {
+    return displayTimeZone;
+  },
+
+  timeZoneFor(city: string, settings?: AppSettings | null): string {
+    return settings?.cityTimeZones?.[city] || DEFAULT_TIME_ZONE;
+  },
+
+  // Convierte fechas heredadas en formato local a ISO; devuelve el texto original si no es interpretable
+  toIso(value: string, timeZone = DEFAULT_TIME_ZONE): string {
+    if (!value || this.isIso(value)) return value;
+    const legacy = LEGACY_PATTERN.exec(value.trim());
+    if (legacy) {
+      const [, d, m, y, h, mi, s] = legacy.map(Number);
+      return fromWallClock(y, m, d, h, mi, s || 0, 0, timeZone).toISOString();
+    }
+    const parsed = Date.parse(value);
+    return Number.isNaN(parsed) ? value : new Date(parsed).toISOString();
+  },
+
+  format(value: string | null | undefined): string {
+    if (!value) return '';
+    const date = new Date(this.toIso(value, displayTimeZone));
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleString(displayLocale, { timeZone: displayTimeZone, dateStyle: 'short', timeStyle: 'medium' });
+  },
+
+  formatDate(value: string | null | undefined): string {
+    if (!value) return '';
+    const date = new Date(this.toIso(value, displayTimeZone));
+    if (Number.isNaN(date.getTime())) return value;
+    return date.toLocaleDateString(displayLocale, { timeZone: displayTimeZone });
+  },
+
+  // Día de la semana (0 = domingo) y hora local de un instante en la zona indicada
+  localParts(value: string, timeZone = displayTimeZone): { weekday: number; hour: number; minute: number } {
+    const parts = new Intl.DateTimeFormat('en-US', { timeZone, hourCycle: 'h23', weekday: 'short', hour: 'numeric', minute: 'numeric' }).formatToParts(new Date(this.toIso(value, timeZone)));
+    const get = (type: Intl.DateTimeFormatPartTypes) => parts.find(p => p.type === type)?.value || '';
+    return { weekday: ['Sun', 'Mon', 'Tue', 'Wed', 'Thu', 'Fri', 'Sat'].indexOf(get('weekday')), hour: Number(get('hour')), minute: Number(get('minute')) };
+  },
+
+  // Día 'YYYY-MM-DD' de un instante en la zona indicada (agrupaciones por día)
+  toDay(value: string, timeZone = displayTimeZone): string {
+    const date = new Date(this.toIso(value, timeZone));
+    if (Number.isNaN(date.getTime())) return '';
+    return new Intl.DateTimeFormat('en-CA', { timeZone, year: 'numeric', month: '2-digit', day: '2-digit' }).format(date);
+  },
+
+  // Límites de un día 'YYYY-MM-DD' (input type="date"), por defecto en la zona de presentación
+  startOfDay(day: string, timeZone = displayTimeZone): string {
+    const [, y, m, d] = (DAY_PATTERN.exec(day) || []).map(Number);
+    return fromWallClock(y, m, d, 0, 0, 0, 0, timeZone).toISOString();
+  },
+
+  endOfDay(day: string, timeZone = displayTimeZone): string {
+    const [, y, m, d] = (DAY_PATTERN.exec(day) || []).map(Number);
+    return fromWallClock(y, m, d, 23, 59, 59, 999, timeZone).toISOString();
+  },
+
+  // Valor de un input type="datetime-local" ('YYYY-MM-DDTHH:mm') interpretado en la zona indicada
+  fromInputValue(value: string, timeZone = displayTimeZone): string {
+    const [, y, m, d, h, mi] = (INPUT_PATTERN.exec(value) || []).map(Number);
+    return fromWallClock(y, m, d, h, mi, 0, 0, timeZone).toISOString();
+  },
+
+  toInputValue(value: string, timeZone = displayTimeZone): string {
+    const { hour, minute } = this.localParts(value, timeZone);
+    return `${this.toDay(value, timeZone)}T${String(hour).padStart(2, '0')}:${String(minute).padStart(2, '0')}`;
+  },
+
+  // Rango inclusivo; un límite vacío no restringe
+  inRange(value: string, from: string, to: string): boolean {
+    const iso = this.toIso(value, displayTimeZone);
+    return (!from || iso >= this.startOfDay(from)) && (!to || iso <= this.endOfDay(to));
+  },
+
+  migrateSeals(seals: Seal[], settings?: AppSettings | null): Seal[] {
+    return seals.map(seal => {
+      const zone = this.timeZoneFor(seal.city, settings);
+      return {
+        ...seal,
+        creationDate: this.toIso(seal.creationDate, zone),
+        lastMovement: this.toIso(seal.lastMovement, zone),
+        history: seal.history.map(h => ({ ...h, date: this.toIso(h.date, zone) })),
+        ...(seal.deletedAt ? { deletedAt: this.toIso(seal.deletedAt, zone) } : {}),
+      };
+    });
+  },
+};
@@ -0,0 +1,25 @@
+import { describe, expect, it } from 'vitest';
+import { MovementHistory, Seal, SealStatus } from '../types';
+import { Documents } from './documents';
+
+const DATE = '2026-03-05T15:00:00.000Z';
+const destroyed = (fromStatus: SealStatus): MovementHistory => ({ date: DATE, fromStatus, toStatus: SealStatus.DESTRUIDO, user: 'Operador', details: '', metadata: { batch: true, destructionReason: 'Rotos' } });
+
+const seal = (id: string, history: MovementHistory[]): Seal => ({
+  uid: `u-${id}`, id, type: 'Botella', status: history[0].toStatus, creationDate: '2026-03-01T15:00:00.000Z', lastMovement: history[0].date,
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history,
+});
+
+describe('Documents.receiptFromHistory', () => {
+  it('conserva el estado anterior de cada precinto de un lote mixto', () => {
+    const a = seal('A1', [destroyed(SealStatus.ENTRADA_INVENTARIO)]);
+    const b = seal('A2', [destroyed(SealStatus.ASIGNADO)]);
+    const other = seal('A3', [{ ...destroyed(SealStatus.ASIGNADO), date: '2026-03-06T15:00:00.000Z' }]);
+    const receipt = Documents.receiptFromHistory([a, b, other], b, b.history[0]);
+    expect(receipt.seals).toEqual([
+      { id: 'A1', type: 'Botella', fromStatus: SealStatus.ENTRADA_INVENTARIO },
+      { id: 'A2', type: 'Botella', fromStatus: SealStatus.ASIGNADO },
+    ]);
+    expect(receipt).toMatchObject({ toStatus: SealStatus.DESTRUIDO, metadata: { destructionReason: 'Rotos' }, city: 'BOGOTÁ' });
+  });
+});
@@ -0,0 +1,166 @@
+import QRCode from 'qrcode';
+import type { jsPDF } from 'jspdf';
+import { AppSettings, MovementHistory, MovementMetadata, Seal, SealStatus } from '../types';
+import { MovementDetails } from './movementDetails';
+import { Dates } from './dates';
+
+// Comprobante de un movimiento (individual o masivo) tal como quedó en el historial
+export interface MovementReceipt {
+  seals: { id: string; type: string; fromStatus: SealStatus | null }[]; // Un lote puede mezclar estados de origen
+  toStatus: SealStatus;
+  metadata: MovementMetadata;
+  user: string;
+  date: string;
+  city: string;
+}
+
+const PAGE_MARGIN = 15;
+const LABEL_COLUMNS = 3;
+const LABEL_ROWS = 8;
+
+const statusLabel = (status: SealStatus | null) => status ? status.replace('_', ' ') : 'REGISTRO INICIAL';
+
+const createDoc = async (): Promise<jsPDF> => {
+  // jsPDF se carga solo al imprimir para no engrosar el paquete principal
+  const { jsPDF } = await import('jspdf');
+  return new jsPDF({ unit: 'mm', format: 'a4', floatPrecision: 2, compress: true });
+};
+
+const drawLogo = (doc: jsPDF, logo: string | null, x: number, y: number, size: number) => {
+  if (!logo) return;
+  try {
+    doc.addImage(logo, logo.startsWith('data:image/png') ? 'PNG' : 'JPEG', x, y, size, size);
+  } catch {
+    // Logo en un formato que jsPDF no admite: el comprobante sale sin él
+  }
+};
+
+// QR vectorial, un rectángulo por tramo horizontal de módulos oscuros: pesa mucho menos que una imagen
+const drawQr = (doc: jsPDF, text: string, x: number, y: number, size: number) => {
+  const { modules } = QRCode.create(text, { errorCorrectionLevel: 'M' });
+  const cell = size / modules.size;
+  doc.setFillColor('#000000');
+  for (let row = 0; row < modules.size; row++) {
+    let start = -1;
+    for (let col = 0; col <= modules.size; col++) {
+      const dark = col < modules.size && modules.get(row, col);
+      if (dark && start < 0) start = col;
+      if (!dark && start >= 0) {
+        doc.rect(x + start * cell, y + row * cell, (col - start) * cell, cell, 'F');
+        start = -1;
+      }
+    }
+  }
+};
+
+// Firmas que exige cada tipo de movimiento (quien entrega y quien recibe)
+const signatureLines = (receipt: MovementReceipt): string[] => {
+  const m = receipt.metadata;
+  if (receipt.toStatus === SealStatus.INSTALADO) return [`Instalador: ${receipt.user}`, `Conductor / Placa ${m.vehiclePlate || ''}`];
+  if (receipt.toStatus === SealStatus.NO_INSTALADO) return [`Entrega: ${receipt.user}`, `Recibe: ${m.deliveredSub || ''}`];
+  if (receipt.toStatus === SealStatus.DESTRUIDO) return [`Responsable: ${receipt.user}`, 'Testigo'];
+  return [`Entrega: ${receipt.user}`, `Recibe: ${m.receiver || ''}`];
+};
+
+/**
+ * DOCUMENTOS IMPRIMIBLES
+ * Comprobantes de movimiento en PDF para firma de conductores y guardas, y hojas de
+ * etiquetas con código QR para los precintos recién registrados.
+ */
+export const Documents = {
+  // Reconstruye el comprobante de una entrada de historial reuniendo los precintos movidos en la misma operación
+  receiptFromHistory(seals: Seal[], seal: Seal, entry: MovementHistory): MovementReceipt {
+    const sameOperation = (h: MovementHistory) => h.date === entry.date && h.toStatus === entry.toStatus && h.user === entry.user;
+    const group = entry.metadata?.batch ? seals.filter(s => s.city === seal.city && s.history.some(sameOperation)) : [seal];
+    return {
+      seals: (group.length > 0 ? group : [seal]).map(s => ({ id: s.id, type: s.type, fromStatus: (s === seal ? entry : s.history.find(sameOperation) || entry).fromStatus })),
+      toStatus: entry.toStatus,
+      metadata: entry.metadata || MovementDetails.parse(entry.details),
+      user: entry.user,
+      date: entry.date,
+      city: seal.city,
+    };
+  },
+
+  async movementReceipt(receipt: MovementReceipt, settings: AppSettings): Promise<void> {
+    const doc = await createDoc();
+    const width = doc.internal.pageSize.getWidth();
+    const height = doc.internal.pageSize.getHeight();
+    const m = receipt.metadata;
+
+    drawLogo(doc, settings.logo, PAGE_MARGIN, PAGE_MARGIN, 20);
+    doc.setFont('helvetica', 'bold').setFontSize(14).text(settings.title, PAGE_MARGIN + 25, PAGE_MARGIN + 8);
+    doc.setFontSize(11).text(`COMPROBANTE DE MOVIMIENTO DE PRECINTOS`, PAGE_MARGIN + 25, PAGE_MARGIN + 15);
+    doc.setFont('helvetica', 'normal').setFontSize(9).text(`Sede: ${receipt.city}   ·   Fecha: ${Dates.format(receipt.date)}`, PAGE_MARGIN + 25, PAGE_MARGIN + 21);
+
+    const origins = new Set(receipt.seals.map(s => s.fromStatus));
+    const fields: [string, string | undefined][] = [
+      ['Movimiento', `${origins.size === 1 ? statusLabel(receipt.seals[0].fromStatus) : 'VARIOS ESTADOS'}  ->  ${statusLabel(receipt.toStatus)}`],
+      ['Operador', receipt.user],
+      ['Receptor', m.receiver || m.deliveredSub],
+      ['Placa vehículo', m.vehiclePlate],
+      ['Trailer / Contenedor', m.trailerContainer],
+      ['Pedido / Despacho', m.orderNumber && `${m.orderNumber} (${m.shipmentId})`],
+      ['Motivo destrucción', m.destructionReason],
+      ['Observaciones', m.observations],
+      ['Cantidad', String(receipt.seals.length)],
+    ];
+    let y = PAGE_MARGIN + 35;
+    fields.filter(([, value]) => value).forEach(([label, value]) => {
+      doc.setFont('helvetica', 'bold').text(`${label}:`, PAGE_MARGIN, y);
+      doc.setFont('helvetica', 'normal').text(doc.splitTextToSize(value as string, width - PAGE_MARGIN * 2 - 45), PAGE_MARGIN + 45, y);
+      y += 6;
+    });
+
+    y += 4;
+    doc.setFont('helvetica', 'bold').text('#', PAGE_MARGIN, y).text('ID PRECINTO', PAGE_MARGIN + 12, y).text('TIPO', PAGE_MARGIN + 80, y).text('ESTADO ANTERIOR', PAGE_MARGIN + 125, y);
+    doc.line(PAGE_MARGIN, y + 2, width - PAGE_MARGIN, y + 2);
+    doc.setFont('courier', 'normal');
+    receipt.seals.forEach((s, i) => {
+      y += 6;
+      if (y > height - 60) {
+        doc.addPage();
+        y = PAGE_MARGIN + 6;
+      }
+      doc.text(String(i + 1), PAGE_MARGIN, y).text(s.id, PAGE_MARGIN + 12, y).text(s.type.toUpperCase(), PAGE_MARGIN + 80, y).text(statusLabel(s.fromStatus), PAGE_MARGIN + 125, y);
+    });
+
+    // Las firmas siempre quedan al pie de la última página
+    if (y > height - 50) doc.addPage();
+    const lineY = height - 35;
+    const lineWidth = (width - PAGE_MARGIN * 3) / 2;
+    doc.setFont('helvetica', 'normal').setFontSize(9);
+    signatureLines(receipt).forEach((label, i) => {
+      const x = PAGE_MARGIN + i * (lineWidth + PAGE_MARGIN);
+      doc.line(x, lineY, x + lineWidth, lineY);
+      doc.text(label, x, lineY + 5).text('Firma y documento', x, lineY + 10);
+    });
+
+    doc.save(`Comprobante_${receipt.toStatus}_${receipt.seals[0]?.id || ''}_${receipt.date.slice(0, 10)}.pdf`);
+  },
+
+  // Hoja A4 de 3x8 etiquetas; el QR lleva {"id","type"}, que el escáner interpreta directamente
+  async labelSheet(seals: Seal[], settings: AppSettings): Promise<void> {
+    if (seals.length === 0) return;
+    const doc = await createDoc();
+    const cellWidth = (doc.internal.pageSize.getWidth() - PAGE_MARGIN * 2) / LABEL_COLUMNS;
+    const cellHeight = (doc.internal.pageSize.getHeight() - PAGE_MARGIN * 2) / LABEL_ROWS;
+    const qrSize = cellHeight - 8;
+
+    seals.forEach((seal, i) => {
+      const slot = i % (LABEL_COLUMNS * LABEL_ROWS);
+      if (i > 0 && slot === 0) doc.addPage();
+      const x = PAGE_MARGIN + (slot % LABEL_COLUMNS) * cellWidth;
+      const y = PAGE_MARGIN + Math.floor(slot / LABEL_COLUMNS) * cellHeight;
+      doc.setDrawColor(200).rect(x + 1, y + 1, cellWidth - 2, cellHeight - 2);
+      drawQr(doc, JSON.stringify({ id: seal.id, type: seal.type }), x + 4, y + 4, qrSize);
+      const textX = x + qrSize + 7;
+      doc.setFont('courier', 'bold').setFontSize(10).text(doc.splitTextToSize(seal.id, cellWidth - qrSize - 10), textX, y + 10);
+      doc.setFont('helvetica', 'normal').setFontSize(7).text(seal.type.toUpperCase(), textX, y + 18);
+      if (seal.lot || seal.lotId) doc.text(`Lote ${seal.lot || seal.lotId}`, textX, y + 22);
+      doc.text(doc.splitTextToSize(settings.title, cellWidth - qrSize - 10), textX, y + 26);
+    });
+
+    doc.save(`Etiquetas_${seals[0].id}${seals.length > 1 ? `_a_${seals[seals.length - 1].id}` : ''}.pdf`);
+  },
+};
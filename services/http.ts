@@ -0,0 +1,65 @@
+import { AuthService } from './auth';
+
+// URL de la API SQL (servidor de referencia en /server: `npm run server`)
+export const API_BASE_URL = import.meta.env.VITE_API_URL || 'http://localhost:4000/api';
+
+export interface RequestResult<T = unknown> {
+  status: 'ok' | 'offline' | 'rejected';
+  data?: T;
+  error?: string;
+  code?: string; // Código de negocio devuelto por el backend (p. ej. CONFLICT)
+}
+
+let reachable = true;
+const reachabilityListeners = new Set<(reachable: boolean) => void>();
+
+const setReachable = (value: boolean) => {
+  if (value === reachable) return;
+  reachable = value;
+  reachabilityListeners.forEach(l => l(value));
+};
+
+/**
+ * CONECTIVIDAD CON EL BACKEND
+ * Refleja si la última petición llegó al servidor, además del estado del navegador.
+ */
+export const Connectivity = {
+  isOnline(): boolean {
+    return navigator.onLine && reachable;
+  },
+
+  subscribe(listener: (reachable: boolean) => void): () => void {
+    reachabilityListeners.add(listener);
+    return () => reachabilityListeners.delete(listener);
+  },
+};
+
+export const request = async <T = unknown>(path: string, method = 'GET', body?: unknown): Promise<RequestResult<T>> => {
+  let response: Response;
+  const session = AuthService.getSession();
+  try {
+    response = await fetch(`${API_BASE_URL}${path}`, {
+      method,
+      headers: { 'Content-Type': 'application/json', ...(session ? { Authorization: `Bearer ${session.token}` } : {}) },
+      body: body === undefined ? undefined : JSON.stringify(body),
+    });
+  } catch (error) {
+    console.error('SQL Connection Error:', error);
+    setReachable(false);
+    return { status: 'offline', error: 'Sin conexión con el servidor' };
+  }
+  setReachable(true);
+  const payload = response.status === 204 ? undefined : await response.json().catch(() => undefined);
+  if (!response.ok) {
+    console.error(`Error SQL (${method} ${path}):`, payload?.error || response.statusText);
+    // Los 5xx se tratan como caída temporal: la operación puede reintentarse
+    if (response.status >= 500) return { status: 'offline', error: payload?.error || response.statusText };
+    // Sesión vencida o revocada: se descarta y la operación queda pendiente hasta el próximo ingreso
+    if (response.status === 401 && payload?.code === 'UNAUTHORIZED') {
+      AuthService.endSession();
+      return { status: 'offline', error: payload.error, code: payload.code };
+    }
+    return { status: 'rejected', error: payload?.error || response.statusText, code: payload?.code };
+  }
+  return { status: 'ok', data: payload as T };
+};
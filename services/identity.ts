@@ -0,0 +1,24 @@
+import { Seal } from '../types';
+
+/**
+ * IDENTIDAD INTERNA DE PRECINTOS
+ * El código impreso (id) solo es único junto con el tipo: B001/Botella y B001/Guaya son
+ * precintos distintos. Cada registro recibe además un `uid` inmutable con el que la UI
+ * selecciona, mueve y elimina precintos sin confundirlos con sus homónimos.
+ */
+export const SealIdentity = {
+  create(): string {
+    return crypto.randomUUID();
+  },
+
+  // Asigna uid a los precintos guardados antes de que existiera (localStorage o backups)
+  migrateSeals(seals: Seal[]): Seal[] {
+    return seals.map(s => s.uid ? s : { ...s, uid: this.create() });
+  },
+
+  // Precintos que comparten el código leído o digitado; más de uno exige que el usuario elija
+  byCode(seals: Seal[], code: string): Seal[] {
+    const id = code.trim().toUpperCase();
+    return id ? seals.filter(s => s.id.toUpperCase() === id) : [];
+  },
+};
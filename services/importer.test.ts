@@ -0,0 +1,46 @@
+import { describe, expect, it } from 'vitest';
+import { Seal, SealStatus, User, UserRole } from '../types';
+import { ImportContext, ImportSheet, SealImporter } from './importer';
+
+const operator: User = { id: 'u1', username: 'OPERADOR', fullName: 'Operador', role: UserRole.OPERADOR_BODEGA, organization: 'Org', city: 'BOGOTÁ' };
+
+const existing: Seal = {
+  uid: 'u-E1', id: 'E1', type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO, creationDate: '2026-03-01T15:00:00.000Z', lastMovement: '2026-03-01T15:00:00.000Z',
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history: [],
+};
+
+const ctx: ImportContext = { user: operator, existing: [existing], sealTypes: ['Botella', 'Guaya'], cities: ['BOGOTÁ', 'MEDELLÍN'], defaultType: 'Botella', allowOtherCities: false };
+
+const sheet = (rows: string[][]): ImportSheet => ({ fileName: 'manifiesto.xlsx', headers: ['Sello', 'Tipo', 'Sede'], rows });
+
+describe('SealImporter', () => {
+  it('propone la asignación por encabezados habituales y deja sin importar los demás campos', () => {
+    expect(SealImporter.guessMapping(['Código', 'Clase', 'Sede', 'Otro'])).toEqual({ id: 0, type: 1, lot: null, orderNumber: null, containerId: null, city: 2, notes: null });
+    expect(SealImporter.guessMapping(['Columna A']).id).toBe(0);
+  });
+
+  it('registra las filas válidas con tipo y sede normalizados', () => {
+    const [row] = SealImporter.validate(sheet([['s-10', 'guaya', 'bogota']]), SealImporter.guessMapping(['Sello', 'Tipo', 'Sede']), ctx);
+    expect(row.errors).toEqual([]);
+    expect(row.seal).toMatchObject({ id: 'S-10', type: 'Guaya', city: 'BOGOTÁ', status: SealStatus.ENTRADA_INVENTARIO, entryUser: 'Operador' });
+    expect(row.seal?.history[0].metadata).toEqual({ observations: 'Importación manifiesto.xlsx en BOGOTÁ', batch: true });
+  });
+
+  it('rechaza tipos no configurados, sedes ajenas sin permiso, existentes y duplicados del archivo', () => {
+    const rows = SealImporter.validate(sheet([['A1', 'Cinta', ''], ['A2', '', 'MEDELLÍN'], ['E1', '', ''], ['A3', '', ''], ['a3', '', '']]), SealImporter.guessMapping(['Sello', 'Tipo', 'Sede']), ctx);
+    expect(rows.map(r => r.errors)).toEqual([
+      ['Tipo no configurado: Cinta'],
+      ['Sin permiso para registrar en MEDELLÍN'],
+      ['Sello ya existe en el inventario'],
+      [],
+      ['Duplicado dentro del archivo'],
+    ]);
+    expect(SealImporter.validate(sheet([['A2', '', 'MEDELLÍN']]), SealImporter.guessMapping(['Sello', 'Tipo', 'Sede']), { ...ctx, allowOtherCities: true })[0].seal?.city).toBe('MEDELLÍN');
+  });
+
+  it('exporta las filas rechazadas con sus valores originales', () => {
+    const data = sheet([['A1', 'Cinta', 'BOGOTÁ'], ['A2', '', '']]);
+    const report = SealImporter.errorReport(data, SealImporter.validate(data, SealImporter.guessMapping(data.headers), ctx));
+    expect(report).toEqual([{ Fila: 2, Sello: 'A1', Tipo: 'Cinta', Sede: 'BOGOTÁ', Errores: 'Tipo no configurado: Cinta' }]);
+  });
+});
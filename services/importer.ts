@@ -0,0 +1,128 @@
+import * as XLSX from 'xlsx';
+import { Seal, SealStatus, User } from '../types';
+import { Dates } from './dates';
+import { SealIdentity } from './identity';
+
+export type ImportField = 'id' | 'type' | 'lot' | 'orderNumber' | 'containerId' | 'city' | 'notes';
+
+// Índice de columna de la hoja por campo del sello (null = no importar)
+export type ImportMapping = Record<ImportField, number | null>;
+
+export const IMPORT_FIELDS: { field: ImportField; label: string; required: boolean; aliases: string[] }[] = [
+  { field: 'id', label: 'ID Sello', required: true, aliases: ['id', 'sello', 'precinto', 'serial', 'codigo'] },
+  { field: 'type', label: 'Tipo', required: false, aliases: ['tipo', 'type', 'clase'] },
+  { field: 'lot', label: 'Lote', required: false, aliases: ['lote', 'lot', 'batch'] },
+  { field: 'orderNumber', label: 'Orden / Pedido', required: false, aliases: ['orden', 'pedido', 'order', 'oc'] },
+  { field: 'containerId', label: 'Contenedor', required: false, aliases: ['contenedor', 'container', 'trailer'] },
+  { field: 'city', label: 'Ciudad', required: false, aliases: ['ciudad', 'sede', 'city'] },
+  { field: 'notes', label: 'Observaciones', required: false, aliases: ['observaciones', 'notas', 'notes'] },
+];
+
+export interface ImportSheet {
+  fileName: string;
+  headers: string[];
+  rows: string[][];
+}
+
+export interface ImportContext {
+  user: User;
+  existing: Seal[];
+  sealTypes: string[];
+  cities: string[];
+  defaultType: string;
+  allowOtherCities: boolean;
+}
+
+export interface ImportRow {
+  line: number; // Fila de la hoja (1 = encabezados)
+  values: Record<ImportField, string>;
+  errors: string[];
+  seal?: Seal;
+}
+
+const normalize = (text: string) => text.normalize('NFD').replace(/[\u0300-\u036f]/g, '').trim().toLowerCase();
+
+/**
+ * IMPORTADOR DE MANIFIESTOS
+ * Lee hojas Excel/CSV, asigna columnas a campos del sello y valida cada fila antes
+ * de confirmar. La carga es todo o nada: con una sola fila rechazada no se registra ninguna.
+ */
+export const SealImporter = {
+  async read(file: File): Promise<ImportSheet> {
+    const wb = XLSX.read(await file.arrayBuffer(), { type: 'array' });
+    const ws = wb.Sheets[wb.SheetNames[0]];
+    const [headerRow = [], ...rows] = XLSX.utils.sheet_to_json<unknown[]>(ws, { header: 1, blankrows: false, defval: '' });
+    const width = Math.max(headerRow.length, ...rows.map(r => r.length));
+    return {
+      fileName: file.name,
+      headers: Array.from({ length: width }, (_, i) => String(headerRow[i] ?? '').trim() || `Columna ${XLSX.utils.encode_col(i)}`),
+      rows: rows.map(r => Array.from({ length: width }, (_, i) => String(r[i] ?? '').trim())),
+    };
+  },
+
+  // Propone la asignación comparando los encabezados con los nombres habituales de cada campo
+  guessMapping(headers: string[]): ImportMapping {
+    const normalized = headers.map(normalize);
+    return Object.fromEntries(IMPORT_FIELDS.map(f => {
+      const index = normalized.findIndex(h => f.aliases.some(a => h === a || h.startsWith(`${a} `) || h.endsWith(` ${a}`)));
+      return [f.field, index >= 0 ? index : f.field === 'id' ? 0 : null];
+    })) as ImportMapping;
+  },
+
+  validate(sheet: ImportSheet, mapping: ImportMapping, ctx: ImportContext): ImportRow[] {
+    const now = Dates.now();
+    const seen = new Set<string>();
+    const existing = new Set(ctx.existing.map(s => `${s.id}\u0000${s.type}`));
+    const typeByName = new Map(ctx.sealTypes.map(t => [normalize(t), t]));
+    const cityByName = new Map(ctx.cities.map(c => [normalize(c), c]));
+
+    return sheet.rows.map((cells, i) => {
+      const values = Object.fromEntries(IMPORT_FIELDS.map(f => [f.field, mapping[f.field] === null ? '' : cells[mapping[f.field] as number] || ''])) as Record<ImportField, string>;
+      const errors: string[] = [];
+      const id = values.id.toUpperCase();
+      const type = values.type ? typeByName.get(normalize(values.type)) : ctx.defaultType;
+      const city = values.city ? cityByName.get(normalize(values.city)) : ctx.user.city;
+
+      if (!id) errors.push('ID vacío');
+      if (!type) errors.push(`Tipo no configurado: ${values.type}`);
+      if (!city) errors.push(`Ciudad no registrada: ${values.city}`);
+      else if (city !== ctx.user.city && !ctx.allowOtherCities) errors.push(`Sin permiso para registrar en ${city}`);
+      if (id && type) {
+        const key = `${id}\u0000${type}`;
+        if (existing.has(key)) errors.push('Sello ya existe en el inventario');
+        else if (seen.has(key)) errors.push('Duplicado dentro del archivo');
+        seen.add(key);
+      }
+      if (errors.length > 0 || !type || !city) return { line: i + 2, values, errors };
+
+      const observations = `Importación ${sheet.fileName} en ${city}`;
+      return {
+        line: i + 2,
+        values,
+        errors,
+        seal: {
+          uid: SealIdentity.create(),
+          id, type, city,
+          status: SealStatus.ENTRADA_INVENTARIO,
+          creationDate: now,
+          lastMovement: now,
+          entryUser: ctx.user.fullName,
+          orderNumber: values.orderNumber || '-',
+          containerId: values.containerId || '-',
+          notes: values.notes || 'Carga Masiva Excel',
+          ...(values.lot ? { lot: values.lot } : {}),
+          history: [{ date: now, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: ctx.user.fullName, details: observations, metadata: { observations, batch: true } }],
+        },
+      };
+    });
+  },
+
+  // Filas rechazadas con sus valores originales, listas para exportar a Excel
+  errorReport(sheet: ImportSheet, rows: ImportRow[]): Record<string, string | number>[] {
+    return rows.filter(r => r.errors.length > 0).map(r => ({
+      Fila: r.line,
+      ...Object.fromEntries(sheet.headers.map((h, i) => [h, sheet.rows[r.line - 2][i]])),
+      Errores: r.errors.join('; '),
+    }));
+  },
+};
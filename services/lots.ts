@@ -0,0 +1,78 @@
+import { Seal, SealLot, SealStatus, User } from '../types';
+import { Dates } from './dates';
+import { SealIdentity } from './identity';
+
+// Límite por recepción para no bloquear la interfaz con rangos mal digitados
+export const MAX_RANGE_SIZE = 5000;
+
+export interface RangeSpec {
+  prefix: string;
+  start: number;
+  end: number;
+  padding: number;
+}
+
+export interface LotReception {
+  supplier: string;
+  purchaseOrder: string;
+  receivedDay: string; // YYYY-MM-DD (input type="date")
+  type: string;
+}
+
+/**
+ * LOTES DE RECEPCIÓN
+ * Genera los IDs de un rollo numerado del fabricante (p. ej. BOG-000100 a BOG-000600)
+ * y construye el lote con sus sellos ya vinculados.
+ */
+export const SealLots = {
+  validateRange(range: RangeSpec): string | null {
+    if (!Number.isInteger(range.start) || !Number.isInteger(range.end) || range.start < 0) return 'El rango debe tener números enteros positivos.';
+    if (range.end < range.start) return 'El número final debe ser mayor o igual al inicial.';
+    if (range.end - range.start + 1 > MAX_RANGE_SIZE) return `Un lote no puede superar ${MAX_RANGE_SIZE} precintos.`;
+    if (!Number.isInteger(range.padding) || range.padding < 0 || range.padding > 12) return 'El relleno de ceros debe estar entre 0 y 12 dígitos.';
+    return null;
+  },
+
+  formatId(range: Pick<RangeSpec, 'prefix' | 'padding'>, n: number): string {
+    return `${range.prefix}${String(n).padStart(range.padding, '0')}`.toUpperCase();
+  },
+
+  generateIds(range: RangeSpec): string[] {
+    if (this.validateRange(range)) return [];
+    return Array.from({ length: range.end - range.start + 1 }, (_, i) => this.formatId(range, range.start + i));
+  },
+
+  build(range: RangeSpec, reception: LotReception, user: User): { lot: SealLot; seals: Seal[] } {
+    const now = Dates.now();
+    const ids = this.generateIds(range);
+    const lot: SealLot = {
+      id: `LOT-${Date.now().toString(36).toUpperCase()}`,
+      supplier: reception.supplier.trim(),
+      purchaseOrder: reception.purchaseOrder.trim(),
+      receivedDate: Dates.startOfDay(reception.receivedDay),
+      quantity: ids.length,
+      type: reception.type,
+      city: user.city,
+      range: { ...range, prefix: range.prefix.toUpperCase() },
+      createdBy: user.fullName,
+      createdAt: now,
+    };
+    const observations = `Recepción lote ${lot.id} (${lot.supplier}, OC ${lot.purchaseOrder}) en ${user.city}`;
+    const seals: Seal[] = ids.map(id => ({
+      uid: SealIdentity.create(),
+      id,
+      type: reception.type,
+      status: SealStatus.ENTRADA_INVENTARIO,
+      creationDate: now,
+      lastMovement: now,
+      entryUser: user.fullName,
+      orderNumber: lot.purchaseOrder || '-',
+      containerId: '-',
+      notes: `Lote ${lot.id}`,
+      lotId: lot.id,
+      city: user.city,
+      history: [{ date: now, fromStatus: null, toStatus: SealStatus.ENTRADA_INVENTARIO, user: user.fullName, details: observations, metadata: { observations, batch: ids.length > 1 } }],
+    }));
+    return { lot, seals };
+  },
+};
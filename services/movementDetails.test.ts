@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import { Seal, SealStatus } from '../types';
+import { MovementDetails } from './movementDetails';
+
+const form = { requester: ' juan ', observations: '', vehiclePlate: 'ABC123', trailerContainer: 'CONT-9', deliveredSub: 'PEDRO' };
+
+describe('MovementDetails', () => {
+  it('guarda solo los campos del estado destino', () => {
+    expect(MovementDetails.build(SealStatus.ASIGNADO, form, false)).toEqual({ batch: false, receiver: 'juan', observations: undefined });
+    expect(MovementDetails.build(SealStatus.INSTALADO, form, true)).toEqual({ batch: true, vehiclePlate: 'ABC123', trailerContainer: 'CONT-9', observations: undefined });
+    expect(MovementDetails.build(SealStatus.DESTRUIDO, { ...form, observations: 'Roto' }, false)).toEqual({ batch: false, destructionReason: 'Roto' });
+  });
+
+  it('recupera los campos del formulario desde la metadata para validar en la API', () => {
+    expect(MovementDetails.formOf(SealStatus.DESTRUIDO, MovementDetails.build(SealStatus.DESTRUIDO, { ...form, observations: 'Roto' }, false))).toMatchObject({ observations: 'Roto', requester: '' });
+    expect(MovementDetails.formOf(SealStatus.ASIGNADO, { receiver: 'JUAN' })).toEqual({ requester: 'JUAN', observations: '', vehiclePlate: '', trailerContainer: '', deliveredSub: '' });
+    expect(MovementDetails.formOf(SealStatus.INSTALADO).vehiclePlate).toBe('');
+  });
+
+  it('formatea el texto legible histórico', () => {
+    expect(MovementDetails.format(SealStatus.ASIGNADO, { receiver: 'JUAN' })).toBe('USUARIO RECEPTOR: JUAN | OBSERVACIONES: Sin observaciones');
+    expect(MovementDetails.format(SealStatus.INSTALADO, { batch: true, vehiclePlate: 'ABC123', trailerContainer: 'C1', orderNumber: 'P-7' })).toBe('[MASIVO] PLACA VEHÍCULO: ABC123 | TRAILER/CONTENEDOR: C1 | OBSERVACIONES: Sin observaciones | PEDIDO: P-7');
+  });
+
+  it('recupera la metadata del texto que produce format', () => {
+    const metadata = { batch: true, vehiclePlate: 'ABC123', trailerContainer: 'C1', observations: 'PUERTA TRASERA', orderNumber: 'P-7' };
+    expect(MovementDetails.parse(MovementDetails.format(SealStatus.INSTALADO, metadata))).toEqual(metadata);
+  });
+
+  it('conserva como observación el texto libre de entradas antiguas', () => {
+    expect(MovementDetails.parse('Registro manual de planta')).toEqual({ batch: false, observations: 'Registro manual de planta' });
+    expect(MovementDetails.parse('MOTIVO DESTRUCCIÓN: Sin observaciones')).toEqual({ batch: false });
+  });
+
+  it('completa la metadata faltante sin tocar los precintos ya migrados', () => {
+    const seal = (details: string, metadata?: object): Seal => ({ uid: 'u', id: 'A1', type: 'Botella', status: SealStatus.ASIGNADO, creationDate: '', lastMovement: '', entryUser: '', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history: [{ date: '', fromStatus: null, toStatus: SealStatus.ASIGNADO, user: 'A', details, ...(metadata ? { metadata } : {}) }] });
+    const migrated = seal('x', { receiver: 'A' });
+    const [kept, filled] = MovementDetails.migrateSeals([migrated, seal('USUARIO RECEPTOR: ANA')]);
+    expect(kept).toBe(migrated);
+    expect(filled.history[0].metadata).toEqual({ batch: false, receiver: 'ANA' });
+  });
+});
@@ -0,0 +1,112 @@
+import { Seal, SealStatus, MovementHistory, MovementMetadata, MovementFormData } from '../types';
+
+const BATCH_PREFIX = '[MASIVO] ';
+const NO_OBSERVATIONS = 'Sin observaciones';
+
+// Etiquetas del formato legible histórico "CLAVE: valor | CLAVE: valor"
+const DETAIL_LABELS: Record<string, Exclude<keyof MovementMetadata, 'attachments'>> = {
+  'USUARIO RECEPTOR': 'receiver',
+  'PLACA VEHÍCULO': 'vehiclePlate',
+  'TRAILER/CONTENEDOR': 'trailerContainer',
+  'ENTREGADO SUB': 'deliveredSub',
+  'MOTIVO DESTRUCCIÓN': 'destructionReason',
+  'OBSERVACIONES': 'observations',
+  'PEDIDO': 'orderNumber',
+};
+
+const clean = (value: string) => value.trim() || undefined;
+
+/**
+ * DETALLES DE MOVIMIENTO
+ * Construye, formatea y migra los datos estructurados de cada entrada de historial.
+ */
+export const MovementDetails = {
+  build(status: SealStatus, data: MovementFormData, batch: boolean): MovementMetadata {
+    const observations = clean(data.observations);
+    const metadata: MovementMetadata = { batch };
+    if (status === SealStatus.ASIGNADO || status === SealStatus.ENTREGADO) {
+      metadata.receiver = clean(data.requester);
+      metadata.observations = observations;
+    } else if (status === SealStatus.INSTALADO) {
+      metadata.vehiclePlate = clean(data.vehiclePlate);
+      metadata.trailerContainer = clean(data.trailerContainer);
+      metadata.observations = observations;
+    } else if (status === SealStatus.NO_INSTALADO) {
+      metadata.deliveredSub = clean(data.deliveredSub);
+      metadata.observations = observations;
+    } else if (status === SealStatus.DESTRUIDO) {
+      metadata.destructionReason = observations;
+    } else {
+      metadata.observations = observations;
+    }
+    return metadata;
+  },
+
+  // Inverso de build: campos del formulario a partir de la metadata guardada o recibida por la API
+  formOf(status: SealStatus, metadata: MovementMetadata = {}): MovementFormData {
+    return {
+      requester: metadata.receiver || '',
+      observations: (status === SealStatus.DESTRUIDO ? metadata.destructionReason : metadata.observations) || '',
+      vehiclePlate: metadata.vehiclePlate || '',
+      trailerContainer: metadata.trailerContainer || '',
+      deliveredSub: metadata.deliveredSub || '',
+    };
+  },
+
+  // Texto legible que se conserva en MovementHistory.details
+  format(status: SealStatus, metadata: MovementMetadata): string {
+    const obs = metadata.observations || NO_OBSERVATIONS;
+    let text: string;
+    if (status === SealStatus.ASIGNADO || status === SealStatus.ENTREGADO) text = `USUARIO RECEPTOR: ${metadata.receiver} | OBSERVACIONES: ${obs}`;
+    else if (status === SealStatus.INSTALADO) text = `PLACA VEHÍCULO: ${metadata.vehiclePlate} | TRAILER/CONTENEDOR: ${metadata.trailerContainer} | OBSERVACIONES: ${obs}`;
+    else if (status === SealStatus.NO_INSTALADO) text = `ENTREGADO SUB: ${metadata.deliveredSub} | OBSERVACIONES: ${obs}`;
+    else if (status === SealStatus.DESTRUIDO) text = `MOTIVO DESTRUCCIÓN: ${metadata.destructionReason}`;
+    else text = metadata.observations || `Cambio de estado a ${status.replace('_', ' ')}`;
+    if (metadata.orderNumber) text = `${text} | PEDIDO: ${metadata.orderNumber}`;
+    return metadata.batch ? `${BATCH_PREFIX}${text}` : text;
+  },
+
+  // Interpreta el texto libre de entradas antiguas que no tienen metadata
+  parse(details: string): MovementMetadata {
+    const batch = details.startsWith(BATCH_PREFIX);
+    const body = batch ? details.slice(BATCH_PREFIX.length) : details;
+    const metadata: MovementMetadata = { batch };
+    let matched = false;
+    body.split('|').forEach(part => {
+      const sep = part.indexOf(':');
+      if (sep === -1) return;
+      const key = DETAIL_LABELS[part.slice(0, sep).trim().toUpperCase()];
+      const value = part.slice(sep + 1).trim();
+      if (!key) return;
+      matched = true;
+      if (key === 'batch' || !value || value === NO_OBSERVATIONS) return;
+      metadata[key] = value;
+    });
+    if (!matched && body.trim()) metadata.observations = body.trim();
+    return metadata;
+  },
+
+  // Resumen corto para tableros y listados
+  summarize(entry: MovementHistory): string {
+    const m = entry.metadata;
+    if (!m) return entry.details;
+    const parts = [
+      m.receiver && `Receptor: ${m.receiver}`,
+      m.vehiclePlate && `Placa: ${m.vehiclePlate}`,
+      m.trailerContainer && `Contenedor: ${m.trailerContainer}`,
+      m.deliveredSub && `Entregado sub: ${m.deliveredSub}`,
+      m.destructionReason && `Motivo: ${m.destructionReason}`,
+      m.orderNumber && `Pedido: ${m.orderNumber}`,
+      m.observations,
+    ].filter(Boolean);
+    const text = parts.length > 0 ? parts.join(' · ') : entry.details;
+    return m.batch ? `${BATCH_PREFIX}${text}` : text;
+  },
+
+  // Completa la metadata de todas las entradas antiguas de un inventario
+  migrateSeals(seals: Seal[]): Seal[] {
+    return seals.map(seal => seal.history.every(h => h.metadata)
+      ? seal
+      : { ...seal, history: seal.history.map(h => h.metadata ? h : { ...h, metadata: this.parse(h.details) }) });
+  },
+};
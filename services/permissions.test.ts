@@ -0,0 +1,32 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { SealStatus, User, UserRole } from '../types';
+import { can, canMoveTo, setRolePermissions } from './permissions';
+
+const user = (role: UserRole): User => ({ id: role, username: role, fullName: role, role, organization: 'Org', city: 'BOGOTÁ' });
+
+afterEach(() => setRolePermissions());
+
+describe('permisos', () => {
+  it('aplica el mapa por defecto de cada rol', () => {
+    expect(can(user(UserRole.GESTOR), 'seal.delete')).toBe(false);
+    expect(canMoveTo(user(UserRole.INSTALADOR), SealStatus.INSTALADO)).toBe(true);
+    expect(canMoveTo(user(UserRole.INSTALADOR), SealStatus.EN_TRANSITO)).toBe(false);
+    expect(can(null, 'seal.create')).toBe(false);
+  });
+
+  it('el auditor es de solo lectura y nadie realiza y aprueba conteos por defecto, salvo el administrador', () => {
+    expect(can(user(UserRole.AUDITOR), 'audit.view')).toBe(true);
+    expect(can(user(UserRole.AUDITOR), 'alert.review')).toBe(false);
+    const roles = Object.values(UserRole).filter(r => r !== UserRole.ADMIN);
+    expect(roles.filter(r => can(user(r), 'count.perform') && can(user(r), 'count.approve'))).toEqual([]);
+    expect(can(user(UserRole.GESTOR), 'count.approve')).toBe(true);
+    expect(can(user(UserRole.OPERADOR_BODEGA), 'count.perform')).toBe(true);
+  });
+
+  it('usa el mapa configurado sin quitar permisos al administrador', () => {
+    setRolePermissions({ [UserRole.GESTOR]: ['seal.delete'], [UserRole.ADMIN]: [] });
+    expect(can(user(UserRole.GESTOR), 'seal.delete')).toBe(true);
+    expect(canMoveTo(user(UserRole.GESTOR), SealStatus.ASIGNADO)).toBe(false);
+    expect(can(user(UserRole.ADMIN), 'seal.delete')).toBe(true);
+  });
+});
@@ -0,0 +1,75 @@
+import { Permission, RolePermissionMap, SealStatus, User, UserRole } from '../types';
+
+const movePermission = (status: SealStatus): Permission => `seal.move:${status}`;
+
+// Catálogo de permisos con su descripción para la pantalla de configuración
+export const PERMISSION_CATALOGUE: { permission: Permission; label: string }[] = [
+  { permission: 'seal.create', label: 'Registrar precintos' },
+  ...Object.values(SealStatus).filter(s => s !== SealStatus.ENTRADA_INVENTARIO && s !== SealStatus.EN_TRANSITO).map(s => ({ permission: movePermission(s), label: `Mover a ${s.replace('_', ' ')}` })),
+  { permission: movePermission(SealStatus.EN_TRANSITO), label: 'Despachar y recibir traslados entre sedes' },
+  { permission: 'seal.delete', label: 'Eliminar precintos' },
+  { permission: 'seal.crossCity', label: 'Operar precintos de todas las sedes' },
+  { permission: 'report.export', label: 'Exportar reportes' },
+  { permission: 'report.manage', label: 'Gestionar informes programados' },
+  { permission: 'report.crossCity', label: 'Consultar todas las sedes' },
+  { permission: 'audit.view', label: 'Consultar auditoría' },
+  { permission: 'alert.review', label: 'Reconocer y resolver alertas' },
+  { permission: 'count.perform', label: 'Realizar conteos físicos' },
+  { permission: 'count.approve', label: 'Aprobar conteos y ajustes de inventario' },
+  { permission: 'shipment.manage', label: 'Gestionar despachos y pedidos' },
+  { permission: 'user.manage', label: 'Gestionar usuarios' },
+  { permission: 'city.manage', label: 'Gestionar sedes' },
+  { permission: 'settings.edit', label: 'Editar configuración' },
+];
+
+export const ROLE_LABELS: Record<UserRole, string> = {
+  [UserRole.ADMIN]: 'Administrador Maestro',
+  [UserRole.GESTOR]: 'Gestor Operativo (Local)',
+  [UserRole.AUDITOR]: 'Auditor (Solo Lectura)',
+  [UserRole.OPERADOR_BODEGA]: 'Operador de Bodega',
+  [UserRole.INSTALADOR]: 'Instalador',
+};
+
+export const DEFAULT_ROLE_PERMISSIONS: Record<UserRole, Permission[]> = {
+  [UserRole.ADMIN]: PERMISSION_CATALOGUE.map(p => p.permission),
+  [UserRole.GESTOR]: [
+    'seal.create',
+    movePermission(SealStatus.ASIGNADO),
+    movePermission(SealStatus.ENTREGADO),
+    movePermission(SealStatus.INSTALADO),
+    movePermission(SealStatus.NO_INSTALADO),
+    movePermission(SealStatus.SALIDA_FABRICA),
+    movePermission(SealStatus.DESTRUIDO),
+    movePermission(SealStatus.EN_TRANSITO),
+    'report.export',
+    'report.manage',
+    'alert.review',
+    // Aprueba los conteos que realiza la bodega (separación de funciones)
+    'count.approve',
+    'shipment.manage',
+  ],
+  [UserRole.AUDITOR]: ['report.crossCity', 'report.export', 'audit.view'],
+  [UserRole.OPERADOR_BODEGA]: ['seal.create', movePermission(SealStatus.ASIGNADO), movePermission(SealStatus.EN_TRANSITO), 'count.perform', 'shipment.manage'],
+  [UserRole.INSTALADOR]: [movePermission(SealStatus.INSTALADO), movePermission(SealStatus.NO_INSTALADO)],
+};
+
+let rolePermissions: Record<UserRole, Permission[]> = DEFAULT_ROLE_PERMISSIONS;
+
+/**
+ * Aplica el mapa rol → permisos configurado en AppSettings.
+ * El administrador conserva siempre todos los permisos para evitar quedar sin acceso.
+ */
+export const setRolePermissions = (overrides?: RolePermissionMap) => {
+  rolePermissions = { ...DEFAULT_ROLE_PERMISSIONS, ...overrides, [UserRole.ADMIN]: DEFAULT_ROLE_PERMISSIONS[UserRole.ADMIN] };
+};
+
+export const getRolePermissions = (role: UserRole): Permission[] => rolePermissions[role] || [];
+
+// Guardia única de autorización para la UI, el ciclo de vida y la API
+export const can = (user: User | null | undefined, permission: Permission): boolean =>
+  !!user && getRolePermissions(user.role).includes(permission);
+
+export const canMoveTo = (user: User | null | undefined, status: SealStatus): boolean => can(user, movePermission(status));
+
+export const canMoveAny = (user: User | null | undefined): boolean =>
+  Object.values(SealStatus).some(s => canMoveTo(user, s));
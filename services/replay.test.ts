@@ -0,0 +1,71 @@
+import { describe, expect, it } from 'vitest';
+import { MovementHistory, Seal, SealStatus, SealTransfer } from '../types';
+import { InventoryChange, SealReplay } from './replay';
+import { SealTransfers } from './transfers';
+
+const move = (date: string, fromStatus: SealStatus | null, toStatus: SealStatus): MovementHistory => ({ date, fromStatus, toStatus, user: 'Operador', details: '' });
+
+const seal = (id: string, city: string, history: MovementHistory[], overrides: Partial<Seal> = {}): Seal => ({
+  uid: `u-${id}`, id, type: 'Botella', status: history[0].toStatus, creationDate: history[history.length - 1].date, lastMovement: history[0].date,
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city, history, ...overrides,
+});
+
+const transfer: SealTransfer = { id: 'TRF-1', origin: 'MEDELLÍN', destination: 'BOGOTÁ', seals: [{ id: 'T1', type: 'Botella' }], status: 'EN_TRANSITO', createdBy: 'Operador', createdAt: '2026-03-10T15:00:00.000Z' };
+
+// Registrado en MEDELLÍN durante el periodo y trasladado a BOGOTÁ después del cierre
+const transferred = seal('T1', 'BOGOTÁ', [
+  SealTransfers.receiptEntry(transfer, 'Receptor', '2026-04-02T15:00:00.000Z'),
+  SealTransfers.dispatchEntry(transfer),
+  move('2026-03-05T15:00:00.000Z', null, SealStatus.ENTRADA_INVENTARIO),
+]);
+
+const FROM = '2026-02-28T23:59:59.999Z';
+const TO = '2026-03-31T23:59:59.999Z';
+
+const reconciles = (row: InventoryChange) =>
+  row.opening + row.registered + row.received + row.returned - row.dispatched - row.consumed - row.destroyed - row.removed === row.closing;
+
+describe('SealReplay', () => {
+  it('reconstruye la sede con el origen tipado de las recepciones', () => {
+    expect(SealTransfers.originOf(transferred.history[0])).toBe('MEDELLÍN');
+    expect(SealReplay.stateAt(transferred, '2026-03-20T00:00:00.000Z')).toMatchObject({ status: SealStatus.EN_TRANSITO, city: 'MEDELLÍN' });
+    expect(SealReplay.stateAt(transferred, '2026-04-03T00:00:00.000Z')?.city).toBe('BOGOTÁ');
+    expect(SealReplay.stateAt(transferred, '2026-03-01T00:00:00.000Z')).toBeNull();
+  });
+
+  it('atribuye el registro y el despacho a la sede donde ocurrieron', () => {
+    const events = SealReplay.events([transferred], FROM, TO).map(e => `${e.event}@${e.city}`);
+    expect(events).toEqual(['DESPACHADO@MEDELLÍN', 'REGISTRADO@MEDELLÍN']);
+    const received = SealReplay.events([transferred], TO, '2026-04-30T23:59:59.999Z');
+    expect(received.map(e => `${e.event}@${e.city}`)).toEqual(['RECIBIDO@BOGOTÁ']);
+  });
+
+  it('clasifica por entrada o salida del disponible', () => {
+    expect(SealReplay.eventOf(move(TO, SealStatus.ENTRADA_INVENTARIO, SealStatus.ASIGNADO))).toBe('CONSUMIDO');
+    expect(SealReplay.eventOf(move(TO, SealStatus.ASIGNADO, SealStatus.NO_INSTALADO))).toBe('DEVUELTO');
+    expect(SealReplay.eventOf(move(TO, SealStatus.NO_INSTALADO, SealStatus.ASIGNADO))).toBe('CONSUMIDO');
+    expect(SealReplay.eventOf(move(TO, SealStatus.ASIGNADO, SealStatus.INSTALADO))).toBeNull();
+    expect(SealReplay.eventOf(move(TO, SealStatus.ASIGNADO, SealStatus.DESTRUIDO))).toBeNull();
+    expect(SealReplay.eventOf(move(TO, SealStatus.NO_INSTALADO, SealStatus.DESTRUIDO))).toBe('DESTRUIDO');
+  });
+
+  it('cuadra inicial + entradas − salidas = final en cada sede', () => {
+    const seals = [
+      transferred,
+      seal('A1', 'MEDELLÍN', [move('2026-03-03T15:00:00.000Z', SealStatus.ENTRADA_INVENTARIO, SealStatus.ASIGNADO), move('2026-02-01T15:00:00.000Z', null, SealStatus.ENTRADA_INVENTARIO)]),
+      seal('A2', 'MEDELLÍN', [
+        move('2026-03-20T15:00:00.000Z', SealStatus.ASIGNADO, SealStatus.DESTRUIDO),
+        move('2026-03-12T15:00:00.000Z', SealStatus.NO_INSTALADO, SealStatus.ASIGNADO),
+        move('2026-03-04T15:00:00.000Z', SealStatus.ASIGNADO, SealStatus.NO_INSTALADO),
+        move('2026-02-02T15:00:00.000Z', SealStatus.ENTRADA_INVENTARIO, SealStatus.ASIGNADO),
+        move('2026-02-01T15:00:00.000Z', null, SealStatus.ENTRADA_INVENTARIO),
+      ]),
+      seal('B1', 'BOGOTÁ', [move('2026-02-01T15:00:00.000Z', null, SealStatus.ENTRADA_INVENTARIO)], { deletedAt: '2026-03-15T15:00:00.000Z', deletedBy: 'Admin' }),
+    ];
+    const [medellin, bogota] = SealReplay.compare(seals, ['MEDELLÍN', 'BOGOTÁ'], FROM, TO);
+    expect(medellin).toMatchObject({ opening: 1, registered: 1, returned: 1, dispatched: 1, consumed: 2, destroyed: 0, closing: 0 });
+    expect(bogota).toMatchObject({ opening: 1, removed: 1, closing: 0 });
+    expect(reconciles(medellin)).toBe(true);
+    expect(reconciles(bogota)).toBe(true);
+  });
+});
@@ -0,0 +1,135 @@
+import { MovementHistory, Seal, SealStatus } from '../types';
+import { SealTransfers } from './transfers';
+import { AVAILABLE_STATUSES } from './stock';
+import { Dates } from './dates';
+
+// Estado reconstruido de un precinto en un instante
+export interface SealState {
+  seal: Seal;
+  status: SealStatus;
+  city: string;
+  entry: MovementHistory; // Última entrada de historial hasta el instante
+}
+
+// Diferencias de inventario de una sede entre dos instantes
+export interface InventoryChange {
+  city: string;
+  opening: number; // Disponible al inicio
+  registered: number;
+  received: number; // Entradas por traslado
+  returned: number; // Regresos al disponible (p. ej. asignado → no instalado)
+  dispatched: number; // Salidas por traslado
+  consumed: number; // Salidas a la operación (asignación, entrega, instalación)
+  destroyed: number;
+  removed: number; // Bajas de precintos disponibles
+  closing: number; // Disponible al final
+}
+
+export type InventoryEvent = 'REGISTRADO' | 'RECIBIDO' | 'DEVUELTO' | 'DESPACHADO' | 'CONSUMIDO' | 'DESTRUIDO' | 'BAJA';
+
+// Eventos que suman al disponible; el resto lo restan
+const INCOMING: InventoryEvent[] = ['REGISTRADO', 'RECIBIDO', 'DEVUELTO'];
+
+const toIso = (value: string) => Dates.toIso(value);
+
+const before = (value: string) => new Date(new Date(toIso(value)).getTime() - 1).toISOString();
+
+// Clasifica una entrada de historial según entre o salga del disponible (null si no lo cambia),
+// con el mismo criterio que StockLevels.consumptionSince
+const eventOf = (h: MovementHistory): InventoryEvent | null => {
+  const wasAvailable = h.fromStatus !== null && AVAILABLE_STATUSES.includes(h.fromStatus);
+  if (wasAvailable === AVAILABLE_STATUSES.includes(h.toStatus)) return null;
+  if (!wasAvailable) return h.fromStatus === null ? 'REGISTRADO' : SealTransfers.originOf(h) ? 'RECIBIDO' : 'DEVUELTO';
+  if (h.toStatus === SealStatus.EN_TRANSITO) return 'DESPACHADO';
+  return h.toStatus === SealStatus.DESTRUIDO ? 'DESTRUIDO' : 'CONSUMIDO';
+};
+
+/**
+ * RECONSTRUCCIÓN HISTÓRICA
+ * Reproduce el historial de movimientos para obtener el estado y la sede de cada precinto
+ * en cualquier instante pasado. `Seal.status` solo guarda el estado actual; el cierre
+ * mensual y las consultas "al corte" se calculan con este motor.
+ */
+export const SealReplay = {
+  eventOf,
+
+  // Último instante del día anterior: el disponible inicial de un periodo que empieza en `day`
+  openingOf(day: string, timeZone?: string): string {
+    return before(Dates.startOfDay(day, timeZone));
+  },
+
+  stateAt(seal: Seal, instant: string): SealState | null {
+    const at = toIso(instant);
+    if (seal.deletedAt && toIso(seal.deletedAt) <= at) return null;
+    const chronological = [...seal.history].sort((a, b) => toIso(a.date).localeCompare(toIso(b.date)));
+    let entry: MovementHistory | null = null;
+    // La sede actual se retrocede deshaciendo las recepciones de traslados posteriores al instante
+    let city = seal.city;
+    for (let i = chronological.length - 1; i >= 0; i--) {
+      const h = chronological[i];
+      if (toIso(h.date) <= at) { entry = h; break; }
+      city = SealTransfers.originOf(h) || city;
+    }
+    return entry ? { seal, status: entry.toStatus, city, entry } : null;
+  },
+
+  snapshot(seals: Seal[], instant: string): SealState[] {
+    return seals.flatMap(s => {
+      const state = this.stateAt(s, instant);
+      return state ? [state] : [];
+    });
+  },
+
+  // Copia del precinto tal como estaba en el instante (para reutilizar filtros y tablas del inventario)
+  asOf(seals: Seal[], instant: string): Seal[] {
+    return this.snapshot(seals, instant).map(({ seal, status, city, entry }) => ({
+      ...seal,
+      status,
+      city,
+      lastMovement: entry.date,
+      entryUser: entry.user,
+      history: seal.history.filter(h => toIso(h.date) <= toIso(instant)),
+      deletedAt: undefined,
+    }));
+  },
+
+  // Eventos de cierre entre dos instantes (from exclusivo, to inclusivo) con la sede en la que ocurrieron.
+  // Inicial + entradas − salidas = final en cada sede
+  events(seals: Seal[], from: string, to: string): { seal: Seal; entry: MovementHistory; event: InventoryEvent; city: string }[] {
+    const [start, end] = [toIso(from), toIso(to)];
+    const inPeriod = (value: string) => { const date = toIso(value); return date > start && date <= end; };
+    return seals.flatMap(seal => {
+      const events = seal.history.filter(h => inPeriod(h.date)).flatMap(h => {
+        const event = eventOf(h);
+        if (!event) return [];
+        // Las entradas ocurren en la sede que tiene el precinto después del movimiento; las salidas, en la de antes
+        const state = INCOMING.includes(event) ? this.stateAt(seal, h.date) : this.stateAt(seal, before(h.date));
+        return [{ seal, entry: h, event, city: state?.city || seal.city }];
+      });
+      // La baja de un precinto disponible también lo saca del inventario
+      const removed = seal.deletedAt && inPeriod(seal.deletedAt) ? this.stateAt(seal, before(seal.deletedAt)) : null;
+      if (!removed || !AVAILABLE_STATUSES.includes(removed.status)) return events;
+      const entry: MovementHistory = { date: toIso(seal.deletedAt as string), fromStatus: removed.status, toStatus: removed.status, user: seal.deletedBy || '', details: 'BAJA DEL PRECINTO' };
+      return [...events, { seal, entry, event: 'BAJA' as const, city: removed.city }];
+    });
+  },
+
+  compare(seals: Seal[], cities: string[], from: string, to: string): InventoryChange[] {
+    const available = (states: SealState[], city: string) => states.filter(s => s.city === city && AVAILABLE_STATUSES.includes(s.status)).length;
+    const [opening, closing] = [this.snapshot(seals, from), this.snapshot(seals, to)];
+    const events = this.events(seals, from, to);
+    const count = (city: string, event: InventoryEvent) => events.filter(e => e.city === city && e.event === event).length;
+    return cities.map(city => ({
+      city,
+      opening: available(opening, city),
+      registered: count(city, 'REGISTRADO'),
+      received: count(city, 'RECIBIDO'),
+      returned: count(city, 'DEVUELTO'),
+      dispatched: count(city, 'DESPACHADO'),
+      consumed: count(city, 'CONSUMIDO'),
+      destroyed: count(city, 'DESTRUIDO'),
+      removed: count(city, 'BAJA'),
+      closing: available(closing, city),
+    }));
+  },
+};
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { MovementHistory, ReportTemplate, Seal, SealStatus, SealTransfer } from '../types';
+import { Reports } from './reports';
+import { SealTransfers } from './transfers';
+
+const move = (date: string, fromStatus: SealStatus | null, toStatus: SealStatus): MovementHistory => ({ date, fromStatus, toStatus, user: 'Operador', details: '' });
+
+const transfer: SealTransfer = { id: 'TRF-1', origin: 'MEDELLÍN', destination: 'BOGOTÁ', seals: [{ id: 'T1', type: 'Botella' }], status: 'EN_TRANSITO', createdBy: 'Operador', createdAt: '2026-03-10T15:00:00.000Z' };
+
+// Registrado en MEDELLÍN y trasladado a BOGOTÁ dentro del mismo periodo
+const history = [
+  SealTransfers.receiptEntry(transfer, 'Receptor', '2026-03-12T15:00:00.000Z'),
+  SealTransfers.dispatchEntry(transfer),
+  move('2026-03-05T15:00:00.000Z', null, SealStatus.ENTRADA_INVENTARIO),
+];
+const transferred: Seal = {
+  uid: 'u-T1', id: 'T1', type: 'Botella', status: history[0].toStatus, creationDate: history[2].date, lastMovement: history[0].date,
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history,
+};
+
+const template = (city: string): ReportTemplate => ({
+  id: 'RPT-1', name: 'Movimientos', kind: 'movements', columns: [], groupBy: 'none', city,
+  period: { preset: 'custom', from: '2026-03-01', to: '2026-03-31' }, schedule: 'NINGUNA', createdBy: 'Admin', createdAt: '2026-03-01T15:00:00.000Z',
+});
+
+describe('Reports.records', () => {
+  it('atribuye cada movimiento a la sede donde estaba el precinto al ocurrir', () => {
+    const records = (city: string) => Reports.records(template(city), [transferred], '2026-04-01T15:00:00.000Z', 'America/Bogota');
+    expect(records('MEDELLÍN').map(r => r.status)).toEqual([SealStatus.ENTRADA_INVENTARIO, SealStatus.EN_TRANSITO]);
+    expect(records('BOGOTÁ').map(r => `${r.status}@${r.city}`)).toEqual([`${SealStatus.ENTRADA_INVENTARIO}@BOGOTÁ`]);
+    expect(records('').map(r => r.city)).toEqual(['MEDELLÍN', 'MEDELLÍN', 'BOGOTÁ']);
+  });
+});
@@ -0,0 +1,291 @@
+import * as XLSX from 'xlsx';
+import { GeneratedReport, MovementHistory, MovementMetadata, ReportGrouping, ReportKind, ReportPeriodPreset, ReportSchedule, ReportTemplate, Seal, SealStatus } from '../types';
+import { MovementDetails } from './movementDetails';
+import { Dates, DEFAULT_TIME_ZONE } from './dates';
+import { SealReplay, InventoryEvent } from './replay';
+import { AVAILABLE_STATUSES } from './stock';
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOTAL_LABEL = 'TOTAL';
+
+// Fila intermedia: el precinto, la entrada de historial, y el estado y la sede considerados
+interface ReportRecord {
+  seal: Seal;
+  entry?: MovementHistory;
+  metadata: MovementMetadata;
+  status: SealStatus;
+  city: string;
+  event?: InventoryEvent; // Solo en el cierre de inventario
+}
+
+interface ReportColumn {
+  key: string;
+  label: string;
+  value: (r: ReportRecord) => string;
+}
+
+export interface ReportSheet {
+  name: string;
+  rows: Record<string, string | number>[];
+}
+
+export interface ReportWorkbook {
+  fileName: string;
+  sheets: ReportSheet[];
+  rows: number;
+}
+
+const statusLabel = (status: SealStatus | null | undefined) => status ? status.replace('_', ' ') : 'REGISTRO INICIAL';
+
+const column = (key: string, label: string, value: (r: ReportRecord) => string | undefined): ReportColumn => ({ key, label, value: r => value(r) || '' });
+
+const COMMON_COLUMNS = {
+  fecha: column('fecha', 'Fecha', r => r.entry && Dates.format(r.entry.date)),
+  sello: column('sello', 'Sello', r => r.seal.id),
+  tipo: column('tipo', 'Tipo', r => r.seal.type),
+  sede: column('sede', 'Sede', r => r.city),
+  lote: column('lote', 'Lote', r => r.seal.lot || r.seal.lotId),
+};
+
+export const REPORT_COLUMNS: Record<ReportKind, ReportColumn[]> = {
+  movements: [
+    COMMON_COLUMNS.fecha, COMMON_COLUMNS.sello, COMMON_COLUMNS.tipo, COMMON_COLUMNS.sede,
+    column('desde', 'Estado Origen', r => statusLabel(r.entry?.fromStatus)),
+    column('hacia', 'Estado Destino', r => statusLabel(r.entry?.toStatus)),
+    column('usuario', 'Operador', r => r.entry?.user),
+    column('receptor', 'Receptor', r => r.metadata.receiver || r.metadata.deliveredSub),
+    column('placa', 'Placa Vehículo', r => r.metadata.vehiclePlate),
+    column('contenedor', 'Trailer/Contenedor', r => r.metadata.trailerContainer),
+    column('observaciones', 'Observaciones', r => r.metadata.observations || r.metadata.destructionReason),
+    column('masivo', 'Masivo', r => r.metadata.batch ? 'SI' : 'NO'),
+  ],
+  destroyed: [
+    COMMON_COLUMNS.fecha, COMMON_COLUMNS.sello, COMMON_COLUMNS.tipo, COMMON_COLUMNS.sede,
+    column('desde', 'Estado Previo', r => statusLabel(r.entry?.fromStatus)),
+    column('usuario', 'Responsable', r => r.entry?.user),
+    column('motivo', 'Motivo Destrucción', r => r.metadata.destructionReason || r.metadata.observations),
+    COMMON_COLUMNS.lote,
+  ],
+  inventory: [
+    COMMON_COLUMNS.sello, COMMON_COLUMNS.tipo, COMMON_COLUMNS.sede,
+    column('estado', 'Estado al Corte', r => statusLabel(r.status)),
+    column('ultimoMovimiento', 'Último Movimiento', r => r.entry && Dates.format(r.entry.date)),
+    column('operador', 'Operador', r => r.entry?.user),
+    COMMON_COLUMNS.lote,
+    column('alta', 'Fecha Alta', r => Dates.format(r.seal.creationDate)),
+  ],
+  closing: [
+    COMMON_COLUMNS.fecha, COMMON_COLUMNS.sello, COMMON_COLUMNS.tipo, COMMON_COLUMNS.sede,
+    column('evento', 'Evento', r => r.event),
+    column('usuario', 'Operador', r => r.entry?.user),
+    column('detalle', 'Detalle', r => r.entry?.details),
+  ],
+};
+
+export const REPORT_KIND_LABELS: Record<ReportKind, string> = {
+  movements: 'Resumen de movimientos',
+  destroyed: 'Registro de destruidos',
+  inventory: 'Foto de inventario al corte',
+  closing: 'Cierre de inventario entre fechas',
+};
+
+export const REPORT_GROUPING_LABELS: Record<ReportGrouping, string> = {
+  none: 'Sin agrupar',
+  city: 'Por sede',
+  status: 'Por estado',
+  type: 'Por tipo de sello',
+  month: 'Por mes',
+};
+
+export const REPORT_PERIOD_LABELS: Record<ReportPeriodPreset, string> = {
+  today: 'Hoy',
+  last7Days: 'Últimos 7 días',
+  last30Days: 'Últimos 30 días',
+  currentMonth: 'Mes en curso',
+  previousMonth: 'Mes anterior',
+  custom: 'Fechas fijas',
+};
+
+export const REPORT_SCHEDULE_LABELS: Record<ReportSchedule, string> = {
+  NINGUNA: 'Solo manual',
+  DIARIA: 'Diaria',
+  SEMANAL: 'Semanal',
+  MENSUAL: 'Mensual',
+};
+
+// Plantillas de partida que ofrece el editor
+export const REPORT_PRESETS: Pick<ReportTemplate, 'name' | 'kind' | 'groupBy' | 'period' | 'schedule'>[] = [
+  { name: 'Resumen mensual de movimientos por sede', kind: 'movements', groupBy: 'city', period: { preset: 'previousMonth' }, schedule: 'MENSUAL' },
+  { name: 'Registro de precintos destruidos', kind: 'destroyed', groupBy: 'month', period: { preset: 'last30Days' }, schedule: 'SEMANAL' },
+  { name: 'Inventario al cierre de mes', kind: 'inventory', groupBy: 'status', period: { preset: 'previousMonth' }, schedule: 'MENSUAL' },
+  { name: 'Cierre mensual de inventario', kind: 'closing', groupBy: 'city', period: { preset: 'previousMonth' }, schedule: 'MENSUAL' },
+];
+
+const shiftDay = (day: string, days: number) => new Date(Date.parse(`${day}T00:00:00Z`) + days * DAY_MS).toISOString().slice(0, 10);
+
+// Clave del periodo de programación que contiene el día: un informe vence cuando la clave cambia
+const scheduleKey = (schedule: ReportSchedule, day: string): string => {
+  if (schedule === 'MENSUAL') return day.slice(0, 7);
+  if (schedule === 'SEMANAL') return shiftDay(day, -((new Date(`${day}T00:00:00Z`).getUTCDay() + 6) % 7));
+  return day;
+};
+
+const groupKey = (grouping: ReportGrouping, r: ReportRecord, timeZone: string): string => {
+  if (grouping === 'city') return r.city;
+  if (grouping === 'status') return statusLabel(r.status);
+  if (grouping === 'type') return r.seal.type.toUpperCase();
+  if (grouping === 'month') return Dates.toDay(r.entry?.date || r.seal.creationDate, timeZone).slice(0, 7);
+  return 'Datos';
+};
+
+// Dimensión que desglosa la hoja de resumen según el tipo de informe
+const summaryKey = (kind: ReportKind, r: ReportRecord): string => {
+  if (kind === 'closing') return r.event || '';
+  return kind === 'destroyed' ? r.seal.type.toUpperCase() : statusLabel(r.status);
+};
+
+// Nombres de hoja válidos para Excel: sin []:*?/\, máximo 31 caracteres y sin repetir
+const sheetName = (name: string, used: Set<string>): string => {
+  const base = name.replace(/[[\]:*?/\\]/g, '-').slice(0, 28) || 'Hoja';
+  let candidate = base;
+  for (let i = 2; used.has(candidate.toLowerCase()); i++) candidate = `${base}_${i}`;
+  used.add(candidate.toLowerCase());
+  return candidate;
+};
+
+/**
+ * INFORMES PLANTILLA
+ * Genera libros Excel de varias hojas a partir de una plantilla guardada: una hoja por
+ * grupo con su fila de total y una hoja de resumen. Se usa igual en el navegador y en el
+ * programador del backend, que regenera las plantillas periódicas.
+ */
+export const Reports = {
+  // Rango de días 'YYYY-MM-DD' del periodo en la zona indicada
+  range(period: ReportTemplate['period'], now: string, timeZone = DEFAULT_TIME_ZONE): { from: string; to: string } {
+    const today = Dates.toDay(now, timeZone);
+    switch (period.preset) {
+      case 'today': return { from: today, to: today };
+      case 'last7Days': return { from: shiftDay(today, -6), to: today };
+      case 'last30Days': return { from: shiftDay(today, -29), to: today };
+      case 'currentMonth': return { from: `${today.slice(0, 7)}-01`, to: today };
+      case 'previousMonth': {
+        const lastDay = shiftDay(`${today.slice(0, 7)}-01`, -1);
+        return { from: `${lastDay.slice(0, 7)}-01`, to: lastDay };
+      }
+      default: return { from: period.from || today, to: period.to || today };
+    }
+  },
+
+  isDue(template: ReportTemplate, now: string, timeZone = DEFAULT_TIME_ZONE): boolean {
+    if (template.schedule === 'NINGUNA') return false;
+    if (!template.lastRunAt) return true;
+    return scheduleKey(template.schedule, Dates.toDay(now, timeZone)) !== scheduleKey(template.schedule, Dates.toDay(template.lastRunAt, timeZone));
+  },
+
+  records(template: ReportTemplate, seals: Seal[], now: string, timeZone: string): ReportRecord[] {
+    const { from, to } = this.range(template.period, now, timeZone);
+    const inScope = (city: string) => !template.city || city === template.city;
+    const inRange = (h: MovementHistory) => { const day = Dates.toDay(h.date, timeZone); return day >= from && day <= to; };
+    const withMetadata = (seal: Seal, entry: MovementHistory, city = seal.city): ReportRecord => ({ seal, entry, metadata: entry.metadata || MovementDetails.parse(entry.details), status: entry.toStatus, city });
+    // Inventario y cierre usan la sede y el estado reconstruidos a partir del historial
+    if (template.kind === 'inventory') {
+      return SealReplay.snapshot(seals, Dates.endOfDay(to, timeZone))
+        .filter(state => inScope(state.city))
+        .map(state => withMetadata(state.seal, state.entry, state.city));
+    }
+    if (template.kind === 'closing') {
+      return SealReplay.events(seals, SealReplay.openingOf(from, timeZone), Dates.endOfDay(to, timeZone))
+        .filter(e => inScope(e.city))
+        .map(e => ({ ...withMetadata(e.seal, e.entry, e.city), event: e.event }))
+        .sort((a, b) => (a.entry?.date || '').localeCompare(b.entry?.date || ''));
+    }
+    // Cada movimiento se atribuye a la sede donde estaba el precinto cuando ocurrió, no a la actual
+    const records = seals.flatMap(seal => seal.history
+      .filter(h => inRange(h) && h.fromStatus !== h.toStatus && (template.kind === 'movements' || h.toStatus === SealStatus.DESTRUIDO))
+      .map(h => withMetadata(seal, h, SealReplay.stateAt(seal, h.date)?.city || seal.city))
+      .filter(r => inScope(r.city)));
+    return records.sort((a, b) => (a.entry?.date || '').localeCompare(b.entry?.date || ''));
+  },
+
+  build(template: ReportTemplate, seals: Seal[], now: string, timeZone = DEFAULT_TIME_ZONE): ReportWorkbook {
+    const columns = REPORT_COLUMNS[template.kind].filter(c => template.columns.includes(c.key));
+    const selected = columns.length > 0 ? columns : REPORT_COLUMNS[template.kind];
+    const records = this.records(template, seals, now, timeZone);
+    const groups = new Map<string, ReportRecord[]>();
+    records.forEach(r => {
+      const key = groupKey(template.groupBy, r, timeZone);
+      groups.set(key, [...(groups.get(key) || []), r]);
+    });
+    const used = new Set<string>();
+    const { from, to } = this.range(template.period, now, timeZone);
+
+    // Resumen: una fila por grupo con el desglose y el total, más la fila de total general
+    const breakdown = Array.from(new Set(records.map(r => summaryKey(template.kind, r)))).sort();
+    // En el cierre, cada grupo muestra además el disponible al inicio y al final del periodo
+    const withStock = template.kind === 'closing' && ['none', 'city', 'type'].includes(template.groupBy);
+    const stockOf = (instant: string) => SealReplay.snapshot(seals, instant)
+      .filter(st => (!template.city || st.city === template.city) && AVAILABLE_STATUSES.includes(st.status))
+      .map(st => groupKey(template.groupBy, { seal: st.seal, entry: st.entry, metadata: {}, status: st.status, city: st.city }, timeZone));
+    const [opening, closing] = withStock ? [stockOf(SealReplay.openingOf(from, timeZone)), stockOf(Dates.endOfDay(to, timeZone))] : [[], []];
+    const stockCount = (keys: string[], label: string) => label === TOTAL_LABEL ? keys.length : keys.filter(k => k === label).length;
+    const summaryRow = (label: string, list: ReportRecord[]) => ({
+      Grupo: label,
+      ...(withStock ? { 'Disponible Inicial': stockCount(opening, label) } : {}),
+      ...Object.fromEntries(breakdown.map(k => [k, list.filter(r => summaryKey(template.kind, r) === k).length])),
+      Total: list.length,
+      ...(withStock ? { 'Disponible Final': stockCount(closing, label) } : {}),
+    });
+    const summary: ReportSheet = {
+      name: sheetName('Resumen', used),
+      rows: [
+        ...Array.from(new Set([...groups.keys(), ...opening, ...closing]), key => summaryRow(key, groups.get(key) || [])).sort((a, b) => String(a.Grupo).localeCompare(String(b.Grupo))),
+        summaryRow(TOTAL_LABEL, records),
+        {},
+        { Grupo: `${template.name} · ${template.kind === 'inventory' ? `Corte al ${to}` : `Del ${from} al ${to}`} · ${template.city || 'Todas las sedes'}` },
+      ],
+    };
+
+    const detail = Array.from(groups.keys()).sort().map(key => {
+      const list = groups.get(key) || [];
+      return {
+        name: sheetName(key, used),
+        rows: [
+          ...list.map(r => Object.fromEntries(selected.map(c => [c.label, c.value(r)]))),
+          { [selected[0].label]: TOTAL_LABEL, [selected[selected.length > 1 ? 1 : 0].label]: `${list.length} registro(s)` },
+        ],
+      };
+    });
+
+    return {
+      fileName: `${template.name.replace(/[^\p{L}\p{N}]+/gu, '_')}_${Dates.toDay(now, timeZone)}.xlsx`,
+      sheets: detail.length > 0 ? [summary, ...detail] : [summary, { name: sheetName('Datos', used), rows: [{ [selected[0].label]: 'Sin registros en el periodo' }] }],
+      rows: records.length,
+    };
+  },
+
+  // Libro XLSX en base64 (se guarda en el historial del backend y se descarga desde el navegador)
+  toBase64(workbook: ReportWorkbook): string {
+    const wb = XLSX.utils.book_new();
+    workbook.sheets.forEach(sheet => {
+      const ws = XLSX.utils.json_to_sheet(sheet.rows);
+      const headers = Array.from(new Set(sheet.rows.flatMap(r => Object.keys(r))));
+      ws['!cols'] = headers.map(h => ({ wch: Math.min(40, Math.max(h.length, ...sheet.rows.map(r => String(r[h] ?? '').length)) + 2) }));
+      XLSX.utils.book_append_sheet(wb, ws, sheet.name);
+    });
+    return XLSX.write(wb, { type: 'base64', bookType: 'xlsx' });
+  },
+
+  generate(template: ReportTemplate, seals: Seal[], user: string, now: string, timeZone = DEFAULT_TIME_ZONE): GeneratedReport {
+    const workbook = this.build(template, seals, now, timeZone);
+    return {
+      id: `RPT-${Date.now().toString(36).toUpperCase()}-${Math.random().toString(36).slice(2, 6).toUpperCase()}`,
+      templateId: template.id,
+      templateName: template.name,
+      fileName: workbook.fileName,
+      generatedAt: now,
+      generatedBy: user,
+      rows: workbook.rows,
+      data: this.toBase64(workbook),
+    };
+  },
+};
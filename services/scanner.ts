@@ -0,0 +1,107 @@
+// API nativa del navegador (Chrome/Android); no está en las definiciones DOM de TypeScript
+interface DetectedBarcode {
+  rawValue: string;
+}
+
+interface BarcodeDetectorInstance {
+  detect(source: HTMLVideoElement): Promise<DetectedBarcode[]>;
+}
+
+declare global {
+  interface Window {
+    BarcodeDetector?: new (options?: { formats: string[] }) => BarcodeDetectorInstance;
+  }
+}
+
+const NATIVE_FORMATS = ['code_128', 'code_39', 'ean_13', 'qr_code', 'data_matrix'];
+const DETECT_INTERVAL_MS = 250;
+
+let audio: AudioContext | null = null;
+
+const beep = (frequency: number, duration: number) => {
+  try {
+    audio = audio || new AudioContext();
+    const osc = audio.createOscillator();
+    const gain = audio.createGain();
+    osc.frequency.value = frequency;
+    gain.gain.value = 0.15;
+    osc.connect(gain).connect(audio.destination);
+    osc.start();
+    osc.stop(audio.currentTime + duration / 1000);
+  } catch {
+    // Sin audio disponible: queda solo la señal visual
+  }
+};
+
+/**
+ * LECTURA DE CÓDIGOS
+ * Normaliza lo que entrega un lector tipo teclado o la cámara y da la señal
+ * sonora de aceptación o rechazo de cada lectura.
+ */
+export const Scanner = {
+  // Acepta el ID plano o un QR con URL/JSON que lo contenga (?id=, {"id": ...})
+  parse(raw: string): string {
+    const text = raw.replace(/[\u0000-\u001f]/g, '').trim();
+    if (text.startsWith('{')) {
+      try {
+        const payload = JSON.parse(text);
+        if (payload && typeof payload.id === 'string') return payload.id.trim().toUpperCase();
+      } catch {
+        // No es JSON: se usa el texto tal cual
+      }
+    }
+    if (/^https?:\/\//i.test(text)) {
+      try {
+        const id = new URL(text).searchParams.get('id');
+        if (id) return id.trim().toUpperCase();
+      } catch {
+        // URL mal formada: se usa el texto tal cual
+      }
+    }
+    return text.toUpperCase();
+  },
+
+  accept() {
+    beep(1320, 90);
+  },
+
+  reject() {
+    beep(220, 280);
+  },
+
+  hasNativeDetector(): boolean {
+    return typeof window !== 'undefined' && !!window.BarcodeDetector;
+  },
+
+  // Lee códigos de la cámara trasera; BarcodeDetector si existe, ZXing como alternativa
+  async startCamera(video: HTMLVideoElement, onCode: (code: string) => void): Promise<() => void> {
+    if (window.BarcodeDetector) {
+      const detector = new window.BarcodeDetector({ formats: NATIVE_FORMATS });
+      const stream = await navigator.mediaDevices.getUserMedia({ video: { facingMode: 'environment' } });
+      video.srcObject = stream;
+      await video.play();
+      let busy = false;
+      const timer = setInterval(async () => {
+        if (busy || video.readyState < 2) return;
+        busy = true;
+        try {
+          (await detector.detect(video)).forEach(code => onCode(code.rawValue));
+        } catch {
+          // Cuadro ilegible: se reintenta en el siguiente intervalo
+        } finally {
+          busy = false;
+        }
+      }, DETECT_INTERVAL_MS);
+      return () => {
+        clearInterval(timer);
+        stream.getTracks().forEach(t => t.stop());
+        video.srcObject = null;
+      };
+    }
+    const { BrowserMultiFormatReader } = await import('@zxing/browser');
+    const controls = await new BrowserMultiFormatReader().decodeFromConstraints({ video: { facingMode: 'environment' } }, video, result => {
+      if (result) onCode(result.getText());
+    });
+    return () => controls.stop();
+  },
+};
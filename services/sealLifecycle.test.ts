@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { SealStatus, User, UserRole } from '../types';
+import { SealLifecycle } from './sealLifecycle';
+
+const user = (role: UserRole): User => ({ id: role, username: role, fullName: role, role, organization: 'Org', city: 'BOGOTÁ' });
+const admin = user(UserRole.ADMIN);
+const emptyForm = { requester: '', observations: '', vehiclePlate: '', trailerContainer: '', deliveredSub: '' };
+
+describe('SealLifecycle', () => {
+  it('solo admite las transiciones de la tabla', () => {
+    expect(SealLifecycle.getTransition(SealStatus.ENTRADA_INVENTARIO, SealStatus.ASIGNADO)).toBeDefined();
+    expect(SealLifecycle.getTransition(SealStatus.ENTRADA_INVENTARIO, SealStatus.INSTALADO)).toBeUndefined();
+    expect(SealLifecycle.getTransition(SealStatus.DESTRUIDO, SealStatus.ASIGNADO)).toBeUndefined();
+  });
+
+  it('marca como terminales la salida de fábrica y la destrucción', () => {
+    expect(SealLifecycle.isTerminal(SealStatus.SALIDA_FABRICA)).toBe(true);
+    expect(SealLifecycle.isTerminal(SealStatus.DESTRUIDO)).toBe(true);
+    expect(SealLifecycle.isTerminal(SealStatus.INSTALADO)).toBe(false);
+  });
+
+  it('no ofrece como movimiento suelto las transiciones de traslado', () => {
+    const targets = SealLifecycle.getAllowedTransitions(SealStatus.ENTRADA_INVENTARIO, admin).map(t => t.to);
+    expect(targets).toContain(SealStatus.ASIGNADO);
+    expect(targets).not.toContain(SealStatus.EN_TRANSITO);
+    expect(SealLifecycle.validateMovement([{ id: 'A1', status: SealStatus.ENTRADA_INVENTARIO }], SealStatus.EN_TRANSITO, admin)).toMatch(/orden de traslado/);
+  });
+
+  it('rechaza movimientos sin permiso para el estado destino', () => {
+    const installer = user(UserRole.INSTALADOR);
+    expect(SealLifecycle.validateMovement([{ id: 'A1', status: SealStatus.ENTRADA_INVENTARIO }], SealStatus.ASIGNADO, installer)).toMatch(/no está autorizado/);
+    expect(SealLifecycle.getAllowedTransitions(SealStatus.ENTREGADO, installer).map(t => t.to).sort()).toEqual([SealStatus.INSTALADO, SealStatus.NO_INSTALADO]);
+  });
+
+  it('valida cada precinto de un lote', () => {
+    const seals = [{ id: 'A1', status: SealStatus.ENTRADA_INVENTARIO }, { id: 'A2', status: SealStatus.INSTALADO }];
+    expect(SealLifecycle.validateMovement(seals, SealStatus.ASIGNADO, admin)).toMatch(/A2/);
+  });
+
+  it('exige los campos obligatorios de la transición', () => {
+    const seals = [{ id: 'A1', status: SealStatus.ENTREGADO }];
+    expect(SealLifecycle.validateMovement(seals, SealStatus.INSTALADO, admin, emptyForm)).toBe('Placa y Contenedor obligatorios.');
+    expect(SealLifecycle.validateMovement(seals, SealStatus.INSTALADO, admin, { ...emptyForm, vehiclePlate: 'ABC123', trailerContainer: 'C1' })).toBeNull();
+  });
+
+  it('exige los campos de la transición de cada precinto del lote, no solo del primero', () => {
+    const seals = [{ id: 'A1', status: SealStatus.ENTREGADO }, { id: 'A2', status: SealStatus.ENTRADA_INVENTARIO }];
+    const installed = { ...emptyForm, vehiclePlate: 'ABC123', trailerContainer: 'C1' };
+    expect(SealLifecycle.validateMovement(seals, SealStatus.INSTALADO, admin, installed)).toMatch(/A2/);
+    const transition = SealLifecycle.getTransition(SealStatus.NO_INSTALADO, SealStatus.ASIGNADO);
+    expect(transition && SealLifecycle.missingField(transition, emptyForm)).toBe('El Usuario Receptor es obligatorio.');
+    expect(transition && SealLifecycle.missingField(transition, { ...emptyForm, requester: 'JUAN' })).toBeNull();
+  });
+
+  it('solo permite registrar precintos en entrada a inventario', () => {
+    expect(SealLifecycle.validateCreation(SealStatus.ENTRADA_INVENTARIO, admin)).toBeNull();
+    expect(SealLifecycle.validateCreation(SealStatus.ASIGNADO, admin)).not.toBeNull();
+    expect(SealLifecycle.validateCreation(SealStatus.ENTRADA_INVENTARIO, user(UserRole.AUDITOR))).not.toBeNull();
+  });
+});
@@ -0,0 +1,97 @@
+import { Seal, SealStatus, User, Permission, MovementFormData } from '../types';
+import { can } from './permissions';
+
+export interface RequiredField {
+  field: keyof MovementFormData;
+  message: string;
+}
+
+export interface SealTransition {
+  from: SealStatus | null; // null = alta inicial del precinto
+  to: SealStatus;
+  label: string;
+  requiredFields: RequiredField[];
+  permission: Permission; // Permiso necesario para ejecutar la transición
+  transfer?: boolean; // Solo mediante una orden de traslado (ver SealTransfers), nunca como movimiento suelto
+}
+
+// Estados en los que termina el ciclo operativo del precinto
+export const TERMINAL_STATUSES: SealStatus[] = [SealStatus.SALIDA_FABRICA, SealStatus.DESTRUIDO];
+
+const destroyFrom = (from: SealStatus): SealTransition => ({
+  from,
+  to: SealStatus.DESTRUIDO,
+  label: 'Reportar Sello Destruido',
+  requiredFields: [{ field: 'observations', message: 'El Motivo es obligatorio.' }],
+  permission: 'seal.move:DESTRUIDO',
+});
+
+/**
+ * TABLA DE TRANSICIONES
+ * Única fuente de verdad del ciclo de vida del precinto. Cualquier cambio de
+ * estado que no figure aquí es rechazado por la UI, las importaciones y la API.
+ */
+export const SEAL_TRANSITIONS: SealTransition[] = [
+  { from: null, to: SealStatus.ENTRADA_INVENTARIO, label: 'Registrar Precinto', requiredFields: [], permission: 'seal.create' },
+  { from: SealStatus.ENTRADA_INVENTARIO, to: SealStatus.ASIGNADO, label: 'Asignar Sello a Pedido', requiredFields: [{ field: 'requester', message: 'El Usuario Receptor es obligatorio.' }], permission: 'seal.move:ASIGNADO' },
+  { from: SealStatus.NO_INSTALADO, to: SealStatus.ASIGNADO, label: 'Asignar Sello a Pedido', requiredFields: [{ field: 'requester', message: 'El Usuario Receptor es obligatorio.' }], permission: 'seal.move:ASIGNADO' },
+  { from: SealStatus.ASIGNADO, to: SealStatus.ENTREGADO, label: 'Entregar Despacho del Sello', requiredFields: [{ field: 'requester', message: 'El Usuario Receptor es obligatorio.' }], permission: 'seal.move:ENTREGADO' },
+  { from: SealStatus.ENTREGADO, to: SealStatus.INSTALADO, label: 'Confirmar Instalación de Sello', requiredFields: [{ field: 'vehiclePlate', message: 'Placa y Contenedor obligatorios.' }, { field: 'trailerContainer', message: 'Placa y Contenedor obligatorios.' }], permission: 'seal.move:INSTALADO' },
+  { from: SealStatus.ENTREGADO, to: SealStatus.NO_INSTALADO, label: 'Reportar No Instalado (Reutilizar)', requiredFields: [{ field: 'deliveredSub', message: "El campo 'Entregado sub:' es obligatorio." }], permission: 'seal.move:NO_INSTALADO' },
+  { from: SealStatus.INSTALADO, to: SealStatus.SALIDA_FABRICA, label: 'Liberar Salida Sello (Final)', requiredFields: [], permission: 'seal.move:SALIDA_FABRICA' },
+  { from: SealStatus.ENTRADA_INVENTARIO, to: SealStatus.EN_TRANSITO, label: 'Despachar a Otra Sede', requiredFields: [], permission: 'seal.move:EN_TRANSITO', transfer: true },
+  { from: SealStatus.EN_TRANSITO, to: SealStatus.ENTRADA_INVENTARIO, label: 'Recibir Traslado', requiredFields: [], permission: 'seal.move:EN_TRANSITO', transfer: true },
+  destroyFrom(SealStatus.ENTRADA_INVENTARIO),
+  destroyFrom(SealStatus.ASIGNADO),
+  destroyFrom(SealStatus.ENTREGADO),
+  destroyFrom(SealStatus.INSTALADO),
+  destroyFrom(SealStatus.NO_INSTALADO),
+  // Faltantes de un traslado que no aparecen se dan de baja desde la sede de origen
+  destroyFrom(SealStatus.EN_TRANSITO),
+];
+
+export const SealLifecycle = {
+  isTerminal(status: SealStatus): boolean {
+    return TERMINAL_STATUSES.includes(status);
+  },
+
+  getTransition(from: SealStatus | null, to: SealStatus): SealTransition | undefined {
+    return SEAL_TRANSITIONS.find(t => t.from === from && t.to === to);
+  },
+
+  // Transiciones que el usuario puede ejecutar desde un estado dado (sin las de traslado)
+  getAllowedTransitions(from: SealStatus | null, user: User): SealTransition[] {
+    return SEAL_TRANSITIONS.filter(t => t.from === from && !t.transfer && can(user, t.permission));
+  },
+
+  canTransition(from: SealStatus | null, to: SealStatus, user: User): boolean {
+    const transition = this.getTransition(from, to);
+    return !!transition && can(user, transition.permission);
+  },
+
+  /**
+   * Valida un movimiento (individual o por lote) contra la tabla.
+   * Devuelve el mensaje de error a mostrar o null si el movimiento es legal.
+   */
+  validateMovement(seals: Pick<Seal, 'id' | 'status'>[], to: SealStatus, user: User, data?: MovementFormData): string | null {
+    for (const seal of seals) {
+      const transition = this.getTransition(seal.status, to);
+      if (!transition) return `Transición no permitida para el sello ${seal.id}: ${seal.status.replace('_', ' ')} → ${to.replace('_', ' ')}.`;
+      if (transition.transfer) return `El sello ${seal.id} solo puede cambiar a ${to.replace('_', ' ')} mediante una orden de traslado.`;
+      if (!can(user, transition.permission)) return `El rol ${user.role} no está autorizado para mover sellos a ${to.replace('_', ' ')}.`;
+      const missing = data && this.missingField(transition, data);
+      if (missing) return missing;
+    }
+    return null;
+  },
+
+  // Mensaje del primer campo obligatorio de la transición que llega vacío (UI y API)
+  missingField(transition: SealTransition, data: MovementFormData): string | null {
+    return transition.requiredFields.find(f => !data[f.field]?.trim())?.message || null;
+  },
+
+  // Valida el alta de un precinto nuevo (registro manual o importación)
+  validateCreation(status: SealStatus, user: User): string | null {
+    return this.canTransition(null, status, user) ? null : `No se permite registrar precintos en estado ${status.replace('_', ' ')}.`;
+  },
+};
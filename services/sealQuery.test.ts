@@ -0,0 +1,58 @@
+import { describe, expect, it } from 'vitest';
+import { FilterOptions, Seal, SealStatus } from '../types';
+import { DEFAULT_SEAL_SORT, SealQueries, SealQuery } from './sealQuery';
+
+const seal = (id: string, overrides: Partial<Seal> = {}): Seal => ({
+  uid: `u-${id}`, id, type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO, creationDate: '2026-03-01T15:00:00.000Z', lastMovement: '2026-03-01T15:00:00.000Z',
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history: [], ...overrides,
+});
+
+const filters: FilterOptions = { idSello: '', estado: '', tipo: 'Todos', fechaInicio: '', fechaFin: '', fechaCampo: 'ultimoMovimiento', estadoMovimiento: '' };
+const query = (overrides: Partial<SealQuery> = {}): SealQuery => ({ dateField: 'ultimoMovimiento', sort: 'id', direction: 'asc', offset: 0, ...overrides });
+
+describe('SealQueries', () => {
+  it('traduce los filtros del buscador con los días en la zona de presentación', () => {
+    const result = SealQueries.fromFilters({ ...filters, idSello: ' s1 ', tipo: 'Guaya', fechaInicio: '2026-03-01', fechaFin: '2026-03-01', fechaCampo: 'movimiento', estadoMovimiento: SealStatus.INSTALADO }, DEFAULT_SEAL_SORT, 100, 50);
+    expect(result).toEqual({ id: 's1', type: 'Guaya', dateField: 'movimiento', from: '2026-03-01T05:00:00.000Z', to: '2026-03-02T04:59:59.999Z', movementStatus: SealStatus.INSTALADO, sort: 'lastMovement', direction: 'desc', offset: 100, limit: 50 });
+    expect(SealQueries.fromFilters({ ...filters, estadoMovimiento: SealStatus.INSTALADO }, DEFAULT_SEAL_SORT)).not.toHaveProperty('movementStatus');
+  });
+
+  it('ida y vuelta por la URL y lectura tolerante de parámetros inválidos', () => {
+    const original = query({ city: 'BOGOTÁ', status: SealStatus.ASIGNADO, from: '2026-03-01T05:00:00.000Z', offset: 200, limit: 100 });
+    expect(SealQueries.fromParams(new URLSearchParams(SealQueries.toParams(original)))).toEqual(original);
+    expect(SealQueries.fromParams(new URLSearchParams('sort=notes&dateField=otro&direction=x&offset=-5&limit=0'))).toMatchObject({ sort: 'lastMovement', dateField: 'ultimoMovimiento', direction: 'desc', offset: 0, limit: undefined });
+  });
+
+  it('filtra por sede, código parcial, estado y rango de fechas sin mostrar bajas', () => {
+    const seals = [
+      seal('A-100'),
+      seal('A-200', { city: 'MEDELLÍN' }),
+      seal('B-100', { status: SealStatus.ASIGNADO }),
+      seal('A-300', { lastMovement: '2026-03-05T15:00:00.000Z' }),
+      seal('A-400', { deletedAt: '2026-03-02T15:00:00.000Z' }),
+    ];
+    const ids = (q: SealQuery) => SealQueries.run(seals, q).items.map(s => s.id);
+    expect(ids(query({ city: 'BOGOTÁ', id: 'a-' }))).toEqual(['A-100', 'A-300']);
+    expect(ids(query({ status: SealStatus.ASIGNADO }))).toEqual(['B-100']);
+    expect(ids(query({ from: '2026-03-04T05:00:00.000Z', to: '2026-03-06T04:59:59.999Z' }))).toEqual(['A-300']);
+    expect(ids(query({ dateField: 'alta', from: '2026-03-04T05:00:00.000Z' }))).toEqual([]);
+  });
+
+  it('con fecha de movimiento busca en el historial y el estado solo restringe con rango', () => {
+    const installed = seal('S1', { history: [{ date: '2026-03-03T15:00:00.000Z', fromStatus: SealStatus.ASIGNADO, toStatus: SealStatus.INSTALADO, user: 'Operador', details: '' }] });
+    const moved = query({ dateField: 'movimiento', from: '2026-03-03T05:00:00.000Z', to: '2026-03-04T04:59:59.999Z' });
+    expect(SealQueries.matches(installed, { ...moved, movementStatus: SealStatus.INSTALADO })).toBe(true);
+    expect(SealQueries.matches(installed, { ...moved, movementStatus: SealStatus.DESTRUIDO })).toBe(false);
+    expect(SealQueries.matches(installed, query({ dateField: 'movimiento', movementStatus: SealStatus.DESTRUIDO }))).toBe(true);
+  });
+
+  it('ordena con desempate por código y tipo y pagina con el total sin recortar', () => {
+    const seals = [seal('S2', { city: 'CALI' }), seal('S1', { city: 'CALI', type: 'Guaya' }), seal('S1', { city: 'CALI' }), seal('S3', { city: 'BOGOTÁ' })];
+    const first = SealQueries.page(seals, query({ sort: 'city', limit: 2 }));
+    expect(first.items.map(s => `${s.id}/${s.type}`)).toEqual(['S3/Botella', 'S1/Botella']);
+    expect(first.total).toBe(4);
+    const rest = SealQueries.page(seals, query({ sort: 'city', offset: 2 }));
+    expect(rest.items.map(s => `${s.id}/${s.type}`)).toEqual(['S1/Guaya', 'S2/Botella']);
+    expect(SealQueries.page(seals, query({ sort: 'city', direction: 'desc', limit: 1 })).items[0].id).toBe('S2');
+  });
+});
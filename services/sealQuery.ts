@@ -0,0 +1,155 @@
+import { DateFilterField, FilterOptions, MovementHistory, Seal } from '../types';
+import { Dates } from './dates';
+
+export type SealSortField = 'id' | 'status' | 'type' | 'entryUser' | 'city' | 'creationDate' | 'lastMovement';
+export type SortDirection = 'asc' | 'desc';
+
+export interface SealSort {
+  field: SealSortField;
+  direction: SortDirection;
+}
+
+// Consulta ya resuelta: las fechas del buscador se convierten a instantes ISO en la zona de la sede
+export interface SealQuery {
+  city?: string;
+  id?: string; // Coincidencia parcial, sin distinguir mayúsculas
+  status?: string;
+  type?: string;
+  dateField: DateFilterField;
+  from?: string; // ISO UTC inclusivo
+  to?: string;
+  movementStatus?: string; // Con dateField 'movimiento': estado destino del movimiento buscado
+  sort: SealSortField;
+  direction: SortDirection;
+  offset: number;
+  limit?: number; // Ausente = todas las filas desde offset
+}
+
+export interface SealPage {
+  items: Seal[];
+  total: number; // Filas que cumplen los filtros, sin paginar
+  offset: number;
+}
+
+// Campos del precinto sin historial (registro de IndexedDB o fila SQL)
+type SealFields = Omit<Seal, 'history'>;
+
+export const SEAL_SORT_LABELS: Record<SealSortField, string> = {
+  id: 'ID Sello',
+  status: 'Estado Logístico',
+  type: 'Tipo',
+  entryUser: 'Operador',
+  city: 'Ciudad',
+  creationDate: 'Fecha Alta',
+  lastMovement: 'Último Movimiento',
+};
+
+const SORT_FIELDS = Object.keys(SEAL_SORT_LABELS) as SealSortField[];
+const DATE_FIELDS: DateFilterField[] = ['ultimoMovimiento', 'alta', 'movimiento'];
+
+export const DEFAULT_SEAL_SORT: SealSort = { field: 'lastMovement', direction: 'desc' };
+
+// Filas por petición al backend o a la copia local
+export const SEAL_PAGE_SIZE = 100;
+
+// --- HELPERS ---
+
+const inBounds = (date: string, query: SealQuery) => (!query.from || date >= query.from) && (!query.to || date <= query.to);
+
+// Comparación binaria, igual que el ORDER BY de SQLite, para que todas las fuentes paginen igual
+const compareText = (a: string, b: string) => a < b ? -1 : a > b ? 1 : 0;
+
+// Desempate por código y tipo para que las páginas sean estables con valores repetidos
+const compareSeals = (field: SealSortField, direction: SortDirection) => (a: SealFields, b: SealFields): number => {
+  const order = compareText(String(a[field]), String(b[field])) || compareText(a.id, b.id) || compareText(a.type, b.type);
+  return direction === 'asc' ? order : -order;
+};
+
+/**
+ * CONSULTA PAGINADA DEL INVENTARIO
+ * Filtros, orden y paginación comunes al servidor (SQL), a la copia local (IndexedDB) y
+ * a la memoria (inventario al corte). Los precintos eliminados nunca aparecen.
+ */
+export const SealQueries = {
+  fromFilters(filters: FilterOptions, sort: SealSort, offset = 0, limit?: number): SealQuery {
+    return {
+      ...(filters.ciudad ? { city: filters.ciudad } : {}),
+      ...(filters.idSello.trim() ? { id: filters.idSello.trim() } : {}),
+      ...(filters.estado ? { status: filters.estado } : {}),
+      ...(filters.tipo !== 'Todos' ? { type: filters.tipo } : {}),
+      dateField: filters.fechaCampo,
+      ...(filters.fechaInicio ? { from: Dates.startOfDay(filters.fechaInicio) } : {}),
+      ...(filters.fechaFin ? { to: Dates.endOfDay(filters.fechaFin) } : {}),
+      ...(filters.fechaCampo === 'movimiento' && filters.estadoMovimiento ? { movementStatus: filters.estadoMovimiento } : {}),
+      sort: sort.field,
+      direction: sort.direction,
+      offset,
+      ...(limit !== undefined ? { limit } : {}),
+    };
+  },
+
+  toParams(query: SealQuery): string {
+    const params = new URLSearchParams();
+    Object.entries(query).forEach(([key, value]) => value !== undefined && params.set(key, String(value)));
+    return params.toString();
+  },
+
+  // Lectura tolerante de los parámetros de la URL (servidor)
+  fromParams(params: URLSearchParams): SealQuery {
+    const text = (key: string) => params.get(key) || undefined;
+    const sort = params.get('sort') as SealSortField;
+    const dateField = params.get('dateField') as DateFilterField;
+    const limit = Number(params.get('limit'));
+    return {
+      city: text('city'),
+      id: text('id'),
+      status: text('status'),
+      type: text('type'),
+      dateField: DATE_FIELDS.includes(dateField) ? dateField : 'ultimoMovimiento',
+      from: text('from'),
+      to: text('to'),
+      movementStatus: text('movementStatus'),
+      sort: SORT_FIELDS.includes(sort) ? sort : DEFAULT_SEAL_SORT.field,
+      direction: params.get('direction') === 'asc' ? 'asc' : 'desc',
+      offset: Math.max(0, Math.floor(Number(params.get('offset')) || 0)),
+      limit: params.has('limit') && limit > 0 ? Math.floor(limit) : undefined,
+    };
+  },
+
+  // Filtros que no necesitan el historial (índices de IndexedDB / columnas SQL)
+  matchesFields(seal: SealFields, query: SealQuery): boolean {
+    if (seal.deletedAt) return false;
+    if (query.city && seal.city !== query.city) return false;
+    if (query.id && !seal.id.toLowerCase().includes(query.id.toLowerCase())) return false;
+    if (query.status && seal.status !== query.status) return false;
+    if (query.type && seal.type !== query.type) return false;
+    if (query.dateField === 'alta') return inBounds(seal.creationDate, query);
+    if (query.dateField === 'ultimoMovimiento') return inBounds(seal.lastMovement, query);
+    return true;
+  },
+
+  // Con dateField 'movimiento' basta un movimiento del historial dentro del rango
+  matchesMovement(entry: MovementHistory, query: SealQuery): boolean {
+    return (!query.movementStatus || entry.toStatus === query.movementStatus) && inBounds(entry.date, query);
+  },
+
+  // Sin rango de fechas el estado del movimiento no restringe (igual que el buscador)
+  needsHistory(query: SealQuery): boolean {
+    return query.dateField === 'movimiento' && !!(query.from || query.to);
+  },
+
+  matches(seal: Seal, query: SealQuery): boolean {
+    return this.matchesFields(seal, query) && (!this.needsHistory(query) || seal.history.some(h => this.matchesMovement(h, query)));
+  },
+
+  // Ordena y recorta filas ya filtradas
+  page<T extends SealFields>(rows: T[], query: SealQuery): { items: T[]; total: number; offset: number } {
+    const sorted = [...rows].sort(compareSeals(query.sort, query.direction));
+    return { items: sorted.slice(query.offset, query.limit === undefined ? undefined : query.offset + query.limit), total: rows.length, offset: query.offset };
+  },
+
+  // Consulta en memoria (p. ej. sobre el inventario reconstruido al corte)
+  run(seals: Seal[], query: SealQuery): SealPage {
+    return this.page(seals.filter(s => this.matches(s, query)), query);
+  },
+};
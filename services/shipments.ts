@@ -0,0 +1,79 @@
+import { MovementHistory, MovementMetadata, Seal, SealStatus, Shipment, ShipmentStatus, User } from '../types';
+import { Dates } from './dates';
+
+export type ShipmentDraft = Pick<Shipment, 'orderNumber' | 'customer' | 'vehiclePlate' | 'trailerContainer' | 'driver'> & { departureAt: string; notes: string };
+
+export const SHIPMENT_STATUS_LABELS: Record<ShipmentStatus, string> = { ABIERTO: 'Abierto', CERRADO: 'Cerrado' };
+
+// Movimientos que vinculan el sello a un despacho
+export const SHIPMENT_STATUSES: SealStatus[] = [SealStatus.ASIGNADO, SealStatus.INSTALADO];
+
+export interface ShipmentSeal {
+  seal: Seal;
+  entries: MovementHistory[]; // Movimientos del sello registrados con este despacho (más reciente primero)
+  attached: boolean; // false si después se vinculó a otro despacho
+}
+
+type SealLink = Pick<Seal, 'orderNumber' | 'containerId'> & { shipmentId?: string };
+
+/**
+ * DESPACHOS / PEDIDOS
+ * Agrupa los sellos que salen en un mismo vehículo. Asignar o instalar un sello con un
+ * despacho copia el pedido y el contenedor al sello; cliente y servidor aplican el
+ * vínculo con la misma función.
+ */
+export const Shipments = {
+  emptyDraft(): ShipmentDraft {
+    return { orderNumber: '', customer: '', vehiclePlate: '', trailerContainer: '', driver: '', departureAt: '', notes: '' };
+  },
+
+  toDraft(s: Shipment): ShipmentDraft {
+    return { orderNumber: s.orderNumber, customer: s.customer, vehiclePlate: s.vehiclePlate, trailerContainer: s.trailerContainer, driver: s.driver, departureAt: s.departureAt ? Dates.toInputValue(s.departureAt) : '', notes: s.notes || '' };
+  },
+
+  validate(draft: ShipmentDraft, existing: Shipment[], id?: string): string | null {
+    if (!draft.orderNumber.trim()) return 'El número de pedido es obligatorio.';
+    if (!draft.customer.trim()) return 'El cliente es obligatorio.';
+    const duplicate = existing.find(s => s.id !== id && s.orderNumber === draft.orderNumber.trim().toUpperCase());
+    if (duplicate) return `El pedido ${duplicate.orderNumber} ya tiene el despacho ${duplicate.id}.`;
+    return null;
+  },
+
+  // Alta (sin `base`) o edición de un despacho a partir del formulario
+  fromDraft(draft: ShipmentDraft, user: User, base?: Shipment): Shipment {
+    const notes = draft.notes.trim();
+    return {
+      id: base?.id || `DSP-${Date.now().toString(36).toUpperCase()}`,
+      orderNumber: draft.orderNumber.trim().toUpperCase(),
+      customer: draft.customer.trim().toUpperCase(),
+      vehiclePlate: draft.vehiclePlate.trim().toUpperCase(),
+      trailerContainer: draft.trailerContainer.trim().toUpperCase(),
+      driver: draft.driver.trim().toUpperCase(),
+      ...(draft.departureAt ? { departureAt: Dates.fromInputValue(draft.departureAt) } : {}),
+      city: base?.city || user.city,
+      status: base?.status || 'ABIERTO',
+      ...(notes ? { notes } : {}),
+      createdBy: base?.createdBy || user.fullName,
+      createdAt: base?.createdAt || Dates.now(),
+    };
+  },
+
+  // Metadata del movimiento que deja constancia del despacho
+  metadata(shipment: Shipment): Pick<MovementMetadata, 'shipmentId' | 'orderNumber'> {
+    return { shipmentId: shipment.id, orderNumber: shipment.orderNumber };
+  },
+
+  // Pedido y contenedor que quedan en el sello tras el movimiento
+  link(seal: SealLink, status: SealStatus, metadata: MovementMetadata | undefined, shipment: Shipment | null): SealLink {
+    const typedContainer = status === SealStatus.INSTALADO ? metadata?.trailerContainer : undefined;
+    if (!shipment || !SHIPMENT_STATUSES.includes(status)) return { ...seal, containerId: typedContainer || seal.containerId };
+    return { shipmentId: shipment.id, orderNumber: shipment.orderNumber, containerId: typedContainer || shipment.trailerContainer || seal.containerId };
+  },
+
+  sealsOf(shipment: Shipment, seals: Seal[]): ShipmentSeal[] {
+    return seals.flatMap(seal => {
+      const entries = seal.history.filter(h => h.metadata?.shipmentId === shipment.id);
+      return entries.length > 0 ? [{ seal, entries, attached: seal.shipmentId === shipment.id }] : [];
+    });
+  },
+};
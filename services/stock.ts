@@ -0,0 +1,70 @@
+import { AppSettings, Seal, SealStatus, StockThreshold } from '../types';
+
+// Estados que cuentan como inventario disponible para asignar
+export const AVAILABLE_STATUSES: SealStatus[] = [SealStatus.ENTRADA_INVENTARIO, SealStatus.NO_INSTALADO];
+
+// Ventana de historial usada para estimar el consumo diario
+export const CONSUMPTION_WINDOW_DAYS = 30;
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+export type StockSeverity = 'critical' | 'reorder' | 'ok';
+
+export interface StockLevel {
+  city: string;
+  type: string;
+  available: number;
+  threshold: StockThreshold;
+  dailyConsumption: number;
+  daysOfStock: number | null; // null = sin consumo reciente
+  severity: StockSeverity;
+}
+
+/**
+ * NIVELES DE INVENTARIO
+ * Compara el disponible de cada sede y tipo con los umbrales configurados y proyecta
+ * los días de cobertura según el consumo de los últimos 30 días.
+ */
+export const StockLevels = {
+  isAvailable(seal: Seal): boolean {
+    return AVAILABLE_STATUSES.includes(seal.status) && !seal.deletedAt;
+  },
+
+  // Salidas del disponible hacia la operación; los traslados no cuentan como consumo
+  consumptionSince(seals: Seal[], city: string, type: string, since: string): number {
+    return seals
+      .filter(s => s.city === city && s.type === type)
+      .reduce((total, s) => total + s.history.filter(h =>
+        h.date >= since && h.fromStatus !== null && AVAILABLE_STATUSES.includes(h.fromStatus)
+        && !AVAILABLE_STATUSES.includes(h.toStatus) && h.toStatus !== SealStatus.EN_TRANSITO).length, 0);
+  },
+
+  severity(available: number, threshold: StockThreshold): StockSeverity {
+    if (available < threshold.minimum) return 'critical';
+    if (available <= threshold.reorder) return 'reorder';
+    return 'ok';
+  },
+
+  // Solo se evalúan las combinaciones sede/tipo que tienen umbrales configurados
+  compute(seals: Seal[], settings: AppSettings, now = new Date()): StockLevel[] {
+    const since = new Date(now.getTime() - CONSUMPTION_WINDOW_DAYS * DAY_MS).toISOString();
+    return Object.entries(settings.stockThresholds || {}).flatMap(([city, byType]) =>
+      Object.entries(byType).map(([type, threshold]) => {
+        const available = seals.filter(s => s.city === city && s.type === type && this.isAvailable(s)).length;
+        const dailyConsumption = this.consumptionSince(seals, city, type, since) / CONSUMPTION_WINDOW_DAYS;
+        return {
+          city,
+          type,
+          available,
+          threshold,
+          dailyConsumption,
+          daysOfStock: dailyConsumption > 0 ? Math.floor(available / dailyConsumption) : null,
+          severity: this.severity(available, threshold),
+        };
+      }));
+  },
+
+  alerts(levels: StockLevel[]): StockLevel[] {
+    return levels.filter(l => l.severity !== 'ok').sort((a, b) => (a.severity === b.severity ? a.available - b.available : a.severity === 'critical' ? -1 : 1));
+  },
+};
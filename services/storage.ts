@@ -0,0 +1,215 @@
+import { AppSettings, AttachmentContent, MovementHistory, Seal } from '../types';
+import { SealIdentity } from './identity';
+import { Dates } from './dates';
+import { MovementDetails } from './movementDetails';
+import { SealPage, SealQueries, SealQuery } from './sealQuery';
+
+const DB_NAME = 'appsellos';
+const DB_VERSION = 2;
+const SEALS = 'seals';
+const HISTORY = 'history';
+const ATTACHMENTS = 'attachments';
+const LEGACY_KEY = 'selloData'; // Arreglo completo que se guardaba en localStorage
+
+// Precinto sin su historial; historyCount permite detectar movimientos sin leer la bitácora
+type SealRecord = Omit<Seal, 'history'> & { historyCount: number };
+// Entrada de historial; seq es la posición cronológica dentro del precinto (0 = alta)
+type HistoryRecord = MovementHistory & { sealUid: string; seq: number };
+// Contenido de un adjunto; uploaded = false mientras el backend no lo haya recibido
+type AttachmentRecord = AttachmentContent & { uploaded: boolean };
+
+export type SealIndex = 'city' | 'status' | 'type' | 'creationDate' | 'lastMovement';
+const SEAL_INDEXES: SealIndex[] = ['city', 'status', 'type', 'creationDate', 'lastMovement'];
+
+// --- HELPERS ---
+
+const result = <T>(req: IDBRequest<T>) => new Promise<T>((resolve, reject) => {
+  req.onsuccess = () => resolve(req.result);
+  req.onerror = () => reject(req.error);
+});
+
+const completion = (tx: IDBTransaction) => new Promise<void>((resolve, reject) => {
+  tx.oncomplete = () => resolve();
+  tx.onerror = tx.onabort = () => reject(tx.error);
+});
+
+let connection: Promise<IDBDatabase> | null = null;
+
+const open = (): Promise<IDBDatabase> => {
+  connection ||= new Promise<IDBDatabase>((resolve, reject) => {
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = event => {
+      const db = req.result;
+      if (event.oldVersion < 1) {
+        const seals = db.createObjectStore(SEALS, { keyPath: 'uid' });
+        SEAL_INDEXES.forEach(index => seals.createIndex(index, index));
+        const history = db.createObjectStore(HISTORY, { keyPath: ['sealUid', 'seq'] });
+        history.createIndex('date', 'date');
+      }
+      if (event.oldVersion < 2) db.createObjectStore(ATTACHMENTS, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+  }).catch(error => {
+    connection = null;
+    throw error;
+  });
+  return connection;
+};
+
+const historyRange = (uid: string, from = 0) => IDBKeyRange.bound([uid, from], [uid, Infinity]);
+
+const toRecord = ({ history, ...seal }: Seal): SealRecord => ({ ...seal, historyCount: history.length });
+
+const fromRecord = ({ historyCount: _count, ...seal }: SealRecord, history: HistoryRecord[]): Seal => ({
+  ...seal,
+  // La app trabaja con el historial del más reciente al más antiguo
+  history: history.sort((a, b) => b.seq - a.seq).map(({ sealUid: _uid, seq: _seq, ...h }) => h),
+});
+
+// Escribe el precinto y su historial completo; descarta entradas sobrantes si el historial se acortó
+const writeSeal = (tx: IDBTransaction, seal: Seal) => {
+  const history = tx.objectStore(HISTORY);
+  tx.objectStore(SEALS).put(toRecord(seal));
+  [...seal.history].reverse().forEach((h, seq) => history.put({ ...h, sealUid: seal.uid, seq }));
+  history.delete(historyRange(seal.uid, seal.history.length));
+};
+
+const deleteSeal = (tx: IDBTransaction, uid: string) => {
+  tx.objectStore(SEALS).delete(uid);
+  tx.objectStore(HISTORY).delete(historyRange(uid));
+};
+
+const dateRange = (query: SealQuery) => query.from && query.to ? IDBKeyRange.bound(query.from, query.to) : query.from ? IDBKeyRange.lowerBound(query.from) : IDBKeyRange.upperBound(query.to as string);
+
+// Índice más selectivo disponible para la consulta; el resto de filtros se aplica sobre los registros leídos
+const candidates = (store: IDBObjectStore, query: SealQuery): IDBRequest<SealRecord[]> => {
+  if (query.city) return store.index('city').getAll(query.city);
+  if (query.status) return store.index('status').getAll(query.status);
+  if (query.type) return store.index('type').getAll(query.type);
+  const dateIndex = query.dateField === 'alta' ? 'creationDate' : query.dateField === 'ultimoMovimiento' ? 'lastMovement' : null;
+  if (dateIndex && (query.from || query.to)) return store.index(dateIndex).getAll(dateRange(query));
+  return store.getAll();
+};
+
+// Precintos con algún movimiento que cumple el filtro 'movimiento' (índice de fechas del historial)
+const movedUids = async (tx: IDBTransaction, query: SealQuery): Promise<Set<string>> => {
+  const entries = await result(tx.objectStore(HISTORY).index('date').getAll(dateRange(query)) as IDBRequest<HistoryRecord[]>);
+  return new Set(entries.filter(h => SealQueries.matchesMovement(h, query)).map(h => h.sealUid));
+};
+
+const readAll = async (records: SealRecord[], tx: IDBTransaction): Promise<Seal[]> => {
+  const history = tx.objectStore(HISTORY);
+  const entries = await Promise.all(records.map(r => result(history.getAll(historyRange(r.uid)) as IDBRequest<HistoryRecord[]>)));
+  return records.map((r, i) => fromRecord(r, entries[i]));
+};
+
+/**
+ * ALMACENAMIENTO LOCAL (IndexedDB)
+ * Copia local de los precintos: un registro por precinto, la bitácora en un almacén aparte
+ * e índices por sede, estado, tipo y fechas. La app solo escribe los precintos que cambiaron
+ * y ApiService lee de aquí cuando no hay conexión con el backend.
+ */
+export const SealStore = {
+  async load(): Promise<Seal[]> {
+    await this.migrateLegacy();
+    const tx = (await open()).transaction([SEALS, HISTORY], 'readonly');
+    const [records, history] = await Promise.all([
+      result(tx.objectStore(SEALS).getAll() as IDBRequest<SealRecord[]>),
+      result(tx.objectStore(HISTORY).getAll() as IDBRequest<HistoryRecord[]>),
+    ]);
+    const bySeal = new Map<string, HistoryRecord[]>();
+    history.forEach(h => bySeal.set(h.sealUid, [...(bySeal.get(h.sealUid) || []), h]));
+    return records.map(r => fromRecord(r, bySeal.get(r.uid) || []));
+  },
+
+  // Consulta por índice (valor exacto o rango, p. ej. IDBKeyRange.bound para fechas ISO)
+  async query(index: SealIndex, value: IDBValidKey | IDBKeyRange): Promise<Seal[]> {
+    const tx = (await open()).transaction([SEALS, HISTORY], 'readonly');
+    const records = await result(tx.objectStore(SEALS).index(index).getAll(value) as IDBRequest<SealRecord[]>);
+    return readAll(records, tx);
+  },
+
+  // Consulta paginada sin conexión: solo se lee el historial de las filas de la página
+  async page(query: SealQuery): Promise<SealPage> {
+    const tx = (await open()).transaction([SEALS, HISTORY], 'readonly');
+    const [records, moved] = await Promise.all([
+      result(candidates(tx.objectStore(SEALS), query)),
+      SealQueries.needsHistory(query) ? movedUids(tx, query) : null,
+    ]);
+    const page = SealQueries.page(records.filter(r => SealQueries.matchesFields(r, query) && (!moved || moved.has(r.uid))), query);
+    return { ...page, items: await readAll(page.items, tx) };
+  },
+
+  async save(seals: Seal[]): Promise<void> {
+    if (seals.length === 0) return;
+    const tx = (await open()).transaction([SEALS, HISTORY], 'readwrite');
+    seals.forEach(s => writeSeal(tx, s));
+    return completion(tx);
+  },
+
+  // Deja la copia local igual a `seals` escribiendo solo los registros que difieren
+  async replaceAll(seals: Seal[]): Promise<void> {
+    const tx = (await open()).transaction([SEALS, HISTORY], 'readwrite');
+    const stored = await result(tx.objectStore(SEALS).getAll() as IDBRequest<SealRecord[]>);
+    const current = new Map(stored.map(r => [r.uid, JSON.stringify(r)]));
+    const incoming = new Set(seals.map(s => s.uid));
+    seals.filter(s => current.get(s.uid) !== JSON.stringify(toRecord(s))).forEach(s => writeSeal(tx, s));
+    stored.filter(r => !incoming.has(r.uid)).forEach(r => deleteSeal(tx, r.uid));
+    await completion(tx);
+    // La copia heredada queda obsoleta en cuanto se guarda el inventario completo
+    localStorage.removeItem(LEGACY_KEY);
+  },
+
+  // Precintos cuyo objeto cambió entre dos estados de la app (las actualizaciones son inmutables)
+  changed(previous: Seal[], next: Seal[]): Seal[] {
+    const before = new Map(previous.map(s => [s.uid, s]));
+    return next.filter(s => before.get(s.uid) !== s);
+  },
+
+  // Cadena completa para precintos heredados (backend, copias locales o respaldos): metadata, fechas ISO y uid
+  migrate(seals: Seal[], settings?: AppSettings | null): Seal[] {
+    return SealIdentity.migrateSeals(Dates.migrateSeals(MovementDetails.migrateSeals(seals), settings));
+  },
+
+  // Traslada una sola vez el arreglo heredado de localStorage
+  async migrateLegacy(): Promise<void> {
+    const legacy = localStorage.getItem(LEGACY_KEY);
+    if (!legacy) return;
+    await this.save(SealIdentity.migrateSeals(JSON.parse(legacy)));
+    localStorage.removeItem(LEGACY_KEY);
+  },
+};
+
+/**
+ * ADJUNTOS LOCALES
+ * Contenido de las fotos y PDF de los movimientos. Se guardan aquí al registrar el movimiento
+ * y se suben al backend cuando hay conexión; los descargados quedan como copia local.
+ */
+export const AttachmentStore = {
+  async get(id: string): Promise<AttachmentContent | null> {
+    const tx = (await open()).transaction(ATTACHMENTS, 'readonly');
+    const record = await result(tx.objectStore(ATTACHMENTS).get(id) as IDBRequest<AttachmentRecord | undefined>);
+    if (!record) return null;
+    const { uploaded: _uploaded, ...content } = record;
+    return content;
+  },
+
+  async save(contents: AttachmentContent[], uploaded: boolean): Promise<void> {
+    if (contents.length === 0) return;
+    const tx = (await open()).transaction(ATTACHMENTS, 'readwrite');
+    contents.forEach(c => tx.objectStore(ATTACHMENTS).put({ ...c, uploaded }));
+    return completion(tx);
+  },
+
+  async pending(): Promise<AttachmentContent[]> {
+    const tx = (await open()).transaction(ATTACHMENTS, 'readonly');
+    const records = await result(tx.objectStore(ATTACHMENTS).getAll() as IDBRequest<AttachmentRecord[]>);
+    return records.filter(r => !r.uploaded).map(({ uploaded: _uploaded, ...content }) => content);
+  },
+
+  async markUploaded(id: string): Promise<void> {
+    const content = await this.get(id);
+    if (content) await this.save([content], true);
+  },
+};
@@ -0,0 +1,81 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SyncQueue } from './syncQueue';
+
+const operation = { kind: 'seal.move' as const, description: 'Movimiento a ASIGNADO: S1', user: 'Operador', method: 'PUT', path: '/seals/movement', body: { keys: [] } };
+
+const reply = (status: number, payload?: unknown) => new Response(payload === undefined ? null : JSON.stringify(payload), { status });
+
+let stored: Map<string, string>;
+let fetchMock: ReturnType<typeof vi.fn>;
+
+beforeEach(() => {
+  stored = new Map();
+  fetchMock = vi.fn();
+  vi.stubGlobal('localStorage', { getItem: (k: string) => stored.get(k) ?? null, setItem: (k: string, v: string) => stored.set(k, v), removeItem: (k: string) => stored.delete(k) });
+  vi.stubGlobal('navigator', { onLine: true });
+  vi.stubGlobal('fetch', fetchMock);
+  vi.spyOn(console, 'error').mockImplementation(() => {});
+});
+
+afterEach(() => {
+  vi.unstubAllGlobals();
+  vi.restoreAllMocks();
+});
+
+describe('SyncQueue', () => {
+  it('aplica en línea sin dejar nada pendiente', async () => {
+    fetchMock.mockResolvedValueOnce(reply(204));
+    expect(await SyncQueue.submit(operation)).toBe('synced');
+    expect(SyncQueue.getState()).toMatchObject({ pending: 0, conflicts: 0 });
+  });
+
+  it('lleva a conflictos lo que el backend rechaza en línea', async () => {
+    fetchMock.mockResolvedValueOnce(reply(409, { error: 'El sello S1 cambió en otra sede', code: 'CONFLICT' }));
+    expect(await SyncQueue.submit(operation)).toBe('rejected');
+    const [conflict] = SyncQueue.getConflicts();
+    expect(conflict.reason).toBe('El sello S1 cambió en otra sede');
+    expect(conflict.operation.path).toBe('/seals/movement');
+    expect(SyncQueue.getState().pending).toBe(0);
+  });
+
+  it('encola sin conexión y respeta el orden mientras haya pendientes', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    expect(await SyncQueue.submit(operation)).toBe('queued');
+    expect(await SyncQueue.submit({ ...operation, description: 'segunda' })).toBe('queued');
+    expect(fetchMock).toHaveBeenCalledTimes(1);
+    expect(SyncQueue.getPending().map(o => o.description)).toEqual([operation.description, 'segunda']);
+  });
+
+  it('al reenviar aplica lo aceptado y pasa a conflictos lo rechazado', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await SyncQueue.submit(operation);
+    await SyncQueue.submit({ ...operation, description: 'segunda' });
+    fetchMock.mockResolvedValueOnce(reply(204)).mockResolvedValueOnce(reply(409, { error: 'Sello eliminado', code: 'CONFLICT' }));
+    const flushed = vi.fn();
+    const off = SyncQueue.onFlushed(flushed);
+    await SyncQueue.flush();
+    off();
+    expect(SyncQueue.getPending()).toEqual([]);
+    expect(SyncQueue.getConflicts().map(c => c.operation.description)).toEqual(['segunda']);
+    expect(flushed).toHaveBeenCalledTimes(1);
+  });
+
+  it('se detiene en la primera operación sin conexión', async () => {
+    fetchMock.mockRejectedValueOnce(new TypeError('Failed to fetch'));
+    await SyncQueue.submit(operation);
+    fetchMock.mockResolvedValueOnce(reply(503, { error: 'Error interno del servidor' }));
+    await SyncQueue.flush();
+    expect(SyncQueue.getPending()).toHaveLength(1);
+    expect(SyncQueue.getConflicts()).toEqual([]);
+  });
+
+  it('solo reaplica movimientos y bajas; descartar quita el conflicto', async () => {
+    fetchMock.mockResolvedValueOnce(reply(409, { error: 'Duplicado' }));
+    await SyncQueue.submit({ ...operation, kind: 'seal.create', method: 'POST', path: '/seals' });
+    const [conflict] = SyncQueue.getConflicts();
+    expect(SyncQueue.canForce(conflict.operation)).toBe(false);
+    expect(await SyncQueue.forceConflict(conflict.operation.id)).toBe('rejected');
+    SyncQueue.discardConflict(conflict.operation.id);
+    expect(SyncQueue.getConflicts()).toEqual([]);
+  });
+});
@@ -0,0 +1,141 @@
+import { SyncOperation, SyncConflict, SyncState } from '../types';
+import { Connectivity, request } from './http';
+import { Dates } from './dates';
+
+const OUTBOX_KEY = 'selloOutbox';
+const CONFLICTS_KEY = 'selloConflicts';
+const RETRY_INTERVAL_MS = 30000;
+
+export type SubmitResult = 'synced' | 'queued' | 'rejected';
+
+const load = <T>(key: string): T[] => JSON.parse(localStorage.getItem(key) || '[]');
+const save = (key: string, items: unknown[]) => localStorage.setItem(key, JSON.stringify(items));
+
+let syncing = false;
+const listeners = new Set<(state: SyncState) => void>();
+const flushListeners = new Set<() => void>();
+
+const getState = (): SyncState => ({
+  online: Connectivity.isOnline(),
+  syncing,
+  pending: load<SyncOperation>(OUTBOX_KEY).length,
+  conflicts: load<SyncConflict>(CONFLICTS_KEY).length,
+});
+
+const notify = () => {
+  const state = getState();
+  listeners.forEach(l => l(state));
+};
+
+const recordConflict = (operation: SyncOperation, reason?: string) =>
+  save(CONFLICTS_KEY, [...load<SyncConflict>(CONFLICTS_KEY), { operation, reason: reason || 'Operación rechazada por el servidor', detectedAt: Dates.now() }]);
+
+/**
+ * BANDEJA DE SALIDA (OFFLINE-FIRST)
+ * Toda alta, movimiento o baja de precintos pasa por aquí. Sin conexión se guarda en
+ * orden y se reenvía al recuperar el backend. Toda operación que el backend rechaza, al
+ * enviarla o al reenviarla, pasa a la lista de conflictos para revisión manual.
+ */
+export const SyncQueue = {
+  getState,
+
+  getPending(): SyncOperation[] {
+    return load<SyncOperation>(OUTBOX_KEY);
+  },
+
+  getConflicts(): SyncConflict[] {
+    return load<SyncConflict>(CONFLICTS_KEY);
+  },
+
+  subscribe(listener: (state: SyncState) => void): () => void {
+    listeners.add(listener);
+    listener(getState());
+    return () => listeners.delete(listener);
+  },
+
+  // Aviso cuando se aplicaron operaciones en el backend y conviene recargar datos
+  onFlushed(listener: () => void): () => void {
+    flushListeners.add(listener);
+    return () => flushListeners.delete(listener);
+  },
+
+  async submit(op: Omit<SyncOperation, 'id' | 'createdAt'>): Promise<SubmitResult> {
+    const operation: SyncOperation = { ...op, id: crypto.randomUUID(), createdAt: Dates.now() };
+    // Con operaciones pendientes se encola para respetar el orden original
+    if (load(OUTBOX_KEY).length === 0) {
+      const result = await request(operation.path, operation.method, operation.body);
+      if (result.status === 'rejected') recordConflict(operation, result.error);
+      notify();
+      if (result.status === 'ok') return 'synced';
+      if (result.status === 'rejected') return 'rejected';
+    }
+    save(OUTBOX_KEY, [...load<SyncOperation>(OUTBOX_KEY), operation]);
+    notify();
+    return 'queued';
+  },
+
+  // Reenvía la bandeja en orden; se detiene en la primera operación sin conexión
+  async flush(): Promise<void> {
+    if (syncing || load(OUTBOX_KEY).length === 0) return;
+    syncing = true;
+    notify();
+    let changed = 0;
+    try {
+      for (const operation of load<SyncOperation>(OUTBOX_KEY)) {
+        const result = await request(operation.path, operation.method, operation.body);
+        if (result.status === 'offline') break;
+        if (result.status === 'rejected') recordConflict(operation, result.error);
+        changed++;
+        save(OUTBOX_KEY, load<SyncOperation>(OUTBOX_KEY).filter(o => o.id !== operation.id));
+        notify();
+      }
+    } finally {
+      syncing = false;
+      notify();
+    }
+    if (changed > 0) flushListeners.forEach(l => l());
+  },
+
+  // --- RESOLUCIÓN DE CONFLICTOS ---
+  discardConflict(operationId: string) {
+    save(CONFLICTS_KEY, load<SyncConflict>(CONFLICTS_KEY).filter(c => c.operation.id !== operationId));
+    notify();
+  },
+
+  // Solo movimientos y bajas admiten reaplicarse; un alta duplicada únicamente se descarta
+  canForce(operation: SyncOperation): boolean {
+    return operation.kind === 'seal.move' || operation.kind === 'seal.delete';
+  },
+
+  // Reaplica la operación sobre el estado actual del servidor, sin exigir la versión original
+  async forceConflict(operationId: string): Promise<SubmitResult> {
+    const conflict = load<SyncConflict>(CONFLICTS_KEY).find(c => c.operation.id === operationId);
+    if (!conflict || !this.canForce(conflict.operation)) return 'rejected';
+    const result = await request(conflict.operation.path, conflict.operation.method, { ...conflict.operation.body, force: true });
+    if (result.status === 'offline') return 'queued';
+    if (result.status === 'rejected') {
+      save(CONFLICTS_KEY, load<SyncConflict>(CONFLICTS_KEY).map(c => c.operation.id === operationId ? { ...c, reason: result.error || c.reason, detectedAt: Dates.now() } : c));
+      notify();
+      return 'rejected';
+    }
+    this.discardConflict(operationId);
+    flushListeners.forEach(l => l());
+    return 'synced';
+  },
+
+  // Arranca los reintentos automáticos; devuelve la función para detenerlos
+  start(): () => void {
+    const flush = () => { this.flush(); };
+    const timer = setInterval(flush, RETRY_INTERVAL_MS);
+    window.addEventListener('online', flush);
+    window.addEventListener('offline', notify);
+    const unsubscribe = Connectivity.subscribe(reachable => { notify(); if (reachable) flush(); });
+    flush();
+    return () => {
+      clearInterval(timer);
+      window.removeEventListener('online', flush);
+      window.removeEventListener('offline', notify);
+      unsubscribe();
+    };
+  },
+};
@@ -0,0 +1,30 @@
+import { describe, expect, it } from 'vitest';
+import { Seal, SealStatus, SealTransfer, User, UserRole } from '../types';
+import { SealTransfers } from './transfers';
+
+const user = (role: UserRole, city = 'BOGOTÁ'): User => ({ id: role, username: role, fullName: role, role, organization: 'Org', city });
+
+const seal = (id: string, overrides: Partial<Seal> = {}): Seal => ({
+  uid: `u-${id}`, id, type: 'Botella', status: SealStatus.ENTRADA_INVENTARIO, creationDate: '2026-03-01T15:00:00.000Z', lastMovement: '2026-03-01T15:00:00.000Z',
+  entryUser: 'Operador', orderNumber: '', containerId: '', notes: '', city: 'BOGOTÁ', history: [], ...overrides,
+});
+
+const transfer: SealTransfer = { id: 'TRF-1', origin: 'MEDELLÍN', destination: 'BOGOTÁ', seals: [{ id: 'S1', type: 'Botella' }], status: 'EN_TRANSITO', createdBy: 'Operador', createdAt: '2026-03-10T15:00:00.000Z' };
+
+describe('SealTransfers', () => {
+  it('despacha solo precintos disponibles de la sede del usuario hacia otra sede', () => {
+    const operator = user(UserRole.OPERADOR_BODEGA);
+    const dispatch = { destination: 'MEDELLÍN', carrier: '', notes: '' };
+    expect(SealTransfers.validateDispatch([seal('S1')], dispatch, operator)).toBeNull();
+    expect(SealTransfers.validateDispatch([seal('S1')], { ...dispatch, destination: 'BOGOTÁ' }, operator)).toMatch(/distinta a la de origen/);
+    expect(SealTransfers.validateDispatch([seal('S1', { city: 'CALI' })], dispatch, operator)).toMatch(/no está disponible en BOGOTÁ/);
+    expect(SealTransfers.validateDispatch([seal('S1')], dispatch, user(UserRole.INSTALADOR))).toMatch(/no está autorizado/);
+  });
+
+  it('solo la sede de destino recibe, salvo quien opera en todas las sedes', () => {
+    expect(SealTransfers.validateReception(transfer, user(UserRole.OPERADOR_BODEGA))).toBeNull();
+    expect(SealTransfers.validateReception(transfer, user(UserRole.OPERADOR_BODEGA, 'CALI'))).toMatch(/se recibe en BOGOTÁ, no en CALI/);
+    expect(SealTransfers.validateReception(transfer, user(UserRole.ADMIN, 'CALI'))).toBeNull();
+    expect(SealTransfers.validateReception(transfer, user(UserRole.AUDITOR))).toMatch(/no está autorizado/);
+  });
+});
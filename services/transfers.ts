@@ -0,0 +1,139 @@
+import { MovementHistory, Seal, SealStatus, SealTransfer, User } from '../types';
+import { can, canMoveTo } from './permissions';
+import { Dates } from './dates';
+
+export interface TransferDispatch {
+  destination: string;
+  carrier: string;
+  notes: string;
+}
+
+type SealKey = { id: string; type: string };
+
+const keyOf = (s: SealKey) => `${s.id}\u0000${s.type}`;
+
+/**
+ * TRASLADOS ENTRE SEDES
+ * La sede de origen despacha precintos disponibles, que quedan EN_TRANSITO hasta que
+ * el destino confirma la recepción. Las unidades no recibidas quedan marcadas como
+ * faltantes. Cada paso se anota en el historial de cada sello (cliente y servidor
+ * construyen las mismas entradas con estas funciones).
+ */
+export const SealTransfers = {
+  keyOf,
+
+  isTransferable(seal: Seal): boolean {
+    return seal.status === SealStatus.ENTRADA_INVENTARIO && !seal.deletedAt;
+  },
+
+  // Unidades que el destino aún no ha recibido
+  pending(transfer: SealTransfer): SealKey[] {
+    return transfer.status === 'EN_TRANSITO' ? transfer.seals : transfer.missing || [];
+  },
+
+  validateDispatch(seals: Seal[], dispatch: TransferDispatch, user: User): string | null {
+    if (!canMoveTo(user, SealStatus.EN_TRANSITO)) return `El rol ${user.role} no está autorizado para despachar traslados.`;
+    if (seals.length === 0) return 'Agregue al menos un precinto al traslado.';
+    if (!dispatch.destination) return 'Seleccione la sede de destino.';
+    if (dispatch.destination === user.city) return 'La sede de destino debe ser distinta a la de origen.';
+    const invalid = seals.find(s => s.city !== user.city || !this.isTransferable(s));
+    if (invalid) return `El sello ${invalid.id} no está disponible en ${user.city} (estado ${invalid.status.replace('_', ' ')}).`;
+    return null;
+  },
+
+  // Solo la sede de destino recibe, salvo quien opera en todas las sedes
+  validateReception(transfer: SealTransfer, user: User): string | null {
+    if (!canMoveTo(user, SealStatus.EN_TRANSITO)) return `El rol ${user.role} no está autorizado para recibir traslados.`;
+    if (transfer.destination !== user.city && !can(user, 'seal.crossCity')) return `El traslado ${transfer.id} se recibe en ${transfer.destination}, no en ${user.city}.`;
+    return null;
+  },
+
+  create(seals: Seal[], dispatch: TransferDispatch, user: User): SealTransfer {
+    return {
+      id: `TRF-${Date.now().toString(36).toUpperCase()}`,
+      origin: user.city,
+      destination: dispatch.destination,
+      seals: seals.map(s => ({ id: s.id, type: s.type })),
+      status: 'EN_TRANSITO',
+      ...(dispatch.carrier.trim() ? { carrier: dispatch.carrier.trim() } : {}),
+      ...(dispatch.notes.trim() ? { notes: dispatch.notes.trim() } : {}),
+      createdBy: user.fullName,
+      createdAt: Dates.now(),
+    };
+  },
+
+  // --- ENTRADAS DE HISTORIAL ---
+  dispatchEntry(t: SealTransfer): MovementHistory {
+    const observations = [t.carrier && `TRANSPORTADOR: ${t.carrier}`, t.notes && `OBSERVACIONES: ${t.notes}`].filter(Boolean).join(' | ');
+    return {
+      date: t.createdAt,
+      fromStatus: SealStatus.ENTRADA_INVENTARIO,
+      toStatus: SealStatus.EN_TRANSITO,
+      user: t.createdBy,
+      details: `TRASLADO ${t.id}: ${t.origin} → ${t.destination}${observations ? ` | ${observations}` : ''}`,
+      metadata: { transferId: t.id, batch: t.seals.length > 1, ...(observations ? { observations } : {}) },
+    };
+  },
+
+  receiptEntry(t: SealTransfer, user: string, date: string): MovementHistory {
+    return {
+      date,
+      fromStatus: SealStatus.EN_TRANSITO,
+      toStatus: SealStatus.ENTRADA_INVENTARIO,
+      user,
+      details: `RECEPCIÓN TRASLADO ${t.id} en ${t.destination} (origen ${t.origin})`,
+      metadata: { transferId: t.id, batch: t.seals.length > 1, receiver: user, origin: t.origin },
+    };
+  },
+
+  // Sede de origen de una entrada de recepción (el sello estaba allí antes de recibirse)
+  originOf(entry: MovementHistory): string | null {
+    if (!entry.metadata?.transferId || entry.fromStatus !== SealStatus.EN_TRANSITO || entry.toStatus !== SealStatus.ENTRADA_INVENTARIO) return null;
+    return entry.metadata.origin || null;
+  },
+
+  // El sello no cambia de estado: la entrada deja constancia del faltante
+  missingEntry(t: SealTransfer, user: string, date: string): MovementHistory {
+    return {
+      date,
+      fromStatus: SealStatus.EN_TRANSITO,
+      toStatus: SealStatus.EN_TRANSITO,
+      user,
+      details: `FALTANTE EN RECEPCIÓN DEL TRASLADO ${t.id} en ${t.destination}`,
+      metadata: { transferId: t.id, batch: t.seals.length > 1, observations: 'Unidad no recibida en destino' },
+    };
+  },
+
+  // --- APLICACIÓN LOCAL (misma lógica que el backend) ---
+  applyDispatch(seals: Seal[], t: SealTransfer): Seal[] {
+    const keys = new Set(t.seals.map(keyOf));
+    const entry = this.dispatchEntry(t);
+    return seals.map(s => keys.has(keyOf(s)) ? { ...s, status: SealStatus.EN_TRANSITO, lastMovement: t.createdAt, entryUser: t.createdBy, history: [entry, ...s.history] } : s);
+  },
+
+  // Recibe las unidades indicadas; el resto de lo pendiente queda como faltante
+  applyReception(seals: Seal[], t: SealTransfer, received: SealKey[], user: string, date: string): { seals: Seal[]; transfer: SealTransfer } {
+    const receivedKeys = new Set(received.map(keyOf));
+    const pending = this.pending(t);
+    const alreadyMissing = new Set((t.missing || []).map(keyOf));
+    const missing = pending.filter(k => !receivedKeys.has(keyOf(k)));
+    const missingKeys = new Set(missing.map(keyOf));
+    const receipt = this.receiptEntry(t, user, date);
+    const flag = this.missingEntry(t, user, date);
+    return {
+      seals: seals.map(s => {
+        const key = keyOf(s);
+        if (receivedKeys.has(key)) return { ...s, status: SealStatus.ENTRADA_INVENTARIO, city: t.destination, lastMovement: date, entryUser: user, history: [receipt, ...s.history] };
+        if (missingKeys.has(key) && !alreadyMissing.has(key)) return { ...s, history: [flag, ...s.history] };
+        return s;
+      }),
+      transfer: {
+        ...t,
+        status: missing.length > 0 ? 'RECIBIDO_CON_FALTANTES' : 'RECIBIDO',
+        receivedBy: user,
+        receivedAt: date,
+        ...(missing.length > 0 ? { missing } : { missing: undefined }),
+      },
+    };
+  },
+};
@@ -1,24 +1,58 @@
 
 export enum UserRole {
   ADMIN = 'ADMIN',
-  GESTOR = 'GESTOR'
+  GESTOR = 'GESTOR',
+  AUDITOR = 'AUDITOR', // Solo lectura, todas las sedes
+  OPERADOR_BODEGA = 'OPERADOR_BODEGA', // Registro y asignación
+  INSTALADOR = 'INSTALADOR' // Instalación / no instalación
 }
 
 export interface User {
   id: string;
   username: string;
   fullName: string;
-  password?: string; // Añadido para manejo de acceso
+  password?: string; // Contraseña temporal en claro: solo viaja al backend, que la guarda como hash
+  passwordHash?: string; // Solo en el backend y en respaldos antiguos
+  passwordSalt?: string;
+  mustChangePassword?: boolean; // Forzar cambio en el próximo ingreso
+  failedAttempts?: number;
+  lockedUntil?: string | null;
+  disabled?: boolean;
   role: UserRole;
   organization: string;
   city: string; // Sede asignada
 }
 
+// Sesión activa persistida en el navegador (nunca incluye credenciales)
+export interface AuthSession {
+  token: string;
+  userId: string;
+  issuedAt: string;
+  expiresAt: string;
+}
+
+// Respuesta del backend a un ingreso válido
+export interface LoginResponse {
+  session: AuthSession;
+  user: User;
+}
+
 export interface AppSettings {
   title: string;
   logo: string | null;
   sealTypes: string[];
   themeColor: string; // Color principal del tema
+  rolePermissions?: RolePermissionMap; // Sobrescribe el mapa por defecto
+  cityTimeZones?: Record<string, string>; // Zona horaria IANA por sede (por defecto America/Bogota)
+  stockThresholds?: Record<string, Record<string, StockThreshold>>; // Sede → tipo de sello → niveles
+  anomalyRules?: AnomalyRules; // Por defecto DEFAULT_ANOMALY_RULES (services/anomalies.ts)
+  evidenceRequired?: SealStatus[]; // Estados destino que exigen al menos una foto o PDF adjunto
+}
+
+// Niveles de inventario disponible por sede y tipo de sello
+export interface StockThreshold {
+  minimum: number; // Por debajo: alerta crítica
+  reorder: number; // En o por debajo: solicitar reposición
 }
 
 export enum SealStatus {
@@ -28,18 +62,83 @@ export enum SealStatus {
   ENTREGADO = 'ENTREGADO',
   ENTRADA_INVENTARIO = 'ENTRADA_INVENTARIO',
   DESTRUIDO = 'DESTRUIDO',
-  ASIGNADO = 'ASIGNADO'
+  ASIGNADO = 'ASIGNADO',
+  EN_TRANSITO = 'EN_TRANSITO' // Despachado a otra sede; no disponible en origen ni en destino
+}
+
+// Datos estructurados del movimiento, guardados junto al texto legible
+export interface MovementMetadata {
+  receiver?: string;
+  vehiclePlate?: string;
+  trailerContainer?: string;
+  deliveredSub?: string;
+  destructionReason?: string;
+  observations?: string;
+  batch?: boolean;
+  transferId?: string; // Orden de traslado que originó el movimiento
+  origin?: string; // Sede de origen del traslado (solo en la recepción)
+  shipmentId?: string; // Despacho al que se vinculó el sello (ASIGNADO / INSTALADO)
+  orderNumber?: string; // Número de pedido del despacho, copiado para el historial y los comprobantes
+  attachments?: MovementAttachment[]; // Evidencia fotográfica o documental del movimiento
+}
+
+export type AttachmentKind = 'image' | 'pdf';
+
+// Referencia a un adjunto dentro del historial; el contenido completo se guarda aparte (AttachmentContent)
+export interface MovementAttachment {
+  id: string;
+  name: string;
+  kind: AttachmentKind;
+  mimeType: string;
+  size: number; // Bytes del archivo ya comprimido
+  thumbnail?: string; // Miniatura JPEG (data URL), solo imágenes
 }
 
+export interface AttachmentContent {
+  id: string;
+  mimeType: string;
+  data: string; // Base64
+}
+
+export type Permission =
+  | 'seal.create'
+  | 'seal.delete'
+  | 'seal.crossCity'
+  | `seal.move:${SealStatus}`
+  | 'user.manage'
+  | 'city.manage'
+  | 'settings.edit'
+  | 'report.crossCity'
+  | 'report.export'
+  | 'report.manage'
+  | 'audit.view'
+  | 'alert.review'
+  | 'count.perform'
+  | 'count.approve'
+  | 'shipment.manage';
+
+export type RolePermissionMap = Partial<Record<UserRole, Permission[]>>;
+
 export interface MovementHistory {
   date: string;
   fromStatus: SealStatus | null;
   toStatus: SealStatus;
   user: string;
   details: string;
+  metadata?: MovementMetadata;
+}
+
+// Datos capturados en el formulario de movimiento
+export interface MovementFormData {
+  requester: string;
+  observations: string;
+  vehiclePlate: string;
+  trailerContainer: string;
+  deliveredSub: string;
 }
 
 export interface Seal {
+  uid: string; // Identidad interna inmutable (UUID); el código impreso es id + type
   id: string;
   type: string;
   status: SealStatus;
@@ -49,14 +148,235 @@ export interface Seal {
   orderNumber: string;
   containerId: string;
   notes: string;
+  lot?: string; // Número de lote impreso por el proveedor
+  lotId?: string; // Recepción (SealLot) con la que ingresó el sello
+  shipmentId?: string; // Último despacho al que se vinculó (orderNumber y containerId se copian de él)
   city: string; // Ciudad a la que pertenece el precinto
+  // Todas las fechas en ISO-8601 UTC (ver services/dates.ts)
   history: MovementHistory[];
+  deletedAt?: string; // Baja lógica: el sello sale del inventario pero conserva su historial
+  deletedBy?: string;
+}
+
+// Recepción de un rollo o caja de precintos del fabricante
+export interface SealLot {
+  id: string;
+  supplier: string;
+  purchaseOrder: string;
+  receivedDate: string; // ISO-8601
+  quantity: number;
+  type: string;
+  city: string;
+  range?: { prefix: string; start: number; end: number; padding: number };
+  createdBy: string;
+  createdAt: string;
+}
+
+// --- TRASLADOS ENTRE SEDES ---
+export type TransferStatus = 'EN_TRANSITO' | 'RECIBIDO' | 'RECIBIDO_CON_FALTANTES';
+
+export interface SealTransfer {
+  id: string;
+  origin: string;
+  destination: string;
+  seals: { id: string; type: string }[];
+  status: TransferStatus;
+  carrier?: string; // Transportador o guía de envío
+  notes?: string;
+  createdBy: string;
+  createdAt: string;
+  receivedBy?: string;
+  receivedAt?: string;
+  missing?: { id: string; type: string }[]; // Unidades no recibidas en destino (siguen EN_TRANSITO)
+}
+
+// --- DESPACHOS / PEDIDOS ---
+export type ShipmentStatus = 'ABIERTO' | 'CERRADO';
+
+export interface Shipment {
+  id: string;
+  orderNumber: string;
+  customer: string;
+  vehiclePlate: string;
+  trailerContainer: string;
+  driver: string;
+  departureAt?: string; // ISO-8601
+  city: string; // Sede que despacha
+  status: ShipmentStatus; // Un despacho cerrado no admite más sellos
+  notes?: string;
+  createdBy: string;
+  createdAt: string;
+}
+
+// --- CONTEOS FÍSICOS ---
+export type CycleCountStatus = 'EN_CURSO' | 'POR_APROBAR' | 'APROBADO' | 'ANULADO';
+
+export interface CountedSeal {
+  id: string;
+  type: string; // '' = código leído que no existe en el sistema
+  countedBy: string;
+  countedAt: string;
+}
+
+export interface CycleCount {
+  id: string;
+  city: string;
+  status: CycleCountStatus;
+  expected: { id: string; type: string; status: SealStatus }[]; // Foto de lo disponible en la sede al abrir el conteo
+  counted: CountedSeal[];
+  createdBy: string;
+  createdAt: string;
+  closedBy?: string; // Cierre del conteo y envío a aprobación
+  closedAt?: string;
+  approvedBy?: string; // Aprobación o anulación del supervisor
+  approvedAt?: string;
+  adjusted?: { id: string; type: string }[]; // Faltantes dados de baja al aprobar
+  notes?: string;
+}
+
+// --- INFORMES PROGRAMADOS ---
+export type ReportKind = 'movements' | 'destroyed' | 'inventory' | 'closing';
+export type ReportGrouping = 'none' | 'city' | 'status' | 'type' | 'month';
+export type ReportSchedule = 'NINGUNA' | 'DIARIA' | 'SEMANAL' | 'MENSUAL';
+export type ReportPeriodPreset = 'today' | 'last7Days' | 'last30Days' | 'currentMonth' | 'previousMonth' | 'custom';
+
+export interface ReportTemplate {
+  id: string;
+  name: string;
+  kind: ReportKind;
+  columns: string[]; // Claves de REPORT_COLUMNS[kind], en el orden de salida
+  groupBy: ReportGrouping; // Cada grupo es una hoja del libro, más una hoja de resumen con totales
+  city: string; // '' = todas las sedes
+  period: { preset: ReportPeriodPreset; from?: string; to?: string }; // En inventario, la foto se toma al cierre del periodo
+  schedule: ReportSchedule;
+  createdBy: string;
+  createdAt: string;
+  lastRunAt?: string;
+}
+
+// Archivo generado (manualmente o por el programador); el contenido se descarga aparte
+export interface GeneratedReport {
+  id: string;
+  templateId: string;
+  templateName: string;
+  fileName: string;
+  generatedAt: string;
+  generatedBy: string;
+  rows: number;
+  data?: string; // XLSX en base64
+}
+
+// --- ALERTAS DE ANOMALÍAS ---
+export type AnomalyRuleId = 'dwell' | 'reuseLoop' | 'quickDestruction' | 'offHours';
+
+export interface AnomalyRules {
+  dwellHours: Partial<Record<SealStatus, number>>; // Permanencia máxima por estado (sin valor = no se vigila)
+  maxReuseCycles: number; // Ciclos NO_INSTALADO → ASIGNADO tolerados
+  quickDestructionHours: number; // Destrucción sospechosa si ocurre antes de este plazo tras asignar
+  workingHours: { start: number; end: number; days: number[] }; // Hora local [start, end) y días (0 = domingo)
+}
+
+export interface SealAlert {
+  id: string; // Determinista: la misma anomalía conserva su id entre evaluaciones
+  rule: AnomalyRuleId;
+  sealId: string;
+  sealType: string;
+  city: string;
+  date: string; // Instante del evento que dispara la alerta
+  message: string;
+}
+
+export type AlertReviewStatus = 'RECONOCIDA' | 'RESUELTA';
+
+export interface AlertReview {
+  alertId: string;
+  status: AlertReviewStatus;
+  by: string;
+  at: string;
+  note?: string;
 }
 
 export interface FilterOptions {
   idSello: string;
   estado: string;
   tipo: string;
-  fechaInicio: string;
+  fechaInicio: string; // YYYY-MM-DD en la zona horaria de la sede
   fechaFin: string;
+  fechaCampo: DateFilterField;
+  estadoMovimiento: string; // Con fechaCampo 'movimiento': estado destino buscado ('' = cualquiera)
+  ciudad?: string; // Desglose desde el dashboard ('' o ausente = todas las sedes permitidas)
+  alCorte?: string; // YYYY-MM-DD: inventario reconstruido al final de ese día ('' o ausente = inventario actual)
 }
+
+// Fecha del sello sobre la que se aplica el rango del filtro
+export type DateFilterField = 'ultimoMovimiento' | 'alta' | 'movimiento';
+
+// --- SINCRONIZACIÓN OFFLINE ---
+
+export type SyncOperationKind = 'seal.create' | 'lot.create' | 'seal.move' | 'seal.delete' | 'transfer.create' | 'transfer.receive';
+
+// Operación pendiente de enviar al backend, guardada en orden en la bandeja de salida
+export interface SyncOperation {
+  id: string;
+  kind: SyncOperationKind;
+  description: string;
+  user: string;
+  createdAt: string;
+  method: string;
+  path: string;
+  body?: any;
+}
+
+export interface SyncConflict {
+  operation: SyncOperation;
+  reason: string;
+  detectedAt: string;
+}
+
+export interface SyncState {
+  online: boolean;
+  syncing: boolean;
+  pending: number;
+  conflicts: number;
+}
+
+// --- AUDITORÍA ---
+
+export type AuditAction =
+  | 'auth.login'
+  | 'auth.loginFailed'
+  | 'auth.logout'
+  | 'auth.passwordChange'
+  | 'seal.delete'
+  | 'user.create'
+  | 'user.update'
+  | 'user.delete'
+  | 'city.create'
+  | 'city.rename'
+  | 'city.delete'
+  | 'settings.update'
+  | 'backup.restore'
+  | 'alert.review'
+  | 'report.create'
+  | 'report.update'
+  | 'report.delete'
+  | 'count.approve'
+  | 'count.cancel'
+  | 'shipment.create'
+  | 'shipment.update';
+
+// Registro inmutable de una acción administrativa o de sesión
+export interface AuditEntry {
+  id: string;
+  date: string; // ISO 8601
+  actor: string;
+  actorId?: string;
+  action: AuditAction;
+  target: string;
+  before?: unknown;
+  after?: unknown;
+}
+
+// --- RESPALDO ---
+
+export type RestoreMode = 'replace' | 'merge';